@@ -2,8 +2,10 @@ import React, {
   FC,
   Fragment,
   memo,
+  ReactNode,
   Suspense,
   useCallback,
+  useEffect,
   useMemo,
   useState,
 } from "react";
@@ -12,6 +14,7 @@ import classNames from "clsx";
 
 import AccountTypeBadge from "app/atoms/AccountTypeBadge";
 import Alert from "app/atoms/Alert";
+import Checkbox from "app/atoms/Checkbox";
 import ConfirmLedgerOverlay from "app/atoms/ConfirmLedgerOverlay";
 import FormSecondaryButton from "app/atoms/FormSecondaryButton";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
@@ -21,6 +24,7 @@ import Money from "app/atoms/Money";
 import Name from "app/atoms/Name";
 import Spinner from "app/atoms/Spinner";
 import SubTitle from "app/atoms/SubTitle";
+import TypeSelect from "app/atoms/TypeSelect";
 import ErrorBoundary from "app/ErrorBoundary";
 import ContentContainer from "app/layouts/ContentContainer";
 import Unlock from "app/pages/Unlock";
@@ -29,9 +33,18 @@ import Balance from "app/templates/Balance";
 import ConnectBanner from "app/templates/ConnectBanner";
 import CustomSelect, { OptionRenderProps } from "app/templates/CustomSelect";
 import DAppLogo from "app/templates/DAppLogo";
+import DAppNetworkMapping, {
+  ADD_DAPP_NETWORK,
+  createDAppNetwork,
+} from "app/templates/DAppNetworkMapping";
+import DAppScopes from "app/templates/DAppScopes";
 import { ModifyFeeAndLimit } from "app/templates/ExpensesView";
+import InternalConfirmation from "app/templates/InternalConfirmation";
 import NetworkBanner from "app/templates/NetworkBanner";
 import OperationView from "app/templates/OperationView";
+import OriginWarningOverlay from "app/templates/OriginWarningOverlay";
+import PendingConfirmations from "app/templates/PendingConfirmations";
+import PermitView from "app/templates/PermitView";
 import { CustomRpsContext } from "lib/analytics";
 import { T, t } from "lib/i18n/react";
 import { useRetryableSWR } from "lib/swr";
@@ -39,9 +52,13 @@ import {
   useTempleClient,
   useAccount,
   useRelevantAccounts,
+  useAllAccounts,
+  useAllNetworks,
+  useSettings,
   useCustomChainId,
   TempleAccountType,
   TempleDAppPayload,
+  TempleDAppScope,
   TempleAccount,
   TempleChainId,
 } from "lib/temple/front";
@@ -64,16 +81,8 @@ const ConfirmPage: FC = () => {
           )}
         >
           <ErrorBoundary whileMessage={t("fetchingConfirmationDetails")}>
-            <Suspense
-              fallback={
-                <div className="flex items-center justify-center h-screen">
-                  <div>
-                    <Spinner theme="primary" className="w-20" />
-                  </div>
-                </div>
-              }
-            >
-              <ConfirmDAppForm />
+            <Suspense fallback={<SpinnerSection />}>
+              <ConfirmQueue />
             </Suspense>
           </ErrorBoundary>
         </ContentContainer>
@@ -86,32 +95,152 @@ const ConfirmPage: FC = () => {
 
 export default ConfirmPage;
 
+const SpinnerSection: FC = () => (
+  <div className="flex items-center justify-center h-screen">
+    <div>
+      <Spinner theme="primary" className="w-20" />
+    </div>
+  </div>
+);
+
+/**
+ * Shows all pending confirmations in a single window
+ */
+const ConfirmQueue: FC = () => {
+  const {
+    getPendingConfirmations,
+    pendingConfirmationsUpdatedAt,
+    declineAllConfirmations,
+    confirmInternal,
+  } = useTempleClient();
+
+  const loc = useLocation();
+  const [selectedId, setSelectedId] = useState(
+    () => new URLSearchParams(loc.search).get("id") ?? undefined
+  );
+
+  const { data, revalidate } = useRetryableSWR(
+    ["pending-confirmations"],
+    getPendingConfirmations,
+    {
+      suspense: true,
+      shouldRetryOnError: false,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+    }
+  );
+  const confirmations = data!;
+
+  useEffect(() => {
+    if (pendingConfirmationsUpdatedAt) {
+      revalidate();
+    }
+  }, [pendingConfirmationsUpdatedAt, revalidate]);
+
+  // Next one is shown, when selected confirmation is resolved
+  const selected =
+    confirmations.find(({ id }) => id === selectedId) ?? confirmations[0];
+
+  const handleInternalConfirm = useCallback(
+    async (
+      confirmed: boolean,
+      modifiedTotalFee?: number,
+      modifiedStorageLimit?: number
+    ) => {
+      if (selected) {
+        await confirmInternal(
+          selected.id,
+          confirmed,
+          modifiedTotalFee,
+          modifiedStorageLimit
+        );
+      }
+    },
+    [selected, confirmInternal]
+  );
+
+  const header = (
+    <PendingConfirmations
+      confirmations={confirmations}
+      selectedId={selected?.id}
+      onSelect={setSelectedId}
+      onDeclineAll={declineAllConfirmations}
+      className="px-4 pt-2"
+    />
+  );
+
+  if (!selected) {
+    return (
+      <div
+        className={classNames(
+          "bg-white rounded-md shadow-md",
+          "flex flex-col items-center justify-center"
+        )}
+        style={{ width: 380, height: 610 }}
+      >
+        <T id="noPendingRequests">
+          {(message) => <p className="text-sm text-gray-600">{message}</p>}
+        </T>
+      </div>
+    );
+  }
+
+  return selected.kind === "dapp" ? (
+    <Suspense fallback={<SpinnerSection />}>
+      <ConfirmDAppForm key={selected.id} id={selected.id} header={header} />
+    </Suspense>
+  ) : (
+    <div
+      className="bg-white rounded-md shadow-md overflow-y-auto"
+      style={{ width: 380, height: 610 }}
+    >
+      {header}
+      <InternalConfirmation
+        key={selected.id}
+        payload={selected.payload}
+        onConfirm={handleInternalConfirm}
+      />
+    </div>
+  );
+};
+
 const getPkh = (account: TempleAccount) => account.publicKeyHash;
 
-const ConfirmDAppForm: FC = () => {
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const SESSION_TTLS: { ttl: number; i18nKey: string }[] = [
+  { ttl: 0, i18nKey: "untilDisconnected" },
+  { ttl: HOUR, i18nKey: "oneHour" },
+  { ttl: DAY, i18nKey: "oneDay" },
+  { ttl: 7 * DAY, i18nKey: "oneWeek" },
+  { ttl: 30 * DAY, i18nKey: "oneMonth" },
+];
+
+type ConfirmDAppFormProps = {
+  id: string;
+  header?: ReactNode;
+};
+
+const ConfirmDAppForm: FC<ConfirmDAppFormProps> = ({ id, header }) => {
   const {
     getDAppPayload,
     confirmDAppPermission,
     confirmDAppOperation,
     confirmDAppSign,
+    getOriginExceptions,
+    setOriginExceptions,
+    updateSettings,
   } = useTempleClient();
+  const { customNetworks = [], lambdaContracts } = useSettings();
+  const allNetworks = useAllNetworks();
   const allAccounts = useRelevantAccounts(false);
+  const allAccountsWithHidden = useAllAccounts();
   const account = useAccount();
 
   const [accountPkhToConnect, setAccountPkhToConnect] = useState(
     account.publicKeyHash
   );
 
-  const loc = useLocation();
-  const id = useMemo(() => {
-    const usp = new URLSearchParams(loc.search);
-    const id = usp.get("id");
-    if (!id) {
-      throw new Error(t("notIdentified"));
-    }
-    return id;
-  }, [loc.search]);
-
   const { data } = useRetryableSWR<TempleDAppPayload>([id], getDAppPayload, {
     suspense: true,
     shouldRetryOnError: false,
@@ -120,17 +249,44 @@ const ConfirmDAppForm: FC = () => {
   });
   const payload = data!;
 
+  const [scopesToGrant, setScopesToGrant] = useState<TempleDAppScope[]>(() =>
+    payload.type === "connect" ? payload.scopes : []
+  );
+  const [additionalPkhsToConnect, setAdditionalPkhsToConnect] = useState<
+    string[]
+  >([]);
+  const [sessionTtl, setSessionTtl] = useState(0);
+  const [networkChoice, setNetworkChoice] = useState("");
+
+  const sessionTtlOptions = useMemo(
+    () =>
+      SESSION_TTLS.map(({ ttl, i18nKey }) => ({
+        type: ttl,
+        name: t(i18nKey),
+      })),
+    []
+  );
+
+  const handleAdditionalAccountToggle = useCallback(
+    (pkh: string, checked: boolean) => {
+      setAdditionalPkhsToConnect((pkhs) =>
+        checked ? [...pkhs, pkh] : pkhs.filter((p) => p !== pkh)
+      );
+    },
+    []
+  );
+
   const chainId = useCustomChainId(payload.networkRpc, true)!;
   const mainnet = chainId === TempleChainId.Mainnet;
 
   const connectedAccount = useMemo(
     () =>
-      allAccounts.find(
+      allAccountsWithHidden.find(
         (a) =>
           a.publicKeyHash ===
           (payload.type === "connect" ? accountPkhToConnect : payload.sourcePkh)
       ),
-    [payload, allAccounts, accountPkhToConnect]
+    [payload, allAccountsWithHidden, accountPkhToConnect]
   );
 
   const AccountOptionContent = useMemo(
@@ -146,7 +302,28 @@ const ConfirmDAppForm: FC = () => {
     ) => {
       switch (payload.type) {
         case "connect":
-          return confirmDAppPermission(id, confimed, accountPkhToConnect);
+          if (confimed && networkChoice === ADD_DAPP_NETWORK) {
+            await updateSettings({
+              customNetworks: [
+                ...customNetworks,
+                createDAppNetwork(payload, lambdaContracts),
+              ],
+            });
+          }
+
+          return confirmDAppPermission(
+            id,
+            confimed,
+            accountPkhToConnect,
+            scopesToGrant,
+            additionalPkhsToConnect.filter(
+              (pkh) => pkh !== accountPkhToConnect
+            ),
+            sessionTtl || undefined,
+            networkChoice && networkChoice !== ADD_DAPP_NETWORK
+              ? networkChoice
+              : undefined
+          );
 
         case "confirm_operations":
           return confirmDAppOperation(
@@ -157,16 +334,24 @@ const ConfirmDAppForm: FC = () => {
           );
 
         case "sign":
+        case "permit":
           return confirmDAppSign(id, confimed);
       }
     },
     [
       id,
-      payload.type,
+      payload,
       confirmDAppPermission,
       confirmDAppOperation,
       confirmDAppSign,
       accountPkhToConnect,
+      scopesToGrant,
+      additionalPkhsToConnect,
+      sessionTtl,
+      networkChoice,
+      updateSettings,
+      customNetworks,
+      lambdaContracts,
     ]
   );
 
@@ -245,6 +430,30 @@ const ConfirmDAppForm: FC = () => {
 
   const handleErrorAlertClose = useCallback(() => setError(null), [setError]);
 
+  const [originTrusted, setOriginTrusted] = useState(false);
+  const originReputation =
+    payload.type === "connect" ? payload.reputation : undefined;
+  const originBlocked =
+    originReputation?.status === "blocked" && !originTrusted;
+
+  const handleTrustOriginClick = useCallback(async () => {
+    try {
+      const exceptions = await getOriginExceptions();
+      await setOriginExceptions([...exceptions, payload.origin]);
+      setOriginTrusted(true);
+    } catch (err) {
+      setError(err);
+    }
+  }, [getOriginExceptions, setOriginExceptions, payload.origin, setError]);
+
+  const networkKnown = useMemo(
+    () => allNetworks.some((n) => n.rpcBaseURL === payload.networkRpc),
+    [allNetworks, payload.networkRpc]
+  );
+
+  const policyViolation =
+    payload.type === "confirm_operations" ? payload.policyViolation : undefined;
+
   const content = useMemo(() => {
     switch (payload.type) {
       case "connect":
@@ -311,8 +520,12 @@ const ConfirmDAppForm: FC = () => {
         };
 
       case "sign":
+      case "permit":
         return {
-          title: t("confirmAction", t("signAction").toLowerCase()),
+          title: t(
+            "confirmAction",
+            t(payload.type === "sign" ? "signAction" : "permit").toLowerCase()
+          ),
           declineActionTitle: t("reject"),
           declineActionTestID: ConfirmPageSelectors.SignAction_RejectButton,
           confirmActionTitle: t("signAction"),
@@ -331,7 +544,11 @@ const ConfirmDAppForm: FC = () => {
                 </Name>
               </div>
               <T
-                id="appRequestsToSign"
+                id={
+                  payload.type === "sign"
+                    ? "appRequestsToSign"
+                    : "appRequestsPermit"
+                }
                 substitutions={[
                   <Name className="max-w-full text-xs italic" key="origin">
                     {payload.origin}
@@ -379,6 +596,8 @@ const ConfirmDAppForm: FC = () => {
           height: 610,
         }}
       >
+        {header}
+
         <div className="flex flex-col items-center px-4 py-2">
           <SubTitle
             small
@@ -434,6 +653,36 @@ const ConfirmDAppForm: FC = () => {
                 narrow={payload.type === "connect"}
               />
 
+              {originReputation?.status === "suspicious" && (
+                <Alert
+                  type="warn"
+                  title={t("suspiciousWebsite")}
+                  description={t(
+                    "originLookalikeWarning",
+                    originReputation.similarTo
+                  )}
+                  className="mb-4"
+                />
+              )}
+
+              {payload.type === "connect" && !networkKnown && (
+                <DAppNetworkMapping
+                  payload={payload}
+                  value={networkChoice}
+                  onChange={setNetworkChoice}
+                  className="mb-4"
+                />
+              )}
+
+              {policyViolation && (
+                <Alert
+                  type="warn"
+                  title={t("blockedByAccountPolicy")}
+                  description={policyViolation}
+                  className="mb-4"
+                />
+              )}
+
               {payload.type === "connect" ? (
                 <div className={classNames("w-full", "flex flex-col")}>
                   <h2
@@ -476,7 +725,105 @@ const ConfirmDAppForm: FC = () => {
                     OptionContent={AccountOptionContent}
                     autoFocus
                   />
+
+                  {allAccounts.length > 1 && (
+                    <>
+                      <h2
+                        className={classNames(
+                          "mt-4 mb-2",
+                          "leading-tight",
+                          "flex flex-col"
+                        )}
+                      >
+                        <T id="additionalAccounts">
+                          {(message) => (
+                            <span className="text-base font-semibold text-gray-700">
+                              {message}
+                            </span>
+                          )}
+                        </T>
+                      </h2>
+
+                      {allAccounts
+                        .filter(
+                          (acc) => acc.publicKeyHash !== accountPkhToConnect
+                        )
+                        .map((acc) => (
+                          <label
+                            key={acc.publicKeyHash}
+                            className="mb-1 flex items-center cursor-pointer"
+                          >
+                            <Checkbox
+                              checked={additionalPkhsToConnect.includes(
+                                acc.publicKeyHash
+                              )}
+                              onChange={(evt) =>
+                                handleAdditionalAccountToggle(
+                                  acc.publicKeyHash,
+                                  evt.target.checked
+                                )
+                              }
+                              containerClassName="mr-2"
+                            />
+
+                            <Name className="text-xs font-medium text-gray-700">
+                              {acc.name}
+                            </Name>
+
+                            <span className="ml-2 text-xs text-gray-500">
+                              <HashShortView hash={acc.publicKeyHash} />
+                            </span>
+                          </label>
+                        ))}
+                    </>
+                  )}
+
+                  <h2
+                    className={classNames(
+                      "mt-4 mb-2",
+                      "leading-tight",
+                      "flex flex-col"
+                    )}
+                  >
+                    <T id="permissions">
+                      {(message) => (
+                        <span className="text-base font-semibold text-gray-700">
+                          {message}
+                        </span>
+                      )}
+                    </T>
+                  </h2>
+
+                  <DAppScopes
+                    scopes={payload.scopes}
+                    value={scopesToGrant}
+                    onChange={setScopesToGrant}
+                  />
+
+                  <h2
+                    className={classNames(
+                      "mt-4 mb-2",
+                      "leading-tight",
+                      "flex flex-col"
+                    )}
+                  >
+                    <T id="sessionDuration">
+                      {(message) => (
+                        <span className="text-base font-semibold text-gray-700">
+                          {message}
+                        </span>
+                      )}
+                    </T>
+                  </h2>
+
+                  <TypeSelect
+                    options={sessionTtlOptions}
+                    value={sessionTtl}
+                    onChange={setSessionTtl}
+                  />
                 </div>
+              ) : payload.type === "permit" ? (
+                <PermitView payload={payload} />
               ) : (
                 <OperationView
                   payload={payload}
@@ -516,6 +863,7 @@ const ConfirmDAppForm: FC = () => {
               type="button"
               className="justify-center w-full"
               loading={confirming}
+              disabled={Boolean(policyViolation) || originBlocked}
               onClick={handleConfirmClick}
               testID={content.confirmActionTestID}
             >
@@ -529,6 +877,16 @@ const ConfirmDAppForm: FC = () => {
             confirming && connectedAccount?.type === TempleAccountType.Ledger
           }
         />
+
+        {originBlocked && originReputation && (
+          <OriginWarningOverlay
+            origin={payload.origin}
+            reputation={originReputation}
+            declining={declining}
+            onDecline={handleDeclineClick}
+            onTrust={handleTrustOriginClick}
+          />
+        )}
       </div>
     </CustomRpsContext.Provider>
   );
@@ -549,6 +907,11 @@ const AccountOptionContentHOC = (networkRpc: string) => {
       <div className="flex flex-wrap items-center">
         <Name className="text-sm font-medium leading-tight">{acc.name}</Name>
         <AccountTypeBadge account={acc} />
+        {acc.groupName && (
+          <span className="ml-2 text-xs leading-tight text-gray-500">
+            {acc.groupName}
+          </span>
+        )}
       </div>
 
       <div className="flex flex-wrap items-center mt-1">
@@ -2,17 +2,23 @@ import React, { FC, useLayoutEffect, useMemo } from "react";
 
 import { OpenInFullPage, useAppEnv } from "app/env";
 import AddToken from "app/pages/AddToken";
+import Collectible from "app/pages/Collectible";
 import ConnectLedger from "app/pages/ConnectLedger";
 import CreateAccount from "app/pages/CreateAccount";
 import CreateWallet from "app/pages/CreateWallet";
+import DAppActivity from "app/pages/DAppActivity";
 import DApps from "app/pages/DApps";
 import Delegate from "app/pages/Delegate";
+import DiscoverAccounts from "app/pages/DiscoverAccounts";
 import Explore from "app/pages/Explore";
+import ExportHistory from "app/pages/ExportHistory";
 import ImportAccount from "app/pages/ImportAccount";
 import ImportWallet from "app/pages/ImportWallet";
 import ManageAssets from "app/pages/ManageAssets";
+import Multisig from "app/pages/Multisig";
 import Receive from "app/pages/Receive";
 import Send from "app/pages/Send";
+import SendCollectible from "app/pages/SendCollectible";
 import Settings from "app/pages/Settings";
 import Swap from "app/pages/Swap";
 import Unlock from "app/pages/Unlock";
@@ -32,8 +38,8 @@ type RouteFactory = Woozie.Router.ResolveResult<RouteContext>;
 
 const ROUTE_MAP = Woozie.Router.createMap<RouteContext>([
   [
-    "/import-wallet",
-    (_p, ctx) => {
+    "/import-wallet/:tabSlug?",
+    ({ tabSlug }, ctx) => {
       switch (true) {
         case ctx.ready:
           return Woozie.Router.SKIP;
@@ -42,7 +48,7 @@ const ROUTE_MAP = Woozie.Router.createMap<RouteContext>([
           return <OpenInFullPage />;
 
         default:
-          return <ImportWallet />;
+          return <ImportWallet tabSlug={tabSlug} />;
       }
     },
   ],
@@ -68,6 +74,7 @@ const ROUTE_MAP = Woozie.Router.createMap<RouteContext>([
   ],
   ["/create-wallet", onlyNotReady(() => <CreateWallet />)],
   ["/create-account", onlyReady(() => <CreateAccount />)],
+  ["/discover-accounts", onlyReady(() => <DiscoverAccounts />)],
   [
     "/import-account/:tabSlug?",
     onlyReady(({ tabSlug }) => <ImportAccount tabSlug={tabSlug} />),
@@ -85,13 +92,29 @@ const ROUTE_MAP = Woozie.Router.createMap<RouteContext>([
     "/send/:assetSlug?",
     onlyReady(({ assetSlug }) => <Send assetSlug={assetSlug} />),
   ],
+  [
+    "/collectible/:assetSlug",
+    onlyReady(({ assetSlug }) => <Collectible assetSlug={assetSlug} />),
+  ],
+  [
+    "/send-collectible/:assetSlug",
+    onlyReady(({ assetSlug }) => <SendCollectible assetSlug={assetSlug} />),
+  ],
   [
     "/swap/:assetSlug?",
     onlyReady(({ assetSlug }) => <Swap assetSlug={assetSlug} />),
   ],
   ["/delegate", onlyReady(() => <Delegate />)],
   ["/dapps", onlyReady(() => <DApps />)],
+  [
+    "/dapp-activity/:origin",
+    onlyReady(({ origin }) => (
+      <DAppActivity origin={decodeURIComponent(origin!)} />
+    )),
+  ],
+  ["/export-history", onlyReady(() => <ExportHistory />)],
   ["/manage-assets", onlyReady(() => <ManageAssets />)],
+  ["/multisig", onlyReady(() => <Multisig />)],
   ["/add-token", onlyReady(onlyInFullPage(() => <AddToken />))],
   [
     "/settings/:tabSlug?",
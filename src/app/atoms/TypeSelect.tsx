@@ -0,0 +1,92 @@
+import React, { useCallback } from "react";
+
+import classNames from "clsx";
+
+import { ReactComponent as OkIcon } from "app/icons/ok.svg";
+
+export type TypeSelectOption<T extends string | number> = {
+  type: T;
+  name: string;
+};
+type TypeSelectProps<T extends string | number> = {
+  options: TypeSelectOption<T>[];
+  value?: T;
+  onChange: (value: T) => void;
+};
+
+const TypeSelect = <T extends string | number>(props: TypeSelectProps<T>) => {
+  const { options, value, onChange } = props;
+
+  return (
+    <div
+      className={classNames(
+        "rounded-md overflow-hidden",
+        "border-2 bg-gray-100",
+        "flex flex-col",
+        "text-gray-700 text-sm leading-tight"
+      )}
+    >
+      {options.map((option, index) => (
+        <TypeSelectItem
+          key={option.type}
+          option={option}
+          onSelect={onChange}
+          selected={option.type === value}
+          last={index === options.length - 1}
+        />
+      ))}
+    </div>
+  );
+};
+
+type TypeSelectItemProps<T extends string | number> = {
+  option: TypeSelectOption<T>;
+  onSelect: (value: T) => void;
+  selected: boolean;
+  last: boolean;
+};
+
+const TypeSelectItem = <T extends string | number>(
+  props: TypeSelectItemProps<T>
+) => {
+  const { option, onSelect, selected, last } = props;
+
+  const handleClick = useCallback(
+    () => onSelect(option.type),
+    [onSelect, option.type]
+  );
+
+  return (
+    <button
+      type="button"
+      className={classNames(
+        "block w-full",
+        "overflow-hidden",
+        !last && "border-b border-gray-200",
+        selected ? "bg-gray-300" : "hover:bg-gray-200 focus:bg-gray-200",
+        "flex items-center",
+        "text-gray-700",
+        "transition ease-in-out duration-200",
+        "focus:outline-none",
+        "opacity-90 hover:opacity-100"
+      )}
+      style={{
+        padding: "0.4rem 0.375rem 0.4rem 0.375rem",
+      }}
+      onClick={handleClick}
+    >
+      {option.name}
+      <div className="flex-1" />
+      {selected && (
+        <OkIcon
+          className={classNames("mx-2 h-4 w-auto stroke-2")}
+          style={{
+            stroke: "#777",
+          }}
+        />
+      )}
+    </button>
+  );
+};
+
+export default TypeSelect;
@@ -4,6 +4,7 @@ import tezImgUrl from "app/misc/tez.png";
 import { T, t } from "lib/i18n/react";
 import { sanitizeImgUri } from "lib/image-uri";
 import {
+  DerivationType,
   TempleAccount,
   TempleAsset,
   TempleAssetType,
@@ -28,6 +29,21 @@ export const PASSWORD_PATTERN = new RegExp(
   ].join("")
 );
 
+export const DERIVATION_TYPES = [
+  {
+    type: DerivationType.ED25519,
+    name: "ED25519 (tz1...)",
+  },
+  {
+    type: DerivationType.SECP256K1,
+    name: "SECP256K1 (tz2...)",
+  },
+  {
+    type: DerivationType.P256,
+    name: "P256 (tz3...)",
+  },
+];
+
 export const URL_PATTERN =
   /^((?:http(s)?:\/\/)?[\w.-]+(?:\.[\w.-]+)+[\w\-._~:/?#[\]@!$&'()*+,;=.]+)|(http(s)?:\/\/localhost:[0-9]+)$/;
 
@@ -48,6 +64,15 @@ export const MNEMONIC_ERROR_CAPTION = (
   </ul>
 );
 
+export const SEED_SHARES_ERROR_CAPTION = (
+  <ul className="list-disc list-inside">
+    <T id="seedSharesLinesConstraint">{(message) => <li>{message}</li>}</T>
+    <T id="justValidSeedShares">{(message) => <li>{message}</li>}</T>
+  </ul>
+);
+
+export const SEED_SHARES_PASSPHRASE_PATTERN = /^[\x20-\x7E]*$/;
+
 export function formatMnemonic(m: string) {
   return m.replace(/\n/g, " ").trim();
 }
@@ -71,6 +96,9 @@ export function getAccountBadgeTitle(account: Pick<TempleAccount, "type">) {
     case TempleAccountType.WatchOnly:
       return t("watchOnlyAccount");
 
+    case TempleAccountType.Multisig:
+      return t("multisigAccount");
+
     default:
       return null;
   }
@@ -149,7 +149,9 @@ const AccountDropdown: FC<AccountDropdownProps> = ({ opened, setOpened }) => {
         style={{ maxHeight: "10rem" }}
       >
         <div className="flex flex-col">
-          {allAccounts.map((acc) => {
+          {allAccounts.map((acc, i, arr) => {
+            const groupStart =
+              acc.groupName && acc.groupName !== arr[i - 1]?.groupName;
             const selected = acc.publicKeyHash === account.publicKeyHash;
             const handleAccountClick = () => {
               if (!selected) {
@@ -159,61 +161,74 @@ const AccountDropdown: FC<AccountDropdownProps> = ({ opened, setOpened }) => {
             };
 
             return (
-              <Button
-                key={acc.publicKeyHash}
-                className={classNames(
-                  "block w-full",
-                  "overflow-hidden",
-                  "flex items-center",
-                  "text-white text-shadow-black",
-                  "transition ease-in-out duration-200",
-                  selected && "shadow",
-                  selected
-                    ? "bg-white bg-opacity-10"
-                    : "hover:bg-white hover:bg-opacity-5",
-                  !selected && "opacity-75 hover:opacity-100"
+              <React.Fragment key={acc.publicKeyHash}>
+                {groupStart && (
+                  <div
+                    className={classNames(
+                      "px-2 pt-2 pb-1",
+                      "text-xs font-medium text-white text-opacity-50",
+                      "uppercase"
+                    )}
+                  >
+                    {acc.groupName}
+                  </div>
                 )}
-                style={{
-                  padding: "0.375rem",
-                }}
-                onClick={handleAccountClick}
-                testID={AccountDropdownSelectors.AccountItemButton}
-                autoFocus={selected}
-              >
-                <Identicon
-                  type="bottts"
-                  hash={acc.publicKeyHash}
-                  size={32}
-                  className="flex-shrink-0 shadow-xs-white"
-                />
 
-                <div className="flex flex-col items-start ml-2">
-                  <Name
-                    className="text-sm font-medium leading-none"
-                    style={{ paddingBottom: 3 }}
-                  >
-                    {acc.name}
-                  </Name>
+                <Button
+                  className={classNames(
+                    "block w-full",
+                    "overflow-hidden",
+                    "flex items-center",
+                    "text-white text-shadow-black",
+                    "transition ease-in-out duration-200",
+                    selected && "shadow",
+                    selected
+                      ? "bg-white bg-opacity-10"
+                      : "hover:bg-white hover:bg-opacity-5",
+                    !selected && "opacity-75 hover:opacity-100"
+                  )}
+                  style={{
+                    padding: "0.375rem",
+                  }}
+                  onClick={handleAccountClick}
+                  testID={AccountDropdownSelectors.AccountItemButton}
+                  autoFocus={selected}
+                >
+                  <Identicon
+                    type="bottts"
+                    hash={acc.publicKeyHash}
+                    size={32}
+                    className="flex-shrink-0 shadow-xs-white"
+                  />
 
-                  <div className="flex flex-wrap items-center">
-                    <Balance address={acc.publicKeyHash}>
-                      {(bal) => (
-                        <span
-                          className={classNames(
-                            "text-xs leading-tight",
-                            "text-white text-opacity-75"
-                          )}
-                        >
-                          <Money tooltip={false}>{bal}</Money>{" "}
-                          <span style={{ fontSize: "0.5rem" }}>tez</span>
-                        </span>
-                      )}
-                    </Balance>
+                  <div className="flex flex-col items-start ml-2">
+                    <Name
+                      className="text-sm font-medium leading-none"
+                      style={{ paddingBottom: 3 }}
+                    >
+                      {acc.name}
+                    </Name>
 
-                    <AccountTypeBadge account={acc} darkTheme />
+                    <div className="flex flex-wrap items-center">
+                      <Balance address={acc.publicKeyHash}>
+                        {(bal) => (
+                          <span
+                            className={classNames(
+                              "text-xs leading-tight",
+                              "text-white text-opacity-75"
+                            )}
+                          >
+                            <Money tooltip={false}>{bal}</Money>{" "}
+                            <span style={{ fontSize: "0.5rem" }}>tez</span>
+                          </span>
+                        )}
+                      </Balance>
+
+                      <AccountTypeBadge account={acc} darkTheme />
+                    </div>
                   </div>
-                </div>
-              </Button>
+                </Button>
+              </React.Fragment>
             );
           })}
         </div>
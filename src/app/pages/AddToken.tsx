@@ -103,10 +103,12 @@ const Form: FC = () => {
     useState<ReactNode>(null);
   const [bottomSectionVisible, setBottomSectionVisible] = useSafeState(false);
   const [loadingToken, setLoadingToken] = useState(false);
+  const [tokenFungible, setTokenFungible] = useState(true);
 
   useEffect(() => {
     setTokenValidationError(null);
     setBottomSectionVisible(false);
+    setTokenFungible(true);
     if (
       validateContractAddress(contractAddress) !== true ||
       tokenId === undefined ||
@@ -165,6 +167,9 @@ const Form: FC = () => {
           { decimals: tokenData.decimals },
           { iconUrl: tokenData.iconUrl },
         ]);
+        setTokenFungible(
+          tokenType === TempleAssetType.FA1_2 || tokenData.fungible
+        );
         setBottomSectionVisible(true);
       } catch (e) {
         withErrorHumanDelay(e, () => {
@@ -224,7 +229,7 @@ const Form: FC = () => {
           name,
           decimals: decimals ? +decimals : 0,
           iconUrl: iconUrl ? formatImgUri(iconUrl) : undefined,
-          fungible: true,
+          fungible: tokenFungible,
           status: "displayed" as const,
         };
 
@@ -248,10 +253,14 @@ const Form: FC = () => {
 
         formAnalytics.trackSubmitSuccess();
 
-        navigate({
-          pathname: `/explore/${assetKey}`,
-          search: "after_token_added=true",
-        });
+        navigate(
+          tokenFungible
+            ? {
+                pathname: `/explore/${assetKey}`,
+                search: "after_token_added=true",
+              }
+            : `/collectible/${assetKey}`
+        );
       } catch (err) {
         formAnalytics.trackSubmitFail();
 
@@ -264,7 +273,7 @@ const Form: FC = () => {
         setSubmitError(err.message);
       }
     },
-    [formState.isSubmitting, addToken, formAnalytics]
+    [formState.isSubmitting, addToken, formAnalytics, tokenFungible]
   );
 
   const isFA12Token = tokenType === TempleAssetType.FA1_2;
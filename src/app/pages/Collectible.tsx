@@ -0,0 +1,173 @@
+import React, { FC, ReactNode } from "react";
+
+import classNames from "clsx";
+
+import Money from "app/atoms/Money";
+import { ReactComponent as SendIcon } from "app/icons/send-alt.svg";
+import { ReactComponent as WallpaperIcon } from "app/icons/wallpaper.svg";
+import PageLayout from "app/layouts/PageLayout";
+import AssetInfo from "app/templates/AssetInfo";
+import Balance from "app/templates/Balance";
+import CollectibleViewer from "app/templates/CollectibleViewer";
+import HashChip from "app/templates/HashChip";
+import { T } from "lib/i18n/react";
+import {
+  getAssetKey,
+  isCollectible,
+  TempleAccountType,
+  TempleFA2Asset,
+  useAccount,
+  useAssetBySlug,
+  useCollectibleMetadata,
+} from "lib/temple/front";
+import { Link, Redirect } from "lib/woozie";
+
+type CollectibleProps = {
+  assetSlug?: string | null;
+};
+
+const Collectible: FC<CollectibleProps> = ({ assetSlug }) => {
+  const asset = useAssetBySlug(assetSlug);
+
+  if (!asset || !isCollectible(asset)) {
+    return <Redirect to="/?tab=collectibles" />;
+  }
+
+  return (
+    <PageLayout
+      pageTitle={
+        <>
+          <WallpaperIcon className="w-auto h-4 mr-1 stroke-current" />
+          <T id="collectible" />
+        </>
+      }
+    >
+      <div className="py-4">
+        <div className="w-full max-w-sm mx-auto">
+          <CollectibleDetails asset={asset} />
+        </div>
+      </div>
+    </PageLayout>
+  );
+};
+
+export default Collectible;
+
+type CollectibleDetailsProps = {
+  asset: TempleFA2Asset;
+};
+
+const CollectibleDetails: FC<CollectibleDetailsProps> = ({ asset }) => {
+  const account = useAccount();
+  const { data: metadata } = useCollectibleMetadata(asset);
+  const { name, description, creators, attributes, tags } = metadata!;
+
+  // Token transfers are signed by the account itself
+  const canSend = [
+    TempleAccountType.WatchOnly,
+    TempleAccountType.Multisig,
+    TempleAccountType.ManagedKT,
+  ].every((type) => account.type !== type);
+
+  return (
+    <>
+      <CollectibleViewer metadata={metadata!} className="mb-4" />
+
+      <div className="mb-4 flex items-center">
+        <div className="flex-1 min-w-0">
+          <h2 className="text-lg font-semibold text-gray-700 truncate">
+            {name}
+          </h2>
+
+          <Balance address={account.publicKeyHash} asset={asset}>
+            {(balance) => (
+              <div className="text-xs font-light text-gray-600">
+                <T id="owned" />: <Money>{balance}</Money>
+              </div>
+            )}
+          </Balance>
+        </div>
+
+        {canSend && (
+          <Link
+            to={`/send-collectible/${getAssetKey(asset)}`}
+            className={classNames(
+              "ml-2 py-1 px-3",
+              "bg-blue-500 rounded",
+              "flex items-center",
+              "text-white text-sm font-medium",
+              "transition ease-in-out duration-200",
+              "opacity-90 hover:opacity-100 focus:opacity-100"
+            )}
+          >
+            <SendIcon className="mr-1 h-4 w-auto stroke-current stroke-2" />
+            <T id="send" />
+          </Link>
+        )}
+      </div>
+
+      {description && (
+        <p className="mb-4 text-sm text-gray-700 whitespace-pre-line break-words">
+          {description}
+        </p>
+      )}
+
+      {creators.length > 0 && (
+        <DetailsSection title={<T id="creators" />}>
+          <div className="flex flex-wrap">
+            {creators.map((creator) => (
+              <HashChip key={creator} hash={creator} className="mr-1 mb-1" />
+            ))}
+          </div>
+        </DetailsSection>
+      )}
+
+      {attributes.length > 0 && (
+        <DetailsSection title={<T id="attributes" />}>
+          <div className="-mx-1 flex flex-wrap">
+            {attributes.map(({ name, value }) => (
+              <div key={name} className="w-1/2 p-1">
+                <div className="px-2 py-1 rounded border border-gray-200">
+                  <div className="text-xs text-gray-500 truncate">{name}</div>
+                  <div className="text-sm text-gray-700 truncate">{value}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </DetailsSection>
+      )}
+
+      {tags.length > 0 && (
+        <DetailsSection title={<T id="tags" />}>
+          <div className="flex flex-wrap">
+            {tags.map((tag) => (
+              <span
+                key={tag}
+                className={classNames(
+                  "mr-1 mb-1 px-2 py-px",
+                  "rounded-full border border-gray-300",
+                  "text-xs text-gray-600"
+                )}
+              >
+                {tag}
+              </span>
+            ))}
+          </div>
+        </DetailsSection>
+      )}
+
+      <AssetInfo asset={asset} />
+    </>
+  );
+};
+
+type DetailsSectionProps = {
+  title: ReactNode;
+};
+
+const DetailsSection: FC<DetailsSectionProps> = ({ title, children }) => (
+  <div className="mb-4">
+    <h3 className="mb-1 text-sm font-semibold text-gray-700">{title}</h3>
+    {children}
+  </div>
+);
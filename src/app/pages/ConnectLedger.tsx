@@ -15,9 +15,11 @@ import Alert from "app/atoms/Alert";
 import ConfirmLedgerOverlay from "app/atoms/ConfirmLedgerOverlay";
 import FormField from "app/atoms/FormField";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
+import TypeSelect from "app/atoms/TypeSelect";
+import { DERIVATION_TYPES } from "app/defaults";
 import { ReactComponent as LinkIcon } from "app/icons/link.svg";
-import { ReactComponent as OkIcon } from "app/icons/ok.svg";
 import PageLayout from "app/layouts/PageLayout";
+import LedgerAccountsDiscovery from "app/templates/LedgerAccountsDiscovery";
 import { useFormAnalytics } from "lib/analytics";
 import { T, t } from "lib/i18n/react";
 import {
@@ -52,18 +54,14 @@ const DERIVATION_PATHS = [
   },
 ];
 
-const DERIVATION_TYPES = [
+const MODES = [
   {
-    type: DerivationType.ED25519,
-    name: "ED25519 (tz1...)",
+    type: "single",
+    name: t("singleLedgerAccount"),
   },
   {
-    type: DerivationType.SECP256K1,
-    name: "SECP256K1 (tz2...)",
-  },
-  {
-    type: DerivationType.P256,
-    name: "P256 (tz3...)",
+    type: "discover",
+    name: t("discoverLedgerAccounts"),
   },
 ];
 
@@ -105,6 +103,7 @@ const ConnectLedger: FC = () => {
   const submitting = formState.isSubmitting;
 
   const [error, setError] = useState<ReactNode>(null);
+  const [mode, setMode] = useState(MODES[0].type);
   const [derivationPathType, setDerivationPathType] = useState(
     DERIVATION_PATHS[0].type
   );
@@ -160,130 +159,142 @@ const ConnectLedger: FC = () => {
     >
       <div className="relative w-full">
         <div className="w-full max-w-sm mx-auto mt-6 mb-8">
-          <form onSubmit={handleSubmit(onSubmit)}>
-            {error && (
-              <Alert
-                type="error"
-                title={t("error")}
-                autoFocus
-                description={error}
-                className="mb-6"
-              />
-            )}
-
-            <FormField
-              ref={register({
-                pattern: {
-                  value: /^.{0,16}$/,
-                  message: t("ledgerNameConstraint"),
-                },
-              })}
-              label={t("accountName")}
-              labelDescription={t("ledgerNameInputDescription")}
-              id="create-ledger-name"
-              type="text"
-              name="name"
-              placeholder={defaultName}
-              errorCaption={errors.name?.message}
-              containerClassName="mb-4"
-            />
-
-            <div className="mb-4 flex flex-col">
-              <h2 className="mb-4 leading-tight flex flex-col">
-                <span className="text-base font-semibold text-gray-700">
-                  <T id="derivationType" />{" "}
-                  <span className="text-sm font-light text-gray-600">
-                    <T id="optionalComment" />
-                  </span>
-                </span>
+          <div className="mb-6">
+            <TypeSelect options={MODES} value={mode} onChange={setMode} />
+          </div>
+
+          {mode === "discover" ? (
+            <LedgerAccountsDiscovery />
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)}>
+              {error && (
+                <Alert
+                  type="error"
+                  title={t("error")}
+                  autoFocus
+                  description={error}
+                  className="mb-6"
+                />
+              )}
 
-                <span
-                  className="mt-1 text-xs font-light text-gray-600"
-                  style={{ maxWidth: "90%" }}
-                >
-                  <T id="derivationTypeFieldDescription" />
-                </span>
-              </h2>
-              <Controller
-                as={TypeSelect}
-                control={control}
-                name="derivationType"
-                options={DERIVATION_TYPES}
+              <FormField
+                ref={register({
+                  pattern: {
+                    value: /^.{0,16}$/,
+                    message: t("ledgerNameConstraint"),
+                  },
+                })}
+                label={t("accountName")}
+                labelDescription={t("ledgerNameInputDescription")}
+                id="create-ledger-name"
+                type="text"
+                name="name"
+                placeholder={defaultName}
+                errorCaption={errors.name?.message}
+                containerClassName="mb-4"
               />
-            </div>
 
-            <div className={classNames("mb-4", "flex flex-col")}>
-              <h2
-                className={classNames("mb-4", "leading-tight", "flex flex-col")}
-              >
-                <span className="text-base font-semibold text-gray-700">
-                  <T id="derivationPath" />{" "}
-                  <span className="text-sm font-light text-gray-600">
-                    <T id="optionalComment" />
+              <div className="mb-4 flex flex-col">
+                <h2 className="mb-4 leading-tight flex flex-col">
+                  <span className="text-base font-semibold text-gray-700">
+                    <T id="derivationType" />{" "}
+                    <span className="text-sm font-light text-gray-600">
+                      <T id="optionalComment" />
+                    </span>
                   </span>
-                </span>
 
-                <span
+                  <span
+                    className="mt-1 text-xs font-light text-gray-600"
+                    style={{ maxWidth: "90%" }}
+                  >
+                    <T id="derivationTypeFieldDescription" />
+                  </span>
+                </h2>
+                <Controller
+                  as={TypeSelect}
+                  control={control}
+                  name="derivationType"
+                  options={DERIVATION_TYPES}
+                />
+              </div>
+
+              <div className={classNames("mb-4", "flex flex-col")}>
+                <h2
                   className={classNames(
-                    "mt-1",
-                    "text-xs font-light text-gray-600"
+                    "mb-4",
+                    "leading-tight",
+                    "flex flex-col"
                   )}
-                  style={{ maxWidth: "90%" }}
                 >
-                  <T
-                    id="defaultDerivationPathLabel"
-                    substitutions={[<b>44'/1729'/0'/0'</b>]}
-                  />
-                  <br />
-                  <T id="clickOnCustomDerivationPath" />
-                </span>
-              </h2>
-              <TypeSelect
-                options={DERIVATION_PATHS}
-                value={derivationPathType}
-                onChange={setDerivationPathType}
-              />
-            </div>
-
-            {derivationPathType === "another" && (
-              <FormField
-                ref={register({
-                  min: { value: 1, message: t("positiveIntMessage") },
-                  required: t("required"),
-                })}
-                min={0}
-                type="number"
-                name="accountNumber"
-                id="importacc-acc-number"
-                label={t("accountNumber")}
-                placeholder="1"
-                errorCaption={errors.accountNumber?.message}
-              />
-            )}
+                  <span className="text-base font-semibold text-gray-700">
+                    <T id="derivationPath" />{" "}
+                    <span className="text-sm font-light text-gray-600">
+                      <T id="optionalComment" />
+                    </span>
+                  </span>
 
-            {derivationPathType === "custom" && (
-              <FormField
-                ref={register({
-                  required: t("required"),
-                  validate: validateDerivationPath,
-                })}
-                name="customDerivationPath"
-                id="importacc-cdp"
-                label={t("customDerivationPath")}
-                placeholder={t("derivationPathExample2")}
-                errorCaption={errors.customDerivationPath?.message}
-                containerClassName="mb-6"
-              />
-            )}
+                  <span
+                    className={classNames(
+                      "mt-1",
+                      "text-xs font-light text-gray-600"
+                    )}
+                    style={{ maxWidth: "90%" }}
+                  >
+                    <T
+                      id="defaultDerivationPathLabel"
+                      substitutions={[<b>44'/1729'/0'/0'</b>]}
+                    />
+                    <br />
+                    <T id="clickOnCustomDerivationPath" />
+                  </span>
+                </h2>
+                <TypeSelect
+                  options={DERIVATION_PATHS}
+                  value={derivationPathType}
+                  onChange={setDerivationPathType}
+                />
+              </div>
+
+              {derivationPathType === "another" && (
+                <FormField
+                  ref={register({
+                    min: { value: 1, message: t("positiveIntMessage") },
+                    required: t("required"),
+                  })}
+                  min={0}
+                  type="number"
+                  name="accountNumber"
+                  id="importacc-acc-number"
+                  label={t("accountNumber")}
+                  placeholder="1"
+                  errorCaption={errors.accountNumber?.message}
+                />
+              )}
 
-            <T id="addLedgerAccount">
-              {(message) => (
-                <FormSubmitButton loading={submitting} className="mt-8">
-                  {message}
-                </FormSubmitButton>
+              {derivationPathType === "custom" && (
+                <FormField
+                  ref={register({
+                    required: t("required"),
+                    validate: validateDerivationPath,
+                  })}
+                  name="customDerivationPath"
+                  id="importacc-cdp"
+                  label={t("customDerivationPath")}
+                  placeholder={t("derivationPathExample2")}
+                  errorCaption={errors.customDerivationPath?.message}
+                  containerClassName="mb-6"
+                />
               )}
-            </T>
-          </form>
+
+              <T id="addLedgerAccount">
+                {(message) => (
+                  <FormSubmitButton loading={submitting} className="mt-8">
+                    {message}
+                  </FormSubmitButton>
+                )}
+              </T>
+            </form>
+          )}
         </div>
 
         <ConfirmLedgerOverlay displayed={submitting} />
@@ -293,88 +304,3 @@ const ConnectLedger: FC = () => {
 };
 
 export default ConnectLedger;
-
-type TypeSelectOption<T extends string | number> = {
-  type: T;
-  name: string;
-};
-type TypeSelectProps<T extends string | number> = {
-  options: TypeSelectOption<T>[];
-  value?: T;
-  onChange: (value: T) => void;
-};
-
-const TypeSelect = <T extends string | number>(props: TypeSelectProps<T>) => {
-  const { options, value, onChange } = props;
-
-  return (
-    <div
-      className={classNames(
-        "rounded-md overflow-hidden",
-        "border-2 bg-gray-100",
-        "flex flex-col",
-        "text-gray-700 text-sm leading-tight"
-      )}
-    >
-      {options.map((option, index) => (
-        <TypeSelectItem
-          key={option.type}
-          option={option}
-          onSelect={onChange}
-          selected={option.type === value}
-          last={index === options.length - 1}
-        />
-      ))}
-    </div>
-  );
-};
-
-type TypeSelectItemProps<T extends string | number> = {
-  option: TypeSelectOption<T>;
-  onSelect: (value: T) => void;
-  selected: boolean;
-  last: boolean;
-};
-
-const TypeSelectItem = <T extends string | number>(
-  props: TypeSelectItemProps<T>
-) => {
-  const { option, onSelect, selected, last } = props;
-
-  const handleClick = useCallback(
-    () => onSelect(option.type),
-    [onSelect, option.type]
-  );
-
-  return (
-    <button
-      type="button"
-      className={classNames(
-        "block w-full",
-        "overflow-hidden",
-        !last && "border-b border-gray-200",
-        selected ? "bg-gray-300" : "hover:bg-gray-200 focus:bg-gray-200",
-        "flex items-center",
-        "text-gray-700",
-        "transition ease-in-out duration-200",
-        "focus:outline-none",
-        "opacity-90 hover:opacity-100"
-      )}
-      style={{
-        padding: "0.4rem 0.375rem 0.4rem 0.375rem",
-      }}
-      onClick={handleClick}
-    >
-      {option.name}
-      <div className="flex-1" />
-      {selected && (
-        <OkIcon
-          className={classNames("mx-2 h-4 w-auto stroke-2")}
-          style={{
-            stroke: "#777",
-          }}
-        />
-      )}
-    </button>
-  );
-};
@@ -1,20 +1,30 @@
-import React, { FC, useCallback, useEffect, useMemo, useRef } from "react";
+import React, {
+  FC,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 
 import { useForm } from "react-hook-form";
 
 import FormField from "app/atoms/FormField";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
+import TypeSelect from "app/atoms/TypeSelect";
+import { DERIVATION_TYPES } from "app/defaults";
 import { ReactComponent as AddIcon } from "app/icons/add.svg";
 import PageLayout from "app/layouts/PageLayout";
 import { useFormAnalytics } from "lib/analytics";
 import { T, t } from "lib/i18n/react";
 import {
+  DerivationType,
   TempleAccountType,
   useTempleClient,
   useAllAccounts,
   useSetAccountPkh,
 } from "lib/temple/front";
-import { navigate } from "lib/woozie";
+import { Link, navigate } from "lib/woozie";
 
 type FormData = {
   name: string;
@@ -55,6 +65,8 @@ const CreateAccount: FC = () => {
     useForm<FormData>({ defaultValues: { name: defaultName } });
   const submitting = formState.isSubmitting;
 
+  const [derivationType, setDerivationType] = useState(DerivationType.ED25519);
+
   const onSubmit = useCallback(
     async ({ name }) => {
       if (submitting) return;
@@ -63,7 +75,7 @@ const CreateAccount: FC = () => {
 
       formAnalytics.trackSubmit();
       try {
-        await createAccount(name);
+        await createAccount(name, derivationType);
 
         formAnalytics.trackSubmitSuccess();
       } catch (err) {
@@ -78,7 +90,14 @@ const CreateAccount: FC = () => {
         setError("name", SUBMIT_ERROR_TYPE, err.message);
       }
     },
-    [submitting, clearError, setError, createAccount, formAnalytics]
+    [
+      submitting,
+      clearError,
+      setError,
+      createAccount,
+      derivationType,
+      formAnalytics,
+    ]
   );
 
   return (
@@ -109,6 +128,27 @@ const CreateAccount: FC = () => {
             containerClassName="mb-4"
           />
 
+          <div className="mb-6 flex flex-col">
+            <h2 className="mb-4 leading-tight flex flex-col">
+              <span className="text-base font-semibold text-gray-700">
+                <T id="derivationType" />
+              </span>
+
+              <span
+                className="mt-1 text-xs font-light text-gray-600"
+                style={{ maxWidth: "90%" }}
+              >
+                <T id="derivationTypeFieldDescription" />
+              </span>
+            </h2>
+
+            <TypeSelect
+              options={DERIVATION_TYPES}
+              value={derivationType}
+              onChange={setDerivationType}
+            />
+          </div>
+
           <T id="createAccount">
             {(message) => (
               <FormSubmitButton className="capitalize" loading={submitting}>
@@ -117,6 +157,24 @@ const CreateAccount: FC = () => {
             )}
           </T>
         </form>
+
+        <p className="mt-6 mb-8 text-sm font-light text-gray-600">
+          <T
+            id="discoverAccountsPrompt"
+            substitutions={[
+              <T id="scanForAccounts" key="link">
+                {(message) => (
+                  <Link
+                    to="/discover-accounts"
+                    className="font-semibold underline"
+                  >
+                    {message}
+                  </Link>
+                )}
+              </T>,
+            ]}
+          />
+        </p>
       </div>
     </PageLayout>
   );
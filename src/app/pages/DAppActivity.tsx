@@ -0,0 +1,205 @@
+import React, { FC, useCallback, useState } from "react";
+
+import classNames from "clsx";
+import formatDistanceToNow from "date-fns/formatDistanceToNow";
+
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import Name from "app/atoms/Name";
+import { ReactComponent as HistoryIcon } from "app/icons/history.svg";
+import PageLayout from "app/layouts/PageLayout";
+import DAppLogo from "app/templates/DAppLogo";
+import HashChip from "app/templates/HashChip";
+import { downloadCSV } from "lib/csv";
+import { T, t, getDateFnsLocale } from "lib/i18n/react";
+import { useRetryableSWR } from "lib/swr";
+import {
+  clearDAppActivity,
+  dAppActivityToCSV,
+  fetchDAppActivity,
+} from "lib/temple/dapp-activity";
+import { IDAppActivity } from "lib/temple/repo";
+import { useConfirm } from "lib/ui/dialog";
+
+const PAGE_SIZE = 20;
+
+const DECISION_CLASSNAMES: Record<IDAppActivity["decision"], string> = {
+  approved: "text-green-600",
+  declined: "text-gray-600",
+  failed: "text-red-600",
+};
+
+type DAppActivityProps = {
+  origin: string;
+};
+
+const DAppActivity: FC<DAppActivityProps> = ({ origin }) => {
+  const confirm = useConfirm();
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const { data, revalidate } = useRetryableSWR(
+    ["dapp-activity", origin, limit],
+    () => fetchDAppActivity({ origin, limit: limit + 1 }),
+    {
+      suspense: true,
+      shouldRetryOnError: false,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+    }
+  );
+  const hasMore = data!.length > limit;
+  const records = hasMore ? data!.slice(0, limit) : data!;
+
+  const handleExportClick = useCallback(async () => {
+    const date = new Date().toISOString().slice(0, 10);
+    const name = origin.replace(/^\w+:\/\//, "").replace(/[^\w.-]+/g, "_");
+    downloadCSV(
+      `${name}-activity-${date}.csv`,
+      dAppActivityToCSV(await fetchDAppActivity({ origin }))
+    );
+  }, [origin]);
+
+  const handleClearClick = useCallback(async () => {
+    if (
+      await confirm({
+        title: t("actionConfirmation"),
+        children: t("clearDAppActivityConfirmation", origin),
+      })
+    ) {
+      await clearDAppActivity(origin);
+      revalidate();
+    }
+  }, [confirm, origin, revalidate]);
+
+  return (
+    <PageLayout
+      pageTitle={
+        <>
+          <HistoryIcon className="w-auto h-4 mr-1 stroke-current" />
+          <T id="dAppActivity" />
+        </>
+      }
+    >
+      <div className="w-full max-w-sm mx-auto my-8">
+        <div className="mb-4 flex items-center">
+          <DAppLogo origin={origin} size={24} className="flex-none mr-2" />
+
+          <Name className="text-sm font-medium text-gray-700">{origin}</Name>
+        </div>
+
+        {records.length === 0 ? (
+          <T id="noDAppActivity">
+            {(message) => (
+              <p className="mb-4 text-sm text-center text-gray-600">
+                {message}
+              </p>
+            )}
+          </T>
+        ) : (
+          <div
+            className={classNames(
+              "mb-4",
+              "rounded-md overflow-hidden",
+              "border-2 bg-gray-100",
+              "flex flex-col",
+              "text-xs text-gray-700 leading-tight"
+            )}
+          >
+            {records.map((record, i) => (
+              <DAppActivityItem
+                key={record.id}
+                record={record}
+                last={i === records.length - 1}
+              />
+            ))}
+          </div>
+        )}
+
+        {hasMore && (
+          <FormSecondaryButton
+            type="button"
+            small
+            className="mb-4 w-full justify-center"
+            onClick={() => setLimit((l) => l + PAGE_SIZE)}
+          >
+            <T id="loadMore" />
+          </FormSecondaryButton>
+        )}
+
+        {records.length > 0 && (
+          <div className="flex">
+            <FormSecondaryButton
+              type="button"
+              small
+              className="mr-2"
+              onClick={handleExportClick}
+            >
+              <T id="exportToCSV" />
+            </FormSecondaryButton>
+
+            <FormSecondaryButton type="button" small onClick={handleClearClick}>
+              <T id="clearHistory" />
+            </FormSecondaryButton>
+          </div>
+        )}
+      </div>
+    </PageLayout>
+  );
+};
+
+export default DAppActivity;
+
+type DAppActivityItemProps = {
+  record: IDAppActivity;
+  last: boolean;
+};
+
+const DAppActivityItem: FC<DAppActivityItemProps> = ({ record, last }) => (
+  <div
+    className={classNames(
+      "w-full p-2",
+      !last && "border-b border-gray-200",
+      "flex flex-col"
+    )}
+  >
+    <div className="flex items-center">
+      <span className="font-medium">
+        <T id={`dAppActivityType_${record.type}`} />
+      </span>
+
+      <span
+        className={classNames("ml-2", DECISION_CLASSNAMES[record.decision])}
+      >
+        <T id={`dAppActivityDecision_${record.decision}`} />
+      </span>
+
+      <div className="flex-1" />
+
+      <span className="ml-2 whitespace-no-wrap text-gray-500">
+        {formatTime(record.requestedAt)}
+      </span>
+    </div>
+
+    {record.summary && (
+      <span className="mt-1 break-all text-gray-600">{record.summary}</span>
+    )}
+
+    {record.error && record.decision === "failed" && (
+      <span className="mt-1 break-all text-red-600">{record.error}</span>
+    )}
+
+    {(record.pkh || record.opHash) && (
+      <div className="mt-1 flex items-center">
+        {record.pkh && (
+          <HashChip hash={record.pkh} type="link" small className="mr-1" />
+        )}
+        {record.opHash && <HashChip hash={record.opHash} type="link" small />}
+      </div>
+    )}
+  </div>
+);
+
+const formatTime = (timestamp: number) =>
+  formatDistanceToNow(new Date(timestamp), {
+    addSuffix: true,
+    locale: getDateFnsLocale(),
+  });
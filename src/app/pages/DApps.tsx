@@ -2,6 +2,7 @@ import React, { FC } from "react";
 
 import { ReactComponent as DAppsIcon } from "app/icons/apps-alt.svg";
 import PageLayout from "app/layouts/PageLayout";
+import BeaconP2PPairing from "app/templates/BeaconP2PPairing";
 import DAppsList from "app/templates/DAppsList";
 import { t } from "lib/i18n/react";
 
@@ -14,6 +15,8 @@ const DApps: FC = () => (
     }
   >
     <DAppsList />
+
+    <BeaconP2PPairing />
   </PageLayout>
 );
 
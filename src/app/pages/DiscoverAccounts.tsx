@@ -0,0 +1,55 @@
+import React, { FC, useState } from "react";
+
+import TypeSelect from "app/atoms/TypeSelect";
+import { DERIVATION_TYPES } from "app/defaults";
+import { ReactComponent as SearchIcon } from "app/icons/search.svg";
+import PageLayout from "app/layouts/PageLayout";
+import AccountsDiscovery from "app/templates/AccountsDiscovery";
+import { T } from "lib/i18n/react";
+import { DerivationType } from "lib/temple/front";
+
+const DiscoverAccounts: FC = () => {
+  const [derivationType, setDerivationType] = useState(DerivationType.ED25519);
+
+  return (
+    <PageLayout
+      pageTitle={
+        <>
+          <SearchIcon className="w-auto h-4 mr-1 stroke-current" />
+          <T id="discoverAccounts" />
+        </>
+      }
+    >
+      <div className="w-full max-w-sm mx-auto mt-6 mb-8">
+        <p className="mb-6 text-sm font-light text-gray-600">
+          <T id="discoverAccountsDescription" />
+        </p>
+
+        <div className="mb-6 flex flex-col">
+          <h2 className="mb-4 leading-tight flex flex-col">
+            <span className="text-base font-semibold text-gray-700">
+              <T id="derivationType" />
+            </span>
+
+            <span
+              className="mt-1 text-xs font-light text-gray-600"
+              style={{ maxWidth: "90%" }}
+            >
+              <T id="derivationTypeFieldDescription" />
+            </span>
+          </h2>
+
+          <TypeSelect
+            options={DERIVATION_TYPES}
+            value={derivationType}
+            onChange={setDerivationType}
+          />
+        </div>
+      </div>
+
+      <AccountsDiscovery derivationType={derivationType} />
+    </PageLayout>
+  );
+};
+
+export default DiscoverAccounts;
@@ -3,6 +3,7 @@ export enum ExploreSelectors {
   SendButton = 'Explore/SendButton',
   AssetsTab = 'Explore/AssetsTab',
   DelegationTab = 'Explore/DelegationTab',
+  CollectiblesTab = 'Explore/CollectiblesTab',
   ActivityTab = 'Explore/ActivityTab',
   AboutTab = 'Explore/AboutTab',
 }
@@ -47,6 +47,7 @@ import AddressChip from "./Explore/AddressChip";
 import AddUnknownTokens from "./Explore/AddUnknownTokens";
 import Assets from "./Explore/Assets";
 import BakingSection from "./Explore/BakingSection";
+import Collectibles from "./Explore/Collectibles";
 import EditableTitle from "./Explore/EditableTitle";
 import MainAssetBanner from "./Explore/MainAssetBanner";
 
@@ -61,6 +62,11 @@ const tippyProps = {
   animation: "shift-away-subtle",
 };
 
+const multisigTippyProps = {
+  ...tippyProps,
+  content: t("disabledForMultisigAccount"),
+};
+
 const Explore: FC<ExploreProps> = ({ assetSlug }) => {
   const { fullPage, registerBackHandler } = useAppEnv();
   const account = useAccount();
@@ -82,7 +88,8 @@ const Explore: FC<ExploreProps> = ({ assetSlug }) => {
   }
 
   const accountPkh = account.publicKeyHash;
-  const canSend = account.type !== TempleAccountType.WatchOnly;
+  const multisig = account.type === TempleAccountType.Multisig;
+  const canSend = account.type !== TempleAccountType.WatchOnly && !multisig;
 
   return (
     <PageLayout
@@ -135,15 +142,23 @@ const Explore: FC<ExploreProps> = ({ assetSlug }) => {
             Icon={SwapIcon}
             href={asset ? `/swap/${getAssetKey(asset)}` : "/swap"}
             disabled={!canSend}
-            tippyProps={tippyProps}
-          />
-          <ActionButton
-            label={<T id="send" />}
-            Icon={SendIcon}
-            href={asset ? `/send/${getAssetKey(asset)}` : "/send"}
-            disabled={!canSend}
-            tippyProps={tippyProps}
+            tippyProps={multisig ? multisigTippyProps : tippyProps}
           />
+          {multisig ? (
+            <ActionButton
+              label={<T id="send" />}
+              Icon={SendIcon}
+              href="/multisig"
+            />
+          ) : (
+            <ActionButton
+              label={<T id="send" />}
+              Icon={SendIcon}
+              href={asset ? `/send/${getAssetKey(asset)}` : "/send"}
+              disabled={!canSend}
+              tippyProps={tippyProps}
+            />
+          )}
         </div>
       </div>
 
@@ -234,6 +249,17 @@ const ActivityTab: FC<ActivityTabProps> = ({ asset }) => {
 
   return (
     <SuspenseContainer whileMessage={t("operationHistoryWhileMessage")}>
+      {!asset && (
+        <div className="w-full max-w-md mx-auto mb-2 flex justify-end">
+          <Link
+            to="/export-history"
+            className="text-xs text-blue-600 hover:underline"
+          >
+            <T id="exportHistory" />
+          </Link>
+        </div>
+      )}
+
       <Activity
         address={account.publicKeyHash}
         assetId={asset && getAssetKey(asset)}
@@ -276,6 +302,12 @@ const SecondarySection: FC<SecondarySectionProps> = ({ asset, className }) => {
           Component: Assets,
           testID: ExploreSelectors.AssetsTab,
         },
+        {
+          slug: "collectibles",
+          title: t("collectibles"),
+          Component: Collectibles,
+          testID: ExploreSelectors.CollectiblesTab,
+        },
         {
           slug: "delegation",
           title: t("delegation"),
@@ -342,8 +374,8 @@ const SecondarySection: FC<SecondarySectionProps> = ({ asset, className }) => {
               to={(lctn) => ({ ...lctn, search: `?tab=${t.slug}` })}
               replace
               className={classNames(
-                "w-1/3",
-                "text-center cursor-pointer mb-1 pb-1 pt-2 px-3",
+                tabs.length > 3 ? "w-1/4 px-1" : "w-1/3 px-3",
+                "text-center cursor-pointer mb-1 pb-1 pt-2",
                 "text-gray-500 text-sm font-medium",
                 "border-t-2",
                 active ? "border-primary-orange" : "border-transparent",
@@ -82,7 +82,7 @@ const AddUnknownTokens: FC = () => {
               const baseTokenProps = {
                 address: token.contract,
                 decimals: meta.decimals,
-                fungible: true,
+                fungible: isFA12Token || meta.fungible,
                 symbol: meta.symbol,
                 name: meta.name,
                 iconUrl: meta.iconUrl ? formatImgUri(meta.iconUrl) : undefined,
@@ -42,11 +42,16 @@ const Assets: FC = () => {
 
   const searchValueExist = useMemo(() => Boolean(searchValue), [searchValue]);
 
-  const filteredAssets = useMemo(() => searchAssets(allAssets, searchValue), [
+  // Collectibles are shown in their own tab
+  const fungibleAssets = useMemo(() => allAssets.filter((a) => a.fungible), [
     allAssets,
-    searchValue,
   ]);
 
+  const filteredAssets = useMemo(
+    () => searchAssets(fungibleAssets, searchValue),
+    [fungibleAssets, searchValue]
+  );
+
   const activeAssetKey = useMemo(() => {
     return searchFocused && searchValueExist && filteredAssets[activeIndex]
       ? getAssetKey(filteredAssets[activeIndex])
@@ -45,14 +45,17 @@ const allRewardsPerEventKeys: (keyof RewardsPerEventHistoryItem)[] = [
 const BakingSection = memo(() => {
   const acc = useAccount();
   const { data: myBakerPkh } = useDelegate(acc.publicKeyHash);
-  const canDelegate = acc.type !== TempleAccountType.WatchOnly;
+  const multisig = acc.type === TempleAccountType.Multisig;
+  const canDelegate = acc.type !== TempleAccountType.WatchOnly && !multisig;
   const chainId = useChainId(true);
   const { popup } = useAppEnv();
 
   const tippyProps = {
     trigger: "mouseenter",
     hideOnClick: false,
-    content: t("disabledForWatchOnlyAccount"),
+    content: t(
+      multisig ? "disabledForMultisigAccount" : "disabledForWatchOnlyAccount"
+    ),
     animation: "shift-away-subtle",
   };
 
@@ -0,0 +1,127 @@
+import React, { FC, memo } from "react";
+
+import classNames from "clsx";
+
+import Money from "app/atoms/Money";
+import { ReactComponent as AddToListIcon } from "app/icons/add-to-list.svg";
+import Balance from "app/templates/Balance";
+import CollectibleThumbnail from "app/templates/CollectibleThumbnail";
+import { T } from "lib/i18n/react";
+import {
+  getAssetKey,
+  TempleFA2Asset,
+  useAccount,
+  useCollectibles,
+} from "lib/temple/front";
+import { Link } from "lib/woozie";
+
+const Collectibles: FC = () => {
+  const account = useAccount();
+  const collectibles = useCollectibles();
+
+  return (
+    <div className={classNames("w-full max-w-sm mx-auto")}>
+      <div className="mt-1 mb-3 w-full flex justify-end">
+        <Link
+          to="/manage-assets"
+          className={classNames(
+            "flex-shrink-0",
+            "px-3 py-1",
+            "rounded overflow-hidden",
+            "flex items-center",
+            "text-gray-600 text-sm",
+            "transition ease-in-out duration-200",
+            "hover:bg-gray-100",
+            "opacity-75 hover:opacity-100 focus:opacity-100"
+          )}
+        >
+          <AddToListIcon
+            className={classNames("mr-1 h-5 w-auto stroke-current stroke-2")}
+          />
+          <T id="manage" />
+        </Link>
+      </div>
+
+      {collectibles.length > 0 ? (
+        <div className="-mx-1 flex flex-wrap">
+          {collectibles.map((asset) => (
+            <GridItem
+              key={getAssetKey(asset)}
+              asset={asset}
+              accountPkh={account.publicKeyHash}
+            />
+          ))}
+        </div>
+      ) : (
+        <div
+          className={classNames(
+            "my-8",
+            "flex flex-col items-center justify-center",
+            "text-gray-500"
+          )}
+        >
+          <p className="mb-2 text-gray-600 text-base font-light">
+            <T id="noCollectiblesFound" />
+          </p>
+
+          <p className="text-center text-xs font-light">
+            <T id="ifYouDontSeeYourCollectible" />
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Collectibles;
+
+type GridItemProps = {
+  asset: TempleFA2Asset;
+  accountPkh: string;
+};
+
+const GridItem = memo<GridItemProps>(({ asset, accountPkh }) => (
+  <div className="w-1/3 p-1">
+    <Link
+      to={`/collectible/${getAssetKey(asset)}`}
+      className={classNames(
+        "block",
+        "rounded-md overflow-hidden",
+        "border border-gray-200",
+        "hover:bg-gray-100 focus:bg-gray-100",
+        "transition ease-in-out duration-200",
+        "focus:outline-none"
+      )}
+      title={asset.name}
+    >
+      <div className="relative w-full" style={{ paddingBottom: "100%" }}>
+        <CollectibleThumbnail
+          asset={asset}
+          className="absolute inset-0 w-full h-full"
+        />
+
+        <Balance address={accountPkh} asset={asset}>
+          {(balance) =>
+            balance.isGreaterThan(1) ? (
+              <div
+                className={classNames(
+                  "absolute bottom-0 right-0 m-1 px-1",
+                  "rounded bg-black bg-opacity-50",
+                  "text-xs text-white"
+                )}
+              >
+                ×<Money>{balance}</Money>
+              </div>
+            ) : (
+              <></>
+            )
+          }
+        </Balance>
+      </div>
+
+      <div className="px-2 py-1 text-xs text-gray-700 truncate">
+        {asset.name}
+      </div>
+    </Link>
+  </div>
+));
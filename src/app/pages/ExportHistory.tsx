@@ -0,0 +1,184 @@
+import React, { FC, ReactNode, useCallback, useMemo, useState } from "react";
+
+import { useForm } from "react-hook-form";
+
+import Alert from "app/atoms/Alert";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import TypeSelect from "app/atoms/TypeSelect";
+import { ReactComponent as DownloadIcon } from "app/icons/download.svg";
+import PageLayout from "app/layouts/PageLayout";
+import { downloadCSV } from "lib/csv";
+import { T, t } from "lib/i18n/react";
+import {
+  HistoryAssetMetadata,
+  HistoryExportFormat,
+  historyToCSV,
+  parseHistoryEntries,
+} from "lib/temple/activity";
+import {
+  fetchOperations,
+  getAssetKey,
+  isSyncSupported,
+  syncOperations,
+  useAccount,
+  useAssets,
+  useChainId,
+  useNetwork,
+} from "lib/temple/front";
+
+const DAY = 24 * 60 * 60 * 1000;
+const MAX_SYNC_ROUNDS = 100;
+
+const FORMATS: { type: HistoryExportFormat; name: string }[] = [
+  { type: "csv", name: "CSV" },
+  { type: "koinly", name: "Koinly" },
+  { type: "cointracking", name: "CoinTracking" },
+];
+
+type FormData = {
+  from: string;
+  to: string;
+};
+
+const ExportHistory: FC = () => {
+  const account = useAccount();
+  const chainId = useChainId(true)!;
+  const network = useNetwork();
+  const { allAssetsWithHidden } = useAssets();
+  const address = account.publicKeyHash;
+
+  const today = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const { register, handleSubmit, errors, getValues, formState } =
+    useForm<FormData>({
+      defaultValues: { from: `${today.slice(0, 4)}-01-01`, to: today },
+    });
+  const [format, setFormat] = useState<HistoryExportFormat>("csv");
+  const [error, setError] = useState<ReactNode>(null);
+
+  const getAssetMetadata = useCallback(
+    (assetId: string): HistoryAssetMetadata | undefined => {
+      const asset = allAssetsWithHidden.find((a) => getAssetKey(a) === assetId);
+      return asset && { symbol: asset.symbol, decimals: asset.decimals };
+    },
+    [allAssetsWithHidden]
+  );
+
+  const onSubmit = useCallback(
+    async ({ from, to }: FormData) => {
+      if (formState.isSubmitting) return;
+      setError(null);
+
+      try {
+        // Export is built from local repo only, so it has to be synced fully
+        if (isSyncSupported(chainId, network)) {
+          await syncOperations("new", chainId, address, network);
+          for (let i = 0; i < MAX_SYNC_ROUNDS; i++) {
+            const synced = await syncOperations(
+              "old",
+              chainId,
+              address,
+              network
+            );
+            if (synced === 0) break;
+          }
+        }
+
+        const operations = await fetchOperations({
+          chainId,
+          address,
+          from: Date.parse(from),
+          to: Date.parse(to) + DAY,
+        });
+        const entries = operations.flatMap((op) =>
+          parseHistoryEntries(op, address, getAssetMetadata)
+        );
+
+        downloadCSV(
+          `${address}-${format}-${from}-${to}.csv`,
+          historyToCSV(entries, format)
+        );
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        setError(err.message);
+      }
+    },
+    [
+      formState.isSubmitting,
+      chainId,
+      network,
+      address,
+      getAssetMetadata,
+      format,
+    ]
+  );
+
+  return (
+    <PageLayout
+      pageTitle={
+        <>
+          <DownloadIcon className="w-auto h-4 mr-1 stroke-current" />
+          <T id="exportHistory" />
+        </>
+      }
+    >
+      <form
+        className="w-full max-w-sm mx-auto my-8"
+        onSubmit={handleSubmit(onSubmit)}
+      >
+        <T id="exportHistoryDescription">
+          {(message) => (
+            <p className="mb-4 text-xs font-light text-gray-600">{message}</p>
+          )}
+        </T>
+
+        <FormField
+          ref={register({ required: t("required") })}
+          type="date"
+          name="from"
+          id="export-history-from"
+          label={t("from")}
+          errorCaption={errors.from?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormField
+          ref={register({
+            required: t("required"),
+            validate: (value: string) =>
+              value >= getValues().from || t("invalidDateRange"),
+          })}
+          type="date"
+          name="to"
+          id="export-history-to"
+          label={t("to")}
+          errorCaption={errors.to?.message}
+          containerClassName="mb-4"
+        />
+
+        <div className="mb-6">
+          <TypeSelect options={FORMATS} value={format} onChange={setFormat} />
+        </div>
+
+        {error && (
+          <Alert
+            type="error"
+            title={t("error")}
+            description={error}
+            autoFocus
+            className="mb-4"
+          />
+        )}
+
+        <FormSubmitButton loading={formState.isSubmitting}>
+          <T id="exportHistory" />
+        </FormSubmitButton>
+      </form>
+    </PageLayout>
+  );
+};
+
+export default ExportHistory;
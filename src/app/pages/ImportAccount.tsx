@@ -6,17 +6,28 @@ import { useForm, Controller } from "react-hook-form";
 import useSWR from "swr";
 
 import Alert from "app/atoms/Alert";
+import FormCheckbox from "app/atoms/FormCheckbox";
 import FormField from "app/atoms/FormField";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
 import NoSpaceField from "app/atoms/NoSpaceField";
-import { MNEMONIC_ERROR_CAPTION, formatMnemonic } from "app/defaults";
+import TypeSelect from "app/atoms/TypeSelect";
+import {
+  DERIVATION_TYPES,
+  MNEMONIC_ERROR_CAPTION,
+  SEED_SHARES_ERROR_CAPTION,
+  SEED_SHARES_PASSPHRASE_PATTERN,
+  formatMnemonic,
+} from "app/defaults";
 import { ReactComponent as DownloadIcon } from "app/icons/download.svg";
 import { ReactComponent as OkIcon } from "app/icons/ok.svg";
 import PageLayout from "app/layouts/PageLayout";
+import AccountsDiscovery from "app/templates/AccountsDiscovery";
 import ManagedKTForm from "app/templates/ManagedKTForm";
+import MultisigForm from "app/templates/MultisigForm";
 import { useFormAnalytics } from "lib/analytics";
 import { T, t } from "lib/i18n/react";
 import {
+  DerivationType,
   useTempleClient,
   useSetAccountPkh,
   validateDerivationPath,
@@ -31,6 +42,11 @@ import {
   useNetwork,
   ImportAccountFormType,
 } from "lib/temple/front";
+import {
+  parseShares,
+  recoverSeedPhrase,
+  validateShares,
+} from "lib/temple/slip39";
 import useSafeState from "lib/ui/useSafeState";
 import { Link, navigate } from "lib/woozie";
 
@@ -95,6 +111,11 @@ const ImportAccount: FC<ImportAccountProps> = ({ tabSlug }) => {
           i18nKey: "watchOnlyAccount",
           Form: WatchOnlyForm,
         },
+        {
+          slug: "multisig",
+          i18nKey: "multisigAccount",
+          Form: MultisigForm,
+        },
       ].filter((x): x is ImportTabDescriptor => !!x),
     [network.type]
   );
@@ -294,11 +315,24 @@ const DERIVATION_PATHS = [
     type: "custom",
     i18nKey: "customDerivationPath",
   },
+  {
+    type: "discover",
+    i18nKey: "scanForUsedAccounts",
+  },
 ];
 
-interface ByMnemonicFormData {
+const DISCOVERY_DERIVATION_PATH = "m/44'/1729'/i'/0'";
+
+interface DiscoveryParams {
   mnemonic: string;
   password?: string;
+}
+
+interface ByMnemonicFormData {
+  mnemonic?: string;
+  shares?: string;
+  sharesPassphrase?: string;
+  password?: string;
   customDerivationPath: string;
   accountNumber?: number;
 }
@@ -322,21 +356,58 @@ const ByMnemonicForm: FC = () => {
   const [derivationPath, setDerivationPath] = useState(
     DERIVATION_PATHS[0]
   );
+  const [derivationType, setDerivationType] = useState(
+    DerivationType.ED25519
+  );
+  const [discoveryParams, setDiscoveryParams] = useState<DiscoveryParams | null>(null);
+  const [fromShares, setFromShares] = useState(false);
+
+  useEffect(() => {
+    if (derivationPath.type !== "discover") {
+      setDiscoveryParams(null);
+    }
+  }, [derivationPath, setDiscoveryParams]);
 
   const onSubmit = useCallback(
     async ({
       mnemonic,
+      shares,
+      sharesPassphrase,
       password,
       customDerivationPath,
       accountNumber,
     }: ByMnemonicFormData) => {
       if (formState.isSubmitting) return;
 
-      formAnalytics.trackSubmit();
       setError(null);
+      let seedPhrase: string;
+      try {
+        seedPhrase = fromShares
+          ? await recoverSeedPhrase(parseShares(shares!), sharesPassphrase)
+          : formatMnemonic(mnemonic!);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+        return;
+      }
+
+      if (derivationPath.type === "discover") {
+        setDiscoveryParams({
+          mnemonic: seedPhrase,
+          password: password || undefined,
+        });
+        return;
+      }
+
+      formAnalytics.trackSubmit();
       try {
         await importMnemonicAccount(
-          formatMnemonic(mnemonic),
+          seedPhrase,
           password || undefined,
           (() => {
             switch (derivationPath.type) {
@@ -349,7 +420,8 @@ const ByMnemonicForm: FC = () => {
               default:
                 return undefined;
             }
-          })()
+          })(),
+          derivationType
         );
 
         formAnalytics.trackSubmitSuccess();
@@ -365,187 +437,284 @@ const ByMnemonicForm: FC = () => {
         setError(err.message);
       }
     },
-    [formState.isSubmitting, setError, importMnemonicAccount, derivationPath, formAnalytics]
+    [formState.isSubmitting, setError, setDiscoveryParams, importMnemonicAccount, derivationPath, derivationType, formAnalytics, fromShares]
   );
 
   return (
-    <form
-      className="w-full max-w-sm mx-auto my-8"
-      onSubmit={handleSubmit(onSubmit)}
-    >
-      {error && (
-        <Alert
-          type="error"
-          title={t("error")}
-          autoFocus
-          description={error}
-          className="mb-6"
-        />
-      )}
+    <>
+      <form
+        className="w-full max-w-sm mx-auto my-8"
+        onSubmit={handleSubmit(onSubmit)}
+      >
+        {error && (
+          <Alert
+            type="error"
+            title={t("error")}
+            autoFocus
+            description={error}
+            className="mb-6"
+          />
+        )}
 
-      <FormField
-        secret
-        textarea
-        rows={4}
-        name="mnemonic"
-        ref={register({
-          required: t("required"),
-          validate: (val) =>
-            validateMnemonic(formatMnemonic(val)) || MNEMONIC_ERROR_CAPTION,
-        })}
-        errorCaption={errors.mnemonic?.message}
-        label={t("mnemonicInputLabel")}
-        labelDescription={t("mnemonicInputDescription")}
-        id="importfundacc-mnemonic"
-        placeholder={t("mnemonicInputPlaceholder")}
-        spellCheck={false}
-        containerClassName="mb-4"
-        className="resize-none"
-      />
+        <FormCheckbox
+          checked={fromShares}
+          onChange={(evt) => setFromShares(evt.target.checked)}
+          name="fromShares"
+          label={t("restoreFromSeedShares")}
+          labelDescription={t("restoreFromSeedSharesDescription")}
+          containerClassName="mb-4"
+        />
 
-      <FormField
-        ref={register}
-        name="password"
-        type="password"
-        id="importfundacc-password"
-        label={
+        {fromShares ? (
           <>
-            <T id="password" />{" "}
-            <T id="optionalComment">
-              {(message) => (
-                <span className="text-sm font-light text-gray-600">
-                  {message}
-                </span>
-              )}
-            </T>
+            <FormField
+              secret
+              textarea
+              rows={6}
+              name="shares"
+              ref={register({
+                required: t("required"),
+                validate: (val) =>
+                  validateShares(val) || SEED_SHARES_ERROR_CAPTION,
+              })}
+              errorCaption={errors.shares?.message}
+              label={t("seedSharesInputLabel")}
+              labelDescription={t("seedSharesInputDescription")}
+              id="importfundacc-shares"
+              placeholder={t("seedSharesInputPlaceholder")}
+              spellCheck={false}
+              containerClassName="mb-4"
+              className="resize-none"
+            />
+
+            <FormField
+              ref={register({
+                pattern: {
+                  value: SEED_SHARES_PASSPHRASE_PATTERN,
+                  message: t("seedSharesPassphraseError"),
+                },
+              })}
+              name="sharesPassphrase"
+              type="password"
+              id="importfundacc-sharespassphrase"
+              label={
+                <>
+                  <T id="seedSharesPassphrase" />{" "}
+                  <T id="optionalComment">
+                    {(message) => (
+                      <span className="text-sm font-light text-gray-600">
+                        {message}
+                      </span>
+                    )}
+                  </T>
+                </>
+              }
+              labelDescription={t("seedSharesRestorePassphraseDescription")}
+              placeholder="*********"
+              errorCaption={errors.sharesPassphrase?.message}
+              containerClassName="mb-4"
+            />
           </>
-        }
-        labelDescription={t("passwordInputDescription")}
-        placeholder="*********"
-        errorCaption={errors.password?.message}
-        containerClassName="mb-6"
-      />
+        ) : (
+          <FormField
+            secret
+            textarea
+            rows={4}
+            name="mnemonic"
+            ref={register({
+              required: t("required"),
+              validate: (val) =>
+                validateMnemonic(formatMnemonic(val)) || MNEMONIC_ERROR_CAPTION,
+            })}
+            errorCaption={errors.mnemonic?.message}
+            label={t("mnemonicInputLabel")}
+            labelDescription={t("mnemonicInputDescription")}
+            id="importfundacc-mnemonic"
+            placeholder={t("mnemonicInputPlaceholder")}
+            spellCheck={false}
+            containerClassName="mb-4"
+            className="resize-none"
+          />
+        )}
 
-      <div className={classNames("mb-4", "flex flex-col")}>
-        <h2 className={classNames("mb-4", "leading-tight", "flex flex-col")}>
-          <span className="text-base font-semibold text-gray-700">
-            <T id="derivation" />{" "}
-            <T id="optionalComment">
+        <FormField
+          ref={register}
+          name="password"
+          type="password"
+          id="importfundacc-password"
+          label={
+            <>
+              <T id="password" />{" "}
+              <T id="optionalComment">
+                {(message) => (
+                  <span className="text-sm font-light text-gray-600">
+                    {message}
+                  </span>
+                )}
+              </T>
+            </>
+          }
+          labelDescription={t("passwordInputDescription")}
+          placeholder="*********"
+          errorCaption={errors.password?.message}
+          containerClassName="mb-6"
+        />
+
+        <div className={classNames("mb-4", "flex flex-col")}>
+          <h2 className={classNames("mb-4", "leading-tight", "flex flex-col")}>
+            <span className="text-base font-semibold text-gray-700">
+              <T id="derivation" />{" "}
+              <T id="optionalComment">
+                {(message) => (
+                  <span className="text-sm font-light text-gray-600">
+                    {message}
+                  </span>
+                )}
+              </T>
+            </span>
+
+            <T id="addDerivationPathPrompt">
               {(message) => (
-                <span className="text-sm font-light text-gray-600">
+                <span
+                  className={classNames(
+                    "mt-1",
+                    "text-xs font-light text-gray-600"
+                  )}
+                  style={{ maxWidth: "90%" }}
+                >
                   {message}
                 </span>
               )}
             </T>
-          </span>
-
-          <T id="addDerivationPathPrompt">
-            {(message) => (
-              <span
-                className={classNames(
-                  "mt-1",
-                  "text-xs font-light text-gray-600"
-                )}
-                style={{ maxWidth: "90%" }}
-              >
-                {message}
-              </span>
+          </h2>
+
+          <div
+            className={classNames(
+              "rounded-md overflow-hidden",
+              "border-2 bg-gray-100",
+              "flex flex-col",
+              "text-gray-700 text-sm leading-tight"
             )}
-          </T>
-        </h2>
+          >
+            {DERIVATION_PATHS.map((dp, i, arr) => {
+              const last = i === arr.length - 1;
+              const selected = derivationPath.type === dp.type;
+              const handleClick = () => {
+                setDerivationPath(dp);
+              };
+
+              return (
+                <button
+                  key={dp.type}
+                  type="button"
+                  className={classNames(
+                    "block w-full",
+                    "overflow-hidden",
+                    !last && "border-b border-gray-200",
+                    selected
+                      ? "bg-gray-300"
+                      : "hover:bg-gray-200 focus:bg-gray-200",
+                    "flex items-center",
+                    "text-gray-700",
+                    "transition ease-in-out duration-200",
+                    "focus:outline-none",
+                    "opacity-90 hover:opacity-100"
+                  )}
+                  style={{
+                    padding: "0.4rem 0.375rem 0.4rem 0.375rem",
+                  }}
+                  onClick={handleClick}
+                >
+                  <T id={dp.i18nKey} />
+                  <div className="flex-1" />
+                  {selected && (
+                    <OkIcon
+                      className={classNames("mx-2 h-4 w-auto stroke-2")}
+                      style={{
+                        stroke: "#777",
+                      }}
+                    />
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
 
-        <div
-          className={classNames(
-            "rounded-md overflow-hidden",
-            "border-2 bg-gray-100",
-            "flex flex-col",
-            "text-gray-700 text-sm leading-tight"
-          )}
-        >
-          {DERIVATION_PATHS.map((dp, i, arr) => {
-            const last = i === arr.length - 1;
-            const selected = derivationPath.type === dp.type;
-            const handleClick = () => {
-              setDerivationPath(dp);
-            };
+        {derivationPath.type === "another" && (
+          <FormField
+            ref={register({
+              min: { value: 1, message: t("positiveIntMessage") },
+              required: t("required"),
+            })}
+            min={0}
+            type="number"
+            name="accountNumber"
+            id="importacc-acc-number"
+            label={t("accountNumber")}
+            placeholder="1"
+            errorCaption={errors.accountNumber?.message}
+          />
+        )}
 
-            return (
-              <button
-                key={dp.type}
-                type="button"
-                className={classNames(
-                  "block w-full",
-                  "overflow-hidden",
-                  !last && "border-b border-gray-200",
-                  selected
-                    ? "bg-gray-300"
-                    : "hover:bg-gray-200 focus:bg-gray-200",
-                  "flex items-center",
-                  "text-gray-700",
-                  "transition ease-in-out duration-200",
-                  "focus:outline-none",
-                  "opacity-90 hover:opacity-100"
-                )}
-                style={{
-                  padding: "0.4rem 0.375rem 0.4rem 0.375rem",
-                }}
-                onClick={handleClick}
-              >
-                <T id={dp.i18nKey} />
-                <div className="flex-1" />
-                {selected && (
-                  <OkIcon
-                    className={classNames("mx-2 h-4 w-auto stroke-2")}
-                    style={{
-                      stroke: "#777",
-                    }}
-                  />
-                )}
-              </button>
-            );
-          })}
+        {derivationPath.type === "custom" && (
+          <FormField
+            ref={register({
+              required: t("required"),
+              validate: validateDerivationPath,
+            })}
+            name="customDerivationPath"
+            id="importacc-cdp"
+            label={t("customDerivationPath")}
+            placeholder={t("derivationPathExample2")}
+            errorCaption={errors.customDerivationPath?.message}
+            containerClassName="mb-6"
+          />
+        )}
+
+        <div className="mb-4 flex flex-col">
+          <h2 className="mb-4 leading-tight flex flex-col">
+            <span className="text-base font-semibold text-gray-700">
+              <T id="derivationType" />
+            </span>
+
+            <span
+              className="mt-1 text-xs font-light text-gray-600"
+              style={{ maxWidth: "90%" }}
+            >
+              <T id="derivationTypeFieldDescription" />
+            </span>
+          </h2>
+
+          <TypeSelect
+            options={DERIVATION_TYPES}
+            value={derivationType}
+            onChange={setDerivationType}
+          />
         </div>
-      </div>
 
-      {derivationPath.type === "another" && (
-        <FormField
-          ref={register({
-            min: { value: 1, message: t("positiveIntMessage") },
-            required: t("required"),
-          })}
-          min={0}
-          type="number"
-          name="accountNumber"
-          id="importacc-acc-number"
-          label={t("accountNumber")}
-          placeholder="1"
-          errorCaption={errors.accountNumber?.message}
-        />
-      )}
+        <T
+          id={derivationPath.type === "discover" ? "continue" : "importAccount"}
+        >
+          {(message) => (
+            <FormSubmitButton loading={formState.isSubmitting} className="mt-8">
+              {message}
+            </FormSubmitButton>
+          )}
+        </T>
+      </form>
 
-      {derivationPath.type === "custom" && (
-        <FormField
-          ref={register({
-            required: t("required"),
-            validate: validateDerivationPath,
-          })}
-          name="customDerivationPath"
-          id="importacc-cdp"
-          label={t("customDerivationPath")}
-          placeholder={t("derivationPathExample2")}
-          errorCaption={errors.customDerivationPath?.message}
-          containerClassName="mb-6"
-        />
+      {discoveryParams && (
+        <div className="mb-8">
+          <AccountsDiscovery
+            derivationType={derivationType}
+            mnemonic={discoveryParams.mnemonic}
+            password={discoveryParams.password}
+            derivationPath={DISCOVERY_DERIVATION_PATH}
+          />
+        </div>
       )}
-
-      <T id="importAccount">
-        {(message) => (
-          <FormSubmitButton loading={formState.isSubmitting} className="mt-8">
-            {message}
-          </FormSubmitButton>
-        )}
-      </T>
-    </form>
+    </>
   );
 };
 
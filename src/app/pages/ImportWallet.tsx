@@ -1,13 +1,102 @@
-import React, { FC } from "react";
+import React, { FC, useMemo } from "react";
+
+import classNames from "clsx";
 
 import PageLayout from "app/layouts/PageLayout";
 import NewWallet from "app/templates/NewWallet";
-import { t } from "lib/i18n/react";
+import RestoreFromBackup from "app/templates/RestoreFromBackup";
+import { T, t } from "lib/i18n/react";
+import { Link } from "lib/woozie";
+
+type ImportWalletProps = {
+  tabSlug: string | null;
+};
+
+const RestoreFromSeedPhrase: FC = () => (
+  <NewWallet ownMnemonic title={t("restoreWalletWithSeedPhrase")} />
+);
+
+const RestoreFromSeedShares: FC = () => (
+  <NewWallet ownMnemonic fromShares title={t("restoreWalletWithSeedShares")} />
+);
 
-const ImportWallet: FC = () => (
-  <PageLayout>
-    <NewWallet ownMnemonic title={t("restoreWalletWithSeedPhrase")} />
-  </PageLayout>
+const RestoreFromBackupFile: FC = () => (
+  <div className="py-4">
+    <h1
+      className={classNames(
+        "mb-2",
+        "text-2xl font-light text-gray-700 text-center"
+      )}
+    >
+      <T id="restoreWalletFromBackup" />
+    </h1>
+    <hr className="my-4" />
+    <RestoreFromBackup />
+  </div>
 );
 
+const TABS = [
+  {
+    slug: "seed-phrase",
+    i18nKey: "seedPhrase",
+    Component: RestoreFromSeedPhrase,
+  },
+  {
+    slug: "seed-shares",
+    i18nKey: "seedShares",
+    Component: RestoreFromSeedShares,
+  },
+  {
+    slug: "backup-file",
+    i18nKey: "backupFile",
+    Component: RestoreFromBackupFile,
+  },
+];
+
+const ImportWallet: FC<ImportWalletProps> = ({ tabSlug }) => {
+  const { slug, Component } = useMemo(
+    () => TABS.find((t) => t.slug === tabSlug) ?? TABS[0],
+    [tabSlug]
+  );
+
+  return (
+    <PageLayout>
+      <div
+        className={classNames(
+          "w-full max-w-md mx-auto",
+          "mt-4",
+          "flex flex-wrap items-center justify-center"
+        )}
+      >
+        {TABS.map((t) => {
+          const active = slug === t.slug;
+
+          return (
+            <T key={t.slug} id={t.i18nKey}>
+              {(message) => (
+                <Link
+                  to={`/import-wallet/${t.slug}`}
+                  replace
+                  className={classNames(
+                    "text-center cursor-pointer rounded-md mx-1 py-2 px-3 mb-1",
+                    "text-gray-600 text-sm",
+                    active
+                      ? "text-primary-orange bg-primary-orange bg-opacity-10"
+                      : "hover:bg-gray-100 focus:bg-gray-100",
+                    "transition ease-in-out duration-200"
+                  )}
+                >
+                  {message}
+                </Link>
+              )}
+            </T>
+          );
+        })}
+      </div>
+
+      <Component />
+    </PageLayout>
+  );
+};
+
 export default ImportWallet;
@@ -0,0 +1,760 @@
+import React, { FC, ReactNode, useCallback, useMemo, useState } from "react";
+
+import { TezosToolkit } from "@taquito/taquito";
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+
+import Alert from "app/atoms/Alert";
+import FormField from "app/atoms/FormField";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import HashShortView from "app/atoms/HashShortView";
+import Identicon from "app/atoms/Identicon";
+import Name from "app/atoms/Name";
+import TypeSelect from "app/atoms/TypeSelect";
+import { ReactComponent as PeopleIcon } from "app/icons/people.svg";
+import PageLayout from "app/layouts/PageLayout";
+import { T, t } from "lib/i18n/react";
+import {
+  transferImplicit,
+  transferToContract,
+  setDelegate,
+} from "lib/michelson";
+import { useRetryableSWR } from "lib/swr";
+import {
+  MultisigAction,
+  MultisigProposal,
+  MultisigStorage,
+  TempleAccount,
+  TempleAccountType,
+  countMultisigSignatures,
+  createMultisigProposal,
+  getMultisigPayloadBytes,
+  isAddressValid,
+  isKTAddress,
+  loadFastRpcClient,
+  loadMultisigStorage,
+  mergeMultisigProposals,
+  toMultisigMainParams,
+  tzToMutez,
+  useAccount,
+  useChainId,
+  useNetwork,
+  useRelevantAccounts,
+  useTempleClient,
+  useTezos,
+} from "lib/temple/front";
+import useCopyToClipboard from "lib/ui/useCopyToClipboard";
+import { Redirect } from "lib/woozie";
+
+type ActionType = "transfer" | "delegate" | "change_keys" | "operation";
+
+const ACTION_TYPES: { type: ActionType; name: string }[] = [
+  { type: "transfer", name: t("multisigTransfer") },
+  { type: "delegate", name: t("multisigDelegate") },
+  { type: "change_keys", name: t("multisigChangeKeys") },
+  { type: "operation", name: t("multisigCustomLambda") },
+];
+
+const Multisig: FC = () => {
+  const account = useAccount();
+
+  return (
+    <PageLayout
+      pageTitle={
+        <>
+          <PeopleIcon className="w-auto h-4 mr-1 stroke-current" />
+          <T id="multisigAccount" />
+        </>
+      }
+    >
+      {account.type === TempleAccountType.Multisig ? (
+        <MultisigContent contractAddress={account.publicKeyHash} />
+      ) : (
+        <Redirect to="/" />
+      )}
+    </PageLayout>
+  );
+};
+
+export default Multisig;
+
+type MultisigContentProps = {
+  contractAddress: string;
+};
+
+const MultisigContent: FC<MultisigContentProps> = ({ contractAddress }) => {
+  const tezos = useTezos();
+  const chainId = useChainId(true)!;
+  const { createTaquitoSigner } = useTempleClient();
+  const allAccounts = useRelevantAccounts(false);
+
+  const { data: storage, revalidate: revalidateStorage } = useRetryableSWR(
+    ["multisig-storage", tezos.checksum, contractAddress],
+    () => loadMultisigStorage(tezos, contractAddress),
+    { suspense: true, revalidateOnFocus: false }
+  );
+  const { keys, threshold, counter } = storage!;
+
+  const localSigners = useLocalSigners(allAccounts, keys);
+
+  const [proposal, setProposal] = useState<MultisigProposal | null>(null);
+
+  const handleActionCreate = useCallback(
+    (action: MultisigAction) => {
+      setProposal(
+        createMultisigProposal(contractAddress, chainId, counter, action)
+      );
+    },
+    [contractAddress, chainId, counter]
+  );
+
+  const handleProposalImport = useCallback(
+    async (imported: MultisigProposal) => {
+      if (
+        imported.contractAddress !== contractAddress ||
+        imported.chainId !== chainId
+      ) {
+        throw new Error(t("multisigProposalForAnotherContract"));
+      }
+      if (imported.counter !== counter) {
+        throw new Error(t("multisigProposalOutdated"));
+      }
+
+      // Imported signatures are checked even if there is no own proposal
+      setProposal(
+        await mergeMultisigProposals(
+          proposal ?? { ...imported, signatures: {} },
+          imported,
+          keys
+        )
+      );
+    },
+    [contractAddress, chainId, counter, proposal, keys]
+  );
+
+  const handleSign = useCallback(
+    async (signer: LocalSigner) => {
+      if (!proposal) return;
+
+      const { prefixSig } = await createTaquitoSigner(
+        signer.account.publicKeyHash
+      ).sign(getMultisigPayloadBytes(proposal));
+      setProposal(
+        (current) =>
+          current && {
+            ...current,
+            signatures: {
+              ...current.signatures,
+              [signer.publicKey]: prefixSig,
+            },
+          }
+      );
+    },
+    [proposal, createTaquitoSigner]
+  );
+
+  const handleSubmitted = useCallback(() => {
+    setProposal(null);
+    revalidateStorage();
+  }, [revalidateStorage]);
+
+  return (
+    <div className="w-full max-w-sm mx-auto my-8">
+      <SignersView storage={storage!} localSigners={localSigners} />
+
+      {proposal ? (
+        <ProposalView
+          proposal={proposal}
+          storage={storage!}
+          localSigners={localSigners}
+          submitters={allAccounts}
+          onSign={handleSign}
+          onSubmitted={handleSubmitted}
+          onCancel={() => setProposal(null)}
+        />
+      ) : (
+        <ProposalForm threshold={threshold} onCreate={handleActionCreate} />
+      )}
+
+      <ImportProposalForm onImport={handleProposalImport} />
+    </div>
+  );
+};
+
+type LocalSigner = {
+  account: TempleAccount;
+  publicKey: string;
+};
+
+function useLocalSigners(accounts: TempleAccount[], keys: string[]) {
+  const { createTaquitoSigner } = useTempleClient();
+
+  const ownAccounts = useMemo(
+    () =>
+      accounts.filter(
+        (acc) =>
+          acc.type !== TempleAccountType.WatchOnly &&
+          acc.type !== TempleAccountType.ManagedKT &&
+          acc.type !== TempleAccountType.Multisig
+      ),
+    [accounts]
+  );
+
+  const { data: publicKeys = [] } = useRetryableSWR(
+    ["local-public-keys", ...ownAccounts.map((acc) => acc.publicKeyHash)],
+    (_k: string, ...pkhs: string[]) =>
+      Promise.all(pkhs.map((pkh) => createTaquitoSigner(pkh).publicKey())),
+    { revalidateOnFocus: false }
+  );
+
+  return useMemo(
+    () =>
+      ownAccounts
+        .map((account, i) => ({ account, publicKey: publicKeys[i] }))
+        .filter(({ publicKey }) => keys.includes(publicKey)),
+    [ownAccounts, publicKeys, keys]
+  );
+}
+
+type SignersViewProps = {
+  storage: MultisigStorage;
+  localSigners: LocalSigner[];
+};
+
+const SignersView: FC<SignersViewProps> = ({ storage, localSigners }) => (
+  <div className="mb-8">
+    <SectionTitle
+      title={t("multisigSigners")}
+      description={t("multisigThreshold", [
+        String(storage.threshold),
+        String(storage.keys.length),
+      ])}
+    />
+
+    <div
+      className={classNames(
+        "rounded-md overflow-hidden",
+        "border-2 bg-gray-100",
+        "flex flex-col",
+        "text-gray-700 text-sm leading-tight"
+      )}
+    >
+      {storage.keys.map((key, i, arr) => {
+        const local = localSigners.find((s) => s.publicKey === key);
+
+        return (
+          <div
+            key={key}
+            className={classNames(
+              "w-full p-2",
+              i < arr.length - 1 && "border-b border-gray-200",
+              "flex items-center"
+            )}
+          >
+            <Identicon
+              type="bottts"
+              hash={local?.account.publicKeyHash ?? key}
+              size={24}
+              className="flex-shrink-0 shadow-xs"
+            />
+
+            <div className="ml-2 flex flex-col items-start">
+              {local && (
+                <Name className="text-sm font-medium leading-tight">
+                  {local.account.name}
+                </Name>
+              )}
+              <span className="text-xs text-gray-600">
+                <HashShortView hash={key} />
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+type ProposalFormData = {
+  to: string;
+  amount: string;
+  baker: string;
+  threshold: string;
+  keys: string;
+  lambda: string;
+};
+
+type ProposalFormProps = {
+  threshold: number;
+  onCreate: (action: MultisigAction) => void;
+};
+
+const ProposalForm: FC<ProposalFormProps> = ({ threshold, onCreate }) => {
+  const [actionType, setActionType] = useState<ActionType>("transfer");
+  const { register, handleSubmit, errors } = useForm<ProposalFormData>({
+    defaultValues: { threshold: String(threshold) },
+  });
+  const [error, setError] = useState<ReactNode>(null);
+
+  const onSubmit = useCallback(
+    (data: ProposalFormData) => {
+      setError(null);
+      try {
+        onCreate(toMultisigAction(actionType, data));
+      } catch (err) {
+        setError(err.message);
+      }
+    },
+    [actionType, onCreate]
+  );
+
+  const validateAddress = useCallback(
+    (value: string) => isAddressValid(value) || t("invalidAddress"),
+    []
+  );
+
+  return (
+    <form className="mb-8" onSubmit={handleSubmit(onSubmit)}>
+      <SectionTitle
+        title={t("multisigNewProposal")}
+        description={t("multisigNewProposalDescription")}
+      />
+
+      <div className="mb-4">
+        <TypeSelect
+          options={ACTION_TYPES}
+          value={actionType}
+          onChange={setActionType}
+        />
+      </div>
+
+      {actionType === "transfer" && (
+        <>
+          <FormField
+            ref={register({
+              required: t("required"),
+              validate: validateAddress,
+            })}
+            name="to"
+            id="multisig-to"
+            label={t("recipient")}
+            placeholder="tz1... / KT1..."
+            errorCaption={errors.to?.message}
+            containerClassName="mb-4"
+          />
+          <FormField
+            ref={register({
+              required: t("required"),
+              pattern: {
+                value: /^\d+(\.\d{1,6})?$/,
+                message: t("invalidAmount"),
+              },
+            })}
+            name="amount"
+            id="multisig-amount"
+            label={t("amount")}
+            placeholder="0.0 ꜩ"
+            errorCaption={errors.amount?.message}
+            containerClassName="mb-4"
+          />
+        </>
+      )}
+
+      {actionType === "delegate" && (
+        <FormField
+          ref={register({ required: t("required"), validate: validateAddress })}
+          name="baker"
+          id="multisig-baker"
+          label={t("baker")}
+          placeholder="tz1..."
+          errorCaption={errors.baker?.message}
+          containerClassName="mb-4"
+        />
+      )}
+
+      {actionType === "change_keys" && (
+        <>
+          <FormField
+            ref={register({
+              required: t("required"),
+              min: { value: 1, message: t("positiveIntMessage") },
+            })}
+            type="number"
+            min={1}
+            name="threshold"
+            id="multisig-threshold"
+            label={t("multisigThresholdLabel")}
+            errorCaption={errors.threshold?.message}
+            containerClassName="mb-4"
+          />
+          <FormField
+            ref={register({ required: t("required") })}
+            textarea
+            rows={4}
+            name="keys"
+            id="multisig-keys"
+            label={t("multisigKeys")}
+            labelDescription={t("multisigKeysDescription")}
+            placeholder="edpk..."
+            errorCaption={errors.keys?.message}
+            style={{ resize: "none" }}
+            containerClassName="mb-4"
+          />
+        </>
+      )}
+
+      {actionType === "operation" && (
+        <FormField
+          ref={register({ required: t("required") })}
+          textarea
+          rows={6}
+          name="lambda"
+          id="multisig-lambda"
+          label={t("multisigLambda")}
+          labelDescription={t("multisigLambdaDescription")}
+          placeholder='[{ "prim": "DROP" }, ...]'
+          errorCaption={errors.lambda?.message}
+          className="font-mono text-xs"
+          style={{ resize: "none" }}
+          containerClassName="mb-4"
+        />
+      )}
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          description={error}
+          autoFocus
+          className="mb-4"
+        />
+      )}
+
+      <FormSubmitButton>
+        <T id="multisigCreateProposal" />
+      </FormSubmitButton>
+    </form>
+  );
+};
+
+function toMultisigAction(
+  actionType: ActionType,
+  data: ProposalFormData
+): MultisigAction {
+  switch (actionType) {
+    case "transfer":
+      const mutez = tzToMutez(data.amount);
+      return {
+        type: "operation",
+        lambda: isKTAddress(data.to)
+          ? transferToContract(data.to, mutez)
+          : transferImplicit(data.to, mutez),
+      };
+
+    case "delegate":
+      return { type: "operation", lambda: setDelegate(data.baker) };
+
+    case "change_keys":
+      const keys = data.keys.split(/[\s,]+/).filter(Boolean);
+      if (+data.threshold > keys.length) {
+        throw new Error(t("multisigThresholdTooHigh"));
+      }
+      return { type: "change_keys", threshold: +data.threshold, keys };
+
+    case "operation":
+      let lambda;
+      try {
+        lambda = JSON.parse(data.lambda);
+      } catch {}
+      if (!Array.isArray(lambda)) {
+        throw new Error(t("multisigInvalidLambda"));
+      }
+      return { type: "operation", lambda };
+  }
+}
+
+type ProposalViewProps = {
+  proposal: MultisigProposal;
+  storage: MultisigStorage;
+  localSigners: LocalSigner[];
+  submitters: TempleAccount[];
+  onSign: (signer: LocalSigner) => Promise<void>;
+  onSubmitted: () => void;
+  onCancel: () => void;
+};
+
+const ProposalView: FC<ProposalViewProps> = ({
+  proposal,
+  storage,
+  localSigners,
+  submitters,
+  onSign,
+  onSubmitted,
+  onCancel,
+}) => {
+  const network = useNetwork();
+  const { createTaquitoSigner, createTaquitoWallet } = useTempleClient();
+  const { fieldRef, copy, copied } = useCopyToClipboard<HTMLTextAreaElement>();
+
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<ReactNode>(null);
+  const [opHash, setOpHash] = useState<string | null>(null);
+
+  const ownSubmitters = useMemo(
+    () =>
+      submitters.filter(
+        (acc) =>
+          acc.type !== TempleAccountType.WatchOnly &&
+          acc.type !== TempleAccountType.ManagedKT &&
+          acc.type !== TempleAccountType.Multisig
+      ),
+    [submitters]
+  );
+  const [submitterPkh, setSubmitterPkh] = useState(
+    () =>
+      localSigners[0]?.account.publicKeyHash ?? ownSubmitters[0]?.publicKeyHash
+  );
+
+  const signaturesCount = countMultisigSignatures(proposal, storage.keys);
+  const ready = signaturesCount >= storage.threshold;
+  const proposalJSON = useMemo(() => JSON.stringify(proposal), [proposal]);
+
+  const withProcessing = useCallback(
+    async (factory: () => Promise<void>) => {
+      if (processing) return;
+      setProcessing(true);
+      setError(null);
+      try {
+        await factory();
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        setError(err.message);
+      }
+      setProcessing(false);
+    },
+    [processing]
+  );
+
+  const handleSubmit = useCallback(
+    () =>
+      withProcessing(async () => {
+        const tezos = new TezosToolkit(loadFastRpcClient(network.rpcBaseURL));
+        tezos.setSignerProvider(createTaquitoSigner(submitterPkh));
+        tezos.setWalletProvider(
+          createTaquitoWallet(submitterPkh, network.rpcBaseURL)
+        );
+
+        const op = await tezos.wallet
+          .transfer({
+            to: proposal.contractAddress,
+            amount: 0,
+            parameter: toMultisigMainParams(proposal, storage.keys),
+          })
+          .send();
+        setOpHash(op.opHash);
+        onSubmitted();
+      }),
+    [
+      withProcessing,
+      network.rpcBaseURL,
+      createTaquitoSigner,
+      createTaquitoWallet,
+      submitterPkh,
+      proposal,
+      storage.keys,
+      onSubmitted,
+    ]
+  );
+
+  if (opHash) {
+    return (
+      <Alert
+        type="success"
+        title={t("success")}
+        description={
+          <T id="multisigProposalSubmitted" substitutions={opHash} />
+        }
+        className="mb-8"
+      />
+    );
+  }
+
+  return (
+    <div className="mb-8">
+      <SectionTitle
+        title={t("multisigProposal")}
+        description={t("multisigSignaturesCollected", [
+          String(signaturesCount),
+          String(storage.threshold),
+        ])}
+      />
+
+      <FormField
+        ref={fieldRef}
+        textarea
+        rows={4}
+        readOnly
+        value={proposalJSON}
+        id="multisig-proposal"
+        label={t("multisigProposalData")}
+        labelDescription={t("multisigProposalDataDescription")}
+        className="font-mono text-xs break-all"
+        style={{ resize: "none" }}
+        containerClassName="mb-2"
+      />
+
+      <FormSecondaryButton type="button" small className="mb-6" onClick={copy}>
+        <T id={copied ? "copiedAddress" : "copyAddressToClipboard"} />
+      </FormSecondaryButton>
+
+      {localSigners.map((signer) => {
+        const signed = Boolean(proposal.signatures[signer.publicKey]);
+
+        return (
+          <div key={signer.publicKey} className="mb-2 flex items-center">
+            <Name className="text-sm text-gray-700">{signer.account.name}</Name>
+            <div className="flex-1" />
+            {signed ? (
+              <span className="text-xs text-gray-500">
+                <T id="multisigSigned" />
+              </span>
+            ) : (
+              <FormSecondaryButton
+                type="button"
+                small
+                disabled={processing}
+                onClick={() => withProcessing(() => onSign(signer))}
+              >
+                <T id="multisigSign" />
+              </FormSecondaryButton>
+            )}
+          </div>
+        );
+      })}
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          description={error}
+          autoFocus
+          className="my-4"
+        />
+      )}
+
+      {ready && ownSubmitters.length > 0 && (
+        <div className="mt-6">
+          <SectionTitle
+            title={t("multisigSubmitter")}
+            description={t("multisigSubmitterDescription")}
+          />
+
+          <div className="mb-4">
+            <TypeSelect
+              options={ownSubmitters.map((acc) => ({
+                type: acc.publicKeyHash,
+                name: acc.name,
+              }))}
+              value={submitterPkh}
+              onChange={setSubmitterPkh}
+            />
+          </div>
+
+          <FormSubmitButton
+            type="button"
+            loading={processing}
+            onClick={handleSubmit}
+          >
+            <T id="multisigSubmit" />
+          </FormSubmitButton>
+        </div>
+      )}
+
+      <FormSecondaryButton
+        type="button"
+        className="mt-4"
+        disabled={processing}
+        onClick={onCancel}
+      >
+        <T id="cancel" />
+      </FormSecondaryButton>
+    </div>
+  );
+};
+
+type ImportProposalFormData = {
+  proposal: string;
+};
+
+type ImportProposalFormProps = {
+  onImport: (proposal: MultisigProposal) => Promise<void>;
+};
+
+const ImportProposalForm: FC<ImportProposalFormProps> = ({ onImport }) => {
+  const { register, handleSubmit, errors, setError, reset } =
+    useForm<ImportProposalFormData>();
+
+  const onSubmit = useCallback(
+    async ({ proposal }: ImportProposalFormData) => {
+      try {
+        await onImport(JSON.parse(proposal));
+        reset();
+      } catch (err) {
+        setError(
+          "proposal",
+          "import-error",
+          err instanceof SyntaxError
+            ? t("multisigInvalidProposal")
+            : err.message
+        );
+      }
+    },
+    [onImport, reset, setError]
+  );
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <FormField
+        ref={register({ required: t("required") })}
+        textarea
+        rows={3}
+        name="proposal"
+        id="multisig-import-proposal"
+        label={t("multisigImportProposal")}
+        labelDescription={t("multisigImportProposalDescription")}
+        placeholder='{ "contractAddress": "KT1...", ... }'
+        errorCaption={errors.proposal?.message}
+        className="font-mono text-xs"
+        style={{ resize: "none" }}
+        containerClassName="mb-4"
+      />
+
+      <FormSecondaryButton>
+        <T id="multisigImportProposalButton" />
+      </FormSecondaryButton>
+    </form>
+  );
+};
+
+type SectionTitleProps = {
+  title: ReactNode;
+  description?: ReactNode;
+};
+
+const SectionTitle: FC<SectionTitleProps> = ({ title, description }) => (
+  <h2 className="mb-4 leading-tight flex flex-col">
+    <span className="text-base font-semibold text-gray-700">{title}</span>
+    {description && (
+      <span
+        className="mt-1 text-xs font-light text-gray-600"
+        style={{ maxWidth: "90%" }}
+      >
+        {description}
+      </span>
+    )}
+  </h2>
+);
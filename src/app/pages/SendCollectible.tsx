@@ -0,0 +1,39 @@
+import React, { FC } from "react";
+
+import { ReactComponent as SendIcon } from "app/icons/send.svg";
+import PageLayout from "app/layouts/PageLayout";
+import CollectibleSendForm from "app/templates/CollectibleSendForm";
+import { t } from "lib/i18n/react";
+import { isCollectible, useAssetBySlug } from "lib/temple/front";
+import { Redirect } from "lib/woozie";
+
+type SendCollectibleProps = {
+  assetSlug?: string | null;
+};
+
+const SendCollectible: FC<SendCollectibleProps> = ({ assetSlug }) => {
+  const asset = useAssetBySlug(assetSlug);
+
+  if (!asset || !isCollectible(asset)) {
+    return <Redirect to="/?tab=collectibles" />;
+  }
+
+  return (
+    <PageLayout
+      pageTitle={
+        <>
+          <SendIcon className="w-auto h-4 mr-1 stroke-current" />{" "}
+          {t("sendCollectible")}
+        </>
+      }
+    >
+      <div className="py-4">
+        <div className="w-full max-w-sm mx-auto">
+          <CollectibleSendForm asset={asset} />
+        </div>
+      </div>
+    </PageLayout>
+  );
+};
+
+export default SendCollectible;
@@ -1,8 +1,13 @@
 export enum SettingsSelectors {
   GeneralButton = "Settings/GeneralButton",
+  SecurityButton = "Settings/SecurityButton",
   AddressBookButton = "Settings/AddressBookButton",
+  ManageAccountsButton = "Settings/ManageAccountsButton",
+  AccountPolicyButton = "Settings/AccountPolicyButton",
   RevealPrivateKeyButton = "Settings/RevealPrivateKeyButton",
   RevealSeedPhraseButton = "Settings/RevealSeedPhraseButton",
+  ChangePasswordButton = "Settings/ChangePasswordButton",
+  ExportBackupButton = "Settings/ExportBackupButton",
   DAppsButton = "Settings/DAppsButton",
   NetworksButton = "Settings/NetworksButton",
   ActivateAccountButton = "Settings/ActivateAccountButton",
@@ -4,24 +4,34 @@ import classNames from "clsx";
 
 import { ReactComponent as AppsIcon } from "app/icons/apps.svg";
 import { ReactComponent as ContactBookIcon } from "app/icons/contact-book.svg";
+import { ReactComponent as DownloadIcon } from "app/icons/download.svg";
 import { ReactComponent as ExtensionIcon } from "app/icons/extension.svg";
 import { ReactComponent as HelpIcon } from "app/icons/help.svg";
 import { ReactComponent as KeyIcon } from "app/icons/key.svg";
+import { ReactComponent as LockIcon } from "app/icons/lock.svg";
 import { ReactComponent as MinusIcon } from "app/icons/minus.svg";
 import { ReactComponent as OkIcon } from "app/icons/ok.svg";
+import { ReactComponent as PeopleIcon } from "app/icons/people.svg";
 import { ReactComponent as SettingsIcon } from "app/icons/settings.svg";
+import { ReactComponent as ShieldCancelIcon } from "app/icons/shield-cancel.svg";
+import { ReactComponent as ShieldOkIcon } from "app/icons/shield-ok.svg";
 import { ReactComponent as SignalAltIcon } from "app/icons/signal-alt.svg";
 import { ReactComponent as StickerIcon } from "app/icons/sticker.svg";
 import PageLayout from "app/layouts/PageLayout";
 import About from "app/templates/About";
+import AccountPolicySettings from "app/templates/AccountPolicySettings";
 import ActivateAccount from "app/templates/ActivateAccount";
 import AddressBookSettings from "app/templates/AddressBookSettings";
+import ChangePassword from "app/templates/ChangePassword";
 import CustomNetworksSettings from "app/templates/CustomNetworksSettings";
 import DAppSettings from "app/templates/DAppSettings";
+import ExportBackup from "app/templates/ExportBackup";
 import GeneralSettings from "app/templates/GeneralSettings";
 import HelpAndCommunity from "app/templates/HelpAndCommunity";
+import ManageAccounts from "app/templates/ManageAccounts";
 import RemoveAccount from "app/templates/RemoveAccount";
 import RevealSecret from "app/templates/RevealSecret";
+import SecuritySettings from "app/templates/SecuritySettings";
 import { T } from "lib/i18n/react";
 import { Link } from "lib/woozie";
 
@@ -44,6 +54,15 @@ const TABS = [
     descriptionI18nKey: "generalSettingsDescription",
     testID: SettingsSelectors.GeneralButton,
   },
+  {
+    slug: "security",
+    titleI18nKey: "security",
+    Icon: ShieldOkIcon,
+    Component: SecuritySettings,
+    color: "#48BB78",
+    descriptionI18nKey: "securityDescription",
+    testID: SettingsSelectors.SecurityButton,
+  },
   {
     slug: "address-book",
     titleI18nKey: "addressBook",
@@ -53,6 +72,24 @@ const TABS = [
     descriptionI18nKey: "addressBookDescription",
     testID: SettingsSelectors.AddressBookButton,
   },
+  {
+    slug: "manage-accounts",
+    titleI18nKey: "manageAccounts",
+    Icon: PeopleIcon,
+    Component: ManageAccounts,
+    color: "#ED64A6",
+    descriptionI18nKey: "manageAccountsDescription",
+    testID: SettingsSelectors.ManageAccountsButton,
+  },
+  {
+    slug: "account-policy",
+    titleI18nKey: "accountPolicy",
+    Icon: ShieldCancelIcon,
+    Component: AccountPolicySettings,
+    color: "#E53E3E",
+    descriptionI18nKey: "accountPolicyDescription",
+    testID: SettingsSelectors.AccountPolicyButton,
+  },
   {
     slug: "reveal-private-key",
     titleI18nKey: "revealPrivateKey",
@@ -71,6 +108,24 @@ const TABS = [
     descriptionI18nKey: "revealSeedPhraseDescription",
     testID: SettingsSelectors.RevealSeedPhraseButton,
   },
+  {
+    slug: "change-password",
+    titleI18nKey: "changePassword",
+    Icon: LockIcon,
+    Component: ChangePassword,
+    color: "#ED8936",
+    descriptionI18nKey: "changePasswordDescription",
+    testID: SettingsSelectors.ChangePasswordButton,
+  },
+  {
+    slug: "backup",
+    titleI18nKey: "exportBackup",
+    Icon: DownloadIcon,
+    Component: ExportBackup,
+    color: "#4FD1C5",
+    descriptionI18nKey: "exportBackupDescription",
+    testID: SettingsSelectors.ExportBackupButton,
+  },
   {
     slug: "dapps",
     titleI18nKey: "dApps",
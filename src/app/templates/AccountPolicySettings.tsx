@@ -0,0 +1,306 @@
+import React, { FC, ReactNode, useCallback, useMemo, useState } from "react";
+
+import BigNumber from "bignumber.js";
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+
+import Alert from "app/atoms/Alert";
+import AssetField from "app/atoms/AssetField";
+import FormField from "app/atoms/FormField";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import Money from "app/atoms/Money";
+import { ReactComponent as CloseIcon } from "app/icons/close.svg";
+import AccountBanner from "app/templates/AccountBanner";
+import AssetSelect from "app/templates/AssetSelect";
+import { T, t } from "lib/i18n/react";
+import {
+  TEZ_ASSET,
+  TempleAccountPolicy,
+  TempleAsset,
+  atomsToTokens,
+  getAssetKey,
+  useAccount,
+  useAssets,
+  useTempleClient,
+} from "lib/temple/front";
+
+type FormData = {
+  allowedDestinations: string;
+  blockedEntrypoints: string;
+};
+
+const AccountPolicySettings: FC = () => {
+  const { setAccountPolicy } = useTempleClient();
+  const account = useAccount();
+  const policy = account.policy;
+
+  const [dailyLimits, setDailyLimits] = useState<Record<string, string>>(
+    () => policy?.dailyLimits ?? {}
+  );
+  const [error, setError] = useState<ReactNode>(null);
+  const [saved, setSaved] = useState(false);
+
+  const { register, handleSubmit, formState, reset } = useForm<FormData>({
+    defaultValues: {
+      allowedDestinations: policy?.allowedDestinations?.join("\n") ?? "",
+      blockedEntrypoints: policy?.blockedEntrypoints?.join(", ") ?? "",
+    },
+  });
+  const submitting = formState.isSubmitting;
+
+  const save = useCallback(
+    async (newPolicy?: TempleAccountPolicy) => {
+      setError(null);
+      setSaved(false);
+      try {
+        await setAccountPolicy(account.publicKeyHash, newPolicy);
+        setSaved(true);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [setAccountPolicy, account.publicKeyHash]
+  );
+
+  const onSubmit = useCallback(
+    ({ allowedDestinations, blockedEntrypoints }: FormData) => {
+      if (submitting) return;
+
+      return save({
+        dailyLimits,
+        allowedDestinations: splitList(allowedDestinations),
+        blockedEntrypoints: splitList(blockedEntrypoints),
+      });
+    },
+    [submitting, save, dailyLimits]
+  );
+
+  const handleClearClick = useCallback(async () => {
+    if (submitting) return;
+
+    await save(undefined);
+    setDailyLimits({});
+    reset({ allowedDestinations: "", blockedEntrypoints: "" });
+  }, [submitting, save, reset]);
+
+  const handleLimitAdd = useCallback((slug: string, atoms: string) => {
+    setDailyLimits((limits) => ({ ...limits, [slug]: atoms }));
+  }, []);
+
+  const handleLimitRemove = useCallback((slug: string) => {
+    setDailyLimits(({ [slug]: _removed, ...rest }) => rest);
+  }, []);
+
+  return (
+    <div className="w-full max-w-sm mx-auto my-8">
+      <AccountBanner account={account} className="mb-6" />
+
+      <p className="mb-6 text-xs font-light text-gray-600">
+        <T id="accountPolicyHint" />
+      </p>
+
+      <DailyLimits
+        limits={dailyLimits}
+        onAdd={handleLimitAdd}
+        onRemove={handleLimitRemove}
+      />
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <FormField
+          ref={register()}
+          textarea
+          rows={4}
+          name="allowedDestinations"
+          id="accountpolicy-destinations"
+          label={t("allowedDestinations")}
+          labelDescription={t("allowedDestinationsDescription")}
+          placeholder="tz1... / KT1..."
+          className="font-mono text-xs"
+          style={{ resize: "none" }}
+          containerClassName="mb-6"
+        />
+
+        <FormField
+          ref={register()}
+          name="blockedEntrypoints"
+          id="accountpolicy-entrypoints"
+          label={t("blockedEntrypoints")}
+          labelDescription={t("blockedEntrypointsDescription")}
+          placeholder="approve, update_operators"
+          containerClassName="mb-6"
+        />
+
+        {error && (
+          <Alert
+            type="error"
+            title={t("error")}
+            autoFocus
+            description={error}
+            className="mb-6"
+          />
+        )}
+
+        {saved && (
+          <Alert
+            type="success"
+            title={t("success")}
+            description={t("accountPolicySaved")}
+            className="mb-6"
+          />
+        )}
+
+        <FormSubmitButton loading={submitting}>
+          <T id="save" />
+        </FormSubmitButton>
+
+        {policy && (
+          <FormSecondaryButton
+            type="button"
+            className="mt-4"
+            disabled={submitting}
+            onClick={handleClearClick}
+          >
+            <T id="removeAccountPolicy" />
+          </FormSecondaryButton>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default AccountPolicySettings;
+
+type DailyLimitsProps = {
+  limits: Record<string, string>;
+  onAdd: (slug: string, atoms: string) => void;
+  onRemove: (slug: string) => void;
+};
+
+const DailyLimits: FC<DailyLimitsProps> = ({ limits, onAdd, onRemove }) => {
+  const { allAssetsWithHidden } = useAssets();
+
+  const [asset, setAsset] = useState<TempleAsset>(TEZ_ASSET);
+  const [amount, setAmount] = useState<string>();
+
+  const limitsEntries = useMemo(() => Object.entries(limits), [limits]);
+
+  const handleAddClick = useCallback(() => {
+    if (!amount) return;
+
+    const atoms = new BigNumber(amount)
+      .times(new BigNumber(10).pow(asset.decimals))
+      .integerValue();
+    onAdd(getAssetKey(asset), atoms.toFixed());
+    setAmount(undefined);
+  }, [amount, asset, onAdd]);
+
+  return (
+    <div className="mb-6">
+      <h2 className="mb-4 leading-tight flex flex-col">
+        <span className="text-base font-semibold text-gray-700">
+          <T id="dailyLimits" />
+        </span>
+
+        <span
+          className="mt-1 text-xs font-light text-gray-600"
+          style={{ maxWidth: "90%" }}
+        >
+          <T id="dailyLimitsDescription" />
+        </span>
+      </h2>
+
+      {limitsEntries.length > 0 && (
+        <div
+          className={classNames(
+            "mb-4",
+            "rounded-md overflow-hidden",
+            "border-2 bg-gray-100",
+            "flex flex-col",
+            "text-gray-700 text-sm leading-tight"
+          )}
+        >
+          {limitsEntries.map(([slug, atoms], i, arr) => {
+            const limitAsset = allAssetsWithHidden.find(
+              (a) => getAssetKey(a) === slug
+            );
+
+            return (
+              <div
+                key={slug}
+                className={classNames(
+                  "w-full p-2",
+                  i < arr.length - 1 && "border-b border-gray-200",
+                  "flex items-center"
+                )}
+              >
+                <span className="truncate">
+                  {limitAsset ? limitAsset.symbol : slug}
+                </span>
+
+                <div className="flex-1" />
+
+                <span className="ml-2 font-medium">
+                  {limitAsset ? (
+                    <Money>
+                      {atomsToTokens(new BigNumber(atoms), limitAsset.decimals)}
+                    </Money>
+                  ) : (
+                    atoms
+                  )}
+                </span>
+
+                <button
+                  type="button"
+                  className={classNames(
+                    "ml-2 p-px",
+                    "rounded",
+                    "text-gray-600",
+                    "hover:bg-gray-200 focus:bg-gray-200",
+                    "transition ease-in-out duration-200",
+                    "focus:outline-none"
+                  )}
+                  title={t("delete")}
+                  onClick={() => onRemove(slug)}
+                >
+                  <CloseIcon className="h-4 w-auto stroke-current" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AssetSelect value={asset} onChange={setAsset} className="mb-4" />
+
+      <AssetField
+        value={amount}
+        onChange={setAmount}
+        assetDecimals={asset.decimals}
+        id="accountpolicy-limit"
+        label={t("dailyLimitAmount")}
+        placeholder={t("amountPlaceholder")}
+        containerClassName="mb-4"
+      />
+
+      <FormSecondaryButton
+        type="button"
+        small
+        disabled={!amount}
+        onClick={handleAddClick}
+      >
+        <T id="setDailyLimit" />
+      </FormSecondaryButton>
+    </div>
+  );
+};
+
+function splitList(value: string) {
+  return value.split(/[\s,]+/).filter(Boolean);
+}
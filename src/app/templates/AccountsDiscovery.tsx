@@ -0,0 +1,290 @@
+import React, {
+  FC,
+  ReactNode,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+
+import Alert from "app/atoms/Alert";
+import FormField from "app/atoms/FormField";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import HashShortView from "app/atoms/HashShortView";
+import Identicon from "app/atoms/Identicon";
+import Money from "app/atoms/Money";
+import Balance from "app/templates/Balance";
+import { T, t } from "lib/i18n/react";
+import {
+  DerivationType,
+  TempleDiscoveredAccount,
+  useAllAccounts,
+  useNetwork,
+  useTempleClient,
+} from "lib/temple/front";
+import { navigate } from "lib/woozie";
+
+const DEFAULT_GAP_LIMIT = 5;
+
+type FormData = {
+  gapLimit: number;
+};
+
+type AccountsDiscoveryProps = {
+  derivationType?: DerivationType;
+  mnemonic?: string;
+  password?: string;
+  derivationPath?: string;
+};
+
+const AccountsDiscovery: FC<AccountsDiscoveryProps> = ({
+  derivationType,
+  mnemonic,
+  password,
+  derivationPath,
+}) => {
+  const { discoverAccounts, importDiscoveredAccounts } = useTempleClient();
+  const network = useNetwork();
+  const allAccounts = useAllAccounts();
+
+  const { register, handleSubmit, errors, formState } = useForm<FormData>({
+    defaultValues: { gapLimit: DEFAULT_GAP_LIMIT },
+  });
+  const scanning = formState.isSubmitting;
+
+  const [discovered, setDiscovered] = useState<
+    TempleDiscoveredAccount[] | null
+  >(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<ReactNode>(null);
+
+  useEffect(() => {
+    setDiscovered(null);
+    setError(null);
+  }, [derivationType, mnemonic, password, derivationPath, network.rpcBaseURL]);
+
+  const onSubmit = useCallback(
+    async ({ gapLimit }: FormData) => {
+      if (scanning) return;
+
+      setError(null);
+      setDiscovered(null);
+      try {
+        const accounts = await discoverAccounts(
+          network.rpcBaseURL,
+          derivationType,
+          +gapLimit,
+          mnemonic,
+          password,
+          derivationPath
+        );
+        setDiscovered(accounts);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [
+      scanning,
+      discoverAccounts,
+      network.rpcBaseURL,
+      derivationType,
+      mnemonic,
+      password,
+      derivationPath,
+    ]
+  );
+
+  const isAdded = useCallback(
+    (publicKeyHash: string) =>
+      allAccounts.some((acc) => acc.publicKeyHash === publicKeyHash),
+    [allAccounts]
+  );
+
+  const newAccounts = useMemo(
+    () =>
+      discovered?.filter(({ publicKeyHash }) => !isAdded(publicKeyHash)) ?? [],
+    [discovered, isAdded]
+  );
+
+  const handleImportClick = useCallback(async () => {
+    if (importing) return;
+
+    setError(null);
+    setImporting(true);
+    try {
+      await importDiscoveredAccounts(
+        newAccounts,
+        derivationType,
+        mnemonic,
+        password
+      );
+      navigate("/");
+    } catch (err) {
+      if (process.env.NODE_ENV === "development") {
+        console.error(err);
+      }
+
+      setError(err.message);
+    }
+    setImporting(false);
+  }, [
+    importing,
+    importDiscoveredAccounts,
+    newAccounts,
+    derivationType,
+    mnemonic,
+    password,
+  ]);
+
+  return (
+    <div className="w-full max-w-sm mx-auto">
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <FormField
+          ref={register({
+            required: t("required"),
+            min: { value: 1, message: t("positiveIntMessage") },
+          })}
+          min={1}
+          type="number"
+          name="gapLimit"
+          id="accountsdiscovery-gaplimit"
+          label={t("gapLimit")}
+          labelDescription={t("gapLimitDescription")}
+          placeholder={String(DEFAULT_GAP_LIMIT)}
+          errorCaption={errors.gapLimit?.message}
+          containerClassName="mb-6"
+        />
+
+        <FormSubmitButton loading={scanning}>
+          <T id="scanForAccounts" />
+        </FormSubmitButton>
+      </form>
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          autoFocus
+          description={error}
+          className="mt-6"
+        />
+      )}
+
+      {discovered && (
+        <div className="mt-8">
+          <h2 className="mb-4 text-base font-semibold text-gray-700">
+            {discovered.length > 0 ? (
+              <T
+                id="usedAccountsFound"
+                substitutions={String(discovered.length)}
+              />
+            ) : (
+              <T id="noUsedAccountsFound" />
+            )}
+          </h2>
+
+          {discovered.length > 0 && (
+            <div
+              className={classNames(
+                "mb-6",
+                "rounded-md overflow-hidden",
+                "border-2 bg-gray-100",
+                "flex flex-col",
+                "text-gray-700 text-sm leading-tight"
+              )}
+            >
+              {discovered.map((acc, i) => (
+                <DiscoveredAccountItem
+                  key={acc.publicKeyHash}
+                  account={acc}
+                  added={isAdded(acc.publicKeyHash)}
+                  last={i === discovered.length - 1}
+                />
+              ))}
+            </div>
+          )}
+
+          {newAccounts.length > 0 ? (
+            <FormSubmitButton
+              type="button"
+              loading={importing}
+              onClick={handleImportClick}
+            >
+              <T id="addNAccounts" substitutions={String(newAccounts.length)} />
+            </FormSubmitButton>
+          ) : (
+            <FormSecondaryButton type="button" onClick={() => navigate("/")}>
+              <T id="continue" />
+            </FormSecondaryButton>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountsDiscovery;
+
+type DiscoveredAccountItemProps = {
+  account: TempleDiscoveredAccount;
+  added: boolean;
+  last: boolean;
+};
+
+const DiscoveredAccountItem: FC<DiscoveredAccountItemProps> = ({
+  account,
+  added,
+  last,
+}) => (
+  <div
+    className={classNames(
+      "w-full",
+      !last && "border-b border-gray-200",
+      "flex items-center",
+      "p-2"
+    )}
+  >
+    <Identicon
+      type="bottts"
+      hash={account.publicKeyHash}
+      size={32}
+      className="flex-shrink-0 shadow-xs"
+    />
+
+    <div className="ml-2 flex flex-col items-start">
+      <span className="text-sm font-medium text-gray-700">
+        <HashShortView hash={account.publicKeyHash} />
+      </span>
+
+      <span className="text-xs text-gray-500">{account.derivationPath}</span>
+    </div>
+
+    <div className="flex-1" />
+
+    <div className="flex flex-col items-end">
+      <Balance address={account.publicKeyHash}>
+        {(bal) => (
+          <span className="text-xs leading-tight text-gray-700">
+            <Money>{bal}</Money> <span style={{ fontSize: "0.75em" }}>tez</span>
+          </span>
+        )}
+      </Balance>
+
+      {added && (
+        <span className="mt-1 text-xs text-gray-500">
+          <T id="alreadyAdded" />
+        </span>
+      )}
+    </div>
+  </div>
+);
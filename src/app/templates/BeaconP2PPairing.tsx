@@ -0,0 +1,187 @@
+import React, { FC, ReactNode, useCallback, useState } from "react";
+
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+
+import Alert from "app/atoms/Alert";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import Name from "app/atoms/Name";
+import { ReactComponent as CloseIcon } from "app/icons/close.svg";
+import { T, t } from "lib/i18n/react";
+import { useRetryableSWR } from "lib/swr";
+import { TempleBeaconP2PPairing, useTempleClient } from "lib/temple/front";
+import { useConfirm } from "lib/ui/dialog";
+
+type FormData = {
+  pairingCode: string;
+};
+
+const BeaconP2PPairing: FC = () => {
+  const { pairBeaconP2P, getBeaconP2PPairings, removeBeaconP2PPairing } =
+    useTempleClient();
+  const confirm = useConfirm();
+
+  const { data: pairings = [], mutate } = useRetryableSWR(
+    ["getBeaconP2PPairings"],
+    getBeaconP2PPairings,
+    {
+      shouldRetryOnError: false,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+    }
+  );
+
+  const { register, handleSubmit, errors, formState, reset } =
+    useForm<FormData>();
+  const submitting = formState.isSubmitting;
+
+  const [error, setError] = useState<ReactNode>(null);
+  const [paired, setPaired] = useState<TempleBeaconP2PPairing | null>(null);
+
+  const onSubmit = useCallback(
+    async ({ pairingCode }: FormData) => {
+      if (submitting) return;
+
+      setError(null);
+      setPaired(null);
+      try {
+        const pairing = await pairBeaconP2P(pairingCode);
+        setPaired(pairing);
+        reset();
+        mutate();
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [submitting, pairBeaconP2P, reset, mutate]
+  );
+
+  const handleRemoveClick = useCallback(
+    async (pairing: TempleBeaconP2PPairing) => {
+      if (
+        await confirm({
+          title: t("actionConfirmation"),
+          children: t("unpairDAppConfirmation", pairing.name),
+        })
+      ) {
+        mutate(await removeBeaconP2PPairing(pairing.id), false);
+      }
+    },
+    [confirm, removeBeaconP2PPairing, mutate]
+  );
+
+  return (
+    <div className="w-full max-w-sm mx-auto my-8">
+      <h2 className="mb-4 leading-tight flex flex-col">
+        <span className="text-base font-semibold text-gray-700">
+          <T id="pairViaQrOrCode" />
+        </span>
+
+        <span
+          className="mt-1 text-xs font-light text-gray-600"
+          style={{ maxWidth: "90%" }}
+        >
+          <T id="pairViaQrOrCodeDescription" />
+        </span>
+      </h2>
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <FormField
+          ref={register({ required: t("required") })}
+          textarea
+          rows={3}
+          name="pairingCode"
+          id="beaconp2p-pairing-code"
+          label={t("pairingCode")}
+          placeholder="tezos://?type=tzip10&data=..."
+          errorCaption={errors.pairingCode?.message}
+          spellCheck={false}
+          className="font-mono text-xs break-all"
+          style={{ resize: "none" }}
+          containerClassName="mb-4"
+        />
+
+        {error && (
+          <Alert
+            type="error"
+            title={t("error")}
+            autoFocus
+            description={error}
+            className="mb-4"
+          />
+        )}
+
+        {paired && (
+          <Alert
+            type="success"
+            title={t("success")}
+            description={t("dAppPaired", paired.name)}
+            className="mb-4"
+          />
+        )}
+
+        <FormSubmitButton loading={submitting}>
+          <T id="pair" />
+        </FormSubmitButton>
+      </form>
+
+      {pairings.length > 0 && (
+        <div
+          className={classNames(
+            "mt-6",
+            "rounded-md overflow-hidden",
+            "border-2 bg-gray-100",
+            "flex flex-col",
+            "text-gray-700 text-sm leading-tight"
+          )}
+        >
+          {pairings.map((pairing, i) => (
+            <div
+              key={pairing.id}
+              className={classNames(
+                "w-full p-2",
+                i < pairings.length - 1 && "border-b border-gray-200",
+                "flex items-center"
+              )}
+            >
+              <div className="flex flex-col items-start min-w-0">
+                <Name className="text-sm font-medium">{pairing.name}</Name>
+
+                <span className="text-xs text-gray-500 truncate">
+                  {pairing.appUrl ?? pairing.relayServer}
+                </span>
+              </div>
+
+              <div className="flex-1" />
+
+              <button
+                type="button"
+                className={classNames(
+                  "ml-2 p-px",
+                  "rounded",
+                  "text-gray-600",
+                  "hover:bg-gray-200 focus:bg-gray-200",
+                  "transition ease-in-out duration-200",
+                  "focus:outline-none"
+                )}
+                title={t("unpair")}
+                onClick={() => handleRemoveClick(pairing)}
+              >
+                <CloseIcon className="h-4 w-auto stroke-current" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BeaconP2PPairing;
@@ -0,0 +1,144 @@
+import React, { FC, useCallback, useLayoutEffect, useState } from "react";
+
+import { useForm } from "react-hook-form";
+
+import Alert from "app/atoms/Alert";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import { PASSWORD_PATTERN, PASSWORD_ERROR_CAPTION } from "app/defaults";
+import { T, t } from "lib/i18n/react";
+import { useTempleClient } from "lib/temple/front";
+
+const SUBMIT_ERROR_TYPE = "submit-error";
+
+type FormData = {
+  password: string;
+  newPassword: string;
+  reNewPassword: string;
+};
+
+const ChangePassword: FC = () => {
+  const { changePassword } = useTempleClient();
+
+  const {
+    watch,
+    register,
+    handleSubmit,
+    errors,
+    setError,
+    clearError,
+    triggerValidation,
+    formState,
+    reset,
+  } = useForm<FormData>();
+  const submitting = formState.isSubmitting;
+
+  const newPasswordValue = watch("newPassword");
+
+  useLayoutEffect(() => {
+    if (formState.dirtyFields.has("reNewPassword")) {
+      triggerValidation("reNewPassword");
+    }
+  }, [triggerValidation, formState.dirtyFields, newPasswordValue]);
+
+  const [success, setSuccess] = useState(false);
+
+  const onSubmit = useCallback(
+    async ({ password, newPassword }: FormData) => {
+      if (submitting) return;
+
+      clearError("password");
+      setSuccess(false);
+      try {
+        await changePassword(password, newPassword);
+        reset();
+        setSuccess(true);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay.
+        await new Promise((res) => setTimeout(res, 300));
+        setError("password", SUBMIT_ERROR_TYPE, err.message);
+      }
+    },
+    [submitting, clearError, setError, changePassword, reset, setSuccess]
+  );
+
+  return (
+    <div className="w-full max-w-sm p-2 mx-auto">
+      {success && (
+        <Alert
+          type="success"
+          title={t("passwordChanged")}
+          description={
+            <p>
+              <T id="passwordChangedDescription" />
+            </p>
+          }
+          autoFocus
+          className="mb-6"
+        />
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <FormField
+          ref={register({ required: t("required") })}
+          label={t("currentPassword")}
+          labelDescription={t("currentPasswordInputDescription")}
+          id="changepassword-password"
+          type="password"
+          name="password"
+          placeholder="********"
+          errorCaption={errors.password?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormField
+          ref={register({
+            required: t("required"),
+            pattern: {
+              value: PASSWORD_PATTERN,
+              message: PASSWORD_ERROR_CAPTION,
+            },
+          })}
+          label={t("newPassword")}
+          labelDescription={t("newPasswordInputDescription")}
+          id="changepassword-newpassword"
+          type="password"
+          name="newPassword"
+          placeholder="********"
+          errorCaption={errors.newPassword?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormField
+          ref={register({
+            required: t("required"),
+            validate: (val) =>
+              val === newPasswordValue || t("mustBeEqualToPasswordAbove"),
+          })}
+          label={t("repeatPassword")}
+          labelDescription={t("repeatPasswordInputDescription")}
+          id="changepassword-renewpassword"
+          type="password"
+          name="reNewPassword"
+          placeholder="********"
+          errorCaption={errors.reNewPassword?.message}
+          containerClassName="mb-6"
+        />
+
+        <T id="changePassword">
+          {(message) => (
+            <FormSubmitButton loading={submitting} disabled={submitting}>
+              {message}
+            </FormSubmitButton>
+          )}
+        </T>
+      </form>
+    </div>
+  );
+};
+
+export default ChangePassword;
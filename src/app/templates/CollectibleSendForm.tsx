@@ -0,0 +1,436 @@
+import React, { Dispatch, FC, useCallback, useMemo } from "react";
+
+import { DEFAULT_FEE } from "@taquito/taquito";
+import BigNumber from "bignumber.js";
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+import useSWR from "swr";
+
+import Alert from "app/atoms/Alert";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import Money from "app/atoms/Money";
+import NoSpaceField from "app/atoms/NoSpaceField";
+import Spinner from "app/atoms/Spinner";
+import {
+  ArtificialError,
+  NotEnoughFundsError,
+  ZeroBalanceError,
+  ZeroTEZBalanceError,
+} from "app/defaults";
+import AdditionalFeeInput from "app/templates/AdditionalFeeInput";
+import CollectibleThumbnail from "app/templates/CollectibleThumbnail";
+import OperationStatus from "app/templates/OperationStatus";
+import SendErrorAlert from "app/templates/SendForm/SendErrorAlert";
+import { useFormAnalytics } from "lib/analytics";
+import { toLocalFixed } from "lib/i18n/numbers";
+import { T, t } from "lib/i18n/react";
+import {
+  fetchBalance,
+  getAssetKey,
+  hasManager,
+  isAddressValid,
+  isKTAddress,
+  mutezToTz,
+  TempleFA2Asset,
+  TEZ_ASSET,
+  toPenny,
+  toTransferParams,
+  tzToMutez,
+  useAccount,
+  useBalance,
+  useTezos,
+} from "lib/temple/front";
+import useSafeState from "lib/ui/useSafeState";
+
+interface FormData {
+  to: string;
+  quantity: string;
+  fee: number;
+}
+
+const PENNY = 0.000001;
+const RECOMMENDED_ADD_FEE = 0.0001;
+
+type CollectibleSendFormProps = {
+  asset: TempleFA2Asset;
+};
+
+const CollectibleSendForm: FC<CollectibleSendFormProps> = ({ asset }) => {
+  const tezos = useTezos();
+  const [operation, setOperation] = useSafeState<any>(null, tezos.checksum);
+
+  return (
+    <>
+      {operation && (
+        <OperationStatus typeTitle={t("transaction")} operation={operation} />
+      )}
+
+      <div className="mb-6 flex items-center">
+        <CollectibleThumbnail
+          asset={asset}
+          size={48}
+          className="mr-3 flex-shrink-0 rounded"
+        />
+
+        <div className="min-w-0">
+          <div className="text-base font-semibold text-gray-700 truncate">
+            {asset.name}
+          </div>
+          <div className="text-xs font-light text-gray-600 truncate">
+            {asset.address} #{asset.id}
+          </div>
+        </div>
+      </div>
+
+      <Form asset={asset} setOperation={setOperation} />
+    </>
+  );
+};
+
+export default CollectibleSendForm;
+
+type FormProps = {
+  asset: TempleFA2Asset;
+  setOperation: Dispatch<any>;
+};
+
+const Form: FC<FormProps> = ({ asset, setOperation }) => {
+  const acc = useAccount();
+  const tezos = useTezos();
+  const formAnalytics = useFormAnalytics("CollectibleSendForm");
+
+  const accountPkh = acc.publicKeyHash;
+
+  const { data: balanceData, mutate: mutateBalance } = useBalance(
+    asset,
+    accountPkh
+  );
+  const balance = balanceData!;
+
+  const { data: tezBalanceData, mutate: mutateTezBalance } = useBalance(
+    TEZ_ASSET,
+    accountPkh
+  );
+  const tezBalance = tezBalanceData!;
+
+  const {
+    watch,
+    register,
+    handleSubmit,
+    errors,
+    control,
+    formState,
+    setValue,
+    triggerValidation,
+    reset,
+  } = useForm<FormData>({
+    mode: "onChange",
+    defaultValues: {
+      quantity: "1",
+      fee: RECOMMENDED_ADD_FEE,
+    },
+  });
+
+  const toValue = watch("to");
+
+  const toFilled = useMemo(
+    () => Boolean(toValue && isAddressValid(toValue)),
+    [toValue]
+  );
+
+  const cleanToField = useCallback(() => {
+    setValue("to", "");
+    triggerValidation("to");
+  }, [setValue, triggerValidation]);
+
+  const estimateBaseFee = useCallback(async () => {
+    try {
+      const balanceBN = (await mutateBalance(
+        fetchBalance(tezos, asset, accountPkh)
+      ))!;
+      if (balanceBN.isZero()) {
+        throw new ZeroBalanceError();
+      }
+
+      const tezBalanceBN = (await mutateTezBalance(
+        fetchBalance(tezos, TEZ_ASSET, accountPkh)
+      ))!;
+      if (tezBalanceBN.isZero()) {
+        throw new ZeroTEZBalanceError();
+      }
+
+      const [transferParams, manager] = await Promise.all([
+        toTransferParams(tezos, asset, accountPkh, toValue, toPenny(asset)),
+        tezos.rpc.getManagerKey(accountPkh),
+      ]);
+      const estmtn = await tezos.estimate.transfer(transferParams);
+
+      let baseFee = mutezToTz(estmtn.totalCost);
+      if (!hasManager(manager)) {
+        baseFee = baseFee.plus(mutezToTz(DEFAULT_FEE.REVEAL));
+      }
+
+      if (baseFee.isGreaterThan(tezBalanceBN)) {
+        throw new NotEnoughFundsError();
+      }
+
+      return baseFee;
+    } catch (err) {
+      // Human delay
+      await new Promise((r) => setTimeout(r, 300));
+
+      if (err instanceof ArtificialError) {
+        return err;
+      }
+
+      if (process.env.NODE_ENV === "development") {
+        console.error(err);
+      }
+
+      throw err;
+    }
+  }, [tezos, asset, accountPkh, toValue, mutateBalance, mutateTezBalance]);
+
+  const {
+    data: baseFee,
+    error: estimateBaseFeeError,
+    isValidating: estimating,
+  } = useSWR(
+    () =>
+      toFilled
+        ? [
+            "collectible-transfer-base-fee",
+            tezos.checksum,
+            getAssetKey(asset),
+            accountPkh,
+            toValue,
+          ]
+        : null,
+    estimateBaseFee,
+    {
+      shouldRetryOnError: false,
+      focusThrottleInterval: 10_000,
+      dedupingInterval: 30_000,
+    }
+  );
+  const estimationError = !estimating
+    ? baseFee instanceof Error
+      ? baseFee
+      : estimateBaseFeeError
+    : null;
+
+  const maxAddFee = useMemo(() => {
+    if (baseFee instanceof BigNumber) {
+      return tezBalance.minus(baseFee).minus(PENNY).toNumber();
+    }
+    return;
+  }, [tezBalance, baseFee]);
+
+  const handleFeeFieldChange = useCallback(
+    ([v]) => (maxAddFee && v > maxAddFee ? maxAddFee : v),
+    [maxAddFee]
+  );
+
+  const validateQuantity = useCallback(
+    (v: string) => {
+      if (!v) return t("required");
+      const vBN = new BigNumber(v);
+      if (!vBN.isFinite() || vBN.isLessThanOrEqualTo(0)) {
+        return t("amountMustBePositive");
+      }
+      if (vBN.decimalPlaces() > asset.decimals) {
+        return t("quantityPrecisionMessage", String(asset.decimals));
+      }
+      return (
+        vBN.isLessThanOrEqualTo(balance) ||
+        t("maximalAmount", toLocalFixed(balance))
+      );
+    },
+    [asset.decimals, balance]
+  );
+
+  const handleSetMaxQuantity = useCallback(() => {
+    setValue("quantity", balance.toFixed());
+    triggerValidation("quantity");
+  }, [setValue, balance, triggerValidation]);
+
+  const [submitError, setSubmitError] = useSafeState<any>(
+    null,
+    `${tezos.checksum}_${toValue}`
+  );
+
+  const onSubmit = useCallback(
+    async ({ to, quantity, fee: feeVal }: FormData) => {
+      if (formState.isSubmitting) return;
+      setSubmitError(null);
+      setOperation(null);
+
+      formAnalytics.trackSubmit();
+      try {
+        const transferParams = await toTransferParams(
+          tezos,
+          asset,
+          accountPkh,
+          to,
+          quantity
+        );
+        const estmtn = await tezos.estimate.transfer(transferParams);
+        const addFee = tzToMutez(feeVal ?? 0);
+        const fee = addFee.plus(estmtn.usingBaseFeeMutez).toNumber();
+        const op = await tezos.wallet
+          .transfer({ ...transferParams, fee } as any)
+          .send();
+
+        setOperation(op);
+        reset({ to: "", quantity: "1", fee: RECOMMENDED_ADD_FEE });
+
+        formAnalytics.trackSubmitSuccess();
+      } catch (err) {
+        formAnalytics.trackSubmitFail();
+
+        if (err.message === "Declined") {
+          return;
+        }
+
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay.
+        await new Promise((res) => setTimeout(res, 300));
+        setSubmitError(err);
+      }
+    },
+    [
+      formState.isSubmitting,
+      tezos,
+      asset,
+      accountPkh,
+      setSubmitError,
+      setOperation,
+      reset,
+      formAnalytics,
+    ]
+  );
+
+  const restFormDisplayed = Boolean(toFilled && (baseFee || estimationError));
+  const estimateFallbackDisplayed = toFilled && !baseFee && estimating;
+
+  return (
+    <form style={{ minHeight: "20rem" }} onSubmit={handleSubmit(onSubmit)}>
+      <NoSpaceField
+        ref={register({
+          required: t("required"),
+          validate: (v: string) => isAddressValid(v) || t("invalidAddress"),
+        })}
+        name="to"
+        id="send-collectible-to"
+        textarea
+        rows={2}
+        cleanable={Boolean(toValue)}
+        onClean={cleanToField}
+        label={t("recipient")}
+        labelDescription={t("collectibleRecipientInputDescription")}
+        placeholder={t("recipientInputPlaceholder")}
+        errorCaption={errors.to?.message}
+        style={{
+          resize: "none",
+        }}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        ref={register({ validate: validateQuantity })}
+        type="number"
+        min={0}
+        step={toPenny(asset).toFixed()}
+        name="quantity"
+        id="send-collectible-quantity"
+        label={t("quantity")}
+        labelDescription={
+          <>
+            <T id="availableToSend" />{" "}
+            <button
+              type="button"
+              className={classNames("underline")}
+              onClick={handleSetMaxQuantity}
+            >
+              <Money>{balance}</Money>
+            </button>
+          </>
+        }
+        errorCaption={errors.quantity?.message}
+        containerClassName="mb-4"
+      />
+
+      {estimateFallbackDisplayed ? (
+        <SpinnerSection />
+      ) : restFormDisplayed ? (
+        <>
+          {(() => {
+            switch (true) {
+              case Boolean(submitError):
+                return <SendErrorAlert type="submit" error={submitError} />;
+
+              case Boolean(estimationError):
+                return (
+                  <SendErrorAlert type="estimation" error={estimationError} />
+                );
+
+              case toValue === accountPkh:
+                return (
+                  <Alert
+                    type="warn"
+                    title={t("attentionExclamation")}
+                    description={<T id="tryingToTransferToYourself" />}
+                    className="mt-6 mb-4"
+                  />
+                );
+
+              case isKTAddress(toValue):
+                return (
+                  <Alert
+                    type="warn"
+                    title={t("attentionExclamation")}
+                    description={<T id="tryingToTransferToContract" />}
+                    className="mt-6 mb-4"
+                  />
+                );
+
+              default:
+                return null;
+            }
+          })()}
+
+          <AdditionalFeeInput
+            name="fee"
+            control={control}
+            onChange={handleFeeFieldChange}
+            assetSymbol={TEZ_ASSET.symbol}
+            baseFee={baseFee}
+            error={errors.fee}
+            id="send-collectible-fee"
+          />
+
+          <T id="send">
+            {(message) => (
+              <FormSubmitButton
+                loading={formState.isSubmitting}
+                disabled={Boolean(estimationError)}
+              >
+                {message}
+              </FormSubmitButton>
+            )}
+          </T>
+        </>
+      ) : null}
+    </form>
+  );
+};
+
+const SpinnerSection: FC = () => (
+  <div className="flex justify-center my-8">
+    <Spinner className="w-20" />
+  </div>
+);
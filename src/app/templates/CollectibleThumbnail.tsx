@@ -0,0 +1,60 @@
+import React, { CSSProperties, memo, useCallback, useState } from "react";
+
+import classNames from "clsx";
+
+import Identicon from "app/atoms/Identicon";
+import {
+  getCollectiblePreviewUri,
+  TempleFA2Asset,
+  useCollectibleMetadata,
+  useCollectibleThumbnail,
+} from "lib/temple/front";
+
+type CollectibleThumbnailProps = {
+  asset: TempleFA2Asset;
+  className?: string;
+  style?: CSSProperties;
+  size?: number;
+};
+
+const CollectibleThumbnail = memo(
+  ({ asset, className, style, size }: CollectibleThumbnailProps) => {
+    const { data: metadata } = useCollectibleMetadata(asset, false);
+    const thumbnailUrl = useCollectibleThumbnail(
+      metadata && getCollectiblePreviewUri(metadata)
+    );
+
+    const [imageDisplayed, setImageDisplayed] = useState(true);
+    const handleImageError = useCallback(() => {
+      setImageDisplayed(false);
+    }, [setImageDisplayed]);
+
+    if (thumbnailUrl && imageDisplayed) {
+      return (
+        <img
+          src={thumbnailUrl}
+          alt={asset.name}
+          className={classNames("object-contain", className)}
+          style={{
+            width: size,
+            height: size,
+            ...style,
+          }}
+          onError={handleImageError}
+        />
+      );
+    }
+
+    return (
+      <Identicon
+        type="initials"
+        hash={asset.symbol}
+        className={className}
+        style={style}
+        size={size}
+      />
+    );
+  }
+);
+
+export default CollectibleThumbnail;
@@ -0,0 +1,68 @@
+import React, { FC, useMemo } from "react";
+
+import classNames from "clsx";
+import { browser } from "webextension-polyfill-ts";
+
+import { T } from "lib/i18n/react";
+import {
+  CollectibleMetadata,
+  getCollectibleViewerMedia,
+} from "lib/temple/front";
+
+type CollectibleViewerProps = {
+  metadata: CollectibleMetadata;
+  className?: string;
+};
+
+/**
+ * Artifacts are third-party content, so they are rendered
+ * in a sandboxed page without access to the wallet
+ */
+const CollectibleViewer: FC<CollectibleViewerProps> = ({
+  metadata,
+  className,
+}) => {
+  const viewerUrl = useMemo(() => {
+    const media = getCollectibleViewerMedia(metadata);
+    return (
+      media &&
+      `${browser.runtime.getURL("sandbox.html")}#${encodeURIComponent(
+        JSON.stringify(media)
+      )}`
+    );
+  }, [metadata]);
+
+  return (
+    <div
+      className={classNames(
+        "relative w-full",
+        "bg-gray-100 rounded-md overflow-hidden",
+        className
+      )}
+      style={{ paddingBottom: "100%" }}
+    >
+      {viewerUrl ? (
+        <iframe
+          key={viewerUrl}
+          title={metadata.name}
+          src={viewerUrl}
+          sandbox="allow-scripts"
+          referrerPolicy="no-referrer"
+          className="absolute inset-0 w-full h-full"
+        />
+      ) : (
+        <div
+          className={classNames(
+            "absolute inset-0",
+            "flex items-center justify-center",
+            "text-sm text-gray-500"
+          )}
+        >
+          <T id="noPreviewAvailable" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollectibleViewer;
@@ -35,7 +35,7 @@ import { withErrorHumanDelay } from "lib/ui/humanDelay";
 
 type NetworkFormData = Pick<
   TempleNetwork,
-  "name" | "rpcBaseURL" | "lambdaContract"
+  "name" | "rpcBaseURL" | "lambdaContract" | "tzktBaseURL"
 >;
 type LambdaFormData = {
   lambdaContract: NonNullable<TempleNetwork["lambdaContract"]>;
@@ -77,7 +77,12 @@ const CustomNetworksSettings: FC = () => {
   const submitting = formState.isSubmitting;
 
   const onNetworkFormSubmit = useCallback(
-    async ({ rpcBaseURL, name, lambdaContract }: NetworkFormData) => {
+    async ({
+      rpcBaseURL,
+      name,
+      lambdaContract,
+      tzktBaseURL,
+    }: NetworkFormData) => {
       if (submitting) return;
       clearError();
 
@@ -121,6 +126,7 @@ const CustomNetworksSettings: FC = () => {
               color: COLORS[Math.floor(Math.random() * COLORS.length)],
               id: rpcBaseURL,
               lambdaContract,
+              tzktBaseURL: tzktBaseURL?.replace(/\/+$/, "") || undefined,
             },
           ],
           lambdaContracts: lambdaContract
@@ -302,6 +308,33 @@ const CustomNetworksSettings: FC = () => {
           containerClassName="mb-4"
         />
 
+        <FormField
+          ref={register({
+            pattern: {
+              value: URL_PATTERN,
+              message: t("mustBeValidURL"),
+            },
+          })}
+          label={
+            <>
+              <T id="tzktBaseURL" />
+              <T id="optionalComment">
+                {(message) => (
+                  <span className="ml-1 text-sm font-light text-gray-600">
+                    {message}
+                  </span>
+                )}
+              </T>
+            </>
+          }
+          labelDescription={t("tzktBaseURLDescription")}
+          id="tzkt-base-url"
+          name="tzktBaseURL"
+          placeholder="http://localhost:5000/v1"
+          errorCaption={errors.tzktBaseURL?.message}
+          containerClassName="mb-4"
+        />
+
         {showNoLambdaWarning && (
           <Alert
             className="mb-6"
@@ -537,7 +570,14 @@ type NetworksListItemProps = {
 
 const NetworksListItem: FC<NetworksListItemProps> = (props) => {
   const {
-    network: { name, nameI18nKey, rpcBaseURL, color, lambdaContract },
+    network: {
+      name,
+      nameI18nKey,
+      rpcBaseURL,
+      tzktBaseURL,
+      color,
+      lambdaContract,
+    },
     canRemove,
     onRemoveClick,
     last,
@@ -590,6 +630,20 @@ const NetworksListItem: FC<NetworksListItemProps> = (props) => {
           RPC:<Name className="ml-1 font-normal">{rpcBaseURL}</Name>
         </div>
 
+        {tzktBaseURL && (
+          <div
+            className={classNames(
+              "text-xs text-gray-700 font-light",
+              "flex items-center"
+            )}
+            style={{
+              marginBottom: "0.125rem",
+            }}
+          >
+            TzKT:<Name className="ml-1 font-normal">{tzktBaseURL}</Name>
+          </div>
+        )}
+
         {lambdaContract && (
           <div className="text-xs text-gray-700 font-light">
             <T
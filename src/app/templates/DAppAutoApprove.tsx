@@ -0,0 +1,291 @@
+import React, { FC, ReactNode, useCallback, useState } from "react";
+
+import classNames from "clsx";
+import formatDistanceToNow from "date-fns/formatDistanceToNow";
+import { useForm } from "react-hook-form";
+
+import FormField from "app/atoms/FormField";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import HashChip from "app/templates/HashChip";
+import { T, t, getDateFnsLocale } from "lib/i18n/react";
+import { useRetryableSWR } from "lib/swr";
+import {
+  TempleDAppAutoApprovePolicy,
+  TempleDAppSession,
+  mutezToTz,
+  tzToMutez,
+  useTempleClient,
+} from "lib/temple/front";
+
+const DAY = 24 * 60 * 60 * 1000;
+const TEZ_PATTERN = /^\d+(\.\d{1,6})?$/;
+
+type FormData = {
+  maxPerOperation: string;
+  maxPerDay: string;
+  allowedEntrypoints: string;
+  days: string;
+};
+
+type DAppAutoApproveProps = {
+  origin: string;
+  session: TempleDAppSession;
+  onChange: () => void;
+  className?: string;
+};
+
+const DAppAutoApprove: FC<DAppAutoApproveProps> = ({
+  origin,
+  session,
+  onChange,
+  className,
+}) => {
+  const { setDAppSessionAutoApprovePolicy } = useTempleClient();
+  const policy = session.autoApprove;
+  const active = Boolean(policy && policy.expiresAt > Date.now());
+
+  const [opened, setOpened] = useState(false);
+  const [error, setError] = useState<ReactNode>(null);
+
+  const { register, handleSubmit, errors, formState } = useForm<FormData>({
+    defaultValues: {
+      maxPerOperation: policy
+        ? mutezToTz(policy.maxPerOperation).toFixed()
+        : "",
+      maxPerDay: policy ? mutezToTz(policy.maxPerDay).toFixed() : "",
+      allowedEntrypoints: policy?.allowedEntrypoints.join(", ") ?? "",
+      days: "7",
+    },
+  });
+  const submitting = formState.isSubmitting;
+
+  const save = useCallback(
+    async (newPolicy: TempleDAppAutoApprovePolicy | null) => {
+      setError(null);
+      try {
+        await setDAppSessionAutoApprovePolicy(origin, newPolicy);
+        setOpened(false);
+        onChange();
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [setDAppSessionAutoApprovePolicy, origin, onChange]
+  );
+
+  const onSubmit = useCallback(
+    ({ maxPerOperation, maxPerDay, allowedEntrypoints, days }: FormData) => {
+      if (submitting) return;
+
+      return save({
+        maxPerOperation: tzToMutez(maxPerOperation).toFixed(),
+        maxPerDay: tzToMutez(maxPerDay).toFixed(),
+        allowedEntrypoints: allowedEntrypoints.split(/[\s,]+/).filter(Boolean),
+        expiresAt: Date.now() + +days * DAY,
+      });
+    },
+    [submitting, save]
+  );
+
+  const handleDisableClick = useCallback(() => {
+    if (submitting) return;
+    save(null);
+  }, [submitting, save]);
+
+  return (
+    <div
+      className={classNames("text-xs text-gray-700", className)}
+      onClick={(evt) => evt.stopPropagation()}
+    >
+      <div className="flex items-center">
+        <span className="font-medium">
+          <T id="autoApprove" />
+        </span>
+
+        <div className="flex-1" />
+
+        <button
+          type="button"
+          className="px-1 rounded text-blue-600 hover:bg-gray-200 focus:outline-none"
+          onClick={() => setOpened((o) => !o)}
+        >
+          <T id={opened ? "cancel" : "configure"} />
+        </button>
+      </div>
+
+      {policy && active ? (
+        <T
+          id="autoApproveSummary"
+          substitutions={[
+            mutezToTz(policy.maxPerOperation).toFixed(),
+            mutezToTz(policy.maxPerDay).toFixed(),
+            policy.allowedEntrypoints.join(", "),
+            formatTime(policy.expiresAt),
+          ]}
+        >
+          {(message) => <p className="font-light text-gray-600">{message}</p>}
+        </T>
+      ) : (
+        <p className="font-light text-gray-600">
+          <T id="autoApproveDisabled" />
+        </p>
+      )}
+
+      {opened && (
+        <form className="mt-2" onSubmit={handleSubmit(onSubmit)}>
+          <p className="mb-2 font-light text-gray-600">
+            <T id="autoApproveDescription" />
+          </p>
+
+          <FormField
+            ref={register({
+              required: t("required"),
+              pattern: { value: TEZ_PATTERN, message: t("invalidAmount") },
+            })}
+            name="maxPerOperation"
+            id={`autoapprove-per-operation-${origin}`}
+            label={t("maxPerOperation")}
+            placeholder="0.5"
+            errorCaption={errors.maxPerOperation?.message}
+            containerClassName="mb-2"
+          />
+
+          <FormField
+            ref={register({
+              required: t("required"),
+              pattern: { value: TEZ_PATTERN, message: t("invalidAmount") },
+            })}
+            name="maxPerDay"
+            id={`autoapprove-per-day-${origin}`}
+            label={t("maxPerDay")}
+            placeholder="5"
+            errorCaption={errors.maxPerDay?.message}
+            containerClassName="mb-2"
+          />
+
+          <FormField
+            ref={register({ required: t("required") })}
+            name="allowedEntrypoints"
+            id={`autoapprove-entrypoints-${origin}`}
+            label={t("allowedEntrypoints")}
+            placeholder="play, claim"
+            errorCaption={errors.allowedEntrypoints?.message}
+            containerClassName="mb-2"
+          />
+
+          <FormField
+            ref={register({
+              required: t("required"),
+              pattern: { value: /^[1-9]\d{0,2}$/, message: t("invalidDays") },
+            })}
+            name="days"
+            id={`autoapprove-days-${origin}`}
+            label={t("autoApproveDays")}
+            errorCaption={errors.days?.message}
+            containerClassName="mb-2"
+          />
+
+          {error && <p className="mb-2 text-red-600">{error}</p>}
+
+          <div className="flex items-center">
+            <FormSubmitButton small loading={submitting}>
+              <T id="save" />
+            </FormSubmitButton>
+
+            {policy && (
+              <FormSecondaryButton
+                type="button"
+                small
+                className="ml-2"
+                disabled={submitting}
+                onClick={handleDisableClick}
+              >
+                <T id="disable" />
+              </FormSecondaryButton>
+            )}
+          </div>
+        </form>
+      )}
+
+      {policy && <AutoApprovedOperations origin={origin} />}
+    </div>
+  );
+};
+
+export default DAppAutoApprove;
+
+type AutoApprovedOperationsProps = {
+  origin: string;
+};
+
+const AutoApprovedOperations: FC<AutoApprovedOperationsProps> = ({
+  origin,
+}) => {
+  const { getDAppAutoApprovedOperations } = useTempleClient();
+
+  const { data: operations = [] } = useRetryableSWR(
+    ["dapp-auto-approved-operations", origin],
+    () => getDAppAutoApprovedOperations(origin),
+    { revalidateOnFocus: false, revalidateOnReconnect: false }
+  );
+
+  if (operations.length === 0) return null;
+
+  return (
+    <div className="mt-2">
+      <span className="font-medium">
+        <T id="autoApprovedOperations" />
+      </span>
+
+      <div
+        className={classNames(
+          "mt-1",
+          "rounded-md overflow-y-auto",
+          "border bg-gray-100",
+          "flex flex-col"
+        )}
+        style={{ maxHeight: "8rem" }}
+      >
+        {operations.map(({ opHash, spent, entrypoints, approvedAt }, i) => (
+          <div
+            key={opHash}
+            className={classNames(
+              "w-full px-2 py-1",
+              i < operations.length - 1 && "border-b border-gray-200",
+              "flex items-center"
+            )}
+          >
+            <HashChip hash={opHash} type="link" small />
+
+            <span className="ml-1 truncate text-gray-500">
+              {entrypoints.join(", ")}
+            </span>
+
+            <div className="flex-1" />
+
+            <span className="ml-2 whitespace-no-wrap">
+              {mutezToTz(spent).toFixed()} ꜩ
+            </span>
+
+            <span className="ml-2 whitespace-no-wrap text-gray-500">
+              {formatTime(approvedAt)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const formatTime = (timestamp: number) =>
+  formatDistanceToNow(new Date(timestamp), {
+    addSuffix: true,
+    locale: getDateFnsLocale(),
+  });
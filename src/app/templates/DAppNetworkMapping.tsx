@@ -0,0 +1,132 @@
+import React, { FC, useEffect, useMemo } from "react";
+
+import classNames from "clsx";
+
+import Alert from "app/atoms/Alert";
+import HashShortView from "app/atoms/HashShortView";
+import TypeSelect from "app/atoms/TypeSelect";
+import { T, t } from "lib/i18n/react";
+import { useRetryableSWR } from "lib/swr";
+import {
+  loadChainId,
+  TempleChainId,
+  TempleDAppConnectPayload,
+  TempleNetwork,
+  useAllNetworks,
+} from "lib/temple/front";
+import { COLORS } from "lib/ui/colors";
+
+export const ADD_DAPP_NETWORK = "add";
+
+type DAppNetworkMappingProps = {
+  payload: TempleDAppConnectPayload;
+  // RPC of user's network, ADD_DAPP_NETWORK or empty string to keep dApp one
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+};
+
+/**
+ * Shown when dApp requests a network, that isn't configured by user
+ */
+const DAppNetworkMapping: FC<DAppNetworkMappingProps> = ({
+  payload,
+  value,
+  onChange,
+  className,
+}) => {
+  const { networkRpc, chainId } = payload;
+  const allNetworks = useAllNetworks();
+  const networks = useMemo(
+    () => allNetworks.filter((n) => !n.disabled && !n.hidden),
+    [allNetworks]
+  );
+
+  const { data: chainIds } = useRetryableSWR(
+    ["network-chain-ids", ...networks.map((n) => n.rpcBaseURL)],
+    () =>
+      Promise.all(
+        networks.map((n) => loadChainId(n.rpcBaseURL).catch(() => null))
+      ),
+    { revalidateOnFocus: false, revalidateOnReconnect: false }
+  );
+
+  const sameChainNetworks = useMemo(
+    () =>
+      chainId && chainIds
+        ? networks.filter((_n, i) => chainIds[i] === chainId)
+        : [],
+    [networks, chainIds, chainId]
+  );
+
+  // Prefer user's own network, when there is one
+  const defaultRpc = sameChainNetworks[0]?.rpcBaseURL;
+  useEffect(() => {
+    if (defaultRpc) {
+      onChange(defaultRpc);
+    }
+  }, [defaultRpc, onChange]);
+
+  const options = useMemo(
+    () => [
+      ...sameChainNetworks.map((n) => ({
+        type: n.rpcBaseURL,
+        name: t("useOwnNetwork", n.name),
+      })),
+      ...(chainId ? [{ type: ADD_DAPP_NETWORK, name: t("addNetwork") }] : []),
+      { type: "", name: t("useDAppNetwork") },
+    ],
+    [sameChainNetworks, chainId]
+  );
+
+  return (
+    <div className={classNames("w-full", className)}>
+      {chainId ? (
+        <div className="mb-2 text-xs text-gray-600 flex items-center">
+          <span className="mr-1">
+            <T id="chainId" />:
+          </span>
+          <HashShortView hash={chainId} />
+        </div>
+      ) : (
+        <Alert
+          type="warn"
+          title={t("chainIdUnavailable")}
+          description={t("chainIdUnavailableDescription", networkRpc)}
+          className="mb-2"
+        />
+      )}
+
+      {chainId && chainIds && sameChainNetworks.length === 0 && (
+        <T id="noNetworksWithSameChain">
+          {(message) => (
+            <p className="mb-2 text-xs font-light text-gray-600">{message}</p>
+          )}
+        </T>
+      )}
+
+      <TypeSelect options={options} value={value} onChange={onChange} />
+    </div>
+  );
+};
+
+export default DAppNetworkMapping;
+
+export function createDAppNetwork(
+  payload: TempleDAppConnectPayload,
+  lambdaContracts: Record<string, string> = {}
+): TempleNetwork {
+  const { networkRpc, networkName, chainId } = payload;
+  const name = networkName || networkRpc;
+
+  return {
+    id: networkRpc,
+    rpcBaseURL: networkRpc,
+    name,
+    description: name,
+    type: chainId === TempleChainId.Mainnet ? "main" : "test",
+    disabled: false,
+    color: COLORS[Math.floor(Math.random() * COLORS.length)],
+    lambdaContract: chainId ? lambdaContracts[chainId] : undefined,
+  };
+}
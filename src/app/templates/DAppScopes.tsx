@@ -0,0 +1,76 @@
+import React, { FC, useCallback } from "react";
+
+import classNames from "clsx";
+
+import Checkbox from "app/atoms/Checkbox";
+import { t } from "lib/i18n/react";
+import { TempleDAppScope } from "lib/temple/front";
+
+const SCOPES_I18N_KEYS: Record<TempleDAppScope, string> = {
+  [TempleDAppScope.Operation]: "dAppScopeOperation",
+  [TempleDAppScope.Sign]: "dAppScopeSign",
+  [TempleDAppScope.Threshold]: "dAppScopeThreshold",
+};
+
+type DAppScopesProps = {
+  scopes: TempleDAppScope[];
+  value: TempleDAppScope[];
+  onChange: (value: TempleDAppScope[]) => void;
+  disabled?: boolean;
+  className?: string;
+};
+
+const DAppScopes: FC<DAppScopesProps> = ({
+  scopes,
+  value,
+  onChange,
+  disabled,
+  className,
+}) => {
+  const handleChange = useCallback(
+    (evt: React.ChangeEvent<HTMLInputElement>, scope: TempleDAppScope) => {
+      // At least one scope has to be granted
+      if (!evt.target.checked && value.length === 1) {
+        evt.preventDefault();
+        return;
+      }
+
+      onChange(
+        evt.target.checked
+          ? scopes.filter((s) => s === scope || value.includes(s))
+          : value.filter((s) => s !== scope)
+      );
+    },
+    [scopes, value, onChange]
+  );
+
+  return (
+    <div
+      className={classNames("flex flex-col", className)}
+      onClick={(evt) => evt.stopPropagation()}
+    >
+      {scopes.map((scope) => (
+        <label
+          key={scope}
+          className={classNames(
+            "mb-1 flex items-center",
+            disabled ? "opacity-50" : "cursor-pointer"
+          )}
+        >
+          <Checkbox
+            checked={value.includes(scope)}
+            disabled={disabled}
+            onChange={(evt) => handleChange(evt, scope)}
+            containerClassName="mr-2"
+          />
+
+          <span className="text-xs text-gray-700">
+            {t(SCOPES_I18N_KEYS[scope])}
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default DAppScopes;
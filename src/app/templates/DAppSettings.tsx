@@ -1,32 +1,54 @@
-import React, { ComponentProps, FC, useCallback, useMemo, useRef, useState } from "react";
+import React, {
+  ComponentProps,
+  FC,
+  memo,
+  useCallback,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 
 import classNames from "clsx";
+import formatDistanceToNow from "date-fns/formatDistanceToNow";
 
 import FormCheckbox from "app/atoms/FormCheckbox";
 import Name from "app/atoms/Name";
 import { ReactComponent as CloseIcon } from "app/icons/close.svg";
 import CustomSelect, { OptionRenderProps } from "app/templates/CustomSelect";
+import DAppAutoApprove from "app/templates/DAppAutoApprove";
 import DAppLogo from "app/templates/DAppLogo";
+import DAppScopes from "app/templates/DAppScopes";
 import HashChip from "app/templates/HashChip";
-import { T, t } from "lib/i18n/react";
+import OriginExceptions from "app/templates/OriginExceptions";
+import { T, t, getDateFnsLocale } from "lib/i18n/react";
 import { useRetryableSWR } from "lib/swr";
 import {
   useStorage,
   TempleSharedStorageKey,
   useTempleClient,
+  getDAppSessionAccounts,
+  getDAppSessionScopes,
 } from "lib/temple/front";
-import { TempleDAppSession, TempleDAppSessions } from "lib/temple/types";
+import {
+  TempleDAppScope,
+  TempleDAppSession,
+  TempleDAppSessions,
+} from "lib/temple/types";
 import { useConfirm } from "lib/ui/dialog";
+import { Link } from "lib/woozie";
 
 type DAppEntry = [string, TempleDAppSession];
 type DAppActions = {
   remove: (origin: string) => void;
 };
 
+const ALL_SCOPES = Object.values(TempleDAppScope);
+
 const getDAppKey = (entry: DAppEntry) => entry[0];
 
 const DAppSettings: FC = () => {
-  const { getAllDAppSessions, removeDAppSession } = useTempleClient();
+  const { getAllDAppSessions, removeDAppSession, setDAppSessionScopes } =
+    useTempleClient();
   const confirm = useConfirm();
 
   const { data, revalidate } = useRetryableSWR<TempleDAppSessions>(
@@ -81,6 +103,23 @@ const DAppSettings: FC = () => {
     [removeDAppSession, revalidate, confirm]
   );
 
+  const handleScopesChange = useCallback(
+    async (origin: string, scopes: TempleDAppScope[]) => {
+      try {
+        await setDAppSessionScopes(origin, scopes);
+      } catch (err) {
+        setError(err);
+      }
+      revalidate();
+    },
+    [setDAppSessionScopes, revalidate]
+  );
+
+  const DAppDescription = useMemo(
+    () => DAppDescriptionHOC(handleScopesChange, revalidate),
+    [handleScopesChange, revalidate]
+  );
+
   const dAppEntries = useMemo(() => Object.entries(dAppSessions), [
     dAppSessions,
   ]);
@@ -154,6 +193,8 @@ const DAppSettings: FC = () => {
           />
         </>
       )}
+
+      <OriginExceptions className="mb-6" />
     </div>
   );
 };
@@ -171,14 +212,40 @@ const DAppIcon: FC<OptionRenderProps<DAppEntry, string, DAppActions>> = (
   />
 );
 
-const DAppDescription: FC<
-  OptionRenderProps<DAppEntry, string, DAppActions>
-> = (props) => {
+type OnScopesChange = (origin: string, scopes: TempleDAppScope[]) => void;
+
+const DAppDescriptionHOC = (
+  onScopesChange: OnScopesChange,
+  onAutoApproveChange: () => void
+) =>
+  memo<OptionRenderProps<DAppEntry, string, DAppActions>>((props) => (
+    <DAppDescription
+      {...props}
+      onScopesChange={onScopesChange}
+      onAutoApproveChange={onAutoApproveChange}
+    />
+  ));
+
+type DAppDescriptionProps = OptionRenderProps<
+  DAppEntry,
+  string,
+  DAppActions
+> & {
+  onScopesChange: OnScopesChange;
+  onAutoApproveChange: () => void;
+};
+
+const DAppDescription: FC<DAppDescriptionProps> = (props) => {
   const {
     actions,
-    item: [origin, { appMeta, network, pkh }],
+    onScopesChange,
+    onAutoApproveChange,
+    item: [origin, session],
   } = props;
+  const { appMeta, network, lastUsedAt, expiresAt } = session;
   const { remove: onRemove } = actions!;
+  const accounts = useMemo(() => getDAppSessionAccounts(session), [session]);
+  const scopes = useMemo(() => getDAppSessionScopes(session), [session]);
 
   const handleRemoveClick = useCallback(
     (e: React.MouseEvent<HTMLButtonElement, MouseEvent>) => {
@@ -216,12 +283,43 @@ const DAppDescription: FC<
         Component: Name,
       },
       {
-        key: "pkhLabel",
-        value: <HashChip hash={pkh} type="link" small />,
+        key: accounts.length > 1 ? "accountsLabel" : "pkhLabel",
+        value: (
+          <>
+            {accounts.map(({ pkh }) => (
+              <HashChip
+                key={pkh}
+                hash={pkh}
+                type="link"
+                small
+                className="mr-1"
+              />
+            ))}
+          </>
+        ),
+        valueClassName: "flex-wrap",
         Component: "span",
       },
+      ...(lastUsedAt
+        ? [
+            {
+              key: "lastUsedLabel",
+              value: formatTime(lastUsedAt),
+              Component: "span",
+            },
+          ]
+        : []),
+      ...(expiresAt
+        ? [
+            {
+              key: "expiresLabel",
+              value: formatTime(expiresAt),
+              Component: "span",
+            },
+          ]
+        : []),
     ],
-    [origin, network, pkh]
+    [origin, network, accounts, lastUsedAt, expiresAt]
   );
 
   return (
@@ -253,6 +351,29 @@ const DAppDescription: FC<
             />
           </div>
         ))}
+
+        <DAppScopes
+          scopes={ALL_SCOPES}
+          value={scopes}
+          onChange={(newScopes) => onScopesChange(origin, newScopes)}
+          className="mt-1"
+        />
+
+        {scopes.includes(TempleDAppScope.Threshold) && (
+          <DAppAutoApprove
+            origin={origin}
+            session={session}
+            onChange={onAutoApproveChange}
+            className="mt-1"
+          />
+        )}
+
+        <Link
+          to={`/dapp-activity/${encodeURIComponent(origin)}`}
+          className="mt-1 text-xs text-blue-600 hover:underline"
+        >
+          <T id="viewDAppActivity" />
+        </Link>
       </div>
 
       <button
@@ -271,3 +392,9 @@ const DAppDescription: FC<
     </div>
   );
 };
+
+const formatTime = (timestamp: number) =>
+  formatDistanceToNow(new Date(timestamp), {
+    addSuffix: true,
+    locale: getDateFnsLocale(),
+  });
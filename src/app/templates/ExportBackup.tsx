@@ -0,0 +1,170 @@
+import React, { FC, useCallback, useLayoutEffect, useState } from "react";
+
+import { useForm } from "react-hook-form";
+
+import Alert from "app/atoms/Alert";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import { PASSWORD_PATTERN, PASSWORD_ERROR_CAPTION } from "app/defaults";
+import { T, t } from "lib/i18n/react";
+import { useTempleClient } from "lib/temple/front";
+
+const SUBMIT_ERROR_TYPE = "submit-error";
+
+type FormData = {
+  password: string;
+  backupPassword: string;
+  reBackupPassword: string;
+};
+
+const ExportBackup: FC = () => {
+  const { createBackup } = useTempleClient();
+
+  const {
+    watch,
+    register,
+    handleSubmit,
+    errors,
+    setError,
+    clearError,
+    triggerValidation,
+    formState,
+    reset,
+  } = useForm<FormData>();
+  const submitting = formState.isSubmitting;
+
+  const backupPasswordValue = watch("backupPassword");
+
+  useLayoutEffect(() => {
+    if (formState.dirtyFields.has("reBackupPassword")) {
+      triggerValidation("reBackupPassword");
+    }
+  }, [triggerValidation, formState.dirtyFields, backupPasswordValue]);
+
+  const [success, setSuccess] = useState(false);
+
+  const onSubmit = useCallback(
+    async ({ password, backupPassword }: FormData) => {
+      if (submitting) return;
+
+      clearError("password");
+      setSuccess(false);
+      try {
+        const backup = await createBackup(password, backupPassword);
+        downloadBackup(backup);
+        reset();
+        setSuccess(true);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay.
+        await new Promise((res) => setTimeout(res, 300));
+        setError("password", SUBMIT_ERROR_TYPE, err.message);
+      }
+    },
+    [submitting, clearError, setError, createBackup, reset, setSuccess]
+  );
+
+  return (
+    <div className="w-full max-w-sm p-2 mx-auto">
+      <Alert
+        title={t("attentionExclamation")}
+        description={
+          <p>
+            <T id="exportBackupAlert" />
+          </p>
+        }
+        className="mb-6"
+      />
+
+      {success && (
+        <Alert
+          type="success"
+          title={t("backupExported")}
+          description={
+            <p>
+              <T id="backupExportedDescription" />
+            </p>
+          }
+          autoFocus
+          className="mb-6"
+        />
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <FormField
+          ref={register({ required: t("required") })}
+          label={t("password")}
+          labelDescription={t("exportBackupPasswordInputDescription")}
+          id="exportbackup-password"
+          type="password"
+          name="password"
+          placeholder="********"
+          errorCaption={errors.password?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormField
+          ref={register({
+            required: t("required"),
+            pattern: {
+              value: PASSWORD_PATTERN,
+              message: PASSWORD_ERROR_CAPTION,
+            },
+          })}
+          label={t("backupPassword")}
+          labelDescription={t("backupPasswordInputDescription")}
+          id="exportbackup-backuppassword"
+          type="password"
+          name="backupPassword"
+          placeholder="********"
+          errorCaption={errors.backupPassword?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormField
+          ref={register({
+            required: t("required"),
+            validate: (val) =>
+              val === backupPasswordValue || t("mustBeEqualToPasswordAbove"),
+          })}
+          label={t("repeatPassword")}
+          labelDescription={t("repeatPasswordInputDescription")}
+          id="exportbackup-rebackuppassword"
+          type="password"
+          name="reBackupPassword"
+          placeholder="********"
+          errorCaption={errors.reBackupPassword?.message}
+          containerClassName="mb-6"
+        />
+
+        <T id="exportBackup">
+          {(message) => (
+            <FormSubmitButton loading={submitting} disabled={submitting}>
+              {message}
+            </FormSubmitButton>
+          )}
+        </T>
+      </form>
+    </div>
+  );
+};
+
+export default ExportBackup;
+
+function downloadBackup(backup: string) {
+  const url = URL.createObjectURL(
+    new Blob([backup], { type: "application/json" })
+  );
+  const date = new Date().toISOString().slice(0, 10);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `temple-wallet-backup-${date}.json`;
+  link.click();
+
+  // Download may start after click handler returns
+  setTimeout(() => URL.revokeObjectURL(url), 1_000);
+}
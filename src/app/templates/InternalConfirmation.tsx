@@ -8,6 +8,7 @@ import ConfirmLedgerOverlay from "app/atoms/ConfirmLedgerOverlay";
 import FormSecondaryButton from "app/atoms/FormSecondaryButton";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
 import Logo from "app/atoms/Logo";
+import Money from "app/atoms/Money";
 import SubTitle from "app/atoms/SubTitle";
 import { useAppEnv } from "app/env";
 import { ReactComponent as CodeAltIcon } from "app/icons/code-alt.svg";
@@ -34,6 +35,7 @@ import {
   TEZ_ASSET,
   useCustomChainId,
   TempleChainId,
+  mutezToTz,
 } from "lib/temple/front";
 import useSafeState from "lib/ui/useSafeState";
 
@@ -59,6 +61,8 @@ const InternalConfirmation: FC<InternalConfiramtionProps> = ({
     switch (payload.type) {
       case "operations":
         return payload.opParams || [];
+      case "replace_operations":
+        return payload.contents;
       case "sign":
         const unsignedBytes = payload.bytes.substr(
           0,
@@ -83,7 +87,7 @@ const InternalConfirmation: FC<InternalConfiramtionProps> = ({
   );
 
   const networkRpc =
-    payload.type === "operations" ? payload.networkRpc : currentNetworkRpc;
+    payload.type === "sign" ? currentNetworkRpc : payload.networkRpc;
 
   const chainId = useCustomChainId(networkRpc, true)!;
   const mainnet = chainId === TempleChainId.Mainnet;
@@ -120,6 +124,23 @@ const InternalConfirmation: FC<InternalConfiramtionProps> = ({
   }, [allAssetsWithHidden, rawExpensesData]);
 
   const signPayloadFormats: ViewsSwitcherItemProps[] = useMemo(() => {
+    if (payload.type === "replace_operations") {
+      return [
+        {
+          key: "preview",
+          name: t("preview"),
+          Icon: EyeIcon,
+          testID: InternalConfirmationSelectors.PreviewTab,
+        },
+        {
+          key: "raw",
+          name: t("raw"),
+          Icon: CodeAltIcon,
+          testID: InternalConfirmationSelectors.RawTab,
+        },
+      ];
+    }
+
     if (payload.type === "operations") {
       return [
         {
@@ -233,6 +254,9 @@ const InternalConfirmation: FC<InternalConfiramtionProps> = ({
 
   const handleErrorAlertClose = useCallback(() => setError(null), [setError]);
 
+  const policyViolation =
+    payload.type === "sign" ? undefined : payload.policyViolation;
+
   const modifiedStorageLimitDisplayed = useMemo(
     () => payload.type === "operations" && payload.opParams.length < 2,
     [payload]
@@ -313,13 +337,31 @@ const InternalConfirmation: FC<InternalConfiramtionProps> = ({
                 className="w-full mb-4"
               />
 
-              <NetworkBanner
-                rpc={
-                  payload.type === "operations"
-                    ? payload.networkRpc
-                    : currentNetworkRpc
-                }
-              />
+              <NetworkBanner rpc={networkRpc} />
+
+              {payload.type === "replace_operations" && (
+                <Alert
+                  type="warn"
+                  title={t(
+                    payload.mode === "cancel" ? "cancelOperation" : "speedUp"
+                  )}
+                  description={t(
+                    payload.mode === "cancel"
+                      ? "cancelOperationConfirmation"
+                      : "speedUpOperationDescription"
+                  )}
+                  className="mb-4"
+                />
+              )}
+
+              {policyViolation && (
+                <Alert
+                  type="warn"
+                  title={t("blockedByAccountPolicy")}
+                  description={policyViolation}
+                  className="mb-4"
+                />
+              )}
 
               {signPayloadFormats.length > 1 && (
                 <div className="w-full flex justify-end mb-3 items-center">
@@ -353,6 +395,14 @@ const InternalConfirmation: FC<InternalConfiramtionProps> = ({
                 />
               )}
 
+              {payload.type === "replace_operations" &&
+                spFormat.key === "raw" && (
+                  <OperationsBanner
+                    opParams={payload.contents}
+                    jsonViewStyle={{ height: "11rem" }}
+                  />
+                )}
+
               {payload.type === "sign" && spFormat.key === "bytes" && (
                 <>
                   <RawPayloadView
@@ -384,10 +434,19 @@ const InternalConfirmation: FC<InternalConfiramtionProps> = ({
                       ? payload.estimates
                       : undefined
                   }
-                  modifyFeeAndLimit={modifyFeeAndLimit}
+                  modifyFeeAndLimit={
+                    payload.type === "replace_operations"
+                      ? undefined
+                      : modifyFeeAndLimit
+                  }
                   mainnet={mainnet}
                 />
               )}
+
+              {payload.type === "replace_operations" &&
+                spFormat.key === "preview" && (
+                  <ReplacementFee fee={payload.fee} prevFee={payload.prevFee} />
+                )}
             </>
           )}
         </div>
@@ -426,6 +485,7 @@ const InternalConfirmation: FC<InternalConfiramtionProps> = ({
                   type="button"
                   className="justify-center w-full"
                   loading={confirming}
+                  disabled={Boolean(policyViolation)}
                   onClick={handleConfirmClick}
                   testID={
                     error
@@ -449,3 +509,36 @@ const InternalConfirmation: FC<InternalConfiramtionProps> = ({
 };
 
 export default InternalConfirmation;
+
+type ReplacementFeeProps = {
+  fee: string;
+  prevFee: string;
+};
+
+const ReplacementFee: FC<ReplacementFeeProps> = ({ fee, prevFee }) => (
+  <div
+    className={classNames(
+      "mt-2 px-2 py-1",
+      "rounded-md border",
+      "flex items-center",
+      "text-sm text-gray-700"
+    )}
+  >
+    <span className="opacity-90">
+      <T id="fee" />:
+    </span>
+
+    <div className="flex-1" />
+
+    <span className="mr-1 font-medium">
+      <Money>{mutezToTz(fee)}</Money> ꜩ
+    </span>
+
+    <span className="text-xs text-gray-500">
+      <T
+        id="insteadOfFee"
+        substitutions={<Money>{mutezToTz(prevFee)}</Money>}
+      />
+    </span>
+  </div>
+);
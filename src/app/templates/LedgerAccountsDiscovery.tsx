@@ -0,0 +1,327 @@
+import React, { FC, ReactNode, useCallback, useMemo, useState } from "react";
+
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+
+import Alert from "app/atoms/Alert";
+import Checkbox from "app/atoms/Checkbox";
+import FormCheckbox from "app/atoms/FormCheckbox";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import HashShortView from "app/atoms/HashShortView";
+import Identicon from "app/atoms/Identicon";
+import Money from "app/atoms/Money";
+import { DERIVATION_TYPES } from "app/defaults";
+import Balance from "app/templates/Balance";
+import { T, t } from "lib/i18n/react";
+import {
+  DerivationType,
+  TempleLedgerDiscoveredAccount,
+  useAllAccounts,
+  useTempleClient,
+} from "lib/temple/front";
+
+const DEFAULT_COUNT = 5;
+const MAX_COUNT = 20;
+
+type FormData = {
+  accountNumber: number;
+  count: number;
+};
+
+const LedgerAccountsDiscovery: FC = () => {
+  const { discoverLedgerAccounts, createLedgerAccounts } = useTempleClient();
+  const allAccounts = useAllAccounts();
+
+  const { register, handleSubmit, errors, formState } = useForm<FormData>({
+    defaultValues: { accountNumber: 1, count: DEFAULT_COUNT },
+  });
+  const scanning = formState.isSubmitting;
+
+  const [derivationTypes, setDerivationTypes] = useState<DerivationType[]>(() =>
+    DERIVATION_TYPES.map(({ type }) => type)
+  );
+  const [discovered, setDiscovered] = useState<
+    TempleLedgerDiscoveredAccount[] | null
+  >(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<ReactNode>(null);
+
+  const handleDerivationTypeToggle = useCallback(
+    (derivationType: DerivationType, checked: boolean) => {
+      setDerivationTypes((types) =>
+        checked
+          ? [...types, derivationType]
+          : types.filter((type) => type !== derivationType)
+      );
+    },
+    []
+  );
+
+  const onSubmit = useCallback(
+    async ({ accountNumber, count }: FormData) => {
+      if (scanning) return;
+
+      setError(null);
+      setDiscovered(null);
+      setSelected([]);
+      try {
+        const accounts = await discoverLedgerAccounts(
+          DERIVATION_TYPES.map(({ type }) => type).filter((type) =>
+            derivationTypes.includes(type)
+          ),
+          +accountNumber - 1,
+          +count
+        );
+        setDiscovered(accounts);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [scanning, discoverLedgerAccounts, derivationTypes]
+  );
+
+  const isAdded = useCallback(
+    (publicKeyHash: string) =>
+      allAccounts.some((acc) => acc.publicKeyHash === publicKeyHash),
+    [allAccounts]
+  );
+
+  const handleAccountToggle = useCallback(
+    (publicKeyHash: string, checked: boolean) => {
+      setSelected((pkhs) =>
+        checked
+          ? [...pkhs, publicKeyHash]
+          : pkhs.filter((pkh) => pkh !== publicKeyHash)
+      );
+    },
+    []
+  );
+
+  const selectedAccounts = useMemo(
+    () =>
+      discovered?.filter(({ publicKeyHash }) =>
+        selected.includes(publicKeyHash)
+      ) ?? [],
+    [discovered, selected]
+  );
+
+  const handleImportClick = useCallback(async () => {
+    if (importing) return;
+
+    setError(null);
+    setImporting(true);
+    try {
+      await createLedgerAccounts(selectedAccounts);
+    } catch (err) {
+      if (process.env.NODE_ENV === "development") {
+        console.error(err);
+      }
+
+      setError(err.message);
+    }
+    setImporting(false);
+  }, [importing, createLedgerAccounts, selectedAccounts]);
+
+  return (
+    <div className="w-full">
+      <p className="mb-6 text-xs font-light text-gray-600">
+        <T id="ledgerDiscoveryHint" />
+      </p>
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <FormField
+          ref={register({
+            required: t("required"),
+            min: { value: 1, message: t("positiveIntMessage") },
+          })}
+          min={1}
+          type="number"
+          name="accountNumber"
+          id="ledgerdiscovery-acc-number"
+          label={t("fromAccountNumber")}
+          placeholder="1"
+          errorCaption={errors.accountNumber?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormField
+          ref={register({
+            required: t("required"),
+            min: { value: 1, message: t("positiveIntMessage") },
+            max: {
+              value: MAX_COUNT,
+              message: t("ledgerAccountsCountMax", String(MAX_COUNT)),
+            },
+          })}
+          min={1}
+          max={MAX_COUNT}
+          type="number"
+          name="count"
+          id="ledgerdiscovery-count"
+          label={t("accountsCount")}
+          labelDescription={t("ledgerAccountsCountDescription")}
+          placeholder={String(DEFAULT_COUNT)}
+          errorCaption={errors.count?.message}
+          containerClassName="mb-4"
+        />
+
+        <div className="mb-6 flex flex-col">
+          <h2 className="mb-4 leading-tight flex flex-col">
+            <span className="text-base font-semibold text-gray-700">
+              <T id="derivationTypes" />
+            </span>
+          </h2>
+
+          {DERIVATION_TYPES.map(({ type, name }) => (
+            <FormCheckbox
+              key={type}
+              checked={derivationTypes.includes(type)}
+              onChange={(evt) =>
+                handleDerivationTypeToggle(type, evt.target.checked)
+              }
+              name={`derivationType-${type}`}
+              label={name}
+              containerClassName="mb-2"
+            />
+          ))}
+        </div>
+
+        <FormSubmitButton
+          loading={scanning}
+          disabled={derivationTypes.length === 0}
+        >
+          <T id="scanForAccounts" />
+        </FormSubmitButton>
+      </form>
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          autoFocus
+          description={error}
+          className="mt-6"
+        />
+      )}
+
+      {discovered && discovered.length > 0 && (
+        <div className="mt-8">
+          <div
+            className={classNames(
+              "mb-6",
+              "rounded-md overflow-hidden",
+              "border-2 bg-gray-100",
+              "flex flex-col",
+              "text-gray-700 text-sm leading-tight"
+            )}
+          >
+            {discovered.map((acc, i) => {
+              const added = isAdded(acc.publicKeyHash);
+
+              return (
+                <LedgerAccountItem
+                  key={`${acc.derivationType}_${acc.derivationPath}`}
+                  account={acc}
+                  added={added}
+                  checked={added || selected.includes(acc.publicKeyHash)}
+                  onToggle={(checked) =>
+                    handleAccountToggle(acc.publicKeyHash, checked)
+                  }
+                  last={i === discovered.length - 1}
+                />
+              );
+            })}
+          </div>
+
+          <FormSubmitButton
+            type="button"
+            loading={importing}
+            disabled={selectedAccounts.length === 0}
+            onClick={handleImportClick}
+          >
+            <T
+              id="addNAccounts"
+              substitutions={String(selectedAccounts.length)}
+            />
+          </FormSubmitButton>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LedgerAccountsDiscovery;
+
+type LedgerAccountItemProps = {
+  account: TempleLedgerDiscoveredAccount;
+  added: boolean;
+  checked: boolean;
+  onToggle: (checked: boolean) => void;
+  last: boolean;
+};
+
+const LedgerAccountItem: FC<LedgerAccountItemProps> = ({
+  account,
+  added,
+  checked,
+  onToggle,
+  last,
+}) => (
+  <label
+    className={classNames(
+      "w-full",
+      !last && "border-b border-gray-200",
+      "flex items-center",
+      "p-2",
+      added ? "opacity-50" : "cursor-pointer"
+    )}
+  >
+    <Checkbox
+      checked={checked}
+      disabled={added}
+      onChange={(evt) => onToggle(evt.target.checked)}
+      containerClassName="mr-2"
+    />
+
+    <Identicon
+      type="bottts"
+      hash={account.publicKeyHash}
+      size={32}
+      className="flex-shrink-0 shadow-xs"
+    />
+
+    <div className="ml-2 flex flex-col items-start">
+      <span className="text-sm font-medium text-gray-700">
+        <HashShortView hash={account.publicKeyHash} />
+      </span>
+
+      <span className="text-xs text-gray-500">{account.derivationPath}</span>
+    </div>
+
+    <div className="flex-1" />
+
+    <div className="flex flex-col items-end">
+      <Balance address={account.publicKeyHash}>
+        {(bal) => (
+          <span className="text-xs leading-tight text-gray-700">
+            <Money>{bal}</Money> <span style={{ fontSize: "0.75em" }}>tez</span>
+          </span>
+        )}
+      </Balance>
+
+      {added && (
+        <span className="mt-1 text-xs text-gray-500">
+          <T id="alreadyAdded" />
+        </span>
+      )}
+    </div>
+  </label>
+);
@@ -0,0 +1,258 @@
+import React, { FC, useCallback, useMemo, useRef } from "react";
+
+import classNames from "clsx";
+
+import AccountTypeBadge from "app/atoms/AccountTypeBadge";
+import HashShortView from "app/atoms/HashShortView";
+import Identicon from "app/atoms/Identicon";
+import Name from "app/atoms/Name";
+import { ReactComponent as ChevronDownIcon } from "app/icons/chevron-down.svg";
+import { ReactComponent as ChevronUpIcon } from "app/icons/chevron-up.svg";
+import { ReactComponent as EyeIcon } from "app/icons/eye.svg";
+import { T, t } from "lib/i18n/react";
+import {
+  TempleAccount,
+  getAccountGroupNames,
+  groupAccounts,
+  useAllAccounts,
+  useTempleClient,
+} from "lib/temple/front";
+import { useAlert } from "lib/ui/dialog";
+
+const GROUP_NAMES_LIST_ID = "manageaccounts-groupnames";
+
+const ManageAccounts: FC = () => {
+  const { reorderAccounts, setAccountGroup, setAccountHidden } =
+    useTempleClient();
+  const allAccounts = useAllAccounts();
+  const alert = useAlert();
+
+  const accounts = useMemo(() => groupAccounts(allAccounts), [allAccounts]);
+  const groupNames = useMemo(
+    () => getAccountGroupNames(allAccounts),
+    [allAccounts]
+  );
+
+  const changingRef = useRef(false);
+  const withAlert = useCallback(
+    async (change: () => Promise<void>) => {
+      if (changingRef.current) return;
+      changingRef.current = true;
+
+      try {
+        await change();
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        await alert({
+          title: t("error"),
+          children: err.message,
+        });
+      }
+
+      changingRef.current = false;
+    },
+    [alert]
+  );
+
+  const handleMove = useCallback(
+    (index: number, shift: number) =>
+      withAlert(() => {
+        const newAccounts = [...accounts];
+        const [acc] = newAccounts.splice(index, 1);
+        newAccounts.splice(index + shift, 0, acc);
+        return reorderAccounts(newAccounts.map((a) => a.publicKeyHash));
+      }),
+    [withAlert, accounts, reorderAccounts]
+  );
+
+  const handleGroupChange = useCallback(
+    (acc: TempleAccount, groupName: string) => {
+      if ((acc.groupName ?? "") === groupName.trim()) return;
+      return withAlert(() =>
+        setAccountGroup(acc.publicKeyHash, groupName || undefined)
+      );
+    },
+    [withAlert, setAccountGroup]
+  );
+
+  const handleHiddenToggle = useCallback(
+    (acc: TempleAccount) =>
+      withAlert(() => setAccountHidden(acc.publicKeyHash, !acc.hidden)),
+    [withAlert, setAccountHidden]
+  );
+
+  return (
+    <div className="w-full max-w-sm p-2 mx-auto">
+      <p className="mb-4 text-xs font-light text-gray-600">
+        <T id="manageAccountsHint" />
+      </p>
+
+      <div
+        className={classNames(
+          "rounded-md overflow-hidden",
+          "border-2 bg-gray-100",
+          "flex flex-col",
+          "text-gray-700 text-sm leading-tight"
+        )}
+      >
+        {accounts.map((acc, i, arr) => (
+          <ManageAccountItem
+            key={acc.publicKeyHash}
+            account={acc}
+            groupStart={
+              Boolean(acc.groupName) && acc.groupName !== arr[i - 1]?.groupName
+            }
+            first={i === 0}
+            last={i === arr.length - 1}
+            onMoveUp={() => handleMove(i, -1)}
+            onMoveDown={() => handleMove(i, 1)}
+            onGroupChange={(groupName) => handleGroupChange(acc, groupName)}
+            onHiddenToggle={() => handleHiddenToggle(acc)}
+          />
+        ))}
+      </div>
+
+      <datalist id={GROUP_NAMES_LIST_ID}>
+        {groupNames.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default ManageAccounts;
+
+type ManageAccountItemProps = {
+  account: TempleAccount;
+  groupStart: boolean;
+  first: boolean;
+  last: boolean;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onGroupChange: (groupName: string) => void;
+  onHiddenToggle: () => void;
+};
+
+const ManageAccountItem: FC<ManageAccountItemProps> = ({
+  account,
+  groupStart,
+  first,
+  last,
+  onMoveUp,
+  onMoveDown,
+  onGroupChange,
+  onHiddenToggle,
+}) => (
+  <>
+    {groupStart && (
+      <div
+        className={classNames(
+          "px-2 pt-3 pb-1",
+          "text-xs font-medium text-gray-500 uppercase"
+        )}
+      >
+        {account.groupName}
+      </div>
+    )}
+
+    <div
+      className={classNames(
+        "w-full",
+        !last && "border-b border-gray-200",
+        "flex items-center",
+        "p-2",
+        account.hidden && "opacity-50"
+      )}
+    >
+      <div className="flex flex-col mr-2">
+        <ItemButton disabled={first} onClick={onMoveUp} title={t("moveUp")}>
+          <ChevronUpIcon className="h-4 w-auto stroke-current" />
+        </ItemButton>
+
+        <ItemButton disabled={last} onClick={onMoveDown} title={t("moveDown")}>
+          <ChevronDownIcon className="h-4 w-auto stroke-current" />
+        </ItemButton>
+      </div>
+
+      <Identicon
+        type="bottts"
+        hash={account.publicKeyHash}
+        size={32}
+        className="flex-shrink-0 shadow-xs"
+      />
+
+      <div className="ml-2 flex flex-col items-start min-w-0">
+        <div className="flex flex-wrap items-center">
+          <Name className="text-sm font-medium leading-tight">
+            {account.name}
+          </Name>
+          <AccountTypeBadge account={account} />
+        </div>
+
+        <span className="mt-1 text-xs text-gray-500">
+          <HashShortView hash={account.publicKeyHash} />
+        </span>
+      </div>
+
+      <div className="flex-1" />
+
+      <input
+        key={account.groupName}
+        className={classNames(
+          "w-20 ml-2 px-1 py-px",
+          "border rounded-sm border-gray-300 bg-transparent",
+          "text-xs text-gray-700",
+          "focus:outline-none focus:border-primary-orange"
+        )}
+        list={GROUP_NAMES_LIST_ID}
+        defaultValue={account.groupName}
+        placeholder={t("group")}
+        title={t("accountGroupInputDescription")}
+        onBlur={(evt) => onGroupChange(evt.target.value)}
+        onKeyDown={(evt) => {
+          if (evt.key === "Enter") {
+            evt.currentTarget.blur();
+          }
+        }}
+      />
+
+      <ItemButton
+        className="ml-2"
+        onClick={onHiddenToggle}
+        title={t(account.hidden ? "showAccount" : "hideAccount")}
+      >
+        <EyeIcon
+          className={classNames(
+            "h-5 w-auto stroke-current stroke-2",
+            account.hidden && "opacity-25"
+          )}
+        />
+      </ItemButton>
+    </div>
+  </>
+);
+
+type ItemButtonProps = React.ButtonHTMLAttributes<HTMLButtonElement>;
+
+const ItemButton: FC<ItemButtonProps> = ({ className, disabled, ...rest }) => (
+  <button
+    type="button"
+    className={classNames(
+      "p-px",
+      "rounded",
+      "text-gray-600",
+      disabled
+        ? "opacity-25 pointer-events-none"
+        : "hover:bg-gray-200 focus:bg-gray-200",
+      "transition ease-in-out duration-200",
+      "focus:outline-none",
+      className
+    )}
+    disabled={disabled}
+    {...rest}
+  />
+);
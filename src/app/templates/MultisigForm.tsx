@@ -0,0 +1,158 @@
+import React, { FC, ReactNode, useCallback, useRef, useState } from "react";
+
+import { Controller, useForm } from "react-hook-form";
+
+import Alert from "app/atoms/Alert";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import NoSpaceField from "app/atoms/NoSpaceField";
+import { useFormAnalytics } from "lib/analytics";
+import { T, t } from "lib/i18n/react";
+import {
+  ImportAccountFormType,
+  isAddressValid,
+  isMultisigScript,
+  useAllAccounts,
+  useTempleClient,
+  useTezos,
+} from "lib/temple/front";
+
+type ImportMultisigFormData = {
+  contractAddress: string;
+};
+
+const MultisigForm: FC = () => {
+  const accounts = useAllAccounts();
+  const tezos = useTezos();
+  const { importMultisigAccount } = useTempleClient();
+  const formAnalytics = useFormAnalytics(ImportAccountFormType.Multisig);
+
+  const [error, setError] = useState<ReactNode>(null);
+
+  const {
+    control,
+    watch,
+    handleSubmit,
+    errors,
+    formState,
+    setValue,
+    triggerValidation,
+  } = useForm<ImportMultisigFormData>({
+    mode: "onChange",
+  });
+
+  const contractAddressFieldRef = useRef<HTMLTextAreaElement>(null);
+  const contractAddress = watch("contractAddress");
+
+  const cleanContractAddressField = useCallback(() => {
+    setValue("contractAddress", "");
+    triggerValidation("contractAddress");
+  }, [setValue, triggerValidation]);
+
+  const validateContractAddress = useCallback(
+    (value?: any) => {
+      switch (false) {
+        case value?.length > 0:
+          return true;
+
+        case isAddressValid(value):
+          return t("invalidAddress");
+
+        case value.startsWith("KT"):
+          return t("notContractAddress");
+
+        case accounts.every(({ publicKeyHash }) => publicKeyHash !== value):
+          return t("contractAlreadyImported");
+
+        default:
+          return true;
+      }
+    },
+    [accounts]
+  );
+
+  const onSubmit = useCallback(
+    async ({ contractAddress }: ImportMultisigFormData) => {
+      if (formState.isSubmitting) {
+        return;
+      }
+
+      formAnalytics.trackSubmit();
+      setError(null);
+      try {
+        let code;
+        try {
+          ({ code } = await tezos.rpc.getScript(contractAddress));
+        } catch {
+          throw new Error(t("contractNotExistOnNetwork"));
+        }
+
+        if (!isMultisigScript(code)) {
+          throw new Error(t("notMultisigContract"));
+        }
+
+        await importMultisigAccount(contractAddress, tezos.rpc.getRpcUrl());
+
+        formAnalytics.trackSubmitSuccess();
+      } catch (err) {
+        formAnalytics.trackSubmitFail();
+
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [formState.isSubmitting, tezos, importMultisigAccount, formAnalytics]
+  );
+
+  return (
+    <form
+      className="w-full max-w-sm mx-auto my-8"
+      onSubmit={handleSubmit(onSubmit)}
+    >
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          description={error}
+          autoFocus
+          className="mb-6"
+        />
+      )}
+
+      <Controller
+        name="contractAddress"
+        as={<NoSpaceField ref={contractAddressFieldRef} />}
+        control={control}
+        rules={{
+          required: true,
+          validate: validateContractAddress,
+        }}
+        onChange={([v]) => v}
+        onFocus={() => contractAddressFieldRef.current?.focus()}
+        textarea
+        rows={2}
+        cleanable={Boolean(contractAddress)}
+        onClean={cleanContractAddressField}
+        id="multisig-address"
+        label={t("multisigContract")}
+        labelDescription={t("multisigContractInputDescription")}
+        placeholder={t("contractAddressInputPlaceholder")}
+        errorCaption={errors.contractAddress?.message}
+        style={{
+          resize: "none",
+        }}
+        containerClassName="mb-4"
+      />
+
+      <FormSubmitButton loading={formState.isSubmitting}>
+        <T id="importAccount" />
+      </FormSubmitButton>
+    </form>
+  );
+};
+
+export default MultisigForm;
@@ -18,18 +18,28 @@ import {
   PASSWORD_PATTERN,
   PASSWORD_ERROR_CAPTION,
   MNEMONIC_ERROR_CAPTION,
+  SEED_SHARES_ERROR_CAPTION,
+  SEED_SHARES_PASSPHRASE_PATTERN,
   formatMnemonic,
 } from "app/defaults";
+import SeedShares from "app/templates/SeedShares";
 import { T, t } from "lib/i18n/react";
 import { useTempleClient } from "lib/temple/front";
+import {
+  parseShares,
+  recoverSeedPhrase,
+  validateShares,
+} from "lib/temple/slip39";
 import { useAlert } from "lib/ui/dialog";
-import { Link } from "lib/woozie";
+import { Link, navigate } from "lib/woozie";
 
 import Backup from "./NewWallet/Backup";
 import Verify from "./NewWallet/Verify";
 
 interface FormData {
   mnemonic?: string;
+  shares?: string;
+  sharesPassphrase?: string;
   password: string;
   repassword: string;
   termsaccepted: boolean;
@@ -42,10 +52,15 @@ interface BackupData {
 
 type NewWalletProps = {
   ownMnemonic?: boolean;
+  fromShares?: boolean;
   title: string;
 };
 
-const NewWallet: FC<NewWalletProps> = ({ ownMnemonic = false, title }) => {
+const NewWallet: FC<NewWalletProps> = ({
+  ownMnemonic = false,
+  fromShares = false,
+  title,
+}) => {
   const { locked, registerWallet, setSeedRevealed } = useTempleClient();
   const alert = useAlert();
 
@@ -69,6 +84,7 @@ const NewWallet: FC<NewWalletProps> = ({ ownMnemonic = false, title }) => {
 
   const [backupData, setBackupData] = useState<BackupData | null>(null);
   const [verifySeedPhrase, setVerifySeedPhrase] = useState(false);
+  const [backupWithShares, setBackupWithShares] = useState(false);
 
   const onSubmit = useCallback(
     async (data: FormData) => {
@@ -76,8 +92,16 @@ const NewWallet: FC<NewWalletProps> = ({ ownMnemonic = false, title }) => {
 
       try {
         if (ownMnemonic) {
-          await registerWallet(data.password, formatMnemonic(data.mnemonic!));
+          const mnemonic = fromShares
+            ? await recoverSeedPhrase(
+                parseShares(data.shares!),
+                data.sharesPassphrase
+              )
+            : formatMnemonic(data.mnemonic!);
+          await registerWallet(data.password, mnemonic);
           setSeedRevealed(true);
+          // Just restored from the seed phrase, offer to add used accounts
+          navigate("/discover-accounts");
         } else {
           setBackupData({
             mnemonic: generateMnemonic(128),
@@ -98,6 +122,7 @@ const NewWallet: FC<NewWalletProps> = ({ ownMnemonic = false, title }) => {
     [
       submitting,
       ownMnemonic,
+      fromShares,
       setBackupData,
       registerWallet,
       setSeedRevealed,
@@ -109,8 +134,30 @@ const NewWallet: FC<NewWalletProps> = ({ ownMnemonic = false, title }) => {
     setVerifySeedPhrase(true);
   }, [setVerifySeedPhrase]);
 
+  const handleSharesBackupSelect = useCallback(() => {
+    setBackupWithShares(true);
+  }, [setBackupWithShares]);
+
+  const handleSharesVerified = useCallback(async () => {
+    await registerWallet(backupData!.password, backupData!.mnemonic);
+    setSeedRevealed(true);
+  }, [registerWallet, setSeedRevealed, backupData]);
+
   // Backup or Verify step
   if (backupData) {
+    if (backupWithShares) {
+      return (
+        <Template title={t("backupWithSeedShares")}>
+          <div className="w-full max-w-sm mx-auto my-8">
+            <SeedShares
+              seedPhrase={backupData.mnemonic}
+              onVerified={handleSharesVerified}
+            />
+          </div>
+        </Template>
+      );
+    }
+
     return verifySeedPhrase ? (
       // Verify step
       <Template title={t("verifySeedPhrase")}>
@@ -119,7 +166,11 @@ const NewWallet: FC<NewWalletProps> = ({ ownMnemonic = false, title }) => {
     ) : (
       // Backup step
       <Template title={t("backupNewSeedPhrase")}>
-        <Backup data={backupData} onBackupComplete={handleBackupComplete} />
+        <Backup
+          data={backupData}
+          onBackupComplete={handleBackupComplete}
+          onSharesBackupSelect={handleSharesBackupSelect}
+        />
       </Template>
     );
   }
@@ -163,7 +214,59 @@ const NewWallet: FC<NewWalletProps> = ({ ownMnemonic = false, title }) => {
           />
         )}
 
-        {ownMnemonic && (
+        {ownMnemonic && fromShares && (
+          <>
+            <FormField
+              secret
+              textarea
+              rows={6}
+              ref={register({
+                required: t("required"),
+                validate: (val) =>
+                  validateShares(val) || SEED_SHARES_ERROR_CAPTION,
+              })}
+              label={t("seedSharesInputLabel")}
+              labelDescription={t("seedSharesInputDescription")}
+              id="newwallet-shares"
+              name="shares"
+              placeholder={t("seedSharesInputPlaceholder")}
+              spellCheck={false}
+              errorCaption={errors.shares?.message}
+              containerClassName="mb-4"
+              className="resize-none"
+            />
+
+            <FormField
+              ref={register({
+                pattern: {
+                  value: SEED_SHARES_PASSPHRASE_PATTERN,
+                  message: t("seedSharesPassphraseError"),
+                },
+              })}
+              label={
+                <>
+                  <T id="seedSharesPassphrase" />{" "}
+                  <T id="optionalComment">
+                    {(message) => (
+                      <span className="text-sm font-light text-gray-600">
+                        {message}
+                      </span>
+                    )}
+                  </T>
+                </>
+              }
+              labelDescription={t("seedSharesRestorePassphraseDescription")}
+              id="newwallet-sharespassphrase"
+              type="password"
+              name="sharesPassphrase"
+              placeholder="*********"
+              errorCaption={errors.sharesPassphrase?.message}
+              containerClassName="mb-4"
+            />
+          </>
+        )}
+
+        {ownMnemonic && !fromShares && (
           <FormField
             secret
             textarea
@@ -5,6 +5,7 @@ import { useForm } from "react-hook-form";
 import Alert from "app/atoms/Alert";
 import FormCheckbox from "app/atoms/FormCheckbox";
 import FormField from "app/atoms/FormField";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
 import { T, t } from "lib/i18n/react";
 
@@ -18,9 +19,14 @@ type BackupProps = {
     password: string;
   };
   onBackupComplete: () => void;
+  onSharesBackupSelect?: () => void;
 };
 
-const Backup: FC<BackupProps> = ({ data, onBackupComplete }) => {
+const Backup: FC<BackupProps> = ({
+  data,
+  onBackupComplete,
+  onSharesBackupSelect,
+}) => {
   const { register, handleSubmit, errors, formState } =
     useForm<BackupFormData>();
   const submitting = formState.isSubmitting;
@@ -72,6 +78,16 @@ const Backup: FC<BackupProps> = ({ data, onBackupComplete }) => {
         <FormSubmitButton loading={submitting}>
           <T id="continue" />
         </FormSubmitButton>
+
+        {onSharesBackupSelect && (
+          <FormSecondaryButton
+            className="mt-4"
+            disabled={submitting}
+            onClick={onSharesBackupSelect}
+          >
+            <T id="backupWithSeedShares" />
+          </FormSecondaryButton>
+        )}
       </form>
     </div>
   );
@@ -121,51 +121,53 @@ type WordsRowProps = {
   onFill: (filled: boolean) => void;
 };
 
-const WordsRow = memo<WordsRowProps>(({ allWords, indexToFill, onFill }) => {
-  const nearIndexes = useMemo(
-    () => getTwoNearIndexes(indexToFill, allWords.length),
-    [indexToFill, allWords.length]
-  );
-  const indexes = useMemo(
-    () => sortNumbers([indexToFill, ...nearIndexes]),
-    [indexToFill, nearIndexes]
-  );
-  const [fillValue, setFillValue] = useState("");
-
-  const handleChange = useCallback(
-    (evt) => {
-      const { value } = evt.target;
-      setFillValue(value);
-      onFill(value === allWords[indexToFill]);
-    },
-    [setFillValue, onFill, allWords, indexToFill]
-  );
-
-  return (
-    <div className={classNames("mb-6", "-mx-2", "flex items-stretch")}>
-      {indexes.map((i) => {
-        const toFill = i === indexToFill;
-
-        return (
-          <div key={i} className="p-2">
-            <FormField
-              label={<T id="word" substitutions={i + 1} />}
-              {...(toFill
-                ? {
-                    value: fillValue,
-                    onChange: handleChange,
-                  }
-                : {
-                    disabled: true,
-                    defaultValue: allWords[i],
-                  })}
-            />
-          </div>
-        );
-      })}
-    </div>
-  );
-});
+export const WordsRow = memo<WordsRowProps>(
+  ({ allWords, indexToFill, onFill }) => {
+    const nearIndexes = useMemo(
+      () => getTwoNearIndexes(indexToFill, allWords.length),
+      [indexToFill, allWords.length]
+    );
+    const indexes = useMemo(
+      () => sortNumbers([indexToFill, ...nearIndexes]),
+      [indexToFill, nearIndexes]
+    );
+    const [fillValue, setFillValue] = useState("");
+
+    const handleChange = useCallback(
+      (evt) => {
+        const { value } = evt.target;
+        setFillValue(value);
+        onFill(value === allWords[indexToFill]);
+      },
+      [setFillValue, onFill, allWords, indexToFill]
+    );
+
+    return (
+      <div className={classNames("mb-6", "-mx-2", "flex items-stretch")}>
+        {indexes.map((i) => {
+          const toFill = i === indexToFill;
+
+          return (
+            <div key={i} className="p-2">
+              <FormField
+                label={<T id="word" substitutions={i + 1} />}
+                {...(toFill
+                  ? {
+                      value: fillValue,
+                      onChange: handleChange,
+                    }
+                  : {
+                      disabled: true,
+                      defaultValue: allWords[i],
+                    })}
+              />
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+);
 
 function getTwoNearIndexes(index: number, limit: number) {
   switch (true) {
@@ -180,7 +182,7 @@ function getTwoNearIndexes(index: number, limit: number) {
   }
 }
 
-function getRandomInt(min: number, max: number) {
+export function getRandomInt(min: number, max: number) {
   min = Math.ceil(min);
   max = Math.floor(max);
   return Math.floor(Math.random() * (max - min + 1)) + min;
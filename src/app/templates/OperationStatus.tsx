@@ -5,11 +5,13 @@ import classNames from "clsx";
 import Alert from "app/atoms/Alert";
 import OpenInExplorerChip from "app/atoms/OpenInExplorerChip";
 import HashChip from "app/templates/HashChip";
+import OperationsBanner from "app/templates/OperationsBanner";
 import { T, t } from "lib/i18n/react";
 import {
   useTezos,
   useBlockTriggers,
   useExplorerBaseUrls,
+  usePendingOperation,
   FailedOpError,
 } from "lib/temple/front";
 import useSafeState from "lib/ui/useSafeState";
@@ -32,7 +34,13 @@ const OperationStatus: FC<OperationStatusProps> = ({
   const tezos = useTezos();
   const { confirmOperationAndTriggerNewBlock } = useBlockTriggers();
 
-  const hash = useMemo(() => operation.hash || operation.opHash, [operation]);
+  const sentHash = useMemo(
+    () => operation.hash || operation.opHash,
+    [operation]
+  );
+  // Operation could be sped up or cancelled
+  const pendingOp = usePendingOperation(sentHash);
+  const hash = pendingOp?.hash ?? sentHash;
 
   const { transaction: transactionBaseUrl } = useExplorerBaseUrls();
 
@@ -116,16 +124,39 @@ const OperationStatus: FC<OperationStatusProps> = ({
     typeTitle,
   ]);
 
+  const dropped = pendingOp?.status === "dropped";
+  useEffect(() => {
+    if (dropped) {
+      setAlert({
+        type: "error",
+        title: t("error"),
+        description: t("operationDroppedDescription"),
+      });
+    }
+  }, [dropped, setAlert]);
+
   return (
-    <Alert
-      type={alert.type}
-      title={alert.title}
-      description={alert.description}
-      autoFocus
-      className={classNames("mb-8", className)}
-      closable={closable}
-      onClose={onClose}
-    />
+    <>
+      <Alert
+        type={alert.type}
+        title={alert.title}
+        description={alert.description}
+        autoFocus
+        className={classNames("mb-8", className)}
+        closable={closable}
+        onClose={onClose}
+      />
+
+      {pendingOp?.status === "mempool" && (
+        <OperationsBanner
+          opParams={pendingOp.contents}
+          label={t("pendingOperation")}
+          pendingOpHash={sentHash}
+          jsonViewStyle={{ height: "6rem" }}
+          className="mb-2"
+        />
+      )}
+    </>
   );
 };
 
@@ -8,6 +8,9 @@ import { ReactComponent as HashIcon } from "app/icons/hash.svg";
 import ExpensesView, { ModifyFeeAndLimit } from "app/templates/ExpensesView";
 import OperationsBanner from "app/templates/OperationsBanner";
 import RawPayloadView from "app/templates/RawPayloadView";
+import SignPayloadView, {
+  SignPayloadWarning,
+} from "app/templates/SignPayloadView";
 import ViewsSwitcher from "app/templates/ViewsSwitcher";
 import { T, t } from "lib/i18n/react";
 import {
@@ -113,6 +116,8 @@ const OperationView: FC<OperationViewProps> = ({
   if (payload.type === "sign" && payload.preview) {
     return (
       <div className="flex flex-col w-full">
+        {payload.decoded && <SignPayloadWarning decoded={payload.decoded} />}
+
         <h2
           className={classNames("mb-3", "leading-tight", "flex items-center")}
         >
@@ -157,6 +162,16 @@ const OperationView: FC<OperationViewProps> = ({
     );
   }
 
+  if (
+    payload.type === "sign" &&
+    payload.decoded &&
+    payload.decoded.type !== "unknown"
+  ) {
+    return (
+      <SignPayloadView payload={payload.payload} decoded={payload.decoded} />
+    );
+  }
+
   if (payload.type === "sign") {
     return (
       <RawPayloadView
@@ -1,21 +1,31 @@
-import React, { CSSProperties, memo, ReactNode } from "react";
+import React, {
+  CSSProperties,
+  FC,
+  memo,
+  ReactNode,
+  useCallback,
+  useState,
+} from "react";
 
 import classNames from "clsx";
 import ReactJson from "react-json-view";
 
 import { ReactComponent as CopyIcon } from "app/icons/copy.svg";
 import { T } from "lib/i18n/react";
+import { useTempleClient, usePendingOperation } from "lib/temple/front";
 import useCopyToClipboard from "lib/ui/useCopyToClipboard";
 
 type OperationsBannerProps = {
   jsonViewStyle?: CSSProperties;
   opParams: any[] | { branch: string; contents: any[] } | string;
   label?: ReactNode;
+  // Hash of sent operation, to show its status and replace actions
+  pendingOpHash?: string;
   className?: string;
 };
 
 const OperationsBanner = memo<OperationsBannerProps>(
-  ({ jsonViewStyle, opParams, label, className }) => {
+  ({ jsonViewStyle, opParams, label, pendingOpHash, className }) => {
     opParams =
       typeof opParams === "string" ? opParams : formatOpParams(opParams);
 
@@ -77,6 +87,8 @@ const OperationsBanner = memo<OperationsBannerProps>(
             <CopyButton toCopy={opParams} />
           </div>
         </div>
+
+        {pendingOpHash && <PendingOperationControls opHash={pendingOpHash} />}
       </>
     );
   }
@@ -127,6 +139,99 @@ const CopyButton = memo<CopyButtonProps>(({ toCopy }) => {
   );
 });
 
+type PendingOperationControlsProps = {
+  opHash: string;
+};
+
+const PendingOperationControls = memo<PendingOperationControlsProps>(
+  ({ opHash }) => {
+    const { replacePendingOperation } = useTempleClient();
+    const pendingOp = usePendingOperation(opHash);
+
+    const [replacing, setReplacing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const replace = useCallback(
+      async (mode: "speed-up" | "cancel") => {
+        if (!pendingOp || replacing) return;
+
+        setReplacing(true);
+        setError(null);
+        try {
+          await replacePendingOperation(pendingOp.hash, mode);
+        } catch (err) {
+          if (process.env.NODE_ENV === "development") {
+            console.error(err);
+          }
+
+          if (err.message !== "Declined") {
+            setError(err.message);
+          }
+        }
+        setReplacing(false);
+      },
+      [pendingOp, replacing, replacePendingOperation]
+    );
+
+    if (!pendingOp) return null;
+
+    return (
+      <div className="mb-2">
+        <div className="flex items-center text-xs text-gray-600">
+          <span className="flex-1">
+            <T id={`pendingOperationStatus_${pendingOp.status}`} />
+          </span>
+
+          {pendingOp.status === "mempool" && (
+            <>
+              <ReplaceButton
+                disabled={replacing}
+                onClick={() => replace("speed-up")}
+              >
+                <T id="speedUp" />
+              </ReplaceButton>
+              <ReplaceButton
+                disabled={replacing}
+                onClick={() => replace("cancel")}
+              >
+                <T id="cancel" />
+              </ReplaceButton>
+            </>
+          )}
+        </div>
+
+        {error && <div className="mt-1 text-xs text-red-700">{error}</div>}
+      </div>
+    );
+  }
+);
+
+type ReplaceButtonProps = {
+  disabled: boolean;
+  onClick: () => void;
+};
+
+const ReplaceButton: FC<ReplaceButtonProps> = ({
+  disabled,
+  onClick,
+  children,
+}) => (
+  <button
+    type="button"
+    className={classNames(
+      "ml-2 px-2 py-1",
+      "rounded border border-gray-300",
+      "text-xs font-medium text-gray-700",
+      "transition ease-in-out duration-200",
+      disabled ? "opacity-50 cursor-default" : "hover:bg-gray-100"
+    )}
+    disabled={disabled}
+    onClick={onClick}
+  >
+    {children}
+  </button>
+);
+
 function formatOpParams(opParams: any) {
   try {
     if ("contents" in opParams) {
@@ -0,0 +1,148 @@
+import React, { FC, useCallback } from "react";
+
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+
+import FormField from "app/atoms/FormField";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import Name from "app/atoms/Name";
+import { ReactComponent as CloseIcon } from "app/icons/close.svg";
+import { T, t } from "lib/i18n/react";
+import { useRetryableSWR } from "lib/swr";
+import { useTempleClient } from "lib/temple/front";
+
+type FormData = {
+  origin: string;
+};
+
+type OriginExceptionsProps = {
+  className?: string;
+};
+
+const OriginExceptions: FC<OriginExceptionsProps> = ({ className }) => {
+  const { getOriginExceptions, setOriginExceptions } = useTempleClient();
+
+  const { data, mutate } = useRetryableSWR(
+    ["origin-exceptions"],
+    getOriginExceptions,
+    {
+      suspense: true,
+      shouldRetryOnError: false,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+    }
+  );
+  const exceptions = data!;
+
+  const { register, handleSubmit, errors, setError, reset, formState } =
+    useForm<FormData>();
+  const submitting = formState.isSubmitting;
+
+  const onSubmit = useCallback(
+    async ({ origin }: FormData) => {
+      if (submitting) return;
+
+      try {
+        const newOrigin = new URL(origin.trim()).origin;
+        mutate(await setOriginExceptions([...exceptions, newOrigin]), false);
+        reset();
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError("origin", "submit-error", t("invalidOrigin"));
+      }
+    },
+    [submitting, exceptions, setOriginExceptions, mutate, reset, setError]
+  );
+
+  const handleRemoveClick = useCallback(
+    async (origin: string) => {
+      mutate(
+        await setOriginExceptions(exceptions.filter((o) => o !== origin)),
+        false
+      );
+    },
+    [exceptions, setOriginExceptions, mutate]
+  );
+
+  return (
+    <div className={className}>
+      <h2 className="mb-4 leading-tight flex flex-col">
+        <span className="text-base font-semibold text-gray-700">
+          <T id="trustedWebsites" />
+        </span>
+
+        <span
+          className="mt-1 text-xs font-light text-gray-600"
+          style={{ maxWidth: "90%" }}
+        >
+          <T id="trustedWebsitesDescription" />
+        </span>
+      </h2>
+
+      {exceptions.length > 0 && (
+        <div
+          className={classNames(
+            "mb-4",
+            "rounded-md overflow-hidden",
+            "border-2 bg-gray-100",
+            "flex flex-col",
+            "text-gray-700 text-sm leading-tight"
+          )}
+        >
+          {exceptions.map((origin, i, arr) => (
+            <div
+              key={origin}
+              className={classNames(
+                "w-full p-2",
+                i < arr.length - 1 && "border-b border-gray-200",
+                "flex items-center"
+              )}
+            >
+              <Name style={{ maxWidth: "16rem" }}>{origin}</Name>
+
+              <div className="flex-1" />
+
+              <button
+                type="button"
+                className={classNames(
+                  "ml-2 p-px",
+                  "rounded",
+                  "text-gray-600",
+                  "hover:bg-gray-200 focus:bg-gray-200",
+                  "transition ease-in-out duration-200",
+                  "focus:outline-none"
+                )}
+                title={t("delete")}
+                onClick={() => handleRemoveClick(origin)}
+              >
+                <CloseIcon className="h-4 w-auto stroke-current" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <FormField
+          ref={register({ required: t("required") })}
+          name="origin"
+          id="origin-exception"
+          placeholder="https://example.com"
+          errorCaption={errors.origin?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormSecondaryButton small loading={submitting}>
+          <T id="addTrustedWebsite" />
+        </FormSecondaryButton>
+      </form>
+    </div>
+  );
+};
+
+export default OriginExceptions;
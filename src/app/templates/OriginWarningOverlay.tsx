@@ -0,0 +1,83 @@
+import React, { FC } from "react";
+
+import classNames from "clsx";
+
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import Name from "app/atoms/Name";
+import { ReactComponent as DangerIcon } from "app/icons/danger.svg";
+import { T } from "lib/i18n/react";
+import { TempleOriginReputation } from "lib/temple/types";
+
+type OriginWarningOverlayProps = {
+  origin: string;
+  reputation: TempleOriginReputation;
+  declining?: boolean;
+  onDecline: () => void;
+  onTrust: () => void;
+};
+
+const OriginWarningOverlay: FC<OriginWarningOverlayProps> = ({
+  origin,
+  reputation,
+  declining,
+  onDecline,
+  onTrust,
+}) => (
+  <div
+    className={classNames(
+      "absolute inset-0 z-10",
+      "bg-white",
+      "p-8",
+      "flex flex-col items-center justify-center",
+      "text-red-700"
+    )}
+  >
+    <DangerIcon className="mb-4 h-16 w-auto stroke-current" />
+
+    <T id="suspiciousWebsite">
+      {(message) => (
+        <h2 className="mb-2 text-xl font-semibold text-center">{message}</h2>
+      )}
+    </T>
+
+    <Name className="mb-4 text-sm font-medium" style={{ maxWidth: "100%" }}>
+      {origin}
+    </Name>
+
+    <T
+      id={
+        reputation.reason === "lookalike"
+          ? "originLookalikeWarning"
+          : "originDenylistedWarning"
+      }
+      substitutions={reputation.similarTo}
+    >
+      {(message) => (
+        <p className="mb-6 text-sm text-center text-gray-700">{message}</p>
+      )}
+    </T>
+
+    <FormSecondaryButton
+      type="button"
+      className="justify-center w-full mb-4"
+      loading={declining}
+      onClick={onDecline}
+    >
+      <T id="reject" />
+    </FormSecondaryButton>
+
+    <button
+      type="button"
+      className={classNames(
+        "text-xs text-gray-600 underline",
+        "hover:text-gray-700",
+        "focus:outline-none"
+      )}
+      onClick={onTrust}
+    >
+      <T id="ignoreWarningAndTrust" />
+    </button>
+  </div>
+);
+
+export default OriginWarningOverlay;
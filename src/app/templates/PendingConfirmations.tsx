@@ -0,0 +1,152 @@
+import React, { FC, useEffect, useState } from "react";
+
+import classNames from "clsx";
+
+import Name from "app/atoms/Name";
+import DAppLogo from "app/templates/DAppLogo";
+import { T, t } from "lib/i18n/react";
+import { TemplePendingConfirmation } from "lib/temple/front";
+
+type PendingConfirmationsProps = {
+  confirmations: TemplePendingConfirmation[];
+  selectedId?: string;
+  onSelect: (id: string) => void;
+  onDeclineAll: () => void;
+  className?: string;
+};
+
+const PendingConfirmations: FC<PendingConfirmationsProps> = ({
+  confirmations,
+  selectedId,
+  onSelect,
+  onDeclineAll,
+  className,
+}) => (
+  <div className={classNames("w-full", className)}>
+    <div className="mb-1 flex items-center">
+      <T id="pendingRequests" substitutions={String(confirmations.length)}>
+        {(message) => (
+          <span className="text-xs font-medium text-gray-600">{message}</span>
+        )}
+      </T>
+
+      <div className="flex-1" />
+
+      {confirmations.length > 1 && (
+        <button
+          type="button"
+          className={classNames(
+            "px-1",
+            "rounded",
+            "text-xs font-medium text-red-600",
+            "hover:bg-red-100 focus:bg-red-100",
+            "transition ease-in-out duration-200",
+            "focus:outline-none"
+          )}
+          onClick={onDeclineAll}
+        >
+          <T id="rejectAll" />
+        </button>
+      )}
+    </div>
+
+    <div
+      className={classNames(
+        "rounded-md overflow-y-auto",
+        "border bg-gray-100",
+        "flex flex-col",
+        "text-gray-700 text-xs leading-tight"
+      )}
+      style={{ maxHeight: "5.5rem" }}
+    >
+      {confirmations.map((confirmation, i) => (
+        <button
+          key={confirmation.id}
+          type="button"
+          className={classNames(
+            "w-full px-2 py-1",
+            i < confirmations.length - 1 && "border-b border-gray-200",
+            confirmation.id === selectedId
+              ? "bg-gray-300"
+              : "hover:bg-gray-200 focus:bg-gray-200",
+            "flex items-center",
+            "transition ease-in-out duration-200",
+            "focus:outline-none"
+          )}
+          onClick={() => onSelect(confirmation.id)}
+        >
+          {confirmation.kind === "dapp" ? (
+            <>
+              <DAppLogo
+                origin={confirmation.payload.origin}
+                size={12}
+                className="mr-1 flex-shrink-0"
+              />
+              <Name className="font-medium" style={{ maxWidth: "8rem" }}>
+                {confirmation.payload.appMeta.name}
+              </Name>
+            </>
+          ) : (
+            <span className="font-medium">{t("walletRequest")}</span>
+          )}
+
+          <span className="ml-1 text-gray-500">
+            {getActionTitle(confirmation)}
+          </span>
+
+          <div className="flex-1" />
+
+          <TimeLeft expiresAt={confirmation.expiresAt} />
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default PendingConfirmations;
+
+function getActionTitle({ payload }: TemplePendingConfirmation) {
+  switch (payload.type) {
+    case "connect":
+      return t("connection");
+
+    case "confirm_operations":
+    case "operations":
+    case "replace_operations":
+      return t("operations");
+
+    case "sign":
+      return t("signAction");
+
+    case "permit":
+      return t("permit");
+  }
+}
+
+type TimeLeftProps = {
+  expiresAt: number;
+};
+
+const TimeLeft: FC<TimeLeftProps> = ({ expiresAt }) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil((expiresAt - now) / 1000));
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = String(secondsLeft % 60).padStart(2, "0");
+
+  return (
+    <span
+      className={classNames(
+        "ml-2 font-mono",
+        secondsLeft < 15 ? "text-red-600" : "text-gray-500"
+      )}
+    >
+      {minutes}:{seconds}
+    </span>
+  );
+};
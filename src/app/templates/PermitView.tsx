@@ -0,0 +1,69 @@
+import React, { FC } from "react";
+
+import classNames from "clsx";
+
+import Alert from "app/atoms/Alert";
+import HashShortView from "app/atoms/HashShortView";
+import { MichelineTree } from "app/templates/SignPayloadView";
+import { T, t } from "lib/i18n/react";
+import { TempleDAppPermitPayload } from "lib/temple/front";
+
+type PermitViewProps = {
+  payload: TempleDAppPermitPayload;
+};
+
+const PermitView: FC<PermitViewProps> = ({ payload }) => (
+  <div className="flex flex-col w-full">
+    <Alert
+      type="warn"
+      title={t("permitWarningTitle")}
+      description={t("permitWarning", payload.contractAddress)}
+      className="mb-4"
+    />
+
+    <h2 className="mb-3 leading-tight flex items-center">
+      <span className="text-base font-semibold text-gray-700">
+        <T id="permitDetails" />
+      </span>
+    </h2>
+
+    <div
+      className={classNames(
+        "rounded-md overflow-auto",
+        "border-2 bg-gray-100",
+        "p-2",
+        "text-xs text-gray-700 leading-tight"
+      )}
+      style={{ maxHeight: "11rem" }}
+    >
+      <div className="mb-2">
+        {[
+          [t("contract"), payload.contractAddress],
+          [t("permitEntrypoint"), payload.entrypoint],
+          [t("permitCounter"), payload.counter],
+          [t("permitParamsHash"), payload.paramsHash],
+        ].map(([label, value]) => (
+          <div key={label} className="flex">
+            <span className="mr-1 text-gray-500">{label}:</span>
+            <HashShortView hash={value} />
+          </div>
+        ))}
+      </div>
+
+      <span className="text-gray-500">
+        <T id="permitParams" />:
+      </span>
+      <MichelineTree node={payload.params} />
+    </div>
+
+    {payload.submit && (
+      <T id="permitSubmitNote">
+        {(message) => (
+          <p className="mt-2 text-xs font-light text-gray-600">{message}</p>
+        )}
+      </T>
+    )}
+  </div>
+);
+
+export default PermitView;
@@ -0,0 +1,249 @@
+import React, { FC, useCallback, useLayoutEffect } from "react";
+
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+
+import FormCheckbox from "app/atoms/FormCheckbox";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import { PASSWORD_PATTERN, PASSWORD_ERROR_CAPTION } from "app/defaults";
+import { T, t } from "lib/i18n/react";
+import { useTempleClient } from "lib/temple/front";
+import { useAlert } from "lib/ui/dialog";
+
+interface FormData {
+  backupFile: FileList;
+  backupPassword: string;
+  password: string;
+  repassword: string;
+  termsaccepted: boolean;
+}
+
+const RestoreFromBackup: FC = () => {
+  const { restoreBackup, setSeedRevealed } = useTempleClient();
+  const alert = useAlert();
+
+  const {
+    watch,
+    register,
+    handleSubmit,
+    errors,
+    triggerValidation,
+    formState,
+  } = useForm<FormData>();
+  const submitting = formState.isSubmitting;
+
+  const passwordValue = watch("password");
+  const backupFileValue = watch("backupFile");
+  const backupFileName = backupFileValue?.[0]?.name;
+
+  useLayoutEffect(() => {
+    if (formState.dirtyFields.has("repassword")) {
+      triggerValidation("repassword");
+    }
+  }, [triggerValidation, formState.dirtyFields, passwordValue]);
+
+  const onSubmit = useCallback(
+    async (data: FormData) => {
+      if (submitting) return;
+
+      try {
+        let backup: string;
+        try {
+          backup = await readFileAsText(data.backupFile[0]);
+        } catch (_err) {
+          throw new Error(t("unexpectedOrInvalidFile"));
+        }
+
+        await restoreBackup(data.password, backup, data.backupPassword);
+        setSeedRevealed(true);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        await alert({
+          title: t("actionConfirmation"),
+          children: err.message,
+        });
+      }
+    },
+    [submitting, restoreBackup, setSeedRevealed, alert]
+  );
+
+  return (
+    <form
+      className="w-full max-w-sm mx-auto my-8"
+      onSubmit={handleSubmit(onSubmit)}
+    >
+      <label
+        className={classNames("mb-4", "leading-tight", "flex flex-col")}
+        htmlFor="restorebackup-file"
+      >
+        <span className="text-base font-semibold text-gray-700">
+          <T id="backupFile" />
+        </span>
+
+        <span
+          className={classNames("mt-1", "text-xs font-light text-gray-600")}
+          style={{ maxWidth: "90%" }}
+        >
+          <T id="backupFileInputDescription" />
+        </span>
+      </label>
+
+      <div className="relative w-full mb-4">
+        <input
+          ref={register({ required: true })}
+          className={classNames(
+            "appearance-none",
+            "absolute inset-0 w-full",
+            "block py-2 px-4",
+            "opacity-0",
+            "cursor-pointer"
+          )}
+          id="restorebackup-file"
+          type="file"
+          name="backupFile"
+          accept=".json,application/json"
+          disabled={submitting}
+        />
+
+        <div
+          className={classNames(
+            "w-full",
+            "px-4 py-6",
+            "border-2 border-dashed",
+            errors.backupFile ? "border-red-500" : "border-gray-300",
+            "bg-gray-100",
+            "rounded-md",
+            "text-gray-400 text-lg leading-tight text-center"
+          )}
+        >
+          {backupFileName ? (
+            <span className="text-gray-700 break-all">{backupFileName}</span>
+          ) : (
+            <T
+              id="selectFileOfFormat"
+              substitutions={[<b key="format">JSON</b>]}
+            />
+          )}
+        </div>
+
+        {errors.backupFile && (
+          <div className="mt-1 text-xs text-red-500">{t("required")}</div>
+        )}
+      </div>
+
+      <FormField
+        ref={register({ required: t("required") })}
+        label={t("backupPassword")}
+        labelDescription={t("restoreBackupPasswordInputDescription")}
+        id="restorebackup-backuppassword"
+        type="password"
+        name="backupPassword"
+        placeholder="********"
+        errorCaption={errors.backupPassword?.message}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        ref={register({
+          required: t("required"),
+          pattern: {
+            value: PASSWORD_PATTERN,
+            message: PASSWORD_ERROR_CAPTION,
+          },
+        })}
+        label={t("password")}
+        labelDescription={t("unlockPasswordInputDescription")}
+        id="restorebackup-password"
+        type="password"
+        name="password"
+        placeholder="********"
+        errorCaption={errors.password?.message}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        ref={register({
+          required: t("required"),
+          validate: (val) =>
+            val === passwordValue || t("mustBeEqualToPasswordAbove"),
+        })}
+        label={t("repeatPassword")}
+        labelDescription={t("repeatPasswordInputDescription")}
+        id="restorebackup-repassword"
+        type="password"
+        name="repassword"
+        placeholder="********"
+        errorCaption={errors.repassword?.message}
+        containerClassName="mb-6"
+      />
+
+      <FormCheckbox
+        ref={register({
+          validate: (val) => val || t("confirmTermsError"),
+        })}
+        errorCaption={errors.termsaccepted?.message}
+        name="termsaccepted"
+        label={t("acceptTerms")}
+        labelDescription={
+          <T
+            id="acceptTermsInputDescription"
+            substitutions={[
+              <T id="termsOfUsage" key="termsLink">
+                {(message) => (
+                  <a
+                    href="https://templewallet.com/terms"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline text-secondary"
+                  >
+                    {message}
+                  </a>
+                )}
+              </T>,
+              <T id="privacyPolicy" key="privacyPolicyLink">
+                {(message) => (
+                  <a
+                    href="https://templewallet.com/privacy"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline text-secondary"
+                  >
+                    {message}
+                  </a>
+                )}
+              </T>,
+            ]}
+          />
+        }
+        containerClassName="mb-6"
+      />
+
+      <FormSubmitButton loading={submitting}>
+        <T id="restore" />
+      </FormSubmitButton>
+    </form>
+  );
+};
+
+export default RestoreFromBackup;
+
+function readFileAsText(file: File) {
+  return new Promise<string>((res, rej) => {
+    const reader = new FileReader();
+
+    reader.onerror = () => {
+      rej();
+      reader.abort();
+    };
+
+    reader.onload = (readEvt: any) => {
+      res(readEvt.target.result);
+    };
+
+    reader.readAsText(file);
+  });
+}
@@ -5,9 +5,11 @@ import { useForm } from "react-hook-form";
 
 import Alert from "app/atoms/Alert";
 import FormField from "app/atoms/FormField";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
 import { getAccountBadgeTitle } from "app/defaults";
 import AccountBanner from "app/templates/AccountBanner";
+import SeedShares from "app/templates/SeedShares";
 import { T, t } from "lib/i18n/react";
 import {
   useTempleClient,
@@ -44,6 +46,7 @@ const RevealSecret: FC<RevealSecretProps> = ({ reveal }) => {
   const submitting = formState.isSubmitting;
 
   const [secret, setSecret] = useState<string | null>(null);
+  const [splitting, setSplitting] = useState(false);
 
   const secretFieldRef = useRef<HTMLTextAreaElement>(null);
 
@@ -54,6 +57,12 @@ const RevealSecret: FC<RevealSecretProps> = ({ reveal }) => {
     return;
   }, [account.publicKeyHash, setSecret]);
 
+  useEffect(() => {
+    if (!secret) {
+      setSplitting(false);
+    }
+  }, [secret, setSplitting]);
+
   useEffect(() => {
     if (secret) {
       secretFieldRef.current?.focus();
@@ -217,6 +226,7 @@ const RevealSecret: FC<RevealSecretProps> = ({ reveal }) => {
       TempleAccountType.Ledger,
       TempleAccountType.ManagedKT,
       TempleAccountType.WatchOnly,
+      TempleAccountType.Multisig,
     ].includes(account.type);
 
   const mainContent = useMemo(() => {
@@ -276,6 +286,18 @@ const RevealSecret: FC<RevealSecretProps> = ({ reveal }) => {
             description={<p>{texts.attention}</p>}
             className="my-4"
           />
+
+          {reveal === "seed-phrase" &&
+            (splitting ? (
+              <SeedShares seedPhrase={secret} />
+            ) : (
+              <FormSecondaryButton
+                className="mt-2"
+                onClick={() => setSplitting(true)}
+              >
+                <T id="splitIntoShares" />
+              </FormSecondaryButton>
+            ))}
         </>
       );
     }
@@ -314,6 +336,8 @@ const RevealSecret: FC<RevealSecretProps> = ({ reveal }) => {
     secret,
     texts,
     submitting,
+    reveal,
+    splitting,
   ]);
 
   return (
@@ -0,0 +1,169 @@
+import React, { FC, useCallback, useMemo, useRef, useState } from "react";
+
+import classNames from "clsx";
+
+import FormCheckbox from "app/atoms/FormCheckbox";
+import { ReactComponent as LockIcon } from "app/icons/lock.svg";
+import { T, t } from "lib/i18n/react";
+import { useSettings, useTempleClient } from "lib/temple/front";
+
+import IconifiedSelect, {
+  IconifiedSelectOptionRenderProps,
+} from "./IconifiedSelect";
+
+type AutoLockOption = {
+  minutes: number;
+};
+
+const autoLockOptions: AutoLockOption[] = [0, 1, 5, 15, 30, 60, 240].map(
+  (minutes) => ({ minutes })
+);
+
+const getAutoLockKey = ({ minutes }: AutoLockOption) => minutes;
+
+const SecuritySettings: FC = () => {
+  const { updateSettings } = useTempleClient();
+  const settings = useSettings();
+
+  const changingRef = useRef(false);
+  const [error, setError] = useState<any>(null);
+
+  const autoLockTimeout = settings.autoLockTimeout ?? 0;
+  const lockOnSystemIdle = settings.lockOnSystemIdle ?? false;
+
+  const value = useMemo(
+    () =>
+      autoLockOptions.find(({ minutes }) => minutes === autoLockTimeout) ??
+      autoLockOptions[0],
+    [autoLockTimeout]
+  );
+
+  const title = useMemo(
+    () => (
+      <h2 className={classNames("mb-4", "leading-tight", "flex flex-col")}>
+        <span className="text-base font-semibold text-gray-700">
+          <T id="autoLock" />
+        </span>
+
+        <span
+          className="mt-1 text-xs font-light text-gray-600"
+          style={{ maxWidth: "90%" }}
+        >
+          <T id="autoLockDescription" />
+        </span>
+      </h2>
+    ),
+    []
+  );
+
+  const update = useCallback(
+    async (newSettings: Parameters<typeof updateSettings>[0]) => {
+      if (changingRef.current) return;
+      changingRef.current = true;
+      setError(null);
+
+      try {
+        await updateSettings(newSettings);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        setError(err);
+      }
+
+      changingRef.current = false;
+    },
+    [updateSettings, setError]
+  );
+
+  const handleAutoLockChange = useCallback(
+    ({ minutes }: AutoLockOption) => {
+      update({ autoLockTimeout: minutes });
+    },
+    [update]
+  );
+
+  const handleLockOnSystemIdleChange = useCallback(
+    (evt) => {
+      update({ lockOnSystemIdle: evt.target.checked });
+    },
+    [update]
+  );
+
+  return (
+    <div className="w-full max-w-sm mx-auto my-8">
+      <IconifiedSelect
+        Icon={AutoLockIcon}
+        OptionSelectedIcon={AutoLockIcon}
+        OptionInMenuContent={AutoLockInMenuContent}
+        OptionSelectedContent={AutoLockSelectContent}
+        getKey={getAutoLockKey}
+        options={autoLockOptions}
+        value={value}
+        onChange={handleAutoLockChange}
+        title={title}
+        className="mb-8"
+      />
+
+      <label
+        className="mb-4 leading-tight flex flex-col"
+        htmlFor="lockOnSystemIdle"
+      >
+        <span className="text-base font-semibold text-gray-700">
+          <T id="lockOnSystemIdle" />
+        </span>
+
+        <span
+          className="mt-1 text-xs font-light text-gray-600"
+          style={{ maxWidth: "90%" }}
+        >
+          <T id="lockOnSystemIdleDescription" />
+        </span>
+      </label>
+
+      <FormCheckbox
+        checked={lockOnSystemIdle}
+        onChange={handleLockOnSystemIdleChange}
+        name="lockOnSystemIdle"
+        label={t(lockOnSystemIdle ? "enabled" : "disabled")}
+        errorCaption={error?.message}
+        containerClassName="mb-4"
+      />
+    </div>
+  );
+};
+
+export default SecuritySettings;
+
+function getAutoLockLabel(minutes: number) {
+  switch (true) {
+    case minutes === 0:
+      return t("never");
+
+    case minutes < 60:
+      return t("nMinutes", String(minutes));
+
+    default:
+      return t("nHours", String(minutes / 60));
+  }
+}
+
+const AutoLockIcon: FC<IconifiedSelectOptionRenderProps<AutoLockOption>> =
+  () => <LockIcon className="ml-2 mr-3 h-6 w-auto stroke-current" />;
+
+const AutoLockInMenuContent: FC<
+  IconifiedSelectOptionRenderProps<AutoLockOption>
+> = ({ option: { minutes } }) => (
+  <div className={classNames("relative w-full text-lg text-gray-700")}>
+    {getAutoLockLabel(minutes)}
+  </div>
+);
+
+const AutoLockSelectContent: FC<
+  IconifiedSelectOptionRenderProps<AutoLockOption>
+> = ({ option: { minutes } }) => (
+  <div className="flex flex-col items-start py-2">
+    <span className="text-xl text-gray-700">{getAutoLockLabel(minutes)}</span>
+  </div>
+);
@@ -0,0 +1,320 @@
+import React, { FC, ReactNode, useCallback, useMemo, useState } from "react";
+
+import { useForm } from "react-hook-form";
+
+import Alert from "app/atoms/Alert";
+import FormCheckbox from "app/atoms/FormCheckbox";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import { SEED_SHARES_PASSPHRASE_PATTERN } from "app/defaults";
+import { T, t } from "lib/i18n/react";
+import { MAX_SHARE_COUNT, splitSeedPhrase } from "lib/temple/slip39";
+
+import { WordsRow, getRandomInt } from "./NewWallet/Verify";
+
+type SeedSharesProps = {
+  seedPhrase: string;
+  onVerified?: () => Promise<void>;
+};
+
+const SeedShares: FC<SeedSharesProps> = ({ seedPhrase, onVerified }) => {
+  const [shares, setShares] = useState<string[] | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verified, setVerified] = useState(false);
+
+  const handleVerified = useCallback(async () => {
+    await onVerified?.();
+    setVerified(true);
+  }, [onVerified]);
+
+  if (!shares) {
+    return <SetupForm seedPhrase={seedPhrase} onSplit={setShares} />;
+  }
+
+  if (verified) {
+    return (
+      <Alert
+        type="success"
+        title={t("success")}
+        description={t("seedSharesVerified")}
+        className="my-4"
+      />
+    );
+  }
+
+  return verifying ? (
+    <VerifyShares shares={shares} onVerified={handleVerified} />
+  ) : (
+    <SharesBackup shares={shares} onBackupComplete={() => setVerifying(true)} />
+  );
+};
+
+export default SeedShares;
+
+type SetupFormData = {
+  threshold: string;
+  count: string;
+  passphrase: string;
+};
+
+type SetupFormProps = {
+  seedPhrase: string;
+  onSplit: (shares: string[]) => void;
+};
+
+const SetupForm: FC<SetupFormProps> = ({ seedPhrase, onSplit }) => {
+  const { register, handleSubmit, errors, watch, formState } =
+    useForm<SetupFormData>({
+      defaultValues: { threshold: "2", count: "3", passphrase: "" },
+    });
+  const submitting = formState.isSubmitting;
+  const countValue = +watch("count");
+
+  const [error, setError] = useState<ReactNode>(null);
+
+  const onSubmit = useCallback(
+    async ({ threshold, count, passphrase }: SetupFormData) => {
+      if (submitting) return;
+
+      setError(null);
+      try {
+        onSplit(
+          await splitSeedPhrase(seedPhrase, +threshold, +count, passphrase)
+        );
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [submitting, seedPhrase, onSplit]
+  );
+
+  return (
+    <form className="w-full mt-4" onSubmit={handleSubmit(onSubmit)}>
+      <p className="mb-6 text-xs font-light text-gray-600">
+        <T id="seedSharesHint" />
+      </p>
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          autoFocus
+          description={error}
+          className="mb-6"
+        />
+      )}
+
+      <FormField
+        ref={register({
+          required: t("required"),
+          validate: (val) =>
+            (Number.isInteger(+val) && +val >= 1 && +val <= MAX_SHARE_COUNT) ||
+            t("seedSharesCountError", String(MAX_SHARE_COUNT)),
+        })}
+        type="number"
+        name="count"
+        id="seedshares-count"
+        label={t("seedSharesCount")}
+        labelDescription={t("seedSharesCountDescription")}
+        errorCaption={errors.count?.message}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        ref={register({
+          required: t("required"),
+          validate: (val) =>
+            (Number.isInteger(+val) &&
+              +val >= 1 &&
+              +val <= countValue &&
+              (+val > 1 || countValue === 1)) ||
+            t("seedSharesThresholdError"),
+        })}
+        type="number"
+        name="threshold"
+        id="seedshares-threshold"
+        label={t("seedSharesThreshold")}
+        labelDescription={t("seedSharesThresholdDescription")}
+        errorCaption={errors.threshold?.message}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        ref={register({
+          pattern: {
+            value: SEED_SHARES_PASSPHRASE_PATTERN,
+            message: t("seedSharesPassphraseError"),
+          },
+        })}
+        type="password"
+        name="passphrase"
+        id="seedshares-passphrase"
+        label={
+          <>
+            <T id="seedSharesPassphrase" />{" "}
+            <T id="optionalComment">
+              {(message) => (
+                <span className="text-sm font-light text-gray-600">
+                  {message}
+                </span>
+              )}
+            </T>
+          </>
+        }
+        labelDescription={t("seedSharesPassphraseDescription")}
+        placeholder="*********"
+        errorCaption={errors.passphrase?.message}
+        containerClassName="mb-6"
+      />
+
+      <FormSubmitButton loading={submitting}>
+        <T id="splitIntoShares" />
+      </FormSubmitButton>
+    </form>
+  );
+};
+
+type SharesBackupFormData = {
+  backuped: boolean;
+};
+
+type SharesBackupProps = {
+  shares: string[];
+  onBackupComplete: () => void;
+};
+
+const SharesBackup: FC<SharesBackupProps> = ({ shares, onBackupComplete }) => {
+  const { register, handleSubmit, errors } = useForm<SharesBackupFormData>();
+
+  return (
+    <div className="w-full mt-4">
+      <Alert
+        title={t("attentionExclamation")}
+        description={
+          <>
+            <p>
+              <T id="seedSharesBackupAlert" />
+            </p>
+
+            <p className="mt-1">
+              <T id="doNotSharePhrase" />
+            </p>
+          </>
+        }
+        className="mb-6"
+      />
+
+      {shares.map((share, i) => (
+        <FormField
+          key={share}
+          secret
+          textarea
+          rows={4}
+          readOnly
+          label={t("seedShareNumber", [String(i + 1), String(shares.length)])}
+          id={`seedshares-share-${i}`}
+          spellCheck={false}
+          containerClassName="mb-4"
+          className="resize-none notranslate"
+          value={share}
+        />
+      ))}
+
+      <form className="w-full mt-8" onSubmit={handleSubmit(onBackupComplete)}>
+        <FormCheckbox
+          ref={register({
+            validate: (val) => val || t("unableToContinueWithoutConfirming"),
+          })}
+          errorCaption={errors.backuped?.message}
+          name="backuped"
+          label={t("backupedInputLabel")}
+          labelDescription={<T id="seedSharesBackupedDescription" />}
+          containerClassName="mb-6"
+        />
+
+        <FormSubmitButton>
+          <T id="continue" />
+        </FormSubmitButton>
+      </form>
+    </div>
+  );
+};
+
+type VerifySharesProps = {
+  shares: string[];
+  onVerified: () => Promise<void>;
+};
+
+const VerifyShares: FC<VerifySharesProps> = ({ shares, onVerified }) => {
+  const sharesWords = useMemo(
+    () => shares.map((share) => share.split(" ")),
+    [shares]
+  );
+  const indexesToFill = useMemo(
+    () => sharesWords.map((words) => getRandomInt(0, words.length - 1)),
+    [sharesWords]
+  );
+
+  const [filledShares, setFilledShares] = useState<number[]>([]);
+
+  const handleFill = useCallback((shareIndex: number, filled: boolean) => {
+    setFilledShares((fs) => {
+      if (filled) {
+        return fs.includes(shareIndex) ? fs : [...fs, shareIndex];
+      } else {
+        return fs.filter((i) => i !== shareIndex);
+      }
+    });
+  }, []);
+
+  const filled = filledShares.length === shares.length;
+
+  const { handleSubmit, formState } = useForm();
+  const submitting = formState.isSubmitting;
+
+  const onSubmit = useCallback(async () => {
+    if (submitting || !filled) return;
+
+    try {
+      await onVerified();
+    } catch (err) {
+      if (process.env.NODE_ENV === "development") {
+        console.error(err);
+      }
+
+      alert(err.message);
+    }
+  }, [submitting, filled, onVerified]);
+
+  return (
+    <form className="w-full mt-4" onSubmit={handleSubmit(onSubmit)}>
+      <p className="mb-6 text-xs font-light text-gray-600">
+        <T id="verifySeedSharesDescription" />
+      </p>
+
+      {sharesWords.map((words, i) => (
+        <div key={i} className="mb-2">
+          <span className="text-sm font-semibold text-gray-700">
+            {t("seedShareNumber", [String(i + 1), String(shares.length)])}
+          </span>
+
+          <WordsRow
+            allWords={words}
+            indexToFill={indexesToFill[i]}
+            onFill={(filled) => handleFill(i, filled)}
+          />
+        </div>
+      ))}
+
+      <FormSubmitButton loading={submitting} disabled={!filled}>
+        <T id="finish" />
+      </FormSubmitButton>
+    </form>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { FC, useMemo, useState } from "react";
+
+import classNames from "clsx";
+
+import Alert from "app/atoms/Alert";
+import HashShortView from "app/atoms/HashShortView";
+import { ReactComponent as EyeIcon } from "app/icons/eye.svg";
+import { ReactComponent as HashIcon } from "app/icons/hash.svg";
+import RawPayloadView from "app/templates/RawPayloadView";
+import ViewsSwitcher from "app/templates/ViewsSwitcher";
+import { T, t } from "lib/i18n/react";
+import {
+  TempleDecodedSignPayload,
+  TempleMichelineTreeNode,
+} from "lib/temple/front";
+
+type SignPayloadViewProps = {
+  payload: string;
+  decoded: TempleDecodedSignPayload;
+};
+
+const SignPayloadView: FC<SignPayloadViewProps> = ({ payload, decoded }) => {
+  const formats = useMemo(
+    () => [
+      { key: "preview", name: t("preview"), Icon: EyeIcon },
+      { key: "bytes", name: t("bytes"), Icon: HashIcon },
+    ],
+    []
+  );
+  const [format, setFormat] = useState(formats[0]);
+
+  return (
+    <div className="flex flex-col w-full">
+      <SignPayloadWarning decoded={decoded} />
+
+      <h2 className={classNames("mb-3", "leading-tight", "flex items-center")}>
+        <span
+          className={classNames(
+            "mr-2",
+            "text-base font-semibold text-gray-700"
+          )}
+        >
+          <T id="payloadToSign" />
+        </span>
+
+        <div className="flex-1" />
+
+        <ViewsSwitcher
+          activeItem={format}
+          items={formats}
+          onChange={setFormat}
+        />
+      </h2>
+
+      <RawPayloadView
+        payload={payload}
+        className={classNames(format.key !== "bytes" && "hidden")}
+        style={{ marginBottom: 0, height: "11rem" }}
+      />
+
+      <div
+        className={classNames(
+          format.key !== "preview" && "hidden",
+          "rounded-md overflow-auto",
+          "border-2 bg-gray-100",
+          "p-2",
+          "text-xs text-gray-700 leading-tight"
+        )}
+        style={{ height: "11rem" }}
+      >
+        <DecodedPayload decoded={decoded} />
+      </div>
+    </div>
+  );
+};
+
+export default SignPayloadView;
+
+type SignPayloadWarningProps = {
+  decoded: TempleDecodedSignPayload;
+};
+
+export const SignPayloadWarning: FC<SignPayloadWarningProps> = ({
+  decoded,
+}) => {
+  switch (decoded.type) {
+    case "operation":
+      return (
+        <Alert
+          type="error"
+          title={t("signOperationWarningTitle")}
+          description={t(
+            decoded.watermark === "operation" || !decoded.watermark
+              ? "signOperationWarning"
+              : "signBakingOperationWarning"
+          )}
+          className="mb-4"
+        />
+      );
+
+    case "hash":
+      return (
+        <Alert
+          type="warn"
+          title={t("signHashWarningTitle")}
+          description={t("signHashWarning")}
+          className="mb-4"
+        />
+      );
+
+    case "micheline":
+      return decoded.permit ? (
+        <Alert
+          type="warn"
+          title={t("permitWarningTitle")}
+          description={t("permitWarning", decoded.permit.contract)}
+          className="mb-4"
+        />
+      ) : null;
+
+    default:
+      return null;
+  }
+};
+
+const DecodedPayload: FC<SignPayloadWarningProps> = ({ decoded }) => {
+  switch (decoded.type) {
+    case "micheline":
+      return (
+        <>
+          {decoded.message && (
+            <p className="mb-2 text-sm whitespace-pre-wrap break-words">
+              {decoded.message}
+            </p>
+          )}
+
+          {decoded.permit && (
+            <div className="mb-2">
+              {[
+                [t("contract"), decoded.permit.contract],
+                [t("permitChainId"), decoded.permit.chainId],
+                [t("permitCounter"), decoded.permit.counter],
+                [t("permitParamsHash"), decoded.permit.paramsHash],
+              ].map(([label, value]) => (
+                <div key={label} className="flex">
+                  <span className="mr-1 text-gray-500">{label}:</span>
+                  <HashShortView hash={value} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <MichelineTree node={decoded.tree} />
+        </>
+      );
+
+    case "text":
+      return (
+        <p className="text-sm whitespace-pre-wrap break-words">
+          {decoded.text}
+        </p>
+      );
+
+    case "hash":
+      return <span className="font-mono break-all">{decoded.hash}</span>;
+
+    default:
+      return (
+        <span className="text-gray-500">
+          <T id="unknownPayloadFormat" />
+        </span>
+      );
+  }
+};
+
+type MichelineTreeProps = {
+  node: TempleMichelineTreeNode;
+};
+
+export const MichelineTree: FC<MichelineTreeProps> = ({ node }) => (
+  <div>
+    <span className="text-gray-500">{node.label ?? node.type}</span>
+
+    {node.value !== undefined && (
+      <span
+        className={classNames(
+          "ml-1 break-all",
+          node.type === "bytes" ? "font-mono" : "font-medium"
+        )}
+      >
+        {node.type === "string" || node.type === "text"
+          ? JSON.stringify(node.value)
+          : node.value}
+      </span>
+    )}
+
+    {node.children && node.children.length > 0 && (
+      <div className="pl-2 ml-1 border-l border-gray-300">
+        {node.children.map((child, i) => (
+          <MichelineTree key={i} node={child} />
+        ))}
+      </div>
+    )}
+  </div>
+);
@@ -5,21 +5,37 @@ import React, {
   useMemo,
   useRef,
   useLayoutEffect,
+  useState,
 } from "react";
 
 import { ACTIVITY_PAGE_SIZE } from "app/defaults";
 import { useRetryableSWR } from "lib/swr";
 import {
   useChainId,
+  useNetwork,
   fetchOperations,
   syncOperations,
   isSyncSupported,
+  isActivityFilterEmpty,
+  isAddressValid,
+  searchContacts,
+  useContacts,
+  useAssets,
+  getAssetKey,
+  ActivityFilter,
+  TempleContact,
 } from "lib/temple/front";
 import { IOperation } from "lib/temple/repo";
 import useSafeState from "lib/ui/useSafeState";
 
+import ActivityFilterBar, {
+  ActivityFilterValues,
+  EMPTY_ACTIVITY_FILTER_VALUES,
+} from "./ActivityFilterBar";
 import ActivityView from "./ActivityView";
 
+const DAY = 24 * 60 * 60 * 1000;
+
 type ActivityProps = {
   address: string;
   assetId?: string;
@@ -28,13 +44,38 @@ type ActivityProps = {
 
 const Activity = memo<ActivityProps>(({ address, assetId, className }) => {
   const chainId = useChainId(true)!;
-  const syncSupported = useMemo(() => isSyncSupported(chainId), [chainId]);
+  const network = useNetwork();
+  const syncSupported = useMemo(
+    () => isSyncSupported(chainId, network),
+    [chainId, network]
+  );
 
-  const safeStateKey = useMemo(() => [chainId, address, assetId].join("_"), [
-    chainId,
-    address,
-    assetId,
-  ]);
+  const { allContacts } = useContacts();
+  const { allAssetsWithHidden } = useAssets();
+  const [filterValues, setFilterValues] = useState<ActivityFilterValues>(
+    EMPTY_ACTIVITY_FILTER_VALUES
+  );
+  const { filter, from, to } = useMemo(
+    () => toActivityFilter(filterValues, allContacts),
+    [filterValues, allContacts]
+  );
+  const filterKey = useMemo(
+    () => JSON.stringify([filter, from, to]),
+    [filter, from, to]
+  );
+
+  const getAssetMetadata = useCallback(
+    (aId: string) => {
+      const asset = allAssetsWithHidden.find((a) => getAssetKey(a) === aId);
+      return asset && { symbol: asset.symbol, decimals: asset.decimals };
+    },
+    [allAssetsWithHidden]
+  );
+
+  const safeStateKey = useMemo(
+    () => [chainId, address, assetId, filterKey].join("_"),
+    [chainId, address, assetId, filterKey]
+  );
 
   const [restOperations, setRestOperations] = useSafeState<IOperation[]>(
     [],
@@ -49,12 +90,16 @@ const Activity = memo<ActivityProps>(({ address, assetId, className }) => {
     isValidating: fetching,
     revalidate: refetchLatest,
   } = useRetryableSWR(
-    ["latest-operations", chainId, address, assetId],
+    ["latest-operations", chainId, address, assetId, filterKey],
     () =>
       fetchOperations({
         chainId,
         address,
         assetIds: assetId ? [assetId] : undefined,
+        from,
+        to,
+        filter,
+        getAssetMetadata,
         limit: ACTIVITY_PAGE_SIZE,
       }),
     {
@@ -82,7 +127,7 @@ const Activity = memo<ActivityProps>(({ address, assetId, className }) => {
     setLoadingMore(true);
 
     try {
-      await syncOperations("old", chainId, address);
+      await syncOperations("old", chainId, address, network);
     } catch (err) {
       if (process.env.NODE_ENV === "development") {
         console.error(err);
@@ -95,6 +140,10 @@ const Activity = memo<ActivityProps>(({ address, assetId, className }) => {
         chainId,
         address,
         assetIds: assetId ? [assetId] : undefined,
+        from,
+        to,
+        filter,
+        getAssetMetadata,
         limit: ACTIVITY_PAGE_SIZE,
         offset: operations?.length ?? 0,
       });
@@ -116,7 +165,12 @@ const Activity = memo<ActivityProps>(({ address, assetId, className }) => {
     setRestOperations,
     chainId,
     address,
+    network,
     assetId,
+    from,
+    to,
+    filter,
+    getAssetMetadata,
     operations,
   ]);
 
@@ -127,7 +181,7 @@ const Activity = memo<ActivityProps>(({ address, assetId, className }) => {
   const syncNewOperations = useCallback(async () => {
     setSyncing(true);
     try {
-      const newCount = await syncOperations("new", chainId, address);
+      const newCount = await syncOperations("new", chainId, address, network);
       if (newCount > 0) {
         refetchLatest();
       }
@@ -138,7 +192,7 @@ const Activity = memo<ActivityProps>(({ address, assetId, className }) => {
       setSyncError(err);
     }
     setSyncing(false);
-  }, [setSyncing, setSyncError, chainId, address, refetchLatest]);
+  }, [setSyncing, setSyncError, chainId, address, network, refetchLatest]);
 
   const timeoutRef = useRef<any>();
 
@@ -156,19 +210,32 @@ const Activity = memo<ActivityProps>(({ address, assetId, className }) => {
   }, [syncSupported, syncAndDefer]);
 
   return (
-    <ActivityView
-      address={address}
-      syncSupported={syncSupported}
-      operations={operations ?? []}
-      initialLoading={
-        fetching || (!operations || operations.length === 0 ? syncing : false)
-      }
-      loadingMore={loadingMore}
-      syncing={syncing}
-      loadMoreDisplayed={hasMoreRef.current}
-      loadMore={handleLoadMore}
-      className={className}
-    />
+    <>
+      <ActivityFilterBar
+        value={filterValues}
+        onChange={setFilterValues}
+        className="mb-3"
+      />
+
+      <ActivityView
+        address={address}
+        syncSupported={syncSupported}
+        filtered={
+          !isActivityFilterEmpty(filter) ||
+          from !== undefined ||
+          to !== undefined
+        }
+        operations={operations ?? []}
+        initialLoading={
+          fetching || (!operations || operations.length === 0 ? syncing : false)
+        }
+        loadingMore={loadingMore}
+        syncing={syncing}
+        loadMoreDisplayed={hasMoreRef.current}
+        loadMore={handleLoadMore}
+        className={className}
+      />
+    </>
   );
 });
 
@@ -187,3 +254,34 @@ function mergeOperations(base?: IOperation[], toAppend: IOperation[] = []) {
   }
   return uniques;
 }
+
+function toActivityFilter(
+  values: ActivityFilterValues,
+  contacts: TempleContact[]
+) {
+  const search = values.search.trim();
+  const counterparty = values.counterparty.trim();
+
+  const filter: ActivityFilter = {
+    kinds: values.kinds,
+    statuses: values.statuses,
+    entrypoint: values.entrypoint.trim(),
+    minAmount: values.minAmount,
+    maxAmount: values.maxAmount,
+    search,
+    searchAddresses: search
+      ? searchContacts(contacts, search).map((c) => c.address)
+      : [],
+    counterparties: counterparty
+      ? [
+          ...searchContacts(contacts, counterparty).map((c) => c.address),
+          ...(isAddressValid(counterparty) ? [counterparty] : []),
+        ]
+      : undefined,
+  };
+
+  const from = values.from ? Date.parse(values.from) : undefined;
+  const to = values.to ? Date.parse(values.to) + DAY : undefined;
+
+  return { filter, from, to };
+}
@@ -0,0 +1,267 @@
+import React, { FC, InputHTMLAttributes, useCallback, useState } from "react";
+
+import classNames from "clsx";
+
+import SearchField from "app/templates/SearchField";
+import { T, t } from "lib/i18n/react";
+import { ActivityKind, ActivityStatus } from "lib/temple/front";
+
+export type ActivityFilterValues = {
+  search: string;
+  kinds: ActivityKind[];
+  statuses: ActivityStatus[];
+  counterparty: string;
+  entrypoint: string;
+  minAmount: string;
+  maxAmount: string;
+  from: string; // yyyy-mm-dd
+  to: string; // yyyy-mm-dd
+};
+
+export const EMPTY_ACTIVITY_FILTER_VALUES: ActivityFilterValues = {
+  search: "",
+  kinds: [],
+  statuses: [],
+  counterparty: "",
+  entrypoint: "",
+  minAmount: "",
+  maxAmount: "",
+  from: "",
+  to: "",
+};
+
+const KINDS: { type: ActivityKind; i18nKey: string }[] = [
+  { type: "transfer-in", i18nKey: "activityKindTransferIn" },
+  { type: "transfer-out", i18nKey: "activityKindTransferOut" },
+  { type: "delegation", i18nKey: "delegation" },
+  { type: "contract-call", i18nKey: "activityKindContractCall" },
+  { type: "origination", i18nKey: "origination" },
+];
+
+const STATUSES: { type: ActivityStatus; i18nKey: string }[] = [
+  { type: "applied", i18nKey: "applied" },
+  { type: "failed", i18nKey: "failed" },
+  { type: "pending", i18nKey: "activityStatusPending" },
+];
+
+type ActivityFilterBarProps = {
+  value: ActivityFilterValues;
+  onChange: (value: ActivityFilterValues) => void;
+  className?: string;
+};
+
+const ActivityFilterBar: FC<ActivityFilterBarProps> = ({
+  value,
+  onChange,
+  className,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const setField = useCallback(
+    <K extends keyof ActivityFilterValues>(
+      key: K,
+      fieldValue: ActivityFilterValues[K]
+    ) => onChange({ ...value, [key]: fieldValue }),
+    [value, onChange]
+  );
+
+  const toggleKind = useCallback(
+    (kind: ActivityKind) => setField("kinds", toggleItem(value.kinds, kind)),
+    [setField, value.kinds]
+  );
+
+  const toggleStatus = useCallback(
+    (status: ActivityStatus) =>
+      setField("statuses", toggleItem(value.statuses, status)),
+    [setField, value.statuses]
+  );
+
+  const handleReset = useCallback(
+    () => onChange(EMPTY_ACTIVITY_FILTER_VALUES),
+    [onChange]
+  );
+
+  return (
+    <div className={classNames("w-full max-w-md mx-auto", className)}>
+      <div className="flex items-center">
+        <SearchField
+          className={classNames(
+            "py-2 pl-8 pr-4",
+            "bg-gray-100 focus:bg-transparent",
+            "border border-transparent",
+            "focus:outline-none focus:border-gray-300",
+            "transition ease-in-out duration-200",
+            "rounded-md",
+            "text-gray-700 text-sm leading-tight",
+            "placeholder-alphagray"
+          )}
+          containerClassName="flex-1"
+          placeholder={t("searchActivity")}
+          searchIconClassName="h-5 w-auto"
+          searchIconWrapperClassName="px-2 text-gray-500"
+          value={value.search}
+          onValueChange={(search) => setField("search", search)}
+        />
+
+        <button
+          type="button"
+          className={classNames(
+            "ml-2 px-2 py-1",
+            "rounded",
+            "text-xs font-medium",
+            expanded ? "bg-gray-200 text-gray-700" : "text-gray-600",
+            "hover:bg-gray-200",
+            "transition ease-in-out duration-200"
+          )}
+          onClick={() => setExpanded((e) => !e)}
+        >
+          <T id="filters" />
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-2 p-2 rounded-md border border-gray-200">
+          <FilterChips
+            options={KINDS}
+            selected={value.kinds}
+            onToggle={toggleKind}
+          />
+
+          <FilterChips
+            options={STATUSES}
+            selected={value.statuses}
+            onToggle={toggleStatus}
+          />
+
+          <div className="flex mb-2">
+            <FilterInput
+              value={value.counterparty}
+              placeholder={t("counterpartyFilterPlaceholder")}
+              onValueChange={(v) => setField("counterparty", v)}
+            />
+            <FilterInput
+              value={value.entrypoint}
+              placeholder={t("entrypoint")}
+              onValueChange={(v) => setField("entrypoint", v)}
+              className="ml-2"
+            />
+          </div>
+
+          <div className="flex mb-2">
+            <FilterInput
+              type="number"
+              min={0}
+              value={value.minAmount}
+              placeholder={t("minAmount")}
+              onValueChange={(v) => setField("minAmount", v)}
+            />
+            <FilterInput
+              type="number"
+              min={0}
+              value={value.maxAmount}
+              placeholder={t("maxAmount")}
+              onValueChange={(v) => setField("maxAmount", v)}
+              className="ml-2"
+            />
+          </div>
+
+          <div className="flex items-center">
+            <FilterInput
+              type="date"
+              value={value.from}
+              title={t("from")}
+              onValueChange={(v) => setField("from", v)}
+            />
+            <FilterInput
+              type="date"
+              value={value.to}
+              title={t("to")}
+              onValueChange={(v) => setField("to", v)}
+              className="ml-2"
+            />
+          </div>
+
+          <div className="mt-2 flex justify-end">
+            <button
+              type="button"
+              className="text-xs text-blue-600 hover:underline"
+              onClick={handleReset}
+            >
+              <T id="reset" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityFilterBar;
+
+type FilterChipsProps<T extends string> = {
+  options: { type: T; i18nKey: string }[];
+  selected: T[];
+  onToggle: (type: T) => void;
+};
+
+const FilterChips = <T extends string>({
+  options,
+  selected,
+  onToggle,
+}: FilterChipsProps<T>) => (
+  <div className="flex flex-wrap mb-1">
+    {options.map(({ type, i18nKey }) => (
+      <button
+        key={type}
+        type="button"
+        className={classNames(
+          "mr-1 mb-1 px-2 py-px",
+          "rounded-full border",
+          "text-xs",
+          selected.includes(type)
+            ? "bg-primary-orange border-primary-orange text-white"
+            : "border-gray-300 text-gray-600 hover:bg-gray-100",
+          "transition ease-in-out duration-200"
+        )}
+        onClick={() => onToggle(type)}
+      >
+        <T id={i18nKey} />
+      </button>
+    ))}
+  </div>
+);
+
+type FilterInputProps = InputHTMLAttributes<HTMLInputElement> & {
+  value: string;
+  onValueChange: (value: string) => void;
+};
+
+const FilterInput: FC<FilterInputProps> = ({
+  onValueChange,
+  className,
+  ...rest
+}) => (
+  <input
+    className={classNames(
+      "appearance-none w-full min-w-0 flex-1",
+      "py-1 px-2",
+      "bg-gray-100 focus:bg-transparent",
+      "border border-transparent",
+      "focus:outline-none focus:border-gray-300",
+      "rounded",
+      "text-gray-700 text-xs leading-tight",
+      "placeholder-alphagray",
+      className
+    )}
+    spellCheck={false}
+    autoComplete="off"
+    onChange={(evt) => onValueChange(evt.target.value)}
+    {...rest}
+  />
+);
+
+function toggleItem<T>(items: T[], item: T) {
+  return items.includes(item)
+    ? items.filter((i) => i !== item)
+    : [...items, item];
+}
@@ -11,6 +11,7 @@ import { ReactComponent as ClipboardIcon } from "app/icons/clipboard.svg";
 import HashChip from "app/templates/HashChip";
 import { T, t, getDateFnsLocale, TProps } from "lib/i18n/react";
 import {
+  getOperationStatus,
   OpStackItem,
   OpStackItemType,
   parseMoneyDiffs,
@@ -33,25 +34,12 @@ const ActivityItem = memo<ActivityItemProps>(
     const { transaction: explorerBaseUrl } = useExplorerBaseUrls();
     const { hash, addedAt } = operation;
 
-    const pending = useMemo(
-      () =>
-        syncSupported &&
-        !(operation.data.tzktGroup || operation.data.bcdTokenTransfers),
-      [
-        syncSupported,
-        operation.data.tzktGroup,
-        operation.data.bcdTokenTransfers,
-      ]
+    const explorerStatus = useMemo(
+      () => getOperationStatus(operation),
+      [operation]
     );
-
-    const status = useMemo(() => {
-      if (!syncSupported) return null;
-
-      const explorerStatus =
-        operation.data.tzktGroup?.[0]?.status ??
-        operation.data.bcdTokenTransfers?.[0]?.status;
-      return explorerStatus ?? "pending";
-    }, [syncSupported, operation.data]);
+    const pending = syncSupported && !explorerStatus;
+    const status = syncSupported ? explorerStatus ?? "pending" : null;
 
     const moneyDiffs = useMemo(
       () =>
@@ -69,9 +57,6 @@ const ActivityItem = memo<ActivityItemProps>(
     const statusNode = useMemo(() => {
       if (!syncSupported) return null;
 
-      const explorerStatus =
-        operation.data.tzktGroup?.[0]?.status ??
-        operation.data.bcdTokenTransfers?.[0]?.status;
       const content = explorerStatus ?? "pending";
 
       return (
@@ -88,7 +73,7 @@ const ActivityItem = memo<ActivityItemProps>(
           {t(content) || content}
         </span>
       );
-    }, [syncSupported, operation.data]);
+    }, [syncSupported, explorerStatus]);
 
     return (
       <div className={classNames("my-3", className)}>
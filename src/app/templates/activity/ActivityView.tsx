@@ -13,6 +13,7 @@ import ActivityItem from "./ActivityItem";
 type ActivityViewProps = {
   address: string;
   syncSupported: boolean;
+  filtered?: boolean;
   operations: Repo.IOperation[];
   initialLoading: boolean;
   loadingMore: boolean;
@@ -26,6 +27,7 @@ const ActivityView = memo<ActivityViewProps>(
   ({
     address,
     syncSupported,
+    filtered,
     operations,
     initialLoading,
     loadingMore,
@@ -52,7 +54,9 @@ const ActivityView = memo<ActivityViewProps>(
             className="text-sm font-light text-center"
             style={{ maxWidth: "20rem" }}
           >
-            <T id="noOperationsFound" />
+            <T
+              id={filtered ? "noOperationsMatchFilter" : "noOperationsFound"}
+            />
           </h3>
         </div>
       );
@@ -0,0 +1,25 @@
+export function toCSV(rows: string[][]) {
+  return rows.map((row) => row.map(escapeCSVCell).join(",")).join("\n");
+}
+
+export function downloadCSV(fileName: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  // Download may start after click handler returns
+  setTimeout(() => URL.revokeObjectURL(url), 1_000);
+}
+
+function escapeCSVCell(cell: string) {
+  // Cells starting with formula chars are treated as formulas by spreadsheets
+  const safe = /^[=+\-@]/.test(cell) && !isNumeric(cell) ? `'${cell}` : cell;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function isNumeric(cell: string) {
+  return /^-?\d+(\.\d+)?$/.test(cell);
+}
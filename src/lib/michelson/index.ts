@@ -83,3 +83,36 @@ export const setDelegate = (key: string) => {
     { prim: "CONS" },
   ];
 };
+
+/**
+ * Compares Michelson types structurally, annotations are ignored.
+ * Right combs are equal to their nested pairs form
+ */
+export function isSameType(a: any, b: any): boolean {
+  const [ua, ub] = [unfoldComb(a), unfoldComb(b)];
+  return (
+    ua.prim === ub.prim &&
+    (ua.args ?? []).length === (ub.args ?? []).length &&
+    (ua.args ?? []).every((arg: any, i: number) => isSameType(arg, ub.args[i]))
+  );
+}
+
+/**
+ * Right combs may be written as single pair with many args,
+ * or as a sequence for values
+ */
+export function unfoldComb(expr: any): any {
+  if (Array.isArray(expr)) {
+    return unfoldComb({ prim: "Pair", args: expr });
+  }
+
+  const args = expr.args as any[] | undefined;
+  if (!args || args.length <= 2) {
+    return expr;
+  }
+
+  return {
+    ...expr,
+    args: [args[0], unfoldComb({ prim: expr.prim, args: args.slice(1) })],
+  };
+}
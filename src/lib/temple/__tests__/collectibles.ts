@@ -0,0 +1,168 @@
+import {
+  getCollectibleMediaType,
+  getCollectiblePreviewUri,
+  getCollectibleViewerMedia,
+  isCollectibleMetadata,
+  parseTzip21Metadata,
+  toCollectibleHttpUri,
+} from "../collectibles";
+
+const ARTIFACT_CID = "QmNrhZHUaEqxhyLfqoq1mtHSipkWHeT31LNHb1QEbDHgnc";
+const DISPLAY_CID = "QmQDjZbpN33xS2ysVZfyNP3JWxcpGSvYvHk8M5kDH5vFMQ";
+
+const RAW_NFT_METADATA = {
+  name: "Test Cube #42",
+  symbol: "CUBE",
+  description: "Minted for testing",
+  decimals: "0",
+  isBooleanAmount: "true",
+  artifactUri: `ipfs://${ARTIFACT_CID}`,
+  displayUri: `ipfs://${DISPLAY_CID}`,
+  formats: [
+    { uri: `ipfs://${ARTIFACT_CID}`, mimeType: "model/gltf-binary" },
+    { uri: `ipfs://${DISPLAY_CID}`, mimeType: "image/png", fileSize: "1024" },
+    { mimeType: "image/png" },
+  ],
+  attributes: [
+    { name: "Color", value: "Orange" },
+    { name: "Edges", value: 12, type: "integer" },
+    { value: "No name" },
+  ],
+  creators: ["tz1V8T96EJMiMFVyFkt3UakBegftGf5HfEuG", 42],
+  tags: ["test", ""],
+};
+
+describe("Collectibles", () => {
+  it("parseTzip21Metadata", () => {
+    const metadata = parseTzip21Metadata(RAW_NFT_METADATA);
+
+    expect(metadata).toMatchObject({
+      name: "Test Cube #42",
+      symbol: "CUBE",
+      decimals: 0,
+      isBooleanAmount: true,
+      thumbnailUri: undefined,
+      creators: ["tz1V8T96EJMiMFVyFkt3UakBegftGf5HfEuG"],
+      tags: ["test"],
+    });
+    expect(metadata.formats).toEqual([
+      {
+        uri: `ipfs://${ARTIFACT_CID}`,
+        mimeType: "model/gltf-binary",
+        fileName: undefined,
+        fileSize: undefined,
+      },
+      {
+        uri: `ipfs://${DISPLAY_CID}`,
+        mimeType: "image/png",
+        fileName: undefined,
+        fileSize: 1024,
+      },
+    ]);
+    expect(metadata.attributes).toEqual([
+      { name: "Color", value: "Orange", type: undefined },
+      { name: "Edges", value: "12", type: "integer" },
+    ]);
+
+    expect(parseTzip21Metadata({})).toMatchObject({
+      name: "Unknown Collectible",
+      decimals: 0,
+      isBooleanAmount: false,
+      formats: [],
+      attributes: [],
+      creators: [],
+    });
+  });
+
+  it("isCollectibleMetadata", () => {
+    expect(isCollectibleMetadata(RAW_NFT_METADATA)).toBe(true);
+    expect(isCollectibleMetadata({ isBooleanAmount: true, decimals: 2 })).toBe(
+      true
+    );
+    expect(
+      isCollectibleMetadata({ decimals: 0, displayUri: "ipfs://Qm" })
+    ).toBe(true);
+    expect(
+      isCollectibleMetadata({ decimals: "6", artifactUri: "ipfs://Qm" })
+    ).toBe(false);
+    expect(isCollectibleMetadata({ decimals: "0", symbol: "TKN" })).toBe(false);
+  });
+
+  it("getCollectibleMediaType", () => {
+    const metadata = parseTzip21Metadata(RAW_NFT_METADATA);
+    expect(getCollectibleMediaType(metadata)).toBe("model");
+    expect(getCollectibleMediaType(metadata, metadata.displayUri)).toBe(
+      "image"
+    );
+
+    const withoutFormats = parseTzip21Metadata({
+      artifactUri: "https://example.com/art/video.MP4?v=1",
+    });
+    expect(getCollectibleMediaType(withoutFormats)).toBe("video");
+    expect(
+      getCollectibleMediaType(
+        parseTzip21Metadata({ artifactUri: "ipfs://QmSite/index.html" })
+      )
+    ).toBe("unknown");
+    expect(getCollectibleMediaType(parseTzip21Metadata({}))).toBe("unknown");
+  });
+
+  it("getCollectiblePreviewUri", () => {
+    const metadata = parseTzip21Metadata(RAW_NFT_METADATA);
+    expect(getCollectiblePreviewUri(metadata)).toBe(`ipfs://${DISPLAY_CID}`);
+    expect(
+      getCollectiblePreviewUri({
+        ...metadata,
+        thumbnailUri: "ipfs://QmThumb",
+      })
+    ).toBe("ipfs://QmThumb");
+    expect(
+      getCollectiblePreviewUri(
+        parseTzip21Metadata({ artifactUri: "https://example.com/a.png" })
+      )
+    ).toBe("https://example.com/a.png");
+    expect(
+      getCollectiblePreviewUri(
+        parseTzip21Metadata({ artifactUri: "https://example.com/a.mp4" })
+      )
+    ).toBe(undefined);
+  });
+
+  it("getCollectibleViewerMedia", () => {
+    expect(
+      getCollectibleViewerMedia(parseTzip21Metadata(RAW_NFT_METADATA))
+    ).toEqual({
+      type: "model",
+      uri: `https://ipfs.io/ipfs/${ARTIFACT_CID}/`,
+      poster: `https://ipfs.io/ipfs/${DISPLAY_CID}/`,
+    });
+
+    // Unsupported artifact falls back to display image
+    expect(
+      getCollectibleViewerMedia(
+        parseTzip21Metadata({
+          artifactUri: "ipfs://QmSite/index.html",
+          displayUri: "https://example.com/display.png",
+        })
+      )
+    ).toEqual({ type: "image", uri: "https://example.com/display.png" });
+
+    expect(
+      getCollectibleViewerMedia(
+        parseTzip21Metadata({ artifactUri: "http://example.com/a.png" })
+      )
+    ).toBe(null);
+  });
+
+  it("toCollectibleHttpUri", () => {
+    expect(toCollectibleHttpUri(`ipfs://${ARTIFACT_CID}`)).toBe(
+      `https://ipfs.io/ipfs/${ARTIFACT_CID}/`
+    );
+    expect(toCollectibleHttpUri("https://example.com/a.png")).toBe(
+      "https://example.com/a.png"
+    );
+    expect(toCollectibleHttpUri("http://example.com/a.png")).toBe(null);
+    expect(toCollectibleHttpUri("data:image/png;base64,AAAA")).toBe(null);
+    expect(toCollectibleHttpUri()).toBe(null);
+  });
+});
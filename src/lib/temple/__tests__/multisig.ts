@@ -0,0 +1,248 @@
+import { InMemorySigner } from "@taquito/signer";
+import { b58cencode, prefix } from "@taquito/utils";
+
+import {
+  MultisigProposal,
+  countMultisigSignatures,
+  createMultisigProposal,
+  getMultisigPayloadBytes,
+  isMultisigScript,
+  mergeMultisigProposals,
+  parseMultisigStorage,
+  toMultisigMainParams,
+} from "../multisig";
+
+// Sodium functions are set after it is ready, namespace import has to see them
+jest.mock("libsodium-wrappers", () =>
+  Object.assign(jest.requireActual("libsodium-wrappers"), { __esModule: true })
+);
+
+const CONTRACT_ADDRESS = "KT1RxKJyi48W3bZR8HErRiisXZQw19HwLGWj";
+const CHAIN_ID = "NetXdQprcVkpaWU";
+const KEY_A = "edpkuBknW28nW72KG6RoHtYW7p12T6GKc7nAbwYX5m8Wd9sDVC9yav";
+const KEY_B = "edpkuTXkJDGcFd5nh6VvMz8phXxU3Bi7h6hqgywNFi1vZTfQNnS1RV";
+
+const createChangeKeysProposal = (): MultisigProposal =>
+  createMultisigProposal(CONTRACT_ADDRESS, CHAIN_ID, 0, {
+    type: "change_keys",
+    threshold: 1,
+    keys: [KEY_A],
+  });
+
+describe("Multisig", () => {
+  it("isMultisigScript", () => {
+    const code: any[] = [
+      {
+        prim: "parameter",
+        args: [
+          {
+            prim: "or",
+            args: [
+              { prim: "unit", annots: ["%default"] },
+              {
+                prim: "pair",
+                annots: ["%main"],
+                args: [
+                  {
+                    prim: "pair",
+                    args: [
+                      { prim: "nat", annots: [":counter"] },
+                      {
+                        prim: "or",
+                        args: [
+                          {
+                            prim: "lambda",
+                            args: [
+                              { prim: "unit" },
+                              { prim: "list", args: [{ prim: "operation" }] },
+                            ],
+                          },
+                          {
+                            prim: "pair",
+                            args: [
+                              { prim: "nat" },
+                              { prim: "list", args: [{ prim: "key" }] },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                  {
+                    prim: "list",
+                    args: [{ prim: "option", args: [{ prim: "signature" }] }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        prim: "storage",
+        args: [
+          {
+            prim: "pair",
+            args: [
+              { prim: "nat", annots: ["%stored_counter"] },
+              {
+                prim: "pair",
+                args: [
+                  { prim: "nat", annots: ["%threshold"] },
+                  { prim: "list", args: [{ prim: "key" }] },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      { prim: "code", args: [[]] },
+    ];
+    expect(isMultisigScript(code)).toBeTruthy();
+
+    // Storage written as right comb
+    const combCode = [
+      code[0],
+      {
+        prim: "storage",
+        args: [
+          {
+            prim: "pair",
+            args: [
+              { prim: "nat" },
+              { prim: "nat" },
+              { prim: "list", args: [{ prim: "key" }] },
+            ],
+          },
+        ],
+      },
+      code[2],
+    ];
+    expect(isMultisigScript(combCode)).toBeTruthy();
+
+    code[1].args[0].args[0].prim = "int";
+    expect(isMultisigScript(code)).toBeFalsy();
+    expect(isMultisigScript([])).toBeFalsy();
+  });
+
+  it("parseMultisigStorage", () => {
+    expect(
+      parseMultisigStorage({
+        prim: "Pair",
+        args: [
+          { int: "3" },
+          { int: "2" },
+          [{ string: KEY_A }, { string: KEY_B }],
+        ],
+      })
+    ).toStrictEqual({ counter: 3, threshold: 2, keys: [KEY_A, KEY_B] });
+
+    expect(
+      parseMultisigStorage({
+        prim: "Pair",
+        args: [
+          { int: "3" },
+          { int: "1" },
+          [
+            {
+              bytes:
+                "004798d2cc98473d7e250c898885718afd2e4efbcb1a1595ab9730761ed830de0f",
+            },
+          ],
+        ],
+      }).keys
+    ).toStrictEqual([KEY_A]);
+
+    expect(() => parseMultisigStorage({ int: "3" })).toThrow(
+      "Invalid multisig storage"
+    );
+    for (const key of [{ int: "1" }, { bytes: "00abcd" }, { bytes: "09" }]) {
+      expect(() =>
+        parseMultisigStorage({
+          prim: "Pair",
+          args: [{ int: "3" }, { int: "1" }, [key]],
+        })
+      ).toThrow("Invalid multisig storage");
+    }
+  });
+
+  it("getMultisigPayloadBytes", () => {
+    expect(getMultisigPayloadBytes(createChangeKeysProposal())).toBe(
+      "05070707070a000000047a06a7700a0000001601be8d5f7a332bee3bdaf8e949dab4a35970158c56000707000005080707000102000000260a00000021004798d2cc98473d7e250c898885718afd2e4efbcb1a1595ab9730761ed830de0f"
+    );
+  });
+
+  it("mergeMultisigProposals", async () => {
+    const proposal = createChangeKeysProposal();
+    const signerA = new InMemorySigner(
+      b58cencode(new Uint8Array(32).fill(1), prefix.edsk2)
+    );
+    const signerB = new InMemorySigner(
+      b58cencode(new Uint8Array(32).fill(2), prefix.spsk)
+    );
+    const [keyA, keyB] = await Promise.all([
+      signerA.publicKey(),
+      signerB.publicKey(),
+    ]);
+    const payload = getMultisigPayloadBytes(proposal);
+    const [{ prefixSig: sigA }, { prefixSig: sigB }] = await Promise.all([
+      signerA.sign(payload),
+      signerB.sign(payload),
+    ]);
+
+    const merged = await mergeMultisigProposals(
+      { ...proposal, signatures: { [keyA]: sigA } },
+      { ...proposal, signatures: { [keyB]: sigB } },
+      [keyA, keyB]
+    );
+    expect(merged.signatures).toStrictEqual({ [keyA]: sigA, [keyB]: sigB });
+    expect(countMultisigSignatures(merged, [keyA, keyB])).toBe(2);
+    expect(countMultisigSignatures(merged, [keyA])).toBe(1);
+
+    // Signatures made with another key or of unknown keys are dropped
+    const forged = await mergeMultisigProposals(
+      proposal,
+      {
+        ...proposal,
+        signatures: { [keyA]: sigB, [keyB]: sigB, [KEY_A]: sigA },
+      },
+      [keyA, KEY_B]
+    );
+    expect(forged.signatures).toStrictEqual({});
+
+    await expect(
+      mergeMultisigProposals(proposal, { ...proposal, counter: 1 }, [keyA])
+    ).rejects.toThrow("Proposals don't match");
+  });
+
+  it("toMultisigMainParams", () => {
+    const proposal = {
+      ...createChangeKeysProposal(),
+      signatures: { [KEY_B]: "edsigB" },
+    };
+    expect(toMultisigMainParams(proposal, [KEY_A, KEY_B])).toStrictEqual({
+      entrypoint: "main",
+      value: {
+        prim: "Pair",
+        args: [
+          {
+            prim: "Pair",
+            args: [
+              { int: "0" },
+              {
+                prim: "Right",
+                args: [
+                  {
+                    prim: "Pair",
+                    args: [{ int: "1" }, [{ string: KEY_A }]],
+                  },
+                ],
+              },
+            ],
+          },
+          [{ prim: "None" }, { prim: "Some", args: [{ string: "edsigB" }] }],
+        ],
+      },
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * @jest-environment node
+ */
+
+import { localForger } from "@taquito/local-forging";
+import { packDataBytes } from "@taquito/michel-codec";
+import { b58cencode, encodeExpr, prefix } from "@taquito/utils";
+
+import {
+  findPermitCounter,
+  getPermitEntrypointKind,
+  getPermitParamsHash,
+  getPermitPayloadBytes,
+  loadPermitData,
+  toPermitParams,
+} from "../permit";
+import { decodeSignPayload } from "../sign-payload";
+
+const CONTRACT_ADDRESS = "KT1RxKJyi48W3bZR8HErRiisXZQw19HwLGWj";
+const CHAIN_ID = "NetXdQprcVkpaWU";
+const PKH = "tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb";
+const PUBLIC_KEY = "edpkuBknW28nW72KG6RoHtYW7p12T6GKc7nAbwYX5m8Wd9sDVC9yav";
+const SIGNATURE =
+  "edsigtkpiSSschcaCt9pUVrpNPf7TTcgvgDEDD6NCEHMy8NNQJCGnMfLZzYoQj74yLjo9wx6MPVV29CvVzgi7qEcEUok3k7AuMg";
+
+const PERMIT_TYPE = {
+  prim: "pair",
+  annots: ["%permit"],
+  args: [
+    { prim: "key" },
+    { prim: "pair", args: [{ prim: "signature" }, { prim: "bytes" }] },
+  ],
+};
+
+const TRANSFER_TYPE = {
+  prim: "pair",
+  annots: ["%transfer"],
+  args: [
+    { prim: "address", annots: [":from"] },
+    {
+      prim: "pair",
+      args: [
+        { prim: "address", annots: [":to"] },
+        { prim: "nat", annots: [":value"] },
+      ],
+    },
+  ],
+};
+
+const TRANSFER_VALUE = {
+  prim: "Pair",
+  args: [
+    { string: PKH },
+    { prim: "Pair", args: [{ string: CONTRACT_ADDRESS }, { int: "100" }] },
+  ],
+};
+
+const STORAGE_TYPE = {
+  prim: "pair",
+  args: [
+    { prim: "big_map", args: [{ prim: "address" }, { prim: "nat" }] },
+    { prim: "address", annots: ["%admin"] },
+    { prim: "nat", annots: ["%counter"] },
+  ],
+};
+
+const STORAGE = {
+  prim: "Pair",
+  args: [{ int: "12" }, { string: PKH }, { int: "7" }],
+};
+
+describe("Permit", () => {
+  it("getPermitEntrypointKind", () => {
+    expect(getPermitEntrypointKind(PERMIT_TYPE)).toBe("single");
+    expect(getPermitEntrypointKind({ prim: "list", args: [PERMIT_TYPE] })).toBe(
+      "list"
+    );
+    expect(
+      getPermitEntrypointKind({
+        prim: "pair",
+        args: [{ prim: "key" }, { prim: "signature" }, { prim: "bytes" }],
+      })
+    ).toBe("single");
+    expect(getPermitEntrypointKind(TRANSFER_TYPE)).toBe(null);
+    expect(getPermitEntrypointKind(undefined)).toBe(null);
+  });
+
+  it("getPermitParamsHash", () => {
+    const paramsHash = getPermitParamsHash(TRANSFER_VALUE, TRANSFER_TYPE);
+    const packed = packDataBytes(TRANSFER_VALUE as any, TRANSFER_TYPE as any);
+
+    expect(paramsHash).toHaveLength(64);
+    expect(b58cencode(paramsHash, prefix.expr)).toBe(encodeExpr(packed.bytes));
+    expect(() => getPermitParamsHash({ int: "1" }, TRANSFER_TYPE)).toThrow();
+  });
+
+  it("getPermitPayloadBytes", () => {
+    const paramsHash = getPermitParamsHash(TRANSFER_VALUE, TRANSFER_TYPE);
+    const bytes = getPermitPayloadBytes(
+      CHAIN_ID,
+      CONTRACT_ADDRESS,
+      "7",
+      paramsHash
+    );
+
+    const decoded = decodeSignPayload(bytes);
+    expect(decoded.type === "micheline" && decoded.permit).toEqual({
+      chainId: CHAIN_ID,
+      contract: CONTRACT_ADDRESS,
+      counter: "7",
+      paramsHash,
+    });
+  });
+
+  it("findPermitCounter", () => {
+    expect(findPermitCounter(STORAGE_TYPE, STORAGE)).toBe("7");
+    expect(
+      findPermitCounter(STORAGE_TYPE, [
+        { int: "12" },
+        { string: PKH },
+        { int: "8" },
+      ])
+    ).toBe("8");
+    expect(
+      findPermitCounter(
+        { prim: "pair", args: [{ prim: "nat" }, { prim: "address" }] },
+        { prim: "Pair", args: [{ int: "1" }, { string: PKH }] }
+      )
+    ).toBe(null);
+  });
+
+  it("loadPermitData", async () => {
+    const createRpc = (entrypoints: Record<string, any>): any => ({
+      getEntrypoints: async () => ({ entrypoints }),
+      getScript: async () => ({
+        code: [
+          { prim: "parameter", args: [{ prim: "unit" }] },
+          { prim: "storage", args: [STORAGE_TYPE] },
+          { prim: "code", args: [[]] },
+        ],
+        storage: STORAGE,
+      }),
+      getChainId: async () => CHAIN_ID,
+    });
+
+    const permit = await loadPermitData(
+      createRpc({ permit: PERMIT_TYPE, transfer: TRANSFER_TYPE }),
+      CONTRACT_ADDRESS,
+      "transfer",
+      TRANSFER_VALUE
+    );
+    expect(permit).toEqual({
+      chainId: CHAIN_ID,
+      contractAddress: CONTRACT_ADDRESS,
+      entrypoint: "transfer",
+      counter: "7",
+      paramsHash: getPermitParamsHash(TRANSFER_VALUE, TRANSFER_TYPE),
+      bytes: getPermitPayloadBytes(
+        CHAIN_ID,
+        CONTRACT_ADDRESS,
+        "7",
+        permit.paramsHash
+      ),
+      kind: "single",
+    });
+
+    await expect(
+      loadPermitData(
+        createRpc({ transfer: TRANSFER_TYPE }),
+        CONTRACT_ADDRESS,
+        "transfer",
+        TRANSFER_VALUE
+      )
+    ).rejects.toThrow();
+    await expect(
+      loadPermitData(
+        createRpc({ permit: PERMIT_TYPE }),
+        CONTRACT_ADDRESS,
+        "burn",
+        TRANSFER_VALUE
+      )
+    ).rejects.toThrow();
+  });
+
+  it("toPermitParams forges into permit call", async () => {
+    const paramsHash = getPermitParamsHash(TRANSFER_VALUE, TRANSFER_TYPE);
+    const permit = {
+      chainId: CHAIN_ID,
+      contractAddress: CONTRACT_ADDRESS,
+      entrypoint: "transfer",
+      counter: "7",
+      paramsHash,
+      bytes: getPermitPayloadBytes(CHAIN_ID, CONTRACT_ADDRESS, "7", paramsHash),
+    };
+
+    for (const kind of ["single", "list"] as const) {
+      const parameters = toPermitParams(
+        { ...permit, kind },
+        PUBLIC_KEY,
+        SIGNATURE
+      );
+      const operation = {
+        branch: "BLzyjjHKEKMULtvkpSHxuZxx6ei6fpntH2BTkYZiLgs8zLVstvX",
+        contents: [
+          {
+            kind: "transaction",
+            source: PKH,
+            fee: "1000",
+            counter: "1",
+            gas_limit: "10000",
+            storage_limit: "0",
+            amount: "0",
+            destination: CONTRACT_ADDRESS,
+            parameters,
+          },
+        ],
+      };
+
+      const forged = await localForger.forge(operation as any);
+      const parsed = await localForger.parse(forged);
+      expect((parsed.contents[0] as any).parameters).toEqual(parameters);
+    }
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+
+import { packDataBytes } from "@taquito/michel-codec";
+import { char2Bytes } from "@taquito/utils";
+
+import { decodeSignPayload } from "../sign-payload";
+
+const PKH = "tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb";
+const CONTRACT = "KT1RxKJyi48W3bZR8HErRiisXZQw19HwLGWj";
+const CHAIN_ID = "NetXdQprcVkpaWU";
+const PARAMS_HASH =
+  "0f0db0ce6f057a8835adb6a2c617fd8a136b8028fac90aab7b4766def688ea0c";
+
+const pack = (data: any, type?: any) => packDataBytes(data, type).bytes;
+
+describe("Sign payload decoder", () => {
+  it("decodes Tezos signed messages", () => {
+    const message = "Tezos Signed Message: example.com 2021-09-01T00:00:00Z";
+    const decoded = decodeSignPayload(pack({ string: message }));
+    expect(decoded).toMatchObject({
+      type: "micheline",
+      message,
+      tree: { type: "string", value: message },
+    });
+  });
+
+  it("decodes packed values into tree", () => {
+    const payload = pack(
+      {
+        prim: "Pair",
+        args: [
+          [
+            {
+              prim: "Elt",
+              args: [
+                { string: "deadline" },
+                { string: "2021-09-01T00:00:00Z" },
+              ],
+            },
+          ],
+          {
+            prim: "Pair",
+            args: [{ string: PKH }, { bytes: char2Bytes("hi") }],
+          },
+        ],
+      },
+      {
+        prim: "pair",
+        args: [
+          { prim: "map", args: [{ prim: "string" }, { prim: "string" }] },
+          { prim: "pair", args: [{ prim: "address" }, { prim: "bytes" }] },
+        ],
+      }
+    );
+
+    expect(decodeSignPayload(payload)).toEqual({
+      type: "micheline",
+      tree: {
+        type: "pair",
+        children: [
+          {
+            type: "map",
+            children: [
+              {
+                type: "elt",
+                children: [
+                  { type: "string", value: "deadline" },
+                  { type: "timestamp", value: "2021-09-01T00:00:00Z" },
+                ],
+              },
+            ],
+          },
+          {
+            type: "pair",
+            children: [
+              { type: "address", value: PKH },
+              { type: "text", value: "hi" },
+            ],
+          },
+        ],
+      },
+    });
+  });
+
+  it("detects TZIP-17 permits", () => {
+    const payload = pack(
+      {
+        prim: "Pair",
+        args: [
+          { prim: "Pair", args: [{ string: CHAIN_ID }, { string: CONTRACT }] },
+          { prim: "Pair", args: [{ int: "7" }, { bytes: PARAMS_HASH }] },
+        ],
+      },
+      {
+        prim: "pair",
+        args: [
+          { prim: "pair", args: [{ prim: "chain_id" }, { prim: "address" }] },
+          { prim: "pair", args: [{ prim: "nat" }, { prim: "bytes" }] },
+        ],
+      }
+    );
+
+    const decoded = decodeSignPayload(payload);
+    expect(decoded.type === "micheline" && decoded.permit).toEqual({
+      chainId: CHAIN_ID,
+      contract: CONTRACT,
+      counter: "7",
+      paramsHash: PARAMS_HASH,
+    });
+  });
+
+  it("detects operations", () => {
+    expect(decodeSignPayload(`03${PARAMS_HASH}6c00`)).toEqual({
+      type: "operation",
+      watermark: "operation",
+    });
+    expect(decodeSignPayload(`11${PARAMS_HASH}`)).toEqual({
+      type: "operation",
+      watermark: "block",
+    });
+  });
+
+  it("decodes text and hashes", () => {
+    expect(decodeSignPayload(char2Bytes("Hello,\nworld ✓"))).toEqual({
+      type: "text",
+      text: "Hello,\nworld ✓",
+    });
+    expect(decodeSignPayload(PARAMS_HASH)).toEqual({
+      type: "hash",
+      hash: PARAMS_HASH,
+    });
+    expect(decodeSignPayload("ff00ff")).toEqual({ type: "unknown" });
+  });
+});
@@ -0,0 +1,165 @@
+import { TzktTransactionOperation } from "lib/tzkt";
+
+import OPERATION_COMPLEX from "../__mocks__/operation_0";
+import OPERATION_TOKEN_TRANSFER_ONLY from "../__mocks__/operation_1";
+import OPERATION_LOCAL_ONLY from "../__mocks__/operation_2";
+import { historyToCSV, parseHistoryEntries } from "../export";
+
+const ACCOUNT = "tz3Qth49881bX2dymtRREEKkFnuKzvhBjr6o";
+const RECIPIENT = "tz1V8T96EJMiMFVyFkt3UakBegftGf5HfEuG";
+
+const OPERATION_WITH_QUOTE = {
+  ...OPERATION_LOCAL_ONLY,
+  data: {
+    ...OPERATION_LOCAL_ONLY.data,
+    tzktGroup: [
+      {
+        type: "transaction",
+        id: 3012420,
+        level: 265400,
+        timestamp: "2021-06-24T10:14:14Z",
+        hash: OPERATION_LOCAL_ONLY.hash,
+        counter: 23379,
+        sender: { address: ACCOUNT },
+        gasLimit: 1527,
+        gasUsed: 1427,
+        storageLimit: 257,
+        storageUsed: 0,
+        bakerFee: 445,
+        storageFee: 0,
+        allocationFee: 64250,
+        target: { address: RECIPIENT },
+        amount: 55000000,
+        quote: { usd: 3.5 },
+        status: "applied",
+        hasInternals: false,
+      } as TzktTransactionOperation,
+    ],
+  },
+};
+
+describe("History export", () => {
+  it("parseHistoryEntries complex", async () => {
+    const entries = parseHistoryEntries(OPERATION_COMPLEX, ACCOUNT, (assetId) =>
+      assetId === "KT1DaKxkR1LdnXW1tr7yozdwEAiSQDpCLUBj_0"
+        ? { symbol: "QUIPU", decimals: 6 }
+        : undefined
+    );
+
+    expect(entries).toStrictEqual([
+      {
+        hash: OPERATION_COMPLEX.hash,
+        timestamp: OPERATION_COMPLEX.addedAt,
+        counterparty: "KT1T2BiwkP5goinYv81pX64kxCR1DUL7yNus",
+        assetId: "KT1DaKxkR1LdnXW1tr7yozdwEAiSQDpCLUBj_0",
+        symbol: "QUIPU",
+        amount: "-0.0001",
+        fee: "0.5255",
+        usdValue: null,
+      },
+      {
+        hash: OPERATION_COMPLEX.hash,
+        timestamp: OPERATION_COMPLEX.addedAt,
+        counterparty: "KT1T2BiwkP5goinYv81pX64kxCR1DUL7yNus",
+        assetId: "KT1P3RGEAa78XLTs3Hkpd1VWtryQRLDjiXqF_0",
+        symbol: "KT1P3RGEAa78XLTs3Hkpd1VWtryQRLDjiXqF_0",
+        amount: "341",
+        fee: "0",
+        usdValue: null,
+      },
+    ]);
+  });
+
+  it("parseHistoryEntries token transfer only", async () => {
+    const entries = parseHistoryEntries(OPERATION_TOKEN_TRANSFER_ONLY, ACCOUNT);
+
+    expect(entries).toStrictEqual([
+      {
+        hash: OPERATION_TOKEN_TRANSFER_ONLY.hash,
+        timestamp: OPERATION_TOKEN_TRANSFER_ONLY.addedAt,
+        counterparty: "tz1KoLibimdjUSfhrSpXwx4FhhhCq1JM5Etk",
+        assetId: "KT1NbznEfpxZZyPUNcSWRm9Y8qZkdEgWEFaV_0",
+        symbol: "kDAO",
+        amount: "162.16216216216216",
+        fee: "0",
+        usdValue: null,
+      },
+    ]);
+  });
+
+  it("parseHistoryEntries local only", async () => {
+    const entries = parseHistoryEntries(OPERATION_LOCAL_ONLY, ACCOUNT);
+
+    expect(entries).toStrictEqual([
+      {
+        hash: OPERATION_LOCAL_ONLY.hash,
+        timestamp: OPERATION_LOCAL_ONLY.addedAt,
+        counterparty: RECIPIENT,
+        assetId: "tez",
+        symbol: "XTZ",
+        amount: "-55",
+        fee: "0.000445",
+        usdValue: null,
+      },
+    ]);
+
+    const received = parseHistoryEntries(OPERATION_LOCAL_ONLY, RECIPIENT);
+    expect(received).toMatchObject([
+      { counterparty: ACCOUNT, amount: "55", fee: "0" },
+    ]);
+  });
+
+  it("parseHistoryEntries with USD quote", async () => {
+    const entries = parseHistoryEntries(OPERATION_WITH_QUOTE, ACCOUNT);
+
+    expect(entries).toMatchObject([
+      { amount: "-55", fee: "0.064695", usdValue: "-192.50" },
+    ]);
+  });
+
+  it("historyToCSV", async () => {
+    const entries = [
+      ...parseHistoryEntries(OPERATION_WITH_QUOTE, ACCOUNT),
+      ...parseHistoryEntries(OPERATION_TOKEN_TRANSFER_ONLY, ACCOUNT),
+    ];
+
+    expect(historyToCSV(entries, "csv").split("\n")).toEqual([
+      "hash,timestamp,counterparty,asset,assetId,amount,fee,usdValue",
+      `${OPERATION_LOCAL_ONLY.hash},2021-06-24T10:14:14.049Z,${RECIPIENT},XTZ,tez,-55,0.064695,-192.50`,
+      `${OPERATION_TOKEN_TRANSFER_ONLY.hash},2021-06-22T07:16:31.000Z,tz1KoLibimdjUSfhrSpXwx4FhhhCq1JM5Etk,kDAO,KT1NbznEfpxZZyPUNcSWRm9Y8qZkdEgWEFaV_0,162.16216216216216,0,`,
+    ]);
+
+    expect(historyToCSV(entries, "koinly").split("\n")).toEqual([
+      "Date,Sent Amount,Sent Currency,Received Amount,Received Currency,Fee Amount,Fee Currency,Net Worth Amount,Net Worth Currency,Label,Description,TxHash",
+      `2021-06-24 10:14:14 UTC,55,XTZ,,,0.064695,XTZ,192.5,USD,,${RECIPIENT},${OPERATION_LOCAL_ONLY.hash}`,
+      `2021-06-22 07:16:31 UTC,,,162.16216216216216,kDAO,,,,,,tz1KoLibimdjUSfhrSpXwx4FhhhCq1JM5Etk,${OPERATION_TOKEN_TRANSFER_ONLY.hash}`,
+    ]);
+
+    expect(historyToCSV(entries, "cointracking").split("\n")).toEqual([
+      "Type,Buy Amount,Buy Currency,Sell Amount,Sell Currency,Fee,Fee Currency,Exchange,Trade-Group,Comment,Date,Tx-ID,Buy Value in USD,Sell Value in USD",
+      `Withdrawal,,,55,XTZ,0.064695,XTZ,Temple Wallet,,${RECIPIENT},2021-06-24 10:14:14,${OPERATION_LOCAL_ONLY.hash},,192.5`,
+      `Deposit,162.16216216216216,kDAO,,,,,Temple Wallet,,tz1KoLibimdjUSfhrSpXwx4FhhhCq1JM5Etk,2021-06-22 07:16:31,${OPERATION_TOKEN_TRANSFER_ONLY.hash},,`,
+    ]);
+  });
+
+  it("historyToCSV fee only operation", async () => {
+    const entries = parseHistoryEntries(
+      {
+        ...OPERATION_LOCAL_ONLY,
+        data: {
+          localGroup: [
+            { ...OPERATION_LOCAL_ONLY.data.localGroup![0], amount: "0" } as any,
+          ],
+        },
+      },
+      ACCOUNT
+    );
+
+    expect(entries).toMatchObject([
+      { counterparty: null, assetId: "tez", amount: "0", fee: "0.000445" },
+    ]);
+    expect(historyToCSV(entries, "koinly").split("\n")[1]).toBe(
+      `2021-06-24 10:14:14 UTC,0.000445,XTZ,,,,,,,cost,,${OPERATION_LOCAL_ONLY.hash}`
+    );
+  });
+});
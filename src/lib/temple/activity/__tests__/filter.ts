@@ -0,0 +1,121 @@
+import OPERATION_COMPLEX from "../__mocks__/operation_0";
+import OPERATION_TOKEN_TRANSFER_ONLY from "../__mocks__/operation_1";
+import OPERATION_LOCAL_ONLY from "../__mocks__/operation_2";
+import {
+  ActivityFilter,
+  getActivityKinds,
+  getActivityStatus,
+  getOperationEntrypoints,
+  isActivityFilterEmpty,
+  matchesActivityFilter,
+} from "../filter";
+
+const ACCOUNT = "tz3Qth49881bX2dymtRREEKkFnuKzvhBjr6o";
+const RECIPIENT = "tz1V8T96EJMiMFVyFkt3UakBegftGf5HfEuG";
+const TOKEN_SENDER = "tz1KoLibimdjUSfhrSpXwx4FhhhCq1JM5Etk";
+
+const OPERATIONS = [
+  OPERATION_COMPLEX,
+  OPERATION_TOKEN_TRANSFER_ONLY,
+  OPERATION_LOCAL_ONLY,
+];
+
+function filterHashes(filter: ActivityFilter) {
+  return OPERATIONS.filter((op) =>
+    matchesActivityFilter(op, ACCOUNT, filter, (assetId) =>
+      assetId === "KT1DaKxkR1LdnXW1tr7yozdwEAiSQDpCLUBj_0"
+        ? { symbol: "QUIPU", decimals: 6 }
+        : undefined
+    )
+  ).map((op) => op.hash);
+}
+
+describe("Activity filter", () => {
+  it("getActivityKinds", () => {
+    expect(getActivityKinds(OPERATION_COMPLEX, ACCOUNT)).toEqual([
+      "transfer-out",
+      "transfer-in",
+      "contract-call",
+    ]);
+    expect(getActivityKinds(OPERATION_TOKEN_TRANSFER_ONLY, ACCOUNT)).toEqual([
+      "transfer-in",
+    ]);
+    expect(getActivityKinds(OPERATION_LOCAL_ONLY, RECIPIENT)).toEqual([
+      "transfer-in",
+    ]);
+  });
+
+  it("getActivityStatus", () => {
+    expect(getActivityStatus(OPERATION_COMPLEX)).toBe("applied");
+    expect(getActivityStatus(OPERATION_TOKEN_TRANSFER_ONLY)).toBe("applied");
+    expect(getActivityStatus(OPERATION_LOCAL_ONLY)).toBe("pending");
+  });
+
+  it("getOperationEntrypoints", () => {
+    expect(getOperationEntrypoints(OPERATION_COMPLEX)).toEqual(
+      expect.arrayContaining([
+        "update_operators",
+        "transfer",
+        "tezToTokenPayment",
+      ])
+    );
+    expect(getOperationEntrypoints(OPERATION_LOCAL_ONLY)).toEqual([]);
+  });
+
+  it("isActivityFilterEmpty", () => {
+    expect(isActivityFilterEmpty({})).toBe(true);
+    expect(
+      isActivityFilterEmpty({ kinds: [], statuses: [], minAmount: "" })
+    ).toBe(true);
+    expect(isActivityFilterEmpty({ counterparties: [] })).toBe(false);
+    expect(isActivityFilterEmpty({ search: "oo" })).toBe(false);
+  });
+
+  it("matchesActivityFilter", () => {
+    expect(filterHashes({})).toHaveLength(3);
+
+    expect(filterHashes({ kinds: ["transfer-out"] })).toEqual([
+      OPERATION_COMPLEX.hash,
+      OPERATION_LOCAL_ONLY.hash,
+    ]);
+    expect(filterHashes({ kinds: ["delegation", "origination"] })).toEqual([]);
+
+    expect(filterHashes({ statuses: ["pending"] })).toEqual([
+      OPERATION_LOCAL_ONLY.hash,
+    ]);
+    expect(filterHashes({ statuses: ["applied", "failed"] })).toHaveLength(2);
+
+    expect(filterHashes({ counterparties: [TOKEN_SENDER] })).toEqual([
+      OPERATION_TOKEN_TRANSFER_ONLY.hash,
+    ]);
+    expect(filterHashes({ counterparties: [ACCOUNT] })).toEqual([]);
+    expect(filterHashes({ counterparties: [] })).toEqual([]);
+
+    expect(filterHashes({ entrypoint: "TOKENPayment" })).toEqual([
+      OPERATION_COMPLEX.hash,
+    ]);
+  });
+
+  it("matchesActivityFilter by amount", () => {
+    expect(filterHashes({ minAmount: 100 })).toEqual([
+      OPERATION_COMPLEX.hash,
+      OPERATION_TOKEN_TRANSFER_ONLY.hash,
+    ]);
+    expect(filterHashes({ minAmount: "50", maxAmount: "60" })).toEqual([
+      OPERATION_LOCAL_ONLY.hash,
+    ]);
+    expect(filterHashes({ maxAmount: "0.001" })).toEqual([
+      OPERATION_COMPLEX.hash,
+    ]);
+  });
+
+  it("matchesActivityFilter by search", () => {
+    expect(filterHashes({ search: "OOB5B636" })).toEqual([
+      OPERATION_TOKEN_TRANSFER_ONLY.hash,
+    ]);
+    expect(
+      filterHashes({ search: "Alice", searchAddresses: [RECIPIENT] })
+    ).toEqual([OPERATION_LOCAL_ONLY.hash]);
+    expect(filterHashes({ search: "Alice", searchAddresses: [] })).toEqual([]);
+  });
+});
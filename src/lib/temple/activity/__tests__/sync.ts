@@ -0,0 +1,215 @@
+/**
+ * @jest-environment node
+ */
+
+import { RpcClient } from "@taquito/rpc";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+import { TempleChainId } from "lib/temple/types";
+import { getOperations } from "lib/tzkt";
+
+import { scanBlocks } from "../rpcSync";
+import {
+  customTzktSyncProvider,
+  getSyncProvider,
+  rpcSyncProvider,
+  tzktBcdSyncProvider,
+} from "../sync";
+
+const ACCOUNT = "tz3Qth49881bX2dymtRREEKkFnuKzvhBjr6o";
+const OTHER_ACCOUNT = "tz1V8T96EJMiMFVyFkt3UakBegftGf5HfEuG";
+const CONTRACT = "KT1GdCu6VyfijaARRx5tDPg4ZU2U8uQadBT4";
+const SANDBOX_CHAIN_ID = "NetXsqzbfFenSTS";
+
+const TRANSFER_OP = {
+  hash: "onjWPMGLcFc27T9bGeNHj3Q7aW5un8ummhRAfS5B4y7c91bqcUP",
+  contents: [
+    {
+      kind: "transaction",
+      source: ACCOUNT,
+      fee: "445",
+      counter: "23379",
+      gas_limit: "1527",
+      storage_limit: "257",
+      amount: "55000000",
+      destination: OTHER_ACCOUNT,
+      metadata: { operation_result: { status: "applied" } },
+    },
+  ],
+};
+
+const INTERNAL_PAYOUT_OP = {
+  hash: "opZG7XNt1wHxvLeUZxQ5WkKJZCm64kMjbUPeGS8BTiehB5pBYsX",
+  contents: [
+    {
+      kind: "transaction",
+      source: OTHER_ACCOUNT,
+      fee: "500",
+      counter: "11",
+      gas_limit: "20000",
+      storage_limit: "0",
+      amount: "0",
+      destination: CONTRACT,
+      metadata: {
+        operation_result: { status: "applied" },
+        internal_operation_results: [
+          {
+            kind: "transaction",
+            source: CONTRACT,
+            nonce: 0,
+            amount: "1000",
+            destination: ACCOUNT,
+            result: { status: "applied" },
+          },
+        ],
+      },
+    },
+  ],
+};
+
+const UNRELATED_OP = {
+  hash: "ooB5B636cUpMqJV17Z3DSmgSqw9RvRKvt9vHsUwi3ghLBe3CzmC",
+  contents: [
+    {
+      kind: "transaction",
+      source: OTHER_ACCOUNT,
+      fee: "400",
+      counter: "12",
+      gas_limit: "1527",
+      storage_limit: "0",
+      amount: "1",
+      destination: CONTRACT,
+      metadata: { operation_result: { status: "applied" } },
+    },
+  ],
+};
+
+const BLOCK_OPERATIONS: Record<number, any[]> = {
+  5: [TRANSFER_OP],
+  6: [UNRELATED_OP],
+  7: [INTERNAL_PAYOUT_OP, UNRELATED_OP],
+};
+
+describe("Activity sync", () => {
+  let server: Server;
+  let baseURL: string;
+  const requests: URL[] = [];
+
+  beforeAll(async () => {
+    server = createServer(handleRequest);
+    await new Promise<void>((res) => server.listen(0, "127.0.0.1", res));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise((res) => server.close(res)));
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  function handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url!, baseURL);
+    requests.push(url);
+
+    const blockMatch = url.pathname.match(/^\/chains\/main\/blocks\/(\d+)$/);
+    if (blockMatch) {
+      const level = +blockMatch[1];
+      return sendJSON(res, {
+        hash: `Block${level}`,
+        header: {
+          level,
+          timestamp: new Date(Date.UTC(2021, 8, 1, 0, level)).toISOString(),
+        },
+        operations: [[], [], [], BLOCK_OPERATIONS[level] ?? []],
+      });
+    }
+
+    if (url.pathname === `/v1/accounts/${ACCOUNT}/operations`) {
+      return sendJSON(res, [
+        {
+          type: "transaction",
+          id: 1,
+          hash: TRANSFER_OP.hash,
+          timestamp: "2021-09-01T00:05:00Z",
+          sender: { address: ACCOUNT },
+          target: { address: OTHER_ACCOUNT },
+          amount: 55000000,
+          status: "applied",
+        },
+      ]);
+    }
+
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ message: "Not found" }));
+  }
+
+  it("getSyncProvider", () => {
+    const sandbox = { rpcBaseURL: "http://localhost:8732" };
+
+    expect(getSyncProvider(TempleChainId.Mainnet, sandbox)).toBe(
+      tzktBcdSyncProvider
+    );
+    expect(getSyncProvider(TempleChainId.Mainnet)).toBe(tzktBcdSyncProvider);
+    expect(getSyncProvider(SANDBOX_CHAIN_ID, sandbox)).toBe(rpcSyncProvider);
+    expect(
+      getSyncProvider(SANDBOX_CHAIN_ID, {
+        ...sandbox,
+        tzktBaseURL: "http://localhost:5000/v1",
+      })
+    ).toBe(customTzktSyncProvider);
+    expect(getSyncProvider(SANDBOX_CHAIN_ID)).toBe(null);
+  });
+
+  it("scanBlocks", async () => {
+    const blocks = await scanBlocks(new RpcClient(baseURL), ACCOUNT, 5, 7);
+
+    expect(blocks.map((b) => b.level)).toEqual([7, 6, 5]);
+    expect(blocks[0].timestamp).toBe(Date.UTC(2021, 8, 1, 0, 7));
+    expect(blocks.map((b) => b.operations.map((op) => op.hash))).toEqual([
+      [INTERNAL_PAYOUT_OP.hash],
+      [],
+      [TRANSFER_OP.hash],
+    ]);
+    expect(blocks[2].operations[0].contents).toEqual(TRANSFER_OP.contents);
+    expect(requests.map((url) => url.pathname)).toEqual([
+      "/chains/main/blocks/7",
+      "/chains/main/blocks/6",
+      "/chains/main/blocks/5",
+    ]);
+  });
+
+  it("getOperations from custom TzKT", async () => {
+    const operations = await getOperations(
+      SANDBOX_CHAIN_ID as any,
+      { address: ACCOUNT, sort: 1, limit: 1000, quote: ["Usd"] },
+      `${baseURL}/v1`
+    );
+
+    expect(operations.map((op) => op.hash)).toEqual([TRANSFER_OP.hash]);
+    expect(requests).toHaveLength(1);
+    expect(Object.fromEntries(requests[0].searchParams)).toEqual({
+      sort: "1",
+      limit: "1000",
+      quote: "Usd",
+    });
+
+    // Client logs failed requests
+    const consoleError = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    await expect(
+      getOperations(
+        SANDBOX_CHAIN_ID as any,
+        { address: OTHER_ACCOUNT },
+        `${baseURL}/v1`
+      )
+    ).rejects.toThrow("Failed when querying Tzkt API: Not found");
+    consoleError.mockRestore();
+  });
+});
+
+function sendJSON(res: ServerResponse, data: any) {
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
@@ -0,0 +1,294 @@
+import BigNumber from "bignumber.js";
+
+import { toCSV } from "lib/csv";
+import * as Repo from "lib/temple/repo";
+
+import { getOperationStatus, toTokenId } from "./helpers";
+import { parseMoneyDiffs } from "./moneyDiffs";
+import { parseOpStack } from "./opStack";
+import { OpStackItemType } from "./types";
+
+export type HistoryExportFormat = "csv" | "koinly" | "cointracking";
+
+export interface HistoryAssetMetadata {
+  symbol: string;
+  decimals: number;
+}
+
+export interface HistoryEntry {
+  hash: string;
+  timestamp: number;
+  counterparty: string | null;
+  assetId: string;
+  symbol: string;
+  amount: string; // signed, in asset units
+  fee: string; // tez, paid by the account. Only set for the first entry of operation
+  usdValue: string | null; // signed, only for tez when quote is synced
+}
+
+const TEZ_METADATA: HistoryAssetMetadata = { symbol: "XTZ", decimals: 6 };
+const EXCHANGE_NAME = "Temple Wallet";
+
+export function parseHistoryEntries(
+  operation: Repo.IOperation,
+  address: string,
+  getAssetMetadata: (
+    assetId: string
+  ) => HistoryAssetMetadata | undefined = () => undefined
+) {
+  const { hash, addedAt, data } = operation;
+
+  const status = getOperationStatus(operation);
+  const moneyDiffs =
+    !status || status === "applied" ? parseMoneyDiffs(operation, address) : [];
+
+  const fee = getOperationFee(operation, address);
+  const tezUsdRate = data.tzktGroup?.find((op) => op.quote?.usd)?.quote?.usd;
+  const opStack = parseOpStack(operation, address);
+
+  const getCounterparty = (diff: BigNumber) => {
+    for (const item of opStack) {
+      if (diff.lt(0) && item.type === OpStackItemType.TransferTo) {
+        return item.to;
+      }
+      if (diff.gt(0) && item.type === OpStackItemType.TransferFrom) {
+        return item.from;
+      }
+    }
+    for (const item of opStack) {
+      switch (item.type) {
+        case OpStackItemType.Interaction:
+          return item.with;
+        case OpStackItemType.Delegation:
+          return item.to;
+      }
+    }
+    return null;
+  };
+
+  const entries: HistoryEntry[] = moneyDiffs.map(({ assetId, diff }) => {
+    const { symbol, decimals } =
+      assetId === "tez"
+        ? TEZ_METADATA
+        : getAssetMetadata(assetId) ??
+          getBcdTokenMetadata(operation, assetId) ?? {
+            symbol: assetId,
+            decimals: 0,
+          };
+    const diffBN = new BigNumber(diff);
+    const amount = diffBN.div(10 ** decimals);
+
+    return {
+      hash,
+      timestamp: addedAt,
+      counterparty: getCounterparty(diffBN),
+      assetId,
+      symbol,
+      amount: amount.toFixed(),
+      fee: "0",
+      usdValue:
+        assetId === "tez" && tezUsdRate
+          ? amount.times(tezUsdRate).toFixed(2)
+          : null,
+    };
+  });
+
+  if (fee.gt(0)) {
+    // Operations without balance changes, still cost a fee
+    if (entries.length === 0) {
+      entries.push({
+        hash,
+        timestamp: addedAt,
+        counterparty: getCounterparty(new BigNumber(0)),
+        assetId: "tez",
+        symbol: TEZ_METADATA.symbol,
+        amount: "0",
+        fee: "0",
+        usdValue: null,
+      });
+    }
+    entries[0].fee = fee.div(10 ** TEZ_METADATA.decimals).toFixed();
+  }
+
+  return entries;
+}
+
+export function historyToCSV(
+  entries: HistoryEntry[],
+  format: HistoryExportFormat
+) {
+  switch (format) {
+    case "koinly":
+      return toCSV([
+        [
+          "Date",
+          "Sent Amount",
+          "Sent Currency",
+          "Received Amount",
+          "Received Currency",
+          "Fee Amount",
+          "Fee Currency",
+          "Net Worth Amount",
+          "Net Worth Currency",
+          "Label",
+          "Description",
+          "TxHash",
+        ],
+        ...entries.map((entry) => {
+          const { sent, received, fee, costOnly } = splitEntry(entry);
+          return [
+            `${formatUTCDate(entry.timestamp)} UTC`,
+            sent ? sent.amount : "",
+            sent ? sent.symbol : "",
+            received ? received.amount : "",
+            received ? received.symbol : "",
+            fee,
+            fee && TEZ_METADATA.symbol,
+            entry.usdValue ? new BigNumber(entry.usdValue).abs().toFixed() : "",
+            entry.usdValue ? "USD" : "",
+            costOnly ? "cost" : "",
+            entry.counterparty ?? "",
+            entry.hash,
+          ];
+        }),
+      ]);
+
+    case "cointracking":
+      return toCSV([
+        [
+          "Type",
+          "Buy Amount",
+          "Buy Currency",
+          "Sell Amount",
+          "Sell Currency",
+          "Fee",
+          "Fee Currency",
+          "Exchange",
+          "Trade-Group",
+          "Comment",
+          "Date",
+          "Tx-ID",
+          "Buy Value in USD",
+          "Sell Value in USD",
+        ],
+        ...entries.map((entry) => {
+          const { sent, received, fee, costOnly } = splitEntry(entry);
+          const usdValue = entry.usdValue
+            ? new BigNumber(entry.usdValue).abs().toFixed()
+            : "";
+          return [
+            costOnly ? "Other Fee" : received ? "Deposit" : "Withdrawal",
+            received ? received.amount : "",
+            received ? received.symbol : "",
+            sent ? sent.amount : "",
+            sent ? sent.symbol : "",
+            fee,
+            fee && TEZ_METADATA.symbol,
+            EXCHANGE_NAME,
+            "",
+            entry.counterparty ?? "",
+            formatUTCDate(entry.timestamp),
+            entry.hash,
+            received ? usdValue : "",
+            sent && !costOnly ? usdValue : "",
+          ];
+        }),
+      ]);
+
+    default:
+      return toCSV([
+        [
+          "hash",
+          "timestamp",
+          "counterparty",
+          "asset",
+          "assetId",
+          "amount",
+          "fee",
+          "usdValue",
+        ],
+        ...entries.map((entry) => [
+          entry.hash,
+          new Date(entry.timestamp).toISOString(),
+          entry.counterparty ?? "",
+          entry.symbol,
+          entry.assetId,
+          entry.amount,
+          entry.fee,
+          entry.usdValue ?? "",
+        ]),
+      ]);
+  }
+}
+
+/**
+ * Tax tools expect unsigned amounts in sent / received columns.
+ * Fee only operations are reported as a sent fee amount.
+ */
+function splitEntry(entry: HistoryEntry) {
+  const amount = new BigNumber(entry.amount);
+  const hasFee = new BigNumber(entry.fee).gt(0);
+
+  if (amount.isZero()) {
+    return {
+      sent: { amount: entry.fee, symbol: TEZ_METADATA.symbol },
+      received: null,
+      fee: "",
+      costOnly: true,
+    };
+  }
+
+  const value = { amount: amount.abs().toFixed(), symbol: entry.symbol };
+  return {
+    sent: amount.lt(0) ? value : null,
+    received: amount.gt(0) ? value : null,
+    fee: hasFee ? entry.fee : "",
+    costOnly: false,
+  };
+}
+
+function getOperationFee(operation: Repo.IOperation, address: string) {
+  const { localGroup, tzktGroup } = operation.data;
+  let fee = new BigNumber(0);
+
+  if (tzktGroup) {
+    for (const tzktOp of tzktGroup) {
+      const payer =
+        "initiator" in tzktOp && tzktOp.initiator
+          ? tzktOp.initiator.address
+          : tzktOp.sender.address;
+      if (payer !== address) continue;
+
+      fee = fee.plus(tzktOp.bakerFee);
+      if (tzktOp.type === "transaction") {
+        fee = fee.plus(tzktOp.storageFee).plus(tzktOp.allocationFee);
+      }
+    }
+  } else if (localGroup) {
+    for (const op of localGroup) {
+      if ("fee" in op && "source" in op && op.source === address) {
+        fee = fee.plus(op.fee);
+      }
+    }
+  }
+
+  return fee;
+}
+
+function getBcdTokenMetadata(
+  operation: Repo.IOperation,
+  assetId: string
+): HistoryAssetMetadata | undefined {
+  const token = operation.data.bcdTokenTransfers?.find(
+    (tokenTrans) =>
+      toTokenId(tokenTrans.contract, tokenTrans.token_id) === assetId
+  )?.token;
+
+  return token?.symbol && token.decimals !== undefined
+    ? { symbol: token.symbol, decimals: token.decimals }
+    : undefined;
+}
+
+function formatUTCDate(timestamp: number) {
+  return new Date(timestamp).toISOString().slice(0, 19).replace("T", " ");
+}
@@ -1,25 +1,50 @@
 import * as Repo from "lib/temple/repo";
 
+import {
+  ActivityFilter,
+  GetAssetMetadata,
+  matchesActivityFilter,
+} from "./filter";
+
 export type FetchOperationsParams = {
   chainId: string;
   address: string;
   assetIds?: string[];
+  from?: number; // timestamp
+  to?: number; // timestamp
+  filter?: ActivityFilter;
+  getAssetMetadata?: GetAssetMetadata;
   offset?: number;
   limit?: number;
 };
 
+const OPERATION_HASH_PATTERN = /^o[1-9A-HJ-NP-Za-km-z]{50}$/;
+
 export async function fetchOperations({
   chainId,
   address,
   assetIds,
+  from = 0,
+  to = Date.now(),
+  filter,
+  getAssetMetadata,
   offset,
   limit,
 }: FetchOperationsParams) {
   // Base
-  let query = Repo.operations
-    .where("[chainId+addedAt]")
-    .between([chainId, 0], [chainId, Date.now()])
-    .reverse();
+  let query =
+    filter?.search && OPERATION_HASH_PATTERN.test(filter.search)
+      ? // Exact hash lookup goes by primary index
+        Repo.operations
+          .where("hash")
+          .equals(filter.search)
+          .filter(
+            (o) => o.chainId === chainId && o.addedAt >= from && o.addedAt <= to
+          )
+      : Repo.operations
+          .where("[chainId+addedAt]")
+          .between([chainId, from], [chainId, to])
+          .reverse();
 
   // Filter by members & assets
   query = query.filter(
@@ -28,6 +53,13 @@ export async function fetchOperations({
       (assetIds ? o.assetIds.some((aId) => assetIds.includes(aId)) : true)
   );
 
+  // Filter by kinds, counterparties, status etc.
+  if (filter) {
+    query = query.filter((o) =>
+      matchesActivityFilter(o, address, filter, getAssetMetadata)
+    );
+  }
+
   // Sorting
   if (offset) {
     query = query.offset(offset);
@@ -0,0 +1,194 @@
+import { OpKind } from "@taquito/rpc";
+import BigNumber from "bignumber.js";
+
+import * as Repo from "lib/temple/repo";
+
+import { HistoryAssetMetadata, parseHistoryEntries } from "./export";
+import { getOperationStatus } from "./helpers";
+import { parseOpStack } from "./opStack";
+import { OpStackItemType } from "./types";
+
+export type ActivityKind =
+  | "transfer-in"
+  | "transfer-out"
+  | "delegation"
+  | "contract-call"
+  | "origination";
+
+export type ActivityStatus = "applied" | "failed" | "pending";
+
+export interface ActivityFilter {
+  kinds?: ActivityKind[];
+  // Any of operation members. Empty list matches nothing
+  counterparties?: string[];
+  entrypoint?: string;
+  // Absolute amount of any asset diff, in asset units
+  minAmount?: BigNumber.Value;
+  maxAmount?: BigNumber.Value;
+  statuses?: ActivityStatus[];
+  // Matches operation hash
+  search?: string;
+  // Addresses of contacts, which names match search
+  searchAddresses?: string[];
+}
+
+export type GetAssetMetadata = (
+  assetId: string
+) => HistoryAssetMetadata | undefined;
+
+export function isActivityFilterEmpty(filter: ActivityFilter) {
+  return (
+    !filter.kinds?.length &&
+    !filter.counterparties &&
+    !filter.entrypoint &&
+    isEmptyValue(filter.minAmount) &&
+    isEmptyValue(filter.maxAmount) &&
+    !filter.statuses?.length &&
+    !filter.search
+  );
+}
+
+export function matchesActivityFilter(
+  operation: Repo.IOperation,
+  address: string,
+  filter: ActivityFilter,
+  getAssetMetadata?: GetAssetMetadata
+) {
+  const { kinds, counterparties, entrypoint, statuses, search } = filter;
+
+  if (search) {
+    const loweredSearch = search.toLowerCase();
+    const searchAddresses = filter.searchAddresses ?? [];
+    if (
+      !operation.hash.toLowerCase().includes(loweredSearch) &&
+      !operation.members.some(
+        (m) => m !== address && searchAddresses.includes(m)
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (
+    counterparties &&
+    !operation.members.some((m) => m !== address && counterparties.includes(m))
+  ) {
+    return false;
+  }
+
+  if (statuses?.length && !statuses.includes(getActivityStatus(operation))) {
+    return false;
+  }
+
+  if (kinds?.length) {
+    const operationKinds = getActivityKinds(operation, address);
+    if (!kinds.some((k) => operationKinds.includes(k))) {
+      return false;
+    }
+  }
+
+  if (entrypoint) {
+    const loweredEntrypoint = entrypoint.toLowerCase();
+    if (
+      !getOperationEntrypoints(operation).some((e) =>
+        e.toLowerCase().includes(loweredEntrypoint)
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (!isEmptyValue(filter.minAmount) || !isEmptyValue(filter.maxAmount)) {
+    const amounts = parseHistoryEntries(operation, address, getAssetMetadata)
+      .map(({ amount }) => new BigNumber(amount).abs())
+      .filter((amount) => amount.gt(0));
+    if (
+      !amounts.some(
+        (amount) =>
+          (isEmptyValue(filter.minAmount) || amount.gte(filter.minAmount!)) &&
+          (isEmptyValue(filter.maxAmount) || amount.lte(filter.maxAmount!))
+      )
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export function getActivityStatus(operation: Repo.IOperation): ActivityStatus {
+  const status = getOperationStatus(operation);
+  if (!status) return "pending";
+  return status === "applied" ? "applied" : "failed";
+}
+
+export function getActivityKinds(operation: Repo.IOperation, address: string) {
+  const kinds = new Set<ActivityKind>();
+
+  for (const item of parseOpStack(operation, address)) {
+    switch (item.type) {
+      case OpStackItemType.TransferFrom:
+        kinds.add("transfer-in");
+        break;
+
+      case OpStackItemType.TransferTo:
+        kinds.add("transfer-out");
+        break;
+
+      case OpStackItemType.Delegation:
+        kinds.add("delegation");
+        break;
+
+      case OpStackItemType.Interaction:
+        kinds.add("contract-call");
+        break;
+
+      case OpStackItemType.Origination:
+        kinds.add("origination");
+        break;
+
+      case OpStackItemType.Other:
+        // Indexer operations, that are not parsed into op stack items
+        if (item.name === OpKind.ORIGINATION) {
+          kinds.add("origination");
+        } else if (item.name === OpKind.DELEGATION) {
+          kinds.add("delegation");
+        }
+        break;
+    }
+  }
+
+  return Array.from(kinds);
+}
+
+/**
+ * Entrypoints of all contract calls in the group,
+ * including the ones parsed as token transfers
+ */
+export function getOperationEntrypoints(operation: Repo.IOperation) {
+  const { localGroup, tzktGroup } = operation.data;
+  const entrypoints = new Set<string>();
+
+  if (tzktGroup) {
+    for (const tzktOp of tzktGroup) {
+      if (tzktOp.type === "transaction" && tzktOp.parameters) {
+        try {
+          const { entrypoint } = JSON.parse(tzktOp.parameters);
+          if (entrypoint) entrypoints.add(entrypoint);
+        } catch {}
+      }
+    }
+  } else if (localGroup) {
+    for (const op of localGroup) {
+      if (op.kind === OpKind.TRANSACTION && op.parameters) {
+        entrypoints.add(op.parameters.entrypoint);
+      }
+    }
+  }
+
+  return Array.from(entrypoints);
+}
+
+function isEmptyValue(value?: BigNumber.Value) {
+  return value === undefined || value === "";
+}
@@ -1,6 +1,7 @@
 import BigNumber from "bignumber.js";
 
 import { BcdTokenTransfer } from "lib/better-call-dev";
+import * as Repo from "lib/temple/repo";
 
 export function tryParseTokenTransfers(
   parameters: any,
@@ -82,3 +83,22 @@ export function toTokenId(
 export function getBcdTokenTransferId(tokenTrans: BcdTokenTransfer) {
   return `${tokenTrans.hash}_${tokenTrans.nonce}`;
 }
+
+/**
+ * Status of operation, known from indexer or applied block.
+ * Undefined for local operations, that are not synced yet
+ */
+export function getOperationStatus(
+  operation: Repo.IOperation
+): string | undefined {
+  const { tzktGroup, bcdTokenTransfers, localGroup, blockLevel } =
+    operation.data;
+
+  return (
+    tzktGroup?.[0]?.status ??
+    bcdTokenTransfers?.[0]?.status ??
+    (blockLevel !== undefined
+      ? (localGroup?.[0] as any)?.metadata?.operation_result?.status
+      : undefined)
+  );
+}
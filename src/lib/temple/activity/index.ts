@@ -5,3 +5,5 @@ export * from "./sync";
 export * from "./fetch";
 export * from "./moneyDiffs";
 export * from "./opStack";
+export * from "./export";
+export * from "./filter";
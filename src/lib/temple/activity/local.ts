@@ -1,4 +1,8 @@
-import { OperationContentsAndResult, OpKind } from "@taquito/rpc";
+import {
+  OperationContents,
+  OperationContentsAndResult,
+  OpKind,
+} from "@taquito/rpc";
 
 import * as Repo from "lib/temple/repo";
 
@@ -7,12 +11,50 @@ import { isPositiveNumber, tryParseTokenTransfers } from "./helpers";
 export async function addLocalOperation(
   chainId: string,
   hash: string,
-  localGroup: OperationContentsAndResult[]
+  localGroup: (OperationContentsAndResult | OperationContents)[]
+) {
+  const { members, assetIds } = parseLocalGroupMembers(localGroup);
+
+  return Repo.operations.add({
+    hash,
+    chainId,
+    members,
+    assetIds,
+    addedAt: Date.now(),
+    data: {
+      localGroup,
+    },
+  });
+}
+
+/**
+ * Removes operation, that is known only locally,
+ * e.g. dropped from mempool or replaced by another one
+ */
+export async function removeLocalOperation(hash: string) {
+  return Repo.operations
+    .where({ hash })
+    .filter((op) => !op.data.tzktGroup && !op.data.bcdTokenTransfers)
+    .delete();
+}
+
+/**
+ * Collects members & asset ids of the group,
+ * internal operations from metadata included
+ */
+export function parseLocalGroupMembers(
+  localGroup: (OperationContentsAndResult | OperationContents)[]
 ) {
   const memberSet = new Set<string>();
   const assetIdSet = new Set<string>();
 
-  for (const op of localGroup) {
+  const ops: (OperationContentsAndResult | OperationContents)[] =
+    localGroup.flatMap((op) => [
+      op,
+      ...((op as any).metadata?.internal_operation_results ?? []),
+    ]);
+
+  for (const op of ops) {
     // Add sources to members
     switch (op.kind) {
       case OpKind.ACTIVATION:
@@ -63,17 +105,8 @@ export async function addLocalOperation(
     }
   }
 
-  const members = Array.from(memberSet);
-  const assetIds = Array.from(assetIdSet);
-
-  return Repo.operations.add({
-    hash,
-    chainId,
-    members,
-    assetIds,
-    addedAt: Date.now(),
-    data: {
-      localGroup,
-    },
-  });
+  return {
+    members: Array.from(memberSet),
+    assetIds: Array.from(assetIdSet),
+  };
 }
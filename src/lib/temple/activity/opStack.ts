@@ -103,7 +103,9 @@ export function parseOpStack(operation: Repo.IOperation, address: string) {
       if (op.kind === OpKind.ORIGINATION) {
         if (op.source === address) {
           const contract =
-            op?.metadata?.operation_result?.originated_contracts?.[0];
+            "metadata" in op
+              ? op.metadata.operation_result?.originated_contracts?.[0]
+              : undefined;
           opStack.push({
             type: OpStackItemType.Origination,
             contract,
@@ -0,0 +1,152 @@
+import { OperationContentsAndResult, RpcClient } from "@taquito/rpc";
+
+import * as Repo from "lib/temple/repo";
+
+import { parseLocalGroupMembers } from "./local";
+
+const RPC_SYNC_BLOCKS = 20;
+
+export interface RpcScannedBlock {
+  level: number;
+  timestamp: number;
+  operations: {
+    hash: string;
+    contents: OperationContentsAndResult[];
+  }[];
+}
+
+/**
+ * Fallback for networks without indexer.
+ * Scans blocks from node directly, a batch of blocks at a time.
+ */
+export async function syncRpcOperations(
+  type: "new" | "old",
+  chainId: string,
+  address: string,
+  rpcBaseURL: string
+) {
+  const rpc = new RpcClient(rpcBaseURL);
+  const rpcTime = await Repo.syncTimes.get({
+    service: "rpc",
+    chainId,
+    address,
+  });
+  const fresh = type === "new";
+
+  let fromLevel: number, toLevel: number;
+  if (!rpcTime) {
+    const { level } = await rpc.getBlockHeader();
+    toLevel = level;
+    fromLevel = level - RPC_SYNC_BLOCKS + 1;
+  } else if (fresh) {
+    const { level } = await rpc.getBlockHeader();
+    fromLevel = rpcTime.higherLevel! + 1;
+    toLevel = Math.min(level, fromLevel + RPC_SYNC_BLOCKS - 1);
+  } else {
+    toLevel = rpcTime.lowerLevel! - 1;
+    fromLevel = toLevel - RPC_SYNC_BLOCKS + 1;
+  }
+  // Genesis block has no operations
+  fromLevel = Math.max(fromLevel, 1);
+
+  if (fromLevel > toLevel) {
+    return 0;
+  }
+
+  const blocks = await scanBlocks(rpc, address, fromLevel, toLevel);
+  let count = 0;
+
+  for (const block of blocks) {
+    for (const { hash, contents } of block.operations) {
+      const current = await Repo.operations.get(hash);
+      const { members, assetIds } = parseLocalGroupMembers(contents);
+
+      if (!current) {
+        await Repo.operations.add({
+          hash,
+          chainId,
+          members,
+          assetIds,
+          addedAt: block.timestamp,
+          data: {
+            localGroup: contents,
+            blockLevel: block.level,
+          },
+        });
+      } else {
+        await Repo.operations.where({ hash }).modify((op) => {
+          op.members = Array.from(new Set([...op.members, ...members]));
+          op.assetIds = Array.from(new Set([...op.assetIds, ...assetIds]));
+          op.data.localGroup = contents;
+          op.data.blockLevel = block.level;
+        });
+      }
+
+      count++;
+    }
+  }
+
+  const higherBlock = blocks[0];
+  const lowerBlock = blocks[blocks.length - 1];
+
+  if (!rpcTime) {
+    await Repo.syncTimes.add({
+      service: "rpc",
+      chainId,
+      address,
+      higherTimestamp: higherBlock.timestamp,
+      lowerTimestamp: lowerBlock.timestamp,
+      higherLevel: higherBlock.level,
+      lowerLevel: lowerBlock.level,
+    });
+  } else {
+    await Repo.syncTimes
+      .where({ service: "rpc", chainId, address })
+      .modify((st) => {
+        if (fresh) {
+          st.higherTimestamp = higherBlock.timestamp;
+          st.higherLevel = higherBlock.level;
+        } else {
+          st.lowerTimestamp = lowerBlock.timestamp;
+          st.lowerLevel = lowerBlock.level;
+        }
+      });
+  }
+
+  return count;
+}
+
+/**
+ * Loads blocks in range from the highest one,
+ * and picks operations the address is involved into
+ */
+export async function scanBlocks(
+  rpc: RpcClient,
+  address: string,
+  fromLevel: number,
+  toLevel: number
+) {
+  const blocks: RpcScannedBlock[] = [];
+
+  for (let level = toLevel; level >= fromLevel; level--) {
+    const block = await rpc.getBlock({ block: String(level) });
+
+    const operations = block.operations
+      .flat()
+      .map(({ hash, contents }) => ({
+        hash,
+        contents: contents as OperationContentsAndResult[],
+      }))
+      .filter(({ contents }) =>
+        parseLocalGroupMembers(contents).members.includes(address)
+      );
+
+    blocks.push({
+      level: block.header.level,
+      timestamp: +new Date(block.header.timestamp),
+      operations,
+    });
+  }
+
+  return blocks;
+}
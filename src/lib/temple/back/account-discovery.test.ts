@@ -0,0 +1,93 @@
+import BigNumber from "bignumber.js";
+
+import * as Helpers from "lib/temple/helpers";
+import { TempleChainId } from "lib/temple/types";
+import { getAccount } from "lib/tzkt";
+
+import {
+  discoverAccounts,
+  isAccountUsed,
+  toDerivationPathTemplate,
+} from "./account-discovery";
+
+jest.mock("lib/tzkt", () => ({
+  ...jest.requireActual<object>("lib/tzkt"),
+  getAccount: jest.fn(),
+}));
+
+const toDerivationPath = (index: number) => `m/44'/1729'/${index}'/0'`;
+const derivePublicKeyHash = async (derivationPath: string) =>
+  `tz1${derivationPath}`;
+
+describe("Account discovery tests", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("discoverAccounts stops after gap limit test", async () => {
+    const used = new Set([0, 2, 6].map(toDerivationPath).map((p) => `tz1${p}`));
+    const isUsed = jest.fn(async (pkh: string) => used.has(pkh));
+
+    const accounts = await discoverAccounts(
+      toDerivationPath,
+      derivePublicKeyHash,
+      isUsed,
+      3
+    );
+    expect(accounts.map((acc) => acc.index)).toEqual([0, 2]);
+    expect(accounts[1].derivationPath).toBe("m/44'/1729'/2'/0'");
+    expect(accounts[1].publicKeyHash).toBe("tz1m/44'/1729'/2'/0'");
+    expect(isUsed).toHaveBeenCalledTimes(6);
+
+    const moreAccounts = await discoverAccounts(
+      toDerivationPath,
+      derivePublicKeyHash,
+      isUsed,
+      4
+    );
+    expect(moreAccounts.map((acc) => acc.index)).toEqual([0, 2, 6]);
+  });
+
+  it("discoverAccounts with invalid gap limit test", async () => {
+    const isUsed = async () => false;
+    for (const gapLimit of [0, -1, 1.5, 51]) {
+      await expect(
+        discoverAccounts(
+          toDerivationPath,
+          derivePublicKeyHash,
+          isUsed,
+          gapLimit
+        )
+      ).rejects.toThrow("Gap limit should be an integer from 1 to 50");
+    }
+  });
+
+  it("isAccountUsed with tokens only test", async () => {
+    const rpcUrl = "https://mainnet.example.com";
+    jest.spyOn(Helpers, "loadFastRpcClient").mockReturnValue({
+      getContract: async () => ({ balance: new BigNumber(0), counter: "0" }),
+    } as any);
+    jest.spyOn(Helpers, "loadChainId").mockResolvedValue(TempleChainId.Mainnet);
+    const tzktAccount = getAccount as jest.Mock;
+
+    tzktAccount.mockResolvedValue({ type: "ghost" });
+    expect(await isAccountUsed(rpcUrl, "tz1token")).toBe(true);
+    expect(tzktAccount).toHaveBeenCalledWith(TempleChainId.Mainnet, {
+      address: "tz1token",
+    });
+
+    tzktAccount.mockResolvedValue({ type: "empty" });
+    expect(await isAccountUsed(rpcUrl, "tz1unused")).toBe(false);
+  });
+
+  it("toDerivationPathTemplate test", () => {
+    expect(toDerivationPathTemplate("m/44'/1729'/i'/0'")(5)).toBe(
+      "m/44'/1729'/5'/0'"
+    );
+    expect(toDerivationPathTemplate("m/44'/1729'/0'/i")(7)).toBe(
+      "m/44'/1729'/0'/7"
+    );
+    expect(() => toDerivationPathTemplate("m/44'/1729'/0'/0'")).toThrow();
+    expect(() => toDerivationPathTemplate("m/44'/1729'/i'/i'")).toThrow();
+  });
+});
@@ -0,0 +1,110 @@
+import { HttpResponseError, STATUS_CODE } from "@taquito/http-utils";
+
+import { PublicError } from "lib/temple/back/defaults";
+import { loadChainId, loadFastRpcClient } from "lib/temple/helpers";
+import { isKnownChainId, TempleDiscoveredAccount } from "lib/temple/types";
+import { getAccount, TZKT_API_BASE_URLS } from "lib/tzkt";
+
+export const DEFAULT_GAP_LIMIT = 5;
+export const MAX_GAP_LIMIT = 50;
+export const DERIVATION_PATH_INDEX_PLACEHOLDER = "i";
+export const MAX_LEDGER_DISCOVERY_COUNT = 20;
+
+const MAX_DISCOVERED_ACCOUNTS = 100;
+
+/**
+ * Derives consecutive accounts and collects the used ones
+ * until `gapLimit` unused accounts in a row are found
+ */
+export async function discoverAccounts(
+  toDerivationPath: (index: number) => string,
+  derivePublicKeyHash: (derivationPath: string) => Promise<string>,
+  isUsed: (publicKeyHash: string) => Promise<boolean>,
+  gapLimit = DEFAULT_GAP_LIMIT
+) {
+  if (!Number.isInteger(gapLimit) || gapLimit < 1 || gapLimit > MAX_GAP_LIMIT) {
+    throw new PublicError(
+      `Gap limit should be an integer from 1 to ${MAX_GAP_LIMIT}`
+    );
+  }
+
+  const discovered: TempleDiscoveredAccount[] = [];
+  for (
+    let index = 0, gap = 0;
+    gap < gapLimit && discovered.length < MAX_DISCOVERED_ACCOUNTS;
+    index++
+  ) {
+    const derivationPath = toDerivationPath(index);
+    const publicKeyHash = await derivePublicKeyHash(derivationPath);
+
+    if (await isUsed(publicKeyHash)) {
+      discovered.push({ index, derivationPath, publicKeyHash });
+      gap = 0;
+    } else {
+      gap++;
+    }
+  }
+
+  return discovered;
+}
+
+/**
+ * Implicit account is considered used if it has balance,
+ * has ever sent an operation (including reveal)
+ * or has any history on TzKT, e.g. received tokens only
+ */
+export async function isAccountUsed(rpcUrl: string, publicKeyHash: string) {
+  return (
+    (await hasBalanceOrCounter(rpcUrl, publicKeyHash)) ||
+    (await hasTzktHistory(rpcUrl, publicKeyHash))
+  );
+}
+
+async function hasBalanceOrCounter(rpcUrl: string, publicKeyHash: string) {
+  try {
+    const { balance, counter } = await loadFastRpcClient(rpcUrl).getContract(
+      publicKeyHash
+    );
+    return !balance.isZero() || +(counter ?? 0) > 0;
+  } catch (err) {
+    if (
+      err instanceof HttpResponseError &&
+      err.status === STATUS_CODE.NOT_FOUND
+    ) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+// Networks without TzKT API are checked by RPC only
+async function hasTzktHistory(rpcUrl: string, publicKeyHash: string) {
+  const chainId = await loadChainId(rpcUrl);
+  if (!isKnownChainId(chainId) || !TZKT_API_BASE_URLS.has(chainId)) {
+    return false;
+  }
+
+  const { type } = await getAccount(chainId, { address: publicKeyHash });
+  return type !== "empty";
+}
+
+export function toDerivationPathTemplate(derivationPath: string) {
+  const placeholders = derivationPath
+    .split("/")
+    .filter(
+      (part) => part.replace("'", "") === DERIVATION_PATH_INDEX_PLACEHOLDER
+    );
+  if (placeholders.length !== 1) {
+    throw new PublicError(
+      `Derivation path should contain one '${DERIVATION_PATH_INDEX_PLACEHOLDER}' in place of account index`
+    );
+  }
+
+  return (index: number) =>
+    derivationPath
+      .split("/")
+      .map((part) =>
+        part.replace(DERIVATION_PATH_INDEX_PLACEHOLDER, String(index))
+      )
+      .join("/");
+}
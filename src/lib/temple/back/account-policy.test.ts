@@ -0,0 +1,209 @@
+import { localForger } from "@taquito/local-forging";
+
+import { Vault } from "lib/temple/back/vault";
+
+import {
+  addSpendings,
+  assertAccountPolicy,
+  sendOperationsUnderPolicy,
+  signUnderPolicy,
+  subtractSpendings,
+} from "./account-policy";
+
+const SOURCE = "tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb";
+const RECIPIENT = "tz1aSkwEot3L2kmUvcoxzjMomb9mvBNuzFK6";
+const TOKEN = "KT1PWx2mnDueood7fEmfbBDKx1D9BAnnXitn";
+
+const BRANCH = "BLockGenesisGenesisGenesisGenesisGenesisf79b5d1CoW2";
+
+const tezTransfer = (amount: number, to = RECIPIENT) => ({
+  kind: "transaction",
+  to,
+  amount,
+});
+
+const tokenTransfer = (amount: number, to = RECIPIENT) => ({
+  kind: "transaction",
+  to: TOKEN,
+  amount: 0,
+  mutez: true,
+  parameter: {
+    entrypoint: "transfer",
+    value: {
+      prim: "Pair",
+      args: [
+        { string: SOURCE },
+        { prim: "Pair", args: [{ string: to }, { int: String(amount) }] },
+      ],
+    },
+  },
+});
+
+describe("Account policy tests", () => {
+  it("assertAccountPolicy returns spendings test", () => {
+    expect(assertAccountPolicy(undefined, [tezTransfer(1.5)], SOURCE)).toEqual({
+      tez: "1500000",
+    });
+
+    expect(
+      assertAccountPolicy(
+        {},
+        [
+          { ...tezTransfer(500), mutez: true },
+          tokenTransfer(10),
+          tokenTransfer(5),
+        ],
+        SOURCE
+      )
+    ).toEqual({ tez: "500", [`${TOKEN}_0`]: "15" });
+  });
+
+  it("assertAccountPolicy daily limits test", () => {
+    const policy = { dailyLimits: { tez: "2000000", [`${TOKEN}_0`]: "20" } };
+
+    expect(() =>
+      assertAccountPolicy(policy, [tezTransfer(1)], SOURCE, { tez: "1000000" })
+    ).not.toThrow();
+    expect(() =>
+      assertAccountPolicy(policy, [tezTransfer(1)], SOURCE, { tez: "1000001" })
+    ).toThrow("Daily spending limit of 2 tez is exceeded");
+    expect(() =>
+      assertAccountPolicy(policy, [tokenTransfer(15)], SOURCE, {
+        [`${TOKEN}_0`]: "10",
+      })
+    ).toThrow(`Daily spending limit for token ${TOKEN}_0 is exceeded`);
+
+    // Already exceeded limit doesn't block other assets
+    expect(() =>
+      assertAccountPolicy(policy, [tokenTransfer(15)], SOURCE, {
+        tez: "5000000",
+      })
+    ).not.toThrow();
+  });
+
+  it("assertAccountPolicy destinations and entrypoints test", () => {
+    const policy = {
+      allowedDestinations: [RECIPIENT, TOKEN],
+      blockedEntrypoints: ["approve"],
+    };
+
+    expect(() =>
+      assertAccountPolicy(policy, [tezTransfer(1), tokenTransfer(1)], SOURCE)
+    ).not.toThrow();
+    expect(() =>
+      assertAccountPolicy(policy, [tezTransfer(1, TOKEN)], SOURCE)
+    ).not.toThrow();
+    expect(() =>
+      assertAccountPolicy(policy, [tezTransfer(1, SOURCE + "x")], SOURCE)
+    ).toThrow("is not allowed by account policy");
+    expect(() =>
+      assertAccountPolicy(policy, [tokenTransfer(1, SOURCE + "x")], SOURCE)
+    ).toThrow("is not allowed by account policy");
+    expect(() =>
+      assertAccountPolicy(
+        policy,
+        [
+          {
+            ...tokenTransfer(1),
+            parameter: { entrypoint: "approve", value: { int: "0" } },
+          },
+        ],
+        SOURCE
+      )
+    ).toThrow('Calling "approve" entrypoint is blocked by account policy');
+  });
+
+  it("addSpendings test", () => {
+    expect(addSpendings({ tez: "1", a: "2" }, { tez: "3", b: "4" })).toEqual({
+      tez: "4",
+      a: "2",
+      b: "4",
+    });
+  });
+
+  it("subtractSpendings test", () => {
+    expect(
+      subtractSpendings({ tez: "5", a: "2" }, { tez: "3", a: "4", b: "1" })
+    ).toEqual({
+      tez: "2",
+      a: "0",
+    });
+  });
+
+  it("signUnderPolicy checks operation bytes test", async () => {
+    const policy = { dailyLimits: { tez: "2000000" } };
+    const vault = createVault(policy);
+    const forgeTransfer = (amount: string) =>
+      localForger.forge({
+        branch: BRANCH,
+        contents: [
+          {
+            kind: "transaction" as any,
+            source: SOURCE,
+            fee: "1420",
+            counter: "1",
+            gas_limit: "10600",
+            storage_limit: "300",
+            amount,
+            destination: RECIPIENT,
+          },
+        ],
+      });
+
+    const bytes = await forgeTransfer("1500000");
+    await expect(signUnderPolicy(vault, SOURCE, bytes, "03")).resolves.toEqual({
+      prefixSig: "sig",
+    });
+    expect(vault.addAccountSpendings).toBeCalledWith(SOURCE, {
+      tez: "1500000",
+    });
+
+    const tooMuch = await forgeTransfer("3000000");
+    await expect(
+      signUnderPolicy(vault, SOURCE, `03${tooMuch}`)
+    ).rejects.toThrow("Daily spending limit of 2 tez is exceeded");
+    await expect(signUnderPolicy(vault, SOURCE, "03ffff")).rejects.toThrow(
+      "Operation can't be checked against account policy"
+    );
+    expect(vault.sign).toBeCalledTimes(1);
+
+    await signUnderPolicy(vault, SOURCE, `05${tooMuch}`);
+    await signUnderPolicy(createVault(undefined), SOURCE, `03${tooMuch}`);
+    expect(vault.sign).toBeCalledTimes(2);
+  });
+
+  it("sendOperationsUnderPolicy handles parallel calls one by one test", async () => {
+    const vault = createVault({ dailyLimits: { tez: "2000000" } });
+    const send = () =>
+      sendOperationsUnderPolicy(vault, SOURCE, "https://rpc", [
+        tezTransfer(1.5),
+      ]);
+
+    const results = await Promise.allSettled([send(), send()]);
+    expect(results.map(({ status }) => status)).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(vault.sendOperations).toBeCalledTimes(1);
+  });
+});
+
+function createVault(policy: any) {
+  let spentToday = {};
+  return {
+    fetchAccounts: async () => [{ publicKeyHash: SOURCE, policy }],
+    checkAccountPolicy: async (pkh: string, opParams: any[]) =>
+      assertAccountPolicy(policy, opParams, pkh, spentToday),
+    sign: jest.fn(async () => ({ prefixSig: "sig" })),
+    sendOperations: jest.fn(
+      () => new Promise((res) => setTimeout(() => res({ hash: "oo" }), 10))
+    ),
+    addAccountSpendings: jest.fn(async (_pkh: string, spendings: any) => {
+      spentToday = addSpendings(spentToday, spendings);
+    }),
+  } as unknown as Vault & {
+    sign: jest.Mock;
+    sendOperations: jest.Mock;
+    addAccountSpendings: jest.Mock;
+  };
+}
@@ -0,0 +1,230 @@
+import { localForger } from "@taquito/local-forging";
+import BigNumber from "bignumber.js";
+
+import { createQueue } from "lib/queue";
+import { PublicError } from "lib/temple/back/defaults";
+import { Vault } from "lib/temple/back/vault";
+import { tryParseExpensesPure } from "lib/temple/front/expenses";
+import { mutezToTz, tzToMutez } from "lib/temple/helpers";
+import { TempleAccountPolicy } from "lib/temple/types";
+
+export const TEZ_ASSET_SLUG = "tez";
+
+const OPERATION_WATERMARK = "03";
+
+const accountQueues = new Map<string, ReturnType<typeof createQueue>>();
+
+export class PolicyViolationError extends PublicError {}
+
+// Asset slug -> spent amount in atoms
+export type AssetSpendings = Record<string, string>;
+
+export interface AccountSpendings {
+  day: string;
+  spendings: AssetSpendings;
+}
+
+/**
+ * Checks operations against account policy and returns
+ * amounts of assets they would spend. Fees are not counted.
+ */
+export function assertAccountPolicy(
+  policy: TempleAccountPolicy | undefined,
+  opParams: any[],
+  sourcePkh: string,
+  spentToday: AssetSpendings = {}
+) {
+  const parsed = tryParseExpensesPure(toMutezOpParams(opParams), sourcePkh);
+
+  const blockedEntrypoints = policy?.blockedEntrypoints ?? [];
+  for (const { type, isEntrypointInteraction } of parsed) {
+    if (isEntrypointInteraction && blockedEntrypoints.includes(type)) {
+      throw new PolicyViolationError(
+        `Calling "${type}" entrypoint is blocked by account policy`
+      );
+    }
+  }
+
+  const allowedDestinations = policy?.allowedDestinations;
+  if (allowedDestinations) {
+    for (const { contractAddress, expenses } of parsed) {
+      const destinations = [
+        contractAddress,
+        ...expenses.map(({ to }) => to),
+      ].filter((to): to is string => Boolean(to) && to !== sourcePkh);
+
+      const notAllowed = destinations.find(
+        (to) => !allowedDestinations.includes(to)
+      );
+      if (notAllowed) {
+        throw new PolicyViolationError(
+          `Destination ${notAllowed} is not allowed by account policy`
+        );
+      }
+    }
+  }
+
+  const spendings: AssetSpendings = {};
+  for (const { expenses } of parsed) {
+    for (const { tokenAddress, tokenId, amount } of expenses) {
+      const slug = tokenAddress
+        ? `${tokenAddress}_${tokenId ?? 0}`
+        : TEZ_ASSET_SLUG;
+      spendings[slug] = amount.plus(spendings[slug] ?? 0).toFixed();
+    }
+  }
+
+  const dailyLimits = policy?.dailyLimits ?? {};
+  for (const [slug, limit] of Object.entries(dailyLimits)) {
+    const total = new BigNumber(spentToday[slug] ?? 0).plus(
+      spendings[slug] ?? 0
+    );
+    if (spendings[slug] && total.isGreaterThan(limit)) {
+      const left = BigNumber.max(
+        new BigNumber(limit).minus(spentToday[slug] ?? 0),
+        0
+      );
+      throw new PolicyViolationError(
+        slug === TEZ_ASSET_SLUG
+          ? `Daily spending limit of ${mutezToTz(limit)} tez is exceeded. ` +
+            `Left for today: ${mutezToTz(left)} tez`
+          : `Daily spending limit for token ${slug} is exceeded. ` +
+            `Left for today: ${left} (in atomic units)`
+      );
+    }
+  }
+
+  return spendings;
+}
+
+/**
+ * Sends operations only if they follow account policy
+ * and counts assets spent by them towards daily limits
+ */
+export async function sendOperationsUnderPolicy(
+  vault: Vault,
+  sourcePkh: string,
+  networkRpc: string,
+  opParams: any[]
+) {
+  return enqueueUnderPolicy(sourcePkh, async () => {
+    const spendings = await vault.checkAccountPolicy(sourcePkh, opParams);
+    const op = await vault.sendOperations(sourcePkh, networkRpc, opParams);
+
+    try {
+      await vault.addAccountSpendings(sourcePkh, spendings);
+    } catch {}
+
+    return op;
+  });
+}
+
+/**
+ * Signed operation bytes can be broadcasted later,
+ * so they follow account policy the same way as sent operations
+ */
+export async function signUnderPolicy(
+  vault: Vault,
+  sourcePkh: string,
+  bytes: string,
+  watermark?: string
+) {
+  const opBytes = getOperationBytes(bytes, watermark);
+  const allAccounts = await vault.fetchAccounts();
+  const acc = allAccounts.find((a) => a.publicKeyHash === sourcePkh);
+  if (opBytes === null || !acc?.policy) {
+    return vault.sign(sourcePkh, bytes, watermark);
+  }
+
+  // Parsed contents are forged back to be sure nothing was skipped
+  let contents: any[] | undefined;
+  try {
+    const parsed = await localForger.parse(opBytes);
+    const forged = await localForger.forge(parsed);
+    if (forged === opBytes.toLowerCase() && parsed.contents.length > 0) {
+      contents = parsed.contents;
+    }
+  } catch {}
+
+  if (!contents) {
+    throw new PolicyViolationError(
+      "Operation can't be checked against account policy"
+    );
+  }
+
+  const policyOpParams = toPolicyOpParams(contents);
+  return enqueueUnderPolicy(sourcePkh, async () => {
+    const spendings = await vault.checkAccountPolicy(sourcePkh, policyOpParams);
+    const result = await vault.sign(sourcePkh, bytes, watermark);
+
+    try {
+      await vault.addAccountSpendings(sourcePkh, spendings);
+    } catch {}
+
+    return result;
+  });
+}
+
+/**
+ * Policy check, sending and counting of spendings for an account
+ * are done one at a time, so parallel requests can't exceed limits
+ */
+export function enqueueUnderPolicy<T>(
+  accPublicKeyHash: string,
+  factory: () => Promise<T>
+) {
+  let enqueue = accountQueues.get(accPublicKeyHash);
+  if (!enqueue) {
+    enqueue = createQueue();
+    accountQueues.set(accPublicKeyHash, enqueue);
+  }
+  return enqueue(factory);
+}
+
+function getOperationBytes(bytes: string, watermark?: string) {
+  if (watermark !== undefined) {
+    return watermark === OPERATION_WATERMARK ? bytes : null;
+  }
+  return bytes.startsWith(OPERATION_WATERMARK) ? bytes.slice(2) : null;
+}
+
+export function addSpendings(a: AssetSpendings, b: AssetSpendings) {
+  const result = { ...a };
+  for (const [slug, amount] of Object.entries(b)) {
+    result[slug] = new BigNumber(result[slug] ?? 0).plus(amount).toFixed();
+  }
+  return result;
+}
+
+export function subtractSpendings(a: AssetSpendings, b: AssetSpendings) {
+  const result = { ...a };
+  for (const [slug, amount] of Object.entries(b)) {
+    if (!(slug in result)) continue;
+    result[slug] = BigNumber.max(
+      new BigNumber(result[slug]).minus(amount),
+      0
+    ).toFixed();
+  }
+  return result;
+}
+
+export function getSpendingsDay(date = new Date()) {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].join("-");
+}
+
+/**
+ * Operations from internal forms have amounts in tez,
+ * from DApps and Beacon - in mutez
+ */
+export function toMutezOpParams(opParams: any[]) {
+  return opParams.map((op) =>
+    op.amount !== undefined && !op.mutez
+      ? { ...op, amount: tzToMutez(op.amount).toFixed(), mutez: true }
+      : op
+  );
+}
+
+// Amounts of RPC contents are in mutez already
+export function toPolicyOpParams(contents: any[]) {
+  return contents.map((content) => ({ ...content, mutez: true }));
+}
@@ -1,26 +1,42 @@
 import { DerivationType } from "@taquito/ledger-signer";
 import { TezosOperationError } from "@taquito/taquito";
 import {
-  TempleDAppMessageType,
   TempleDAppErrorType,
   TempleDAppRequest,
   TempleDAppResponse,
 } from "@temple-wallet/dapp/dist/types";
 import { browser, Runtime } from "webextension-polyfill-ts";
 
-import { createQueue } from "lib/queue";
 import { addLocalOperation } from "lib/temple/activity";
+import { isAccountUsed } from "lib/temple/back/account-discovery";
+import {
+  sendOperationsUnderPolicy,
+  signUnderPolicy,
+} from "lib/temple/back/account-policy";
+import * as Backup from "lib/temple/back/backup";
+import * as BeaconP2P from "lib/temple/back/beacon-p2p";
+import * as Confirmations from "lib/temple/back/confirmations";
 import {
   getCurrentPermission,
   requestPermission,
   requestOperation,
   requestSign,
+  requestPermit,
   requestBroadcast,
   getAllDApps,
   removeDApp,
+  setDAppScopes,
+  setDAppAutoApprovePolicy,
+  enqueueDAppRequest,
+  TempleDAppScopedPermissionRequest,
+  TempleDAppScopedPermissionResponse,
 } from "lib/temple/back/dapp";
+import { withDAppActivity } from "lib/temple/back/dapp-activity";
+import { getAutoApprovedOperations } from "lib/temple/back/dapp-auto-approve";
 import { intercom } from "lib/temple/back/defaults";
 import { buildFinalOpParmas, dryRunOpParams } from "lib/temple/back/dryrun";
+import * as OriginReputation from "lib/temple/back/origin-reputation";
+import * as PendingOps from "lib/temple/back/pending-ops";
 import {
   toFront,
   store,
@@ -34,21 +50,29 @@ import {
 } from "lib/temple/back/store";
 import { Vault } from "lib/temple/back/vault";
 import * as Beacon from "lib/temple/beacon";
-import { loadChainId } from "lib/temple/helpers";
+import { isAddressValid, loadChainId } from "lib/temple/helpers";
 import {
+  TempleAccountPolicy,
+  TempleConfirmationPayload,
+  TempleDAppAutoApprovePolicy,
+  TempleDAppMessageType,
+  TempleDAppPermitRequest,
+  TempleDAppPermitResponse,
+  TempleDAppScope,
   TempleState,
   TempleMessageType,
   TempleRequest,
   TempleSettings,
   TempleSharedStorageKey,
+  TempleDiscoveredAccount,
+  TempleLedgerDiscoveredAccount,
 } from "lib/temple/types";
 
 const ACCOUNT_NAME_PATTERN = /^[a-zA-Z0-9 _-]{1,16}$/;
+const ENTRYPOINT_PATTERN = /^[a-zA-Z0-9_]{1,31}$/;
 const AUTODECLINE_AFTER = 60_000;
 const BEACON_ID = `temple_wallet_${browser.runtime.id}`;
 
-const enqueueDApp = createQueue();
-
 export async function init() {
   const vaultExist = await Vault.isExist();
   inited(vaultExist);
@@ -84,6 +108,17 @@ export function registerNewWallet(password: string, mnemonic?: string) {
   });
 }
 
+export function restoreBackup(
+  password: string,
+  backup: string,
+  backupPassword: string
+) {
+  return withInited(async () => {
+    await Backup.restoreBackup(password, backup, backupPassword);
+    await unlock(password);
+  });
+}
+
 export function lock() {
   return withInited(async () => {
     locked();
@@ -99,7 +134,19 @@ export function unlock(password: string) {
   });
 }
 
-export function createHDAccount(name?: string) {
+export function changePassword(password: string, newPassword: string) {
+  return withUnlocked(async () => {
+    const vault = await Vault.changePassword(password, newPassword);
+    const accounts = await vault.fetchAccounts();
+    const settings = await vault.fetchSettings();
+    unlocked({ vault, accounts, settings });
+  });
+}
+
+export function createHDAccount(
+  name?: string,
+  derivationType?: DerivationType
+) {
   return withUnlocked(async ({ vault }) => {
     if (name) {
       name = name.trim();
@@ -110,7 +157,11 @@ export function createHDAccount(name?: string) {
       }
     }
 
-    const updatedAccounts = await vault.createHDAccount(name);
+    const updatedAccounts = await vault.createHDAccount(
+      name,
+      undefined,
+      derivationType
+    );
     accountsUpdated(updatedAccounts);
   });
 }
@@ -119,6 +170,10 @@ export function revealMnemonic(password: string) {
   return withUnlocked(() => Vault.revealMnemonic(password));
 }
 
+export function createBackup(password: string, backupPassword: string) {
+  return withUnlocked(() => Backup.createBackup(password, backupPassword));
+}
+
 export function revealPrivateKey(accPublicKeyHash: string, password: string) {
   return withUnlocked(() => Vault.revealPrivateKey(accPublicKeyHash, password));
 }
@@ -151,6 +206,53 @@ export function editAccount(accPublicKeyHash: string, name: string) {
   });
 }
 
+export function reorderAccounts(accPublicKeyHashes: string[]) {
+  return withUnlocked(async ({ vault }) => {
+    const updatedAccounts = await vault.reorderAccounts(accPublicKeyHashes);
+    accountsUpdated(updatedAccounts);
+  });
+}
+
+export function setAccountGroup(accPublicKeyHash: string, groupName?: string) {
+  return withUnlocked(async ({ vault }) => {
+    groupName = groupName?.trim() || undefined;
+    if (groupName && !ACCOUNT_NAME_PATTERN.test(groupName)) {
+      throw new Error(
+        "Invalid group name. It should be: 1-16 characters, without special"
+      );
+    }
+
+    const updatedAccounts = await vault.setAccountGroup(
+      accPublicKeyHash,
+      groupName
+    );
+    accountsUpdated(updatedAccounts);
+  });
+}
+
+export function setAccountPolicy(
+  accPublicKeyHash: string,
+  policy?: TempleAccountPolicy
+) {
+  return withUnlocked(async ({ vault }) => {
+    const updatedAccounts = await vault.setAccountPolicy(
+      accPublicKeyHash,
+      policy && validateAccountPolicy(policy)
+    );
+    accountsUpdated(updatedAccounts);
+  });
+}
+
+export function setAccountHidden(accPublicKeyHash: string, hidden: boolean) {
+  return withUnlocked(async ({ vault }) => {
+    const updatedAccounts = await vault.setAccountHidden(
+      accPublicKeyHash,
+      hidden
+    );
+    accountsUpdated(updatedAccounts);
+  });
+}
+
 export function importAccount(privateKey: string, encPassword?: string) {
   return withUnlocked(async ({ vault }) => {
     const updatedAccounts = await vault.importAccount(privateKey, encPassword);
@@ -161,18 +263,71 @@ export function importAccount(privateKey: string, encPassword?: string) {
 export function importMnemonicAccount(
   mnemonic: string,
   password?: string,
-  derivationPath?: string
+  derivationPath?: string,
+  derivationType?: DerivationType
 ) {
   return withUnlocked(async ({ vault }) => {
     const updatedAccounts = await vault.importMnemonicAccount(
       mnemonic,
       password,
-      derivationPath
+      derivationPath,
+      derivationType
     );
     accountsUpdated(updatedAccounts);
   });
 }
 
+export function discoverAccounts(
+  rpcUrl: string,
+  derivationType?: DerivationType,
+  gapLimit?: number,
+  mnemonic?: string,
+  password?: string,
+  derivationPath = "m/44'/1729'/i'/0'"
+) {
+  return withUnlocked(({ vault }) => {
+    const isUsed = (publicKeyHash: string) =>
+      isAccountUsed(rpcUrl, publicKeyHash);
+
+    return mnemonic
+      ? Vault.discoverMnemonicAccounts(
+          mnemonic,
+          password,
+          derivationPath,
+          isUsed,
+          derivationType,
+          gapLimit
+        )
+      : vault.discoverHDAccounts(isUsed, derivationType, gapLimit);
+  });
+}
+
+export function importDiscoveredAccounts(
+  accounts: TempleDiscoveredAccount[],
+  derivationType?: DerivationType,
+  mnemonic?: string,
+  password?: string
+) {
+  return withUnlocked(async ({ vault }) => {
+    let updatedAccounts = await vault.fetchAccounts();
+    for (const { index, derivationPath, publicKeyHash } of accounts) {
+      if (updatedAccounts.some((acc) => acc.publicKeyHash === publicKeyHash)) {
+        continue;
+      }
+
+      updatedAccounts = mnemonic
+        ? await vault.importMnemonicAccount(
+            mnemonic,
+            password,
+            derivationPath,
+            derivationType
+          )
+        : await vault.createHDAccount(undefined, index, derivationType);
+    }
+    accountsUpdated(updatedAccounts);
+  });
+}
+
 export function importFundraiserAccount(
   email: string,
   password: string,
@@ -213,6 +368,16 @@ export function importWatchOnlyAccount(address: string, chainId?: string) {
   });
 }
 
+export function importMultisigAccount(address: string, networkRpc: string) {
+  return withUnlocked(async ({ vault }) => {
+    const updatedAccounts = await vault.importMultisigAccount(
+      address,
+      networkRpc
+    );
+    accountsUpdated(updatedAccounts);
+  });
+}
+
 export function craeteLedgerAccount(
   name: string,
   derivationPath?: string,
@@ -228,6 +393,25 @@ export function craeteLedgerAccount(
   });
 }
 
+export function discoverLedgerAccounts(
+  derivationTypes: DerivationType[],
+  fromIndex: number,
+  count: number
+) {
+  return withUnlocked(() =>
+    Vault.discoverLedgerAccounts(derivationTypes, fromIndex, count)
+  );
+}
+
+export function createLedgerAccounts(
+  accounts: TempleLedgerDiscoveredAccount[]
+) {
+  return withUnlocked(async ({ vault }) => {
+    const updatedAccounts = await vault.createLedgerAccounts(accounts);
+    accountsUpdated(updatedAccounts);
+  });
+}
+
 export function updateSettings(settings: Partial<TempleSettings>) {
   return withUnlocked(async ({ vault }) => {
     const updatedSettings = await vault.updateSettings(settings);
@@ -240,10 +424,177 @@ export function getAllDAppSessions() {
   return getAllDApps();
 }
 
-export function removeDAppSession(origin: string) {
+export async function removeDAppSession(origin: string) {
+  if (BeaconP2P.isBeaconP2POrigin(origin)) {
+    await BeaconP2P.removePairing(
+      origin.slice(BeaconP2P.BEACON_P2P_ORIGIN_PREFIX.length)
+    );
+  }
   return removeDApp(origin);
 }
 
+export function setDAppSessionScopes(
+  origin: string,
+  scopes: TempleDAppScope[]
+) {
+  return setDAppScopes(origin, scopes);
+}
+
+export function setDAppSessionAutoApprovePolicy(
+  origin: string,
+  policy: TempleDAppAutoApprovePolicy | null
+) {
+  return setDAppAutoApprovePolicy(origin, policy);
+}
+
+export function getDAppAutoApprovedOperations(origin: string) {
+  return getAutoApprovedOperations(origin);
+}
+
+export function getOriginExceptions() {
+  return OriginReputation.getOriginExceptions();
+}
+
+export function setOriginExceptions(exceptions: string[]) {
+  return OriginReputation.setOriginExceptions(exceptions);
+}
+
+export function pairBeaconP2P(pairingCode: string) {
+  return withUnlocked(() => BeaconP2P.pair(pairingCode));
+}
+
+export function getBeaconP2PPairings() {
+  return BeaconP2P.getPairings();
+}
+
+export async function removeBeaconP2PPairing(id: string) {
+  await BeaconP2P.removePairing(id);
+  await removeDApp(`${BeaconP2P.BEACON_P2P_ORIGIN_PREFIX}${id}`);
+  return BeaconP2P.getPairings();
+}
+
+export function getPendingConfirmations() {
+  return Confirmations.getPendingConfirmations();
+}
+
+export function declineAllConfirmations() {
+  Confirmations.declineAllConfirmations();
+}
+
+export function replacePendingOperation(
+  port: Runtime.Port,
+  id: string,
+  opHash: string,
+  mode: PendingOps.ReplaceMode
+): Promise<{ opHash: string }> {
+  return withUnlocked(async ({ vault }) => {
+    const { op, contents } = await PendingOps.prepareReplacement(
+      vault,
+      opHash,
+      mode
+    );
+
+    let policyViolation: string | undefined;
+    try {
+      await PendingOps.checkReplacementPolicy(vault, op, contents);
+    } catch (err) {
+      policyViolation = err.message;
+    }
+
+    return new Promise((resolve, reject) => {
+      const payload: TempleConfirmationPayload = {
+        type: "replace_operations",
+        sourcePkh: op.sourcePkh,
+        networkRpc: op.rpcBaseURL,
+        mode,
+        opHash,
+        contents,
+        fee: PendingOps.getTotalFee(contents).toFixed(),
+        prevFee: PendingOps.getTotalFee(op.contents).toFixed(),
+        policyViolation,
+      };
+      intercom.notify(port, {
+        type: TempleMessageType.ConfirmationRequested,
+        id,
+        payload,
+      });
+
+      let closing = false;
+      const close = () => {
+        if (closing) return;
+        closing = true;
+
+        try {
+          stopTimeout();
+          stopRequestListening();
+          stopDisconnectListening();
+          Confirmations.removePendingConfirmation(id);
+
+          intercom.notify(port, {
+            type: TempleMessageType.ConfirmationExpired,
+            id,
+          });
+        } catch (_err) {}
+      };
+
+      const decline = () => {
+        reject(new Error("Declined"));
+      };
+      const declineAndClose = () => {
+        decline();
+        close();
+      };
+
+      const stopRequestListening = intercom.onRequest(
+        async (req: TempleRequest, reqPort) => {
+          if (
+            (reqPort === port || Confirmations.isConfirmWindowPort(reqPort)) &&
+            req?.type === TempleMessageType.ConfirmationRequest &&
+            req?.id === id
+          ) {
+            if (req.confirmed) {
+              const newOpHash = await withUnlocked(({ vault }) =>
+                PendingOps.replacePendingOperation(vault, opHash, contents)
+              );
+              resolve({ opHash: newOpHash });
+            } else {
+              decline();
+            }
+
+            close();
+
+            return {
+              type: TempleMessageType.ConfirmationResponse,
+            };
+          }
+          return;
+        }
+      );
+
+      const stopDisconnectListening = intercom.onDisconnect(
+        port,
+        declineAndClose
+      );
+
+      const requestedAt = Date.now();
+      Confirmations.addPendingConfirmation(
+        {
+          kind: "internal",
+          id,
+          payload,
+          requestedAt,
+          expiresAt: requestedAt + AUTODECLINE_AFTER,
+        },
+        declineAndClose
+      );
+
+      // Decline after timeout
+      const t = setTimeout(declineAndClose, AUTODECLINE_AFTER);
+      const stopTimeout = () => clearTimeout(t);
+    });
+  });
+}
+
 export function sendOperations(
   port: Runtime.Port,
   id: string,
@@ -251,7 +602,7 @@ export function sendOperations(
   networkRpc: string,
   opParams: any[]
 ): Promise<{ opHash: string }> {
-  return withUnlocked(async () => {
+  return withUnlocked(async ({ vault }) => {
     const sourcePublicKey = await revealPublicKey(sourcePkh);
     const dryRunResult = await dryRunOpParams({
       opParams,
@@ -263,17 +614,26 @@ export function sendOperations(
       opParams = dryRunResult.opParams;
     }
 
+    let policyViolation: string | undefined;
+    try {
+      await vault.checkAccountPolicy(sourcePkh, opParams);
+    } catch (err) {
+      policyViolation = err.message;
+    }
+
     return new Promise(async (resolve, reject) => {
+      const payload: TempleConfirmationPayload = {
+        type: "operations",
+        sourcePkh,
+        networkRpc,
+        opParams,
+        ...(dryRunResult ?? {}),
+        policyViolation,
+      };
       intercom.notify(port, {
         type: TempleMessageType.ConfirmationRequested,
         id,
-        payload: {
-          type: "operations",
-          sourcePkh,
-          networkRpc,
-          opParams,
-          ...(dryRunResult ?? {}),
-        },
+        payload,
       });
 
       let closing = false;
@@ -285,6 +645,7 @@ export function sendOperations(
           stopTimeout();
           stopRequestListening();
           stopDisconnectListening();
+          Confirmations.removePendingConfirmation(id);
 
           intercom.notify(port, {
             type: TempleMessageType.ConfirmationExpired,
@@ -304,14 +665,15 @@ export function sendOperations(
       const stopRequestListening = intercom.onRequest(
         async (req: TempleRequest, reqPort) => {
           if (
-            reqPort === port &&
+            (reqPort === port || Confirmations.isConfirmWindowPort(reqPort)) &&
             req?.type === TempleMessageType.ConfirmationRequest &&
             req?.id === id
           ) {
             if (req.confirmed) {
               try {
                 const op = await withUnlocked(({ vault }) =>
-                  vault.sendOperations(
+                  sendOperationsUnderPolicy(
+                    vault,
                     sourcePkh,
                     networkRpc,
                     buildFinalOpParmas(
@@ -325,6 +687,13 @@ export function sendOperations(
                 try {
                   const chainId = await loadChainId(networkRpc);
                   await addLocalOperation(chainId, op.hash, op.results);
+                  await PendingOps.addPendingOperation(
+                    networkRpc,
+                    chainId,
+                    sourcePkh,
+                    op.hash,
+                    op.results
+                  );
                 } catch {}
 
                 resolve({ opHash: op.hash });
@@ -354,6 +723,18 @@ export function sendOperations(
         declineAndClose
       );
 
+      const requestedAt = Date.now();
+      Confirmations.addPendingConfirmation(
+        {
+          kind: "internal",
+          id,
+          payload,
+          requestedAt,
+          expiresAt: requestedAt + AUTODECLINE_AFTER,
+        },
+        declineAndClose
+      );
+
       // Decline after timeout
       const t = setTimeout(declineAndClose, AUTODECLINE_AFTER);
       const stopTimeout = () => clearTimeout(t);
@@ -371,15 +752,16 @@ export function sign(
   return withUnlocked(
     () =>
       new Promise(async (resolve, reject) => {
+        const payload: TempleConfirmationPayload = {
+          type: "sign",
+          sourcePkh,
+          bytes,
+          watermark,
+        };
         intercom.notify(port, {
           type: TempleMessageType.ConfirmationRequested,
           id,
-          payload: {
-            type: "sign",
-            sourcePkh,
-            bytes,
-            watermark,
-          },
+          payload,
         });
 
         let closing = false;
@@ -391,6 +773,7 @@ export function sign(
             stopTimeout();
             stopRequestListening();
             stopDisconnectListening();
+            Confirmations.removePendingConfirmation(id);
 
             intercom.notify(port, {
               type: TempleMessageType.ConfirmationExpired,
@@ -410,13 +793,14 @@ export function sign(
         const stopRequestListening = intercom.onRequest(
           async (req: TempleRequest, reqPort) => {
             if (
-              reqPort === port &&
+              (reqPort === port ||
+                Confirmations.isConfirmWindowPort(reqPort)) &&
               req?.type === TempleMessageType.ConfirmationRequest &&
               req?.id === id
             ) {
               if (req.confirmed) {
                 const result = await withUnlocked(({ vault }) =>
-                  vault.sign(sourcePkh, bytes, watermark)
+                  signUnderPolicy(vault, sourcePkh, bytes, watermark)
                 );
                 resolve(result);
               } else {
@@ -438,6 +822,18 @@ export function sign(
           declineAndClose
         );
 
+        const requestedAt = Date.now();
+        Confirmations.addPendingConfirmation(
+          {
+            kind: "internal",
+            id,
+            payload,
+            requestedAt,
+            expiresAt: requestedAt + AUTODECLINE_AFTER,
+          },
+          declineAndClose
+        );
+
         // Decline after timeout
         const t = setTimeout(declineAndClose, AUTODECLINE_AFTER);
         const stopTimeout = () => clearTimeout(t);
@@ -447,25 +843,40 @@ export function sign(
 
 export async function processDApp(
   origin: string,
-  req: TempleDAppRequest
-): Promise<TempleDAppResponse | void> {
+  req: TempleDAppRequest | TempleDAppPermitRequest
+): Promise<TempleDAppResponse | TempleDAppPermitResponse | void> {
+  // Logged here to also record requests rejected by the queue
+  return withDAppActivity(origin, req, () =>
+    withInited(() => handleDAppRequest(origin, req))
+  );
+}
+
+async function handleDAppRequest(
+  origin: string,
+  req: TempleDAppRequest | TempleDAppPermitRequest
+): Promise<TempleDAppResponse | TempleDAppPermitResponse | void> {
   switch (req?.type) {
     case TempleDAppMessageType.GetCurrentPermissionRequest:
-      return withInited(() => getCurrentPermission(origin));
+      return getCurrentPermission(origin);
 
     case TempleDAppMessageType.PermissionRequest:
-      return withInited(() =>
-        enqueueDApp(() => requestPermission(origin, req))
+      return enqueueDAppRequest(origin, req, () =>
+        requestPermission(origin, req)
       );
 
     case TempleDAppMessageType.OperationRequest:
-      return withInited(() => enqueueDApp(() => requestOperation(origin, req)));
+      return enqueueDAppRequest(origin, req, () =>
+        requestOperation(origin, req)
+      );
 
     case TempleDAppMessageType.SignRequest:
-      return withInited(() => enqueueDApp(() => requestSign(origin, req)));
+      return enqueueDAppRequest(origin, req, () => requestSign(origin, req));
+
+    case TempleDAppMessageType.PermitRequest:
+      return enqueueDAppRequest(origin, req, () => requestPermit(origin, req));
 
     case TempleDAppMessageType.BroadcastRequest:
-      return withInited(() => requestBroadcast(origin, req));
+      return requestBroadcast(origin, req);
   }
 }
 
@@ -542,6 +953,7 @@ export async function processBeacon(
         const templeReq = ((): TempleDAppRequest | void => {
           switch (req.type) {
             case Beacon.MessageType.PermissionRequest:
+              const requestedScopes = req.scopes;
               const network =
                 req.network.type === "custom"
                   ? {
@@ -550,12 +962,21 @@ export async function processBeacon(
                     }
                   : req.network.type;
 
-              return {
+              const permissionReq: TempleDAppScopedPermissionRequest = {
                 type: TempleDAppMessageType.PermissionRequest,
                 network: network === "edonet" ? "edo2net" : (network as any),
                 appMeta: req.appMetadata,
                 force: true,
+                // Requests without scopes get the same ones as before scoping
+                scopes: requestedScopes
+                  ? Object.values(TempleDAppScope).filter((scope) =>
+                      requestedScopes.includes(
+                        scope as string as Beacon.PermissionScope
+                      )
+                    )
+                  : undefined,
               };
+              return permissionReq;
 
             case Beacon.MessageType.OperationRequest:
               return {
@@ -594,10 +1015,11 @@ export async function processBeacon(
                   type: Beacon.MessageType.PermissionResponse,
                   publicKey: (templeRes as any).publicKey,
                   network: (req as Beacon.PermissionRequest).network,
-                  scopes: [
-                    Beacon.PermissionScope.OPERATION_REQUEST,
-                    Beacon.PermissionScope.SIGN,
-                  ],
+                  scopes: (
+                    templeRes as TempleDAppScopedPermissionResponse
+                  ).scopes.map(
+                    (scope) => scope as string as Beacon.PermissionScope
+                  ),
                 };
 
               case TempleDAppMessageType.OperationResponse:
@@ -690,6 +1112,41 @@ async function createCustomNetworksSnapshot(settings: TempleSettings) {
   } catch {}
 }
 
+function validateAccountPolicy({
+  dailyLimits,
+  allowedDestinations,
+  blockedEntrypoints,
+}: TempleAccountPolicy): TempleAccountPolicy | undefined {
+  if (
+    dailyLimits &&
+    Object.values(dailyLimits).some((limit) => !/^\d+$/.test(limit))
+  ) {
+    throw new Error("Invalid daily limit. It should be a non-negative integer");
+  }
+  if (allowedDestinations?.some((address) => !isAddressValid(address))) {
+    throw new Error("Invalid destination address");
+  }
+  if (blockedEntrypoints?.some((name) => !ENTRYPOINT_PATTERN.test(name))) {
+    throw new Error("Invalid entrypoint name");
+  }
+
+  const policy: TempleAccountPolicy = {
+    dailyLimits:
+      dailyLimits && Object.keys(dailyLimits).length > 0
+        ? dailyLimits
+        : undefined,
+    allowedDestinations:
+      allowedDestinations && allowedDestinations.length > 0
+        ? allowedDestinations
+        : undefined,
+    blockedEntrypoints:
+      blockedEntrypoints && blockedEntrypoints.length > 0
+        ? blockedEntrypoints
+        : undefined,
+  };
+  return Object.values(policy).some(Boolean) ? policy : undefined;
+}
+
 function getErrorData(err: any) {
   return err instanceof TezosOperationError
     ? err.errors.map(({ contract_code, ...rest }: any) => rest)
@@ -0,0 +1,123 @@
+import { TempleSettings, TempleStatus } from "../types";
+import {
+  CHECK_INTERVAL,
+  SUSPEND_DETECTION_GAP,
+  start,
+  touch,
+} from "./auto-lock";
+import { inited, settingsUpdated, store, unlocked } from "./store";
+import { Vault } from "./vault";
+
+const mockIdleListeners = new Set<(state: string) => void>();
+const mockSetDetectionInterval = jest.fn();
+
+jest.mock("webextension-polyfill-ts", () => {
+  const actual = jest.requireActual("webextension-polyfill-ts");
+  const idle = {
+    setDetectionInterval: (interval: number) =>
+      mockSetDetectionInterval(interval),
+    onStateChanged: {
+      addListener: (l: (state: string) => void) => mockIdleListeners.add(l),
+      removeListener: (l: (state: string) => void) =>
+        mockIdleListeners.delete(l),
+    },
+  };
+  return {
+    ...actual,
+    browser: new Proxy(actual.browser, {
+      get: (target, prop) => (prop === "idle" ? idle : target[prop]),
+    }),
+  };
+});
+
+function unlock(settings: TempleSettings = {}) {
+  unlocked({ vault: {} as Vault, accounts: [], settings });
+}
+
+function emitIdleState(state: string) {
+  mockIdleListeners.forEach((l) => l(state));
+}
+
+describe("Auto-lock tests", () => {
+  let stop: () => void;
+
+  beforeEach(() => {
+    jest.useFakeTimers("modern");
+    inited(true);
+    stop = start();
+  });
+
+  afterEach(() => {
+    stop();
+    jest.useRealTimers();
+  });
+
+  it("Doesn't lock if timeout isn't set", () => {
+    unlock();
+    jest.advanceTimersByTime(24 * 60 * 60_000);
+    expect(store.getState().status).toBe(TempleStatus.Ready);
+  });
+
+  it("Locks after timeout", () => {
+    unlock({ autoLockTimeout: 5 });
+    jest.advanceTimersByTime(4 * 60_000);
+    expect(store.getState().status).toBe(TempleStatus.Ready);
+    jest.advanceTimersByTime(60_000);
+    expect(store.getState().status).toBe(TempleStatus.Locked);
+  });
+
+  it("Activity postpones locking", () => {
+    unlock({ autoLockTimeout: 5 });
+    jest.advanceTimersByTime(4 * 60_000);
+    touch();
+    jest.advanceTimersByTime(4 * 60_000);
+    expect(store.getState().status).toBe(TempleStatus.Ready);
+    jest.advanceTimersByTime(60_000);
+    expect(store.getState().status).toBe(TempleStatus.Locked);
+  });
+
+  it("Updated settings are applied", () => {
+    unlock({ autoLockTimeout: 60 });
+    settingsUpdated({ autoLockTimeout: 1 });
+    expect(mockSetDetectionInterval).toHaveBeenLastCalledWith(60);
+    jest.advanceTimersByTime(60_000);
+    expect(store.getState().status).toBe(TempleStatus.Locked);
+  });
+
+  it("Locks after system suspend", () => {
+    unlock({ lockOnSystemIdle: true });
+    jest.setSystemTime(Date.now() + CHECK_INTERVAL + SUSPEND_DETECTION_GAP);
+    jest.advanceTimersByTime(CHECK_INTERVAL);
+    expect(store.getState().status).toBe(TempleStatus.Locked);
+  });
+
+  it("Doesn't lock after system suspend by default", () => {
+    unlock();
+    jest.setSystemTime(Date.now() + CHECK_INTERVAL + SUSPEND_DETECTION_GAP);
+    jest.advanceTimersByTime(CHECK_INTERVAL);
+    expect(store.getState().status).toBe(TempleStatus.Ready);
+  });
+
+  it("Locks on system lock", () => {
+    unlock({ lockOnSystemIdle: true });
+    emitIdleState("active");
+    expect(store.getState().status).toBe(TempleStatus.Ready);
+    emitIdleState("locked");
+    expect(store.getState().status).toBe(TempleStatus.Locked);
+  });
+
+  it("Locks on system idle only if timeout is set", () => {
+    unlock({ lockOnSystemIdle: true });
+    emitIdleState("idle");
+    expect(store.getState().status).toBe(TempleStatus.Ready);
+    settingsUpdated({ lockOnSystemIdle: true, autoLockTimeout: 15 });
+    emitIdleState("idle");
+    expect(store.getState().status).toBe(TempleStatus.Locked);
+  });
+
+  it("Doesn't lock on system lock by default", () => {
+    unlock({ autoLockTimeout: 15 });
+    emitIdleState("locked");
+    expect(store.getState().status).toBe(TempleStatus.Ready);
+  });
+});
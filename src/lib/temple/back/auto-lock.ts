@@ -0,0 +1,103 @@
+import { browser, Idle } from "webextension-polyfill-ts";
+
+import {
+  store,
+  locked,
+  unlocked,
+  settingsUpdated,
+} from "lib/temple/back/store";
+import { TempleSettings, TempleStatus } from "lib/temple/types";
+
+export const CHECK_INTERVAL = 10_000;
+// A gap between two checks that is much longer than the interval
+// means that the timers were frozen (e.g. the system was suspended)
+export const SUSPEND_DETECTION_GAP = 60_000;
+const MIN_IDLE_DETECTION_INTERVAL = 15; // seconds, minimum allowed by browser
+
+let lastActivityAt = Date.now();
+let lastCheckAt = Date.now();
+
+export function getAutoLockTimeout(settings: TempleSettings | null) {
+  const minutes = settings?.autoLockTimeout ?? 0;
+  return minutes > 0 ? minutes * 60_000 : null;
+}
+
+export function isLockOnSystemIdleEnabled(settings: TempleSettings | null) {
+  return settings?.lockOnSystemIdle ?? false;
+}
+
+export function touch() {
+  lastActivityAt = Date.now();
+}
+
+export function check() {
+  const now = Date.now();
+  const suspended = now - lastCheckAt > CHECK_INTERVAL + SUSPEND_DETECTION_GAP;
+  lastCheckAt = now;
+
+  const { status, settings } = store.getState();
+  if (status !== TempleStatus.Ready) return;
+
+  if (suspended && isLockOnSystemIdleEnabled(settings)) {
+    locked();
+    return;
+  }
+
+  const timeout = getAutoLockTimeout(settings);
+  if (timeout && now - lastActivityAt >= timeout) {
+    locked();
+  }
+}
+
+export function start() {
+  lastActivityAt = lastCheckAt = Date.now();
+
+  const interval = setInterval(check, CHECK_INTERVAL);
+  const unwatchUnlocked = unlocked.watch(({ settings }) => {
+    touch();
+    updateIdleDetectionInterval(settings);
+  });
+  const unwatchSettings = settingsUpdated.watch(updateIdleDetectionInterval);
+
+  const handleIdleStateChange = (state: Idle.IdleState) => {
+    const { status, settings } = store.getState();
+    if (status !== TempleStatus.Ready) return;
+
+    switch (state) {
+      case "locked":
+        if (isLockOnSystemIdleEnabled(settings)) {
+          locked();
+        }
+        break;
+
+      case "idle":
+        if (
+          getAutoLockTimeout(settings) &&
+          isLockOnSystemIdleEnabled(settings)
+        ) {
+          locked();
+        }
+        break;
+    }
+  };
+
+  // Idle API may be unavailable on some platforms
+  const idle = browser.idle;
+  idle?.onStateChanged.addListener(handleIdleStateChange);
+
+  return () => {
+    clearInterval(interval);
+    unwatchUnlocked();
+    unwatchSettings();
+    idle?.onStateChanged.removeListener(handleIdleStateChange);
+  };
+}
+
+function updateIdleDetectionInterval(settings: TempleSettings) {
+  const timeout = getAutoLockTimeout(settings);
+  if (timeout && browser.idle) {
+    browser.idle.setDetectionInterval(
+      Math.max(MIN_IDLE_DETECTION_INTERVAL, Math.floor(timeout / 1000))
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { browser } from "webextension-polyfill-ts";
+
+import { createBackup, restoreBackup } from "./backup";
+import { Vault } from "./vault";
+
+const password = "Test123!";
+const newPassword = "Test345!";
+const backupPassword = "Backup123!";
+const mnemonic =
+  "street seminar popular skill actress route treat coral ready bar program affair";
+const contacts = [{ address: "tz1...", name: "Alice" }];
+const tokens = [{ type: "FA1_2", address: "KT1...", symbol: "TKN" }];
+
+describe("Backup tests", () => {
+  beforeEach(async () => {
+    await browser.storage.local.clear();
+  });
+
+  it("create and restore test", async () => {
+    await Vault.spawn(password, mnemonic);
+    const vault = await Vault.setup(password);
+    const accounts = await vault.createHDAccount("Temple");
+    await vault.updateSettings({ customNetworks: [] });
+    await browser.storage.local.set({
+      contacts,
+      tokens_NetXdQprcVkpaWU: tokens,
+      unrelated: "stuff",
+    });
+
+    const backup = await createBackup(password, backupPassword);
+    await browser.storage.local.clear();
+
+    await restoreBackup(newPassword, backup, backupPassword);
+    const restoredVault = await Vault.setup(newPassword);
+    expect(await restoredVault.fetchAccounts()).toEqual(accounts);
+    expect(await restoredVault.fetchSettings()).toEqual({ customNetworks: [] });
+    expect(await Vault.revealMnemonic(newPassword)).toBe(mnemonic);
+    expect(await browser.storage.local.get(null)).toMatchObject({
+      contacts,
+      tokens_NetXdQprcVkpaWU: tokens,
+    });
+    expect(await browser.storage.local.get(["unrelated"])).toEqual({});
+  });
+
+  it("restore with invalid backup password test", async () => {
+    await Vault.spawn(password, mnemonic);
+    const backup = await createBackup(password, backupPassword);
+
+    await expect(
+      restoreBackup(newPassword, backup, "Wrong123!")
+    ).rejects.toThrow("Invalid backup password");
+    expect(await Vault.revealMnemonic(password)).toBe(mnemonic);
+  });
+
+  it("restore vault data without migration level test", async () => {
+    await Vault.spawn(password, mnemonic);
+    const data = await Vault.exportData(password);
+    const withoutMigrationLevel = data.filter(
+      ([storageKey]) => !storageKey.endsWith("_mgrnlvl")
+    );
+    expect(withoutMigrationLevel.length).toBe(data.length - 1);
+
+    await expect(
+      Vault.spawnFromData(newPassword, withoutMigrationLevel)
+    ).rejects.toThrow();
+    expect(await Vault.revealMnemonic(password)).toBe(mnemonic);
+  });
+
+  it("restore invalid backup file test", async () => {
+    await expect(
+      restoreBackup(newPassword, "{}", backupPassword)
+    ).rejects.toThrow("Unsupported backup version");
+  });
+});
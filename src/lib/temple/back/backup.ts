@@ -0,0 +1,100 @@
+import { Buffer } from "buffer";
+import { browser } from "webextension-polyfill-ts";
+
+import { PublicError } from "lib/temple/back/defaults";
+import { Vault } from "lib/temple/back/vault";
+import * as Passworder from "lib/temple/passworder";
+
+const BACKUP_VERSION = 1;
+const PLAIN_STORAGE_KEYS = [
+  "contacts",
+  "dapp_sessions",
+  "custom_networks_snapshot",
+];
+const PLAIN_STORAGE_KEY_PREFIXES = ["tokens_", "beacon_"];
+
+interface TempleBackup {
+  version: number;
+  salt: string;
+  encrypted: Passworder.EncryptedPayload;
+}
+
+interface TempleBackupContent {
+  vault: [string, any][];
+  storage: Record<string, any>;
+}
+
+export async function createBackup(password: string, backupPassword: string) {
+  const vault = await Vault.exportData(password);
+  const storage = await fetchPlainStorage();
+  const content: TempleBackupContent = { vault, storage };
+
+  const salt = Passworder.generateSalt();
+  const passKey = await Passworder.generateKey(backupPassword);
+  const derivedPassKey = await Passworder.deriveKey(passKey, salt);
+  const encrypted = await Passworder.encrypt(content, derivedPassKey);
+
+  const backup: TempleBackup = {
+    version: BACKUP_VERSION,
+    salt: Buffer.from(salt).toString("hex"),
+    encrypted,
+  };
+  return JSON.stringify(backup);
+}
+
+export async function restoreBackup(
+  password: string,
+  backup: string,
+  backupPassword: string
+) {
+  const { vault, storage } = await decryptBackup(backup, backupPassword);
+  await Vault.spawnFromData(password, vault);
+  await browser.storage.local.set(pickPlainStorage(storage));
+}
+
+async function decryptBackup(backup: string, backupPassword: string) {
+  let parsed: TempleBackup;
+  try {
+    parsed = JSON.parse(backup);
+  } catch {
+    throw new PublicError("Invalid backup file");
+  }
+
+  if (parsed?.version !== BACKUP_VERSION) {
+    throw new PublicError("Unsupported backup version");
+  }
+
+  try {
+    const salt = Buffer.from(parsed.salt, "hex");
+    const passKey = await Passworder.generateKey(backupPassword);
+    const derivedPassKey = await Passworder.deriveKey(passKey, salt);
+    return await Passworder.decrypt<TempleBackupContent>(
+      parsed.encrypted,
+      derivedPassKey
+    );
+  } catch {
+    throw new PublicError("Invalid backup password");
+  }
+}
+
+async function fetchPlainStorage() {
+  const items = await browser.storage.local.get(null);
+  return pickPlainStorage(items);
+}
+
+function pickPlainStorage(items: Record<string, any>) {
+  const picked: Record<string, any> = {};
+  for (const [key, value] of Object.entries(items)) {
+    if (isPlainStorageKey(key)) {
+      picked[key] = value;
+    }
+  }
+  return picked;
+}
+
+function isPlainStorageKey(key: string) {
+  return (
+    PLAIN_STORAGE_KEYS.includes(key) ||
+    PLAIN_STORAGE_KEY_PREFIXES.some((prefix) => key.startsWith(prefix))
+  );
+}
@@ -0,0 +1,354 @@
+/**
+ * @jest-environment node
+ */
+
+import { Buffer } from "buffer";
+import * as http from "http";
+import * as sodium from "libsodium-wrappers";
+import { AddressInfo } from "net";
+
+import * as Beacon from "../beacon";
+import { getPairings, pair, start, stop, toOrigin } from "./beacon-p2p";
+
+// Polyfill is empty outside of browser, extension API mock is used instead
+jest.mock("webextension-polyfill-ts", () => ({
+  browser: (global as any).chrome,
+}));
+
+// Sodium functions are added to the module after it is ready,
+// so namespace imports have to refer to the module itself
+jest.mock("libsodium-wrappers", () =>
+  Object.assign(jest.requireActual("libsodium-wrappers"), { __esModule: true })
+);
+
+/**
+ * Local stub of Matrix relay server,
+ * implements only endpoints used by Beacon P2P transport
+ */
+class StubRelay {
+  server: http.Server;
+  host = "";
+  private users = new Map<string, string>(); // access token -> user id
+  private rooms = new Map<
+    string,
+    { invited: Set<string>; joined: Set<string> }
+  >();
+  private events: { seq: number; roomId: string; event: any }[] = [];
+  private seq = 0;
+  private waiters = new Set<() => void>();
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", async () => {
+        try {
+          const result = await this.handle(req, body ? JSON.parse(body) : {});
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(result));
+        } catch (err) {
+          res.writeHead(err.status ?? 400, {
+            "Content-Type": "application/json",
+          });
+          res.end(JSON.stringify({ error: err.message }));
+        }
+      });
+    });
+  }
+
+  async listen() {
+    await new Promise<void>((r) => this.server.listen(0, "127.0.0.1", r));
+    const { port } = this.server.address() as AddressInfo;
+    this.host = `127.0.0.1:${port}`;
+    return `http://${this.host}`;
+  }
+
+  async close() {
+    this.waiters.forEach((w) => w());
+    await new Promise((r) => this.server.close(r));
+  }
+
+  login(user: string) {
+    const accessToken = `token_${user}`;
+    const userId = `@${user}:${this.host}`;
+    this.users.set(accessToken, userId);
+    return { accessToken, userId };
+  }
+
+  getRoomEvents(roomId: string) {
+    return this.events
+      .filter((e) => e.roomId === roomId)
+      .map(({ event }) => event);
+  }
+
+  joinRoom(roomId: string, userId: string) {
+    const room = this.rooms.get(roomId)!;
+    room.invited.delete(userId);
+    room.joined.add(userId);
+  }
+
+  sendMessage(roomId: string, sender: string, body: string) {
+    this.events.push({
+      seq: ++this.seq,
+      roomId,
+      event: {
+        type: "m.room.message",
+        sender,
+        content: { msgtype: "m.text", body },
+      },
+    });
+    this.waiters.forEach((w) => w());
+  }
+
+  private async handle(req: http.IncomingMessage, body: any) {
+    const url = new URL(req.url!, `http://${this.host}`);
+    const path = url.pathname.replace("/_matrix/client/r0", "");
+
+    if (path === "/login") {
+      const [, signature, publicKey] = body.password.split(":");
+      const digest = sodium.crypto_generichash(
+        32,
+        sodium.from_string(`login:${Math.floor(Date.now() / 1000 / 300)}`)
+      );
+      if (
+        body.identifier.user !== (await Beacon.getP2PUserName(publicKey)) ||
+        !sodium.crypto_sign_verify_detached(
+          sodium.from_hex(signature),
+          digest,
+          sodium.from_hex(publicKey)
+        )
+      ) {
+        throw Object.assign(new Error("Forbidden"), { status: 403 });
+      }
+
+      const { accessToken, userId } = this.login(body.identifier.user);
+      return { access_token: accessToken, user_id: userId };
+    }
+
+    const userId = this.users.get(
+      (req.headers.authorization ?? "").replace("Bearer ", "")
+    );
+    if (!userId) {
+      throw Object.assign(new Error("Unauthorized"), { status: 401 });
+    }
+
+    if (path === "/createRoom") {
+      const roomId = `!room${this.rooms.size}:${this.host}`;
+      this.rooms.set(roomId, {
+        invited: new Set(body.invite),
+        joined: new Set([userId]),
+      });
+      return { room_id: roomId };
+    }
+
+    const [, , roomId, action] = path.split("/").map(decodeURIComponent);
+    if (action === "join") {
+      this.joinRoom(roomId, userId);
+      return { room_id: roomId };
+    }
+    if (action === "send") {
+      this.sendMessage(roomId, userId, body.body);
+      return { event_id: `$${this.seq}` };
+    }
+
+    if (path === "/sync") {
+      const since = +(url.searchParams.get("since") ?? 0);
+      if (since >= this.seq && +(url.searchParams.get("timeout") ?? 0) > 0) {
+        await new Promise<void>((r) => {
+          const waiter = () => {
+            this.waiters.delete(waiter);
+            r();
+          };
+          this.waiters.add(waiter);
+          setTimeout(waiter, 100);
+        });
+      }
+      return this.sync(userId, since);
+    }
+
+    throw Object.assign(new Error("Not found"), { status: 404 });
+  }
+
+  private sync(userId: string, since: number) {
+    const join: Record<string, any> = {};
+    const invite: Record<string, any> = {};
+    this.rooms.forEach((room, roomId) => {
+      if (room.joined.has(userId)) {
+        join[roomId] = {
+          timeline: {
+            events: this.events
+              .filter((e) => e.roomId === roomId && e.seq > since)
+              .map(({ event }) => event),
+          },
+        };
+      } else if (room.invited.has(userId)) {
+        const inviter = Array.from(room.joined)[0];
+        invite[roomId] = {
+          invite_state: {
+            events: [{ type: "m.room.member", sender: inviter }],
+          },
+        };
+      }
+    });
+    return { next_batch: String(this.seq), rooms: { join, invite } };
+  }
+}
+
+let relay: StubRelay;
+let relayServer: string;
+let dApp: sodium.KeyPair;
+
+beforeAll(async () => {
+  await sodium.ready;
+  relay = new StubRelay();
+  relayServer = await relay.listen();
+});
+
+afterAll(async () => {
+  await stop();
+  await relay.close();
+});
+
+beforeEach(() => {
+  dApp = sodium.crypto_sign_keypair();
+});
+
+function createPairingCode() {
+  return Beacon.encodeMessage<Beacon.P2PPairingRequest>({
+    id: "pairing-id",
+    type: Beacon.MessageType.P2PPairingRequest,
+    name: "Test DApp",
+    version: "2",
+    publicKey: Beacon.toHex(dApp.publicKey),
+    relayServer,
+  });
+}
+
+async function getDAppUserId() {
+  return `@${await Beacon.getP2PUserName(dApp.publicKey)}:${relay.host}`;
+}
+
+/**
+ * Reads pairing response from the room, as dApp would do
+ */
+async function openChannel(roomId: string) {
+  const [channelOpen] = relay.getRoomEvents(roomId);
+  const sealed = channelOpen.content.body.split(":").pop();
+  const opened = sodium.crypto_box_seal_open(
+    sodium.from_hex(sealed),
+    sodium.crypto_sign_ed25519_pk_to_curve25519(dApp.publicKey),
+    sodium.crypto_sign_ed25519_sk_to_curve25519(dApp.privateKey)
+  );
+  return JSON.parse(
+    Buffer.from(opened).toString("utf8")
+  ) as Beacon.P2PPairingResponse;
+}
+
+async function sendFromDApp(roomId: string, walletPublicKey: string, msg: any) {
+  const { sharedTx } = await Beacon.createCryptoBoxClient(
+    walletPublicKey,
+    dApp.privateKey
+  );
+  relay.sendMessage(
+    roomId,
+    await getDAppUserId(),
+    await Beacon.encryptCryptoboxPayload(Beacon.encodeMessage(msg), sharedTx)
+  );
+}
+
+async function waitFor<T>(fn: () => T | Promise<T>, timeout = 10000) {
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < timeout) {
+    const result = await fn();
+    if (result) return result;
+    await new Promise((r) => setTimeout(r, 50));
+  }
+  throw new Error("Timed out");
+}
+
+describe("Beacon P2P transport", () => {
+  it("parses pairing code from deep link", () => {
+    const code = createPairingCode();
+    expect(
+      Beacon.parsePairingCode(
+        `tezos://?type=tzip10&data=${encodeURIComponent(code)}`
+      )
+    ).toEqual(Beacon.parsePairingCode(code));
+    expect(() => Beacon.parsePairingCode("invalid")).toThrow(
+      "Invalid pairing code"
+    );
+  });
+
+  it("pairs with dApp and serves its requests", async () => {
+    const handler = jest.fn(async (_origin: string, msg: string) => {
+      const req = Beacon.decodeMessage<Beacon.PermissionRequest>(msg);
+      return {
+        payload: Beacon.encodeMessage<Beacon.ErrorResponse>({
+          id: req.id,
+          version: "2",
+          type: Beacon.MessageType.Error,
+          errorType: Beacon.ErrorType.ABORTED_ERROR,
+        }),
+      };
+    });
+    await start(handler);
+
+    const pairing = await pair(createPairingCode());
+    expect(pairing.publicKey).toBe(Beacon.toHex(dApp.publicKey));
+    expect(await getPairings()).toContainEqual(pairing);
+
+    // DApp accepts invitation and reads pairing response
+    relay.joinRoom(pairing.roomId!, await getDAppUserId());
+    const pairingResponse = await openChannel(pairing.roomId!);
+    expect(pairingResponse).toMatchObject({
+      id: "pairing-id",
+      type: Beacon.MessageType.P2PPairingResponse,
+      relayServer,
+    });
+
+    await sendFromDApp(pairing.roomId!, pairingResponse.publicKey, {
+      id: "request-id",
+      version: "2",
+      type: Beacon.MessageType.PermissionRequest,
+    });
+
+    await waitFor(() => relay.getRoomEvents(pairing.roomId!)[2]);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toBe(toOrigin(pairing));
+
+    const { sharedRx } = await Beacon.createCryptoBoxServer(
+      pairingResponse.publicKey,
+      dApp.privateKey
+    );
+    const response = Beacon.decodeMessage<Beacon.ErrorResponse>(
+      await Beacon.decryptCryptoboxPayload(
+        Beacon.fromHex(relay.getRoomEvents(pairing.roomId!)[2].content.body),
+        sharedRx
+      )
+    );
+    expect(response).toMatchObject({
+      id: "request-id",
+      type: Beacon.MessageType.Error,
+    });
+  });
+
+  it("removes pairing on disconnect", async () => {
+    const handler = jest.fn(async () => {});
+    await start(handler);
+
+    const pairing = await pair(createPairingCode());
+    relay.joinRoom(pairing.roomId!, await getDAppUserId());
+    const { publicKey } = await openChannel(pairing.roomId!);
+
+    await sendFromDApp(pairing.roomId!, publicKey, {
+      id: "disconnect-id",
+      version: "2",
+      type: Beacon.MessageType.Disconnect,
+    });
+
+    await waitFor(async () =>
+      (await getPairings()).every((p) => p.id !== pairing.id)
+    );
+    expect(handler).toHaveBeenCalledWith(toOrigin(pairing), expect.any(String));
+  });
+});
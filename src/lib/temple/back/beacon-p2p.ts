@@ -0,0 +1,344 @@
+import * as sodium from "libsodium-wrappers";
+import { browser } from "webextension-polyfill-ts";
+
+import {
+  MatrixClient,
+  MatrixSyncResponse,
+  getRelayServerHost,
+} from "lib/temple/back/matrix-client";
+import * as Beacon from "lib/temple/beacon";
+import { TempleBeaconP2PPairing } from "lib/temple/types";
+
+/**
+ * Beacon P2P transport. DApps are reached through Matrix relay servers,
+ * messages are encrypted with the same crypto box as for PostMessage transport.
+ * https://docs.walletbeacon.io/guides/p2p-communication
+ */
+
+export type BeaconP2PHandler = (
+  origin: string,
+  msg: string
+) => Promise<{ payload: string } | void>;
+
+export const BEACON_P2P_ORIGIN_PREFIX = "beacon-p2p://";
+
+const PAIRINGS_STORAGE_KEY = "beacon_p2p_pairings";
+const SYNC_TOKENS_STORAGE_KEY = "beacon_p2p_sync_tokens";
+const CHANNEL_OPEN_PREFIX = "@channel-open:";
+const LOGIN_PERIOD = 5 * 60;
+const RETRY_DELAY = 3000;
+const MAX_RETRY_DELAY = 60000;
+
+let handler: BeaconP2PHandler | null = null;
+const clients = new Map<string, Promise<MatrixClient>>();
+const syncLoops = new Map<string, Promise<void>>();
+
+export async function start(processMessage: BeaconP2PHandler) {
+  handler = processMessage;
+
+  const pairings = await getPairings();
+  for (const { relayServer } of pairings) {
+    ensureSyncLoop(relayServer);
+  }
+}
+
+export async function stop() {
+  handler = null;
+  await Promise.all(Array.from(syncLoops.values()));
+  clients.clear();
+}
+
+export function isBeaconP2POrigin(origin: string) {
+  return origin.startsWith(BEACON_P2P_ORIGIN_PREFIX);
+}
+
+export function toOrigin(pairing: TempleBeaconP2PPairing) {
+  return `${BEACON_P2P_ORIGIN_PREFIX}${pairing.id}`;
+}
+
+export async function getPairings(): Promise<TempleBeaconP2PPairing[]> {
+  const items = await browser.storage.local.get([PAIRINGS_STORAGE_KEY]);
+  return items[PAIRINGS_STORAGE_KEY] ?? [];
+}
+
+/**
+ * Responds to pairing request, scanned or pasted from a dApp
+ */
+export async function pair(pairingCode: string) {
+  const req = Beacon.parsePairingCode(pairingCode);
+  const keyPair = await Beacon.getOrCreateKeyPair();
+
+  const client = await getClient(req.relayServer);
+  // Requests can be sent right after pairing response is received,
+  // so sync position has to be known before it is sent
+  await ensureSyncToken(client);
+
+  const recipient = await toMatrixUserId(req.publicKey, req.relayServer);
+  const roomId = await client.createTrustedPrivateRoom(recipient);
+
+  const response: Beacon.P2PPairingResponse = {
+    id: req.id,
+    type: Beacon.MessageType.P2PPairingResponse,
+    version: req.version,
+    name: Beacon.PAIRING_RESPONSE_BASE.name!,
+    icon: Beacon.PAIRING_RESPONSE_BASE.icon,
+    appUrl: Beacon.PAIRING_RESPONSE_BASE.appUrl,
+    publicKey: Beacon.toHex(keyPair.publicKey),
+    relayServer: req.relayServer,
+    senderId: await Beacon.getSenderId(),
+  };
+  const sealed = await Beacon.sealCryptobox(
+    JSON.stringify(response),
+    Beacon.fromHex(req.publicKey)
+  );
+  await client.sendTextMessage(
+    roomId,
+    `${CHANNEL_OPEN_PREFIX}${recipient}:${sealed}`
+  );
+
+  const pairing: TempleBeaconP2PPairing = {
+    id: await Beacon.toSenderId(sodium.from_hex(req.publicKey)),
+    name: req.name,
+    icon: req.icon,
+    appUrl: req.appUrl,
+    publicKey: req.publicKey,
+    relayServer: req.relayServer,
+    roomId,
+    pairedAt: Date.now(),
+  };
+  await savePairing(pairing);
+  await Beacon.saveDAppPublicKey(toOrigin(pairing), req.publicKey);
+
+  ensureSyncLoop(req.relayServer);
+
+  return pairing;
+}
+
+export async function removePairing(id: string) {
+  const pairings = await getPairings();
+  const pairing = pairings.find((p) => p.id === id);
+  if (!pairing) return;
+
+  await setPairings(pairings.filter((p) => p.id !== id));
+
+  // Let dApp know, if relay server is reachable
+  if (pairing.roomId) {
+    try {
+      const client = await getClient(pairing.relayServer);
+      const disconnect: Beacon.DisconnectMessage = {
+        id: Beacon.generateNewSeed(),
+        type: Beacon.MessageType.Disconnect,
+        version: "2",
+        senderId: await Beacon.getSenderId(),
+      };
+      await client.sendTextMessage(
+        pairing.roomId,
+        await Beacon.encryptMessage(
+          Beacon.encodeMessage(disconnect),
+          pairing.publicKey
+        )
+      );
+    } catch {}
+  }
+}
+
+function ensureSyncLoop(relayServer: string) {
+  if (!handler || syncLoops.has(relayServer)) return;
+
+  const loop = runSyncLoop(relayServer).finally(() => {
+    syncLoops.delete(relayServer);
+  });
+  syncLoops.set(relayServer, loop);
+}
+
+async function runSyncLoop(relayServer: string) {
+  let retryDelay = RETRY_DELAY;
+
+  while (handler) {
+    const pairings = await getPairings();
+    if (!pairings.some((p) => p.relayServer === relayServer)) break;
+
+    try {
+      const client = await getClient(relayServer);
+      const since = await ensureSyncToken(client);
+      const res = await client.sync(since);
+      await processSync(client, res);
+      await setSyncToken(relayServer, res.next_batch);
+      retryDelay = RETRY_DELAY;
+    } catch (err) {
+      if (process.env.NODE_ENV === "development") {
+        console.error(err);
+      }
+
+      // Access token may be expired
+      if (err?.response?.status === 401) {
+        clients.delete(relayServer);
+      }
+
+      const delay = retryDelay;
+      await new Promise((r) => setTimeout(r, delay));
+      retryDelay = Math.min(delay * 2, MAX_RETRY_DELAY);
+    }
+  }
+}
+
+async function processSync(client: MatrixClient, res: MatrixSyncResponse) {
+  const pairings = (await getPairings()).filter(
+    (p) => p.relayServer === client.relayServer
+  );
+  const findPairing = async (sender: string) => {
+    for (const pairing of pairings) {
+      const userName = await Beacon.getP2PUserName(pairing.publicKey);
+      if (sender.startsWith(`@${userName}:`)) return pairing;
+    }
+    return null;
+  };
+
+  for (const [roomId, room] of Object.entries(res.rooms?.invite ?? {})) {
+    const events = room.invite_state?.events ?? [];
+    const invitedByPeer = await Promise.all(
+      events.map(({ sender }) => findPairing(sender))
+    );
+    if (invitedByPeer.some(Boolean)) {
+      await client.joinRoom(roomId);
+    }
+  }
+
+  for (const [roomId, room] of Object.entries(res.rooms?.join ?? {})) {
+    for (const event of room.timeline?.events ?? []) {
+      if (
+        event.type !== "m.room.message" ||
+        event.content?.msgtype !== "m.text" ||
+        typeof event.content.body !== "string" ||
+        event.content.body.startsWith(CHANNEL_OPEN_PREFIX)
+      ) {
+        continue;
+      }
+
+      const pairing = await findPairing(event.sender);
+      if (pairing) {
+        // Requests may wait for user confirmation, so they should not block sync
+        processMessage(client, roomId, pairing, event.content.body).catch(
+          (err) => {
+            if (process.env.NODE_ENV === "development") {
+              console.error(err);
+            }
+          }
+        );
+      }
+    }
+  }
+}
+
+async function processMessage(
+  client: MatrixClient,
+  roomId: string,
+  pairing: TempleBeaconP2PPairing,
+  encrypted: string
+) {
+  let msg: string;
+  let req: Beacon.Request;
+  try {
+    msg = await Beacon.decryptMessage(encrypted, pairing.publicKey);
+    req = Beacon.decodeMessage<Beacon.Request>(msg);
+  } catch {
+    // Not addressed to us
+    return;
+  }
+
+  if (!handler || req.type === Beacon.MessageType.HandshakeRequest) return;
+
+  if (roomId !== pairing.roomId) {
+    await savePairing({ ...pairing, roomId });
+  }
+
+  const res = await handler(toOrigin(pairing), msg);
+
+  if (req.type === Beacon.MessageType.Disconnect) {
+    await setPairings((await getPairings()).filter((p) => p.id !== pairing.id));
+    return;
+  }
+
+  if (res) {
+    await client.sendTextMessage(
+      roomId,
+      await Beacon.encryptMessage(res.payload, pairing.publicKey)
+    );
+  }
+}
+
+function getClient(relayServer: string) {
+  let client = clients.get(relayServer);
+  if (!client) {
+    client = login(relayServer);
+    clients.set(relayServer, client);
+    client.catch(() => clients.delete(relayServer));
+  }
+  return client;
+}
+
+/**
+ * Beacon relay servers authorize by signature of the current time period
+ */
+async function login(relayServer: string) {
+  await sodium.ready;
+  const keyPair = await Beacon.getOrCreateKeyPair();
+
+  const loginDigest = sodium.crypto_generichash(
+    32,
+    sodium.from_string(`login:${Math.floor(Date.now() / 1000 / LOGIN_PERIOD)}`)
+  );
+  const signature = sodium.crypto_sign_detached(
+    loginDigest,
+    keyPair.privateKey
+  );
+  const publicKeyHex = Beacon.toHex(keyPair.publicKey);
+
+  return MatrixClient.login(
+    relayServer,
+    await Beacon.getP2PUserName(keyPair.publicKey),
+    `ed:${Beacon.toHex(signature)}:${publicKeyHex}`,
+    publicKeyHex
+  );
+}
+
+async function toMatrixUserId(publicKey: string, relayServer: string) {
+  return `@${await Beacon.getP2PUserName(publicKey)}:${getRelayServerHost(
+    relayServer
+  )}`;
+}
+
+/**
+ * Initial sync returns room history, which is skipped -
+ * only messages received after pairing are processed
+ */
+async function ensureSyncToken(client: MatrixClient) {
+  const tokens = await getSyncTokens();
+  let since = tokens[client.relayServer];
+  if (!since) {
+    since = (await client.sync(undefined, 0)).next_batch;
+    await setSyncToken(client.relayServer, since);
+  }
+  return since;
+}
+
+async function savePairing(pairing: TempleBeaconP2PPairing) {
+  const pairings = await getPairings();
+  await setPairings([...pairings.filter((p) => p.id !== pairing.id), pairing]);
+}
+
+async function setPairings(pairings: TempleBeaconP2PPairing[]) {
+  await browser.storage.local.set({ [PAIRINGS_STORAGE_KEY]: pairings });
+}
+
+async function getSyncTokens(): Promise<Record<string, string>> {
+  const items = await browser.storage.local.get([SYNC_TOKENS_STORAGE_KEY]);
+  return items[SYNC_TOKENS_STORAGE_KEY] ?? {};
+}
+
+async function setSyncToken(relayServer: string, token: string) {
+  const tokens = await getSyncTokens();
+  await browser.storage.local.set({
+    [SYNC_TOKENS_STORAGE_KEY]: { ...tokens, [relayServer]: token },
+  });
+}
@@ -0,0 +1,78 @@
+import { Buffer } from "buffer";
+
+import { DerivationType } from "../types";
+import { derivePrivateKey, parseDerivationPath } from "./bip32";
+
+// https://github.com/satoshilabs/slips/blob/master/slip-0010.md#test-vectors
+const seed = Buffer.from("000102030405060708090a0b0c0d0e0f", "hex");
+
+const secp256k1Vectors = [
+  ["m", "e8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35"],
+  ["m/0'", "edb2e14f9ee77d26dd93b4ecede8d16ed408ce149b6cd80b0715a2d911a0afea"],
+  [
+    "m/0'/1",
+    "3c6cb8d0f6a264c91ea8b5030fadaa8e538b020f0a387421a12de9319dc93368",
+  ],
+  [
+    "m/0'/1/2'",
+    "cbce0d719ecf7431d88e6a89fa1483e02e35092af60c042b1df2ff59fa424dca",
+  ],
+  [
+    "m/0'/1/2'/2/1000000000",
+    "471b76e389e528d6de6d816857e012c5455051cad6660850e58372a6c3e6e7c8",
+  ],
+];
+
+const p256Vectors = [
+  ["m", "612091aaa12e22dd2abef664f8a01a82cae99ad7441b7ef8110424915c268bc2"],
+  ["m/0'", "6939694369114c67917a182c59ddb8cafc3004e63ca5d3b84403ba8613debc0c"],
+  [
+    "m/0'/1",
+    "284e9d38d07d21e4e281b645089a94f4cf5a5a81369acf151a1c3a57f18b2129",
+  ],
+  [
+    "m/0'/1/2'",
+    "694596e8a54f252c960eb771a3c41e7e32496d03b954aeb90f61635b8e092aa7",
+  ],
+  [
+    "m/0'/1/2'/2/1000000000",
+    "21c4f269ef0a5fd1badf47eeacebeeaa3de22eb8e5b0adcd0f27dd99d34d0119",
+  ],
+  // Derivation retry
+  [
+    "m/28578'/33941",
+    "092154eed4af83e078ff9b84322015aefe5769e31270f62c3f66c33888335f3a",
+  ],
+];
+
+describe("BIP32 tests", () => {
+  it.each(secp256k1Vectors)(
+    "secp256k1 %s test",
+    async (derivationPath, privateKey) => {
+      const key = await derivePrivateKey(
+        seed,
+        derivationPath,
+        DerivationType.SECP256K1
+      );
+      expect(key.toString("hex")).toBe(privateKey);
+    }
+  );
+
+  it.each(p256Vectors)("p256 %s test", async (derivationPath, privateKey) => {
+    const key = await derivePrivateKey(
+      seed,
+      derivationPath,
+      DerivationType.P256
+    );
+    expect(key.toString("hex")).toBe(privateKey);
+  });
+
+  it("parseDerivationPath test", () => {
+    expect(parseDerivationPath("m")).toEqual([]);
+    expect(parseDerivationPath("m/44'/1729'/0'/0")).toEqual([
+      0x8000002c, 0x800006c1, 0x80000000, 0,
+    ]);
+    expect(() => parseDerivationPath("44'/1729'")).toThrow();
+    expect(() => parseDerivationPath("m/2147483648")).toThrow();
+  });
+});
@@ -0,0 +1,140 @@
+import { Buffer } from "buffer";
+import { ec as EC } from "elliptic";
+
+import { DerivationType } from "lib/temple/types";
+
+/**
+ * BIP32 private key derivation for Weierstrass curves,
+ * generalized for NIST P-256 as specified in SLIP-0010
+ * https://github.com/satoshilabs/slips/blob/master/slip-0010.md
+ */
+
+export type Bip32DerivationType =
+  | DerivationType.SECP256K1
+  | DerivationType.P256;
+
+const HARDENED_OFFSET = 0x80000000;
+const PATH_PATTERN = /^m(\/\d+'?)*$/;
+
+const CURVES = {
+  [DerivationType.SECP256K1]: { name: "secp256k1", seedKey: "Bitcoin seed" },
+  [DerivationType.P256]: { name: "p256", seedKey: "Nist256p1 seed" },
+};
+
+const ecs = new Map<Bip32DerivationType, EC>();
+
+export async function derivePrivateKey(
+  seed: Buffer,
+  derivationPath: string,
+  derivationType: Bip32DerivationType
+) {
+  const indexes = parseDerivationPath(derivationPath);
+  const ec = getEC(derivationType);
+
+  let [key, chainCode] = await getMasterKey(
+    ec,
+    CURVES[derivationType].seedKey,
+    seed
+  );
+  for (const index of indexes) {
+    [key, chainCode] = await deriveChildKey(ec, key, chainCode, index);
+  }
+
+  return key;
+}
+
+export function parseDerivationPath(derivationPath: string) {
+  if (!PATH_PATTERN.test(derivationPath)) {
+    throw new Error("Invalid derivation path");
+  }
+
+  return derivationPath
+    .split("/")
+    .slice(1)
+    .map((part) => {
+      const hardened = part.endsWith("'");
+      const index = +(hardened ? part.slice(0, -1) : part);
+      if (index >= HARDENED_OFFSET) {
+        throw new Error("Invalid derivation path");
+      }
+      return hardened ? index + HARDENED_OFFSET : index;
+    });
+}
+
+async function getMasterKey(ec: EC, seedKey: string, seed: Buffer) {
+  let I = await hmacSHA512(Buffer.from(seedKey), seed);
+  while (!isValidPrivateKey(ec, I.slice(0, 32))) {
+    I = await hmacSHA512(Buffer.from(seedKey), I);
+  }
+
+  return splitKey(I);
+}
+
+async function deriveChildKey(
+  ec: EC,
+  parentKey: Buffer,
+  parentChainCode: Buffer,
+  index: number
+) {
+  const indexBuf = Buffer.alloc(4);
+  indexBuf.writeUInt32BE(index, 0);
+
+  let data =
+    index >= HARDENED_OFFSET
+      ? Buffer.concat([Buffer.alloc(1, 0), parentKey, indexBuf])
+      : Buffer.concat([
+          Buffer.from(ec.keyFromPrivate(parentKey).getPublic(true, "array")),
+          indexBuf,
+        ]);
+
+  for (;;) {
+    const I = await hmacSHA512(parentChainCode, data);
+    const [IL, IR] = splitKey(I);
+
+    if (isLessThanOrder(ec, IL)) {
+      const childKey = ec
+        .keyFromPrivate(IL)
+        .getPrivate()
+        .add(ec.keyFromPrivate(parentKey).getPrivate())
+        .umod(ec.curve.n!);
+
+      if (!childKey.isZero()) {
+        return [childKey.toArrayLike(Buffer, "be", 32), IR];
+      }
+    }
+
+    data = Buffer.concat([Buffer.alloc(1, 1), IR, indexBuf]);
+  }
+}
+
+async function hmacSHA512(key: Buffer, data: Buffer) {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-512" },
+    false,
+    ["sign"]
+  );
+  return Buffer.from(await crypto.subtle.sign("HMAC", cryptoKey, data));
+}
+
+function splitKey(I: Buffer) {
+  return [I.slice(0, 32), I.slice(32)];
+}
+
+function isValidPrivateKey(ec: EC, key: Buffer) {
+  return isLessThanOrder(ec, key) && key.some((byte) => byte !== 0);
+}
+
+function isLessThanOrder(ec: EC, key: Buffer) {
+  return Buffer.compare(key, ec.curve.n!.toArrayLike(Buffer, "be", 32)) < 0;
+}
+
+function getEC(derivationType: Bip32DerivationType) {
+  let ec = ecs.get(derivationType);
+  if (!ec) {
+    ec = new EC(CURVES[derivationType].name);
+    ecs.set(derivationType, ec);
+  }
+  return ec;
+}
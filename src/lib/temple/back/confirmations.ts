@@ -0,0 +1,164 @@
+import { browser, Runtime, Windows } from "webextension-polyfill-ts";
+
+import { intercom } from "lib/temple/back/defaults";
+import { TempleMessageType, TemplePendingConfirmation } from "lib/temple/types";
+
+/**
+ * Queue of confirmations waiting for user decision.
+ * DApp requests share a single confirmation window, which lists
+ * all pending confirmations and is closed once no dApp requests are left.
+ */
+
+const CONFIRM_WINDOW_WIDTH = 380;
+const CONFIRM_WINDOW_HEIGHT = 632;
+
+type PendingEntry = {
+  confirmation: TemplePendingConfirmation;
+  decline: () => void;
+};
+
+const pending = new Map<string, PendingEntry>();
+let confirmWindow: Promise<Windows.Window> | null = null;
+let confirmWindowId: number | undefined;
+
+export function getPendingConfirmations() {
+  return Array.from(pending.values(), ({ confirmation }) => confirmation);
+}
+
+export function addPendingConfirmation(
+  confirmation: TemplePendingConfirmation,
+  decline: () => void
+) {
+  pending.set(confirmation.id, { confirmation, decline });
+  notifyUpdated();
+}
+
+export function removePendingConfirmation(id: string) {
+  if (pending.delete(id)) {
+    notifyUpdated();
+  }
+}
+
+export function declineAllConfirmations() {
+  declineWhere(() => true);
+}
+
+export function isConfirmWindowPort(port: Runtime.Port) {
+  const windowId = port.sender?.tab?.windowId;
+  return windowId !== undefined && windowId === confirmWindowId;
+}
+
+/**
+ * Opens confirmation window, or focuses it if already opened
+ */
+export async function openConfirmWindow(id: string) {
+  if (confirmWindow) {
+    try {
+      const win = await confirmWindow;
+      if (win.id) {
+        await browser.windows.update(win.id, { focused: true });
+        return;
+      }
+    } catch {}
+  }
+
+  confirmWindow = createConfirmWindow(id);
+  try {
+    await confirmWindow;
+  } catch (err) {
+    confirmWindow = null;
+    throw err;
+  }
+}
+
+export async function closeConfirmWindowIfIdle() {
+  const dAppPending = getPendingConfirmations().some(
+    ({ kind }) => kind === "dapp"
+  );
+  if (dAppPending || !confirmWindow) return;
+
+  const winPromise = confirmWindow;
+  confirmWindow = null;
+  confirmWindowId = undefined;
+
+  const { id: winId } = await winPromise;
+  if (winId) {
+    const win = await browser.windows.get(winId);
+    if (win.id) {
+      await browser.windows.remove(win.id);
+    }
+  }
+}
+
+async function createConfirmWindow(id: string) {
+  const isWin = (await browser.runtime.getPlatformInfo()).os === "win";
+
+  let left = 0;
+  let top = 0;
+  try {
+    const lastFocused = await browser.windows.getLastFocused();
+    // Position window in top right corner of lastFocused window.
+
+    top = Math.round(
+      lastFocused.top! + lastFocused.height! / 2 - CONFIRM_WINDOW_HEIGHT / 2
+    );
+    left = Math.round(
+      lastFocused.left! + lastFocused.width! / 2 - CONFIRM_WINDOW_WIDTH / 2
+    );
+  } catch {
+    // The following properties are more than likely 0, due to being
+    // opened from the background chrome process for the extension that
+    // has no physical dimensions
+    const { screenX, screenY, outerWidth, outerHeight } = window;
+    top = Math.round(screenY + outerHeight / 2 - CONFIRM_WINDOW_HEIGHT / 2);
+    left = Math.round(screenX + outerWidth / 2 - CONFIRM_WINDOW_WIDTH / 2);
+  }
+
+  const confirmWin = await browser.windows.create({
+    type: "popup",
+    url: browser.runtime.getURL(`confirm.html#?id=${id}`),
+    width: isWin ? CONFIRM_WINDOW_WIDTH + 16 : CONFIRM_WINDOW_WIDTH,
+    height: isWin ? CONFIRM_WINDOW_HEIGHT + 17 : CONFIRM_WINDOW_HEIGHT,
+    top: Math.max(top, 20),
+    left: Math.max(left, 20),
+  });
+  confirmWindowId = confirmWin.id;
+
+  // Firefox currently ignores left/top for create, but it works for update
+  if (
+    confirmWin.id &&
+    confirmWin.left !== left &&
+    confirmWin.state !== "fullscreen"
+  ) {
+    await browser.windows.update(confirmWin.id, { left, top });
+  }
+
+  const handleWinRemoved = (winId: number) => {
+    if (winId !== confirmWin.id) return;
+
+    browser.windows.onRemoved.removeListener(handleWinRemoved);
+
+    // Closed by user, all dApp requests shown in the window are declined
+    if (confirmWindowId === winId) {
+      confirmWindow = null;
+      confirmWindowId = undefined;
+      declineWhere(({ kind }) => kind === "dapp");
+    }
+  };
+  browser.windows.onRemoved.addListener(handleWinRemoved);
+
+  return confirmWin;
+}
+
+function declineWhere(
+  predicate: (confirmation: TemplePendingConfirmation) => boolean
+) {
+  // Declined confirmations remove themselves from the queue
+  Array.from(pending.values())
+    .filter(({ confirmation }) => predicate(confirmation))
+    .forEach(({ decline }) => decline());
+}
+
+function notifyUpdated() {
+  intercom.broadcast({ type: TempleMessageType.PendingConfirmationsUpdated });
+}
@@ -0,0 +1,131 @@
+import { TempleDAppErrorType } from "@temple-wallet/dapp/dist/types";
+
+import { dAppActivityToCSV } from "lib/temple/dapp-activity";
+import * as Repo from "lib/temple/repo";
+import { TempleDAppMessageType } from "lib/temple/types";
+
+import { enqueueDAppRequest } from "./dapp";
+import { summarizeDAppRequest, withDAppActivity } from "./dapp-activity";
+
+const PKH = "tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb";
+const CONTRACT_ADDRESS = "KT1RxKJyi48W3bZR8HErRiisXZQw19HwLGWj";
+
+const ORIGIN = "https://game.example.com";
+
+describe("DApp activity tests", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("summarizes requests", () => {
+    expect(
+      summarizeDAppRequest({
+        type: TempleDAppMessageType.PermissionRequest,
+        network: { name: "local", rpc: "http://localhost:8732" },
+        appMeta: { name: "Game" },
+      })
+    ).toBe("local");
+    expect(
+      summarizeDAppRequest({
+        type: TempleDAppMessageType.OperationRequest,
+        sourcePkh: PKH,
+        opParams: [
+          {
+            kind: "transaction",
+            to: CONTRACT_ADDRESS,
+            amount: 1,
+            parameter: { entrypoint: "buy", value: { prim: "Unit" } },
+          },
+          { kind: "delegation", delegate: PKH },
+        ],
+      })
+    ).toBe(
+      `transaction to ${CONTRACT_ADDRESS} 1 tez entrypoint buy; delegation`
+    );
+    expect(
+      summarizeDAppRequest({
+        type: TempleDAppMessageType.SignRequest,
+        sourcePkh: PKH,
+        payload: "05".padEnd(40, "0"),
+      })
+    ).toBe(`20 bytes: ${"05".padEnd(32, "0")}...`);
+    expect(
+      summarizeDAppRequest({
+        type: TempleDAppMessageType.PermitRequest,
+        sourcePkh: PKH,
+        contractAddress: CONTRACT_ADDRESS,
+        entrypoint: "transfer",
+        params: { int: "1" },
+        submit: true,
+      })
+    ).toBe(`transfer on ${CONTRACT_ADDRESS}; submit`);
+  });
+
+  it("records requests rejected by queue", async () => {
+    const add = jest
+      .spyOn(Repo.dAppActivity, "add")
+      .mockResolvedValue(undefined as any);
+    const req = {
+      type: TempleDAppMessageType.SignRequest,
+      sourcePkh: PKH,
+      payload: "05",
+    } as const;
+
+    // Fill up the queue with requests waiting for confirmation
+    for (let i = 0; i < 3; i++) {
+      enqueueDAppRequest(
+        ORIGIN,
+        { ...req, payload: `0${i}` },
+        () => new Promise(() => {})
+      );
+    }
+
+    await expect(
+      withDAppActivity(ORIGIN, req, () =>
+        enqueueDAppRequest(ORIGIN, req, () => Promise.resolve())
+      )
+    ).rejects.toThrow(TempleDAppErrorType.NotGranted);
+    expect(add).toHaveBeenCalledTimes(1);
+    expect(add).toHaveBeenCalledWith(
+      expect.objectContaining({
+        origin: ORIGIN,
+        type: "sign",
+        pkh: PKH,
+        decision: "declined",
+        error: TempleDAppErrorType.NotGranted,
+      })
+    );
+  });
+
+  it("exports activity to CSV", () => {
+    const csv = dAppActivityToCSV([
+      {
+        id: 2,
+        origin: ORIGIN,
+        type: "operation",
+        pkh: PKH,
+        summary: 'transaction to KT1, "1 tez"',
+        decision: "approved",
+        opHash: "ooHash",
+        requestedAt: Date.UTC(2021, 8, 1),
+        resolvedAt: Date.UTC(2021, 8, 1, 0, 1),
+      },
+      {
+        id: 1,
+        origin: ORIGIN,
+        type: "sign",
+        summary: "=HYPERLINK()",
+        decision: "declined",
+        error: "NOT_GRANTED",
+        requestedAt: Date.UTC(2021, 8, 1),
+        resolvedAt: Date.UTC(2021, 8, 1),
+      },
+    ]);
+
+    expect(csv.split("\n")).toEqual([
+      "requestedAt,resolvedAt,origin,type,pkh,summary,decision,error,opHash",
+      '2021-09-01T00:00:00.000Z,2021-09-01T00:01:00.000Z,https://game.example.com,operation,tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb,"transaction to KT1, ""1 tez""",approved,,ooHash',
+      "2021-09-01T00:00:00.000Z,2021-09-01T00:00:00.000Z,https://game.example.com,sign,,'=HYPERLINK(),declined,NOT_GRANTED,",
+    ]);
+  });
+});
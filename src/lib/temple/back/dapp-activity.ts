@@ -0,0 +1,142 @@
+import {
+  TempleDAppErrorType,
+  TempleDAppRequest,
+} from "@temple-wallet/dapp/dist/types";
+
+import { TempleDAppScopedPermissionRequest } from "lib/temple/back/dapp";
+import * as Repo from "lib/temple/repo";
+import {
+  TempleDAppMessageType,
+  TempleDAppPermitRequest,
+} from "lib/temple/types";
+
+type LoggedRequest = TempleDAppRequest | TempleDAppPermitRequest;
+
+const SIGN_PAYLOAD_PREVIEW_LENGTH = 32;
+
+/**
+ * Records the request and its outcome into dApp activity log.
+ * Failing to write a record never affects the request itself.
+ */
+export async function withDAppActivity<T>(
+  origin: string,
+  req: LoggedRequest,
+  factory: () => Promise<T>
+): Promise<T> {
+  const type = getActivityType(req);
+  if (!type) {
+    return factory();
+  }
+
+  const base = {
+    origin,
+    type,
+    pkh: "sourcePkh" in req ? req.sourcePkh : undefined,
+    summary: summarizeDAppRequest(req),
+    requestedAt: Date.now(),
+  };
+
+  try {
+    const res = await factory();
+    const { pkh, opHash } = (res ?? {}) as { pkh?: string; opHash?: string };
+    addRecord({
+      ...base,
+      pkh: base.pkh ?? pkh,
+      decision: "approved",
+      opHash,
+      resolvedAt: Date.now(),
+    });
+    return res;
+  } catch (err) {
+    addRecord({
+      ...base,
+      decision:
+        err?.message === TempleDAppErrorType.NotGranted ? "declined" : "failed",
+      error: err?.message,
+      resolvedAt: Date.now(),
+    });
+    throw err;
+  }
+}
+
+export function summarizeDAppRequest(req: LoggedRequest) {
+  switch (req.type) {
+    case TempleDAppMessageType.PermissionRequest:
+      const { network, scopes } = req as TempleDAppScopedPermissionRequest;
+      return [
+        typeof network === "string" ? network : network?.name || network?.rpc,
+        scopes && `scopes: ${scopes.join(", ")}`,
+      ]
+        .filter(Boolean)
+        .join("; ");
+
+    case TempleDAppMessageType.OperationRequest:
+      return (req.opParams ?? []).map(summarizeOpParams).join("; ");
+
+    case TempleDAppMessageType.SignRequest:
+      const payload = req.payload ?? "";
+      return [
+        `${Math.floor(payload.length / 2)} bytes`,
+        payload.length > SIGN_PAYLOAD_PREVIEW_LENGTH
+          ? `${payload.slice(0, SIGN_PAYLOAD_PREVIEW_LENGTH)}...`
+          : payload,
+      ].join(": ");
+
+    case TempleDAppMessageType.PermitRequest:
+      return [
+        `${req.entrypoint} on ${req.contractAddress}`,
+        req.submit && "submit",
+      ]
+        .filter(Boolean)
+        .join("; ");
+
+    case TempleDAppMessageType.BroadcastRequest:
+      return `${Math.floor((req.signedOpBytes ?? "").length / 2)} bytes`;
+
+    default:
+      return "";
+  }
+}
+
+function summarizeOpParams(op: any) {
+  return [
+    op.kind,
+    op.to && `to ${op.to}`,
+    op.amount !== undefined && `${op.amount} ${op.mutez ? "mutez" : "tez"}`,
+    op.parameter?.entrypoint && `entrypoint ${op.parameter.entrypoint}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function getActivityType(
+  req: LoggedRequest
+): Repo.IDAppActivity["type"] | null {
+  switch (req?.type) {
+    case TempleDAppMessageType.PermissionRequest:
+      return "permission";
+
+    case TempleDAppMessageType.OperationRequest:
+      return "operation";
+
+    case TempleDAppMessageType.SignRequest:
+      return "sign";
+
+    case TempleDAppMessageType.PermitRequest:
+      return "permit";
+
+    case TempleDAppMessageType.BroadcastRequest:
+      return "broadcast";
+
+    default:
+      return null;
+  }
+}
+
+function addRecord(record: Repo.IDAppActivity) {
+  Repo.dAppActivity.add(record).catch((err) => {
+    if (process.env.NODE_ENV === "development") {
+      console.error(err);
+    }
+  });
+}
@@ -0,0 +1,231 @@
+import { browser } from "webextension-polyfill-ts";
+
+import { TempleDAppScope, TempleDAppSession } from "../types";
+import {
+  addAutoApprovedOperation,
+  checkAutoApprove,
+  getActiveAutoApprovePolicy,
+  getAutoApprovedOperations,
+  getSpentToday,
+  isAutoApprovePolicyValid,
+  removeAutoApprovedOperations,
+} from "./dapp-auto-approve";
+
+const ORIGIN = "https://game.example.com";
+const PKH = "tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb";
+const CONTRACT = "KT1PWx2mnDueood7fEmfbBDKx1D9BAnnXitn";
+const DAY = 24 * 60 * 60 * 1000;
+
+const policy = {
+  maxPerOperation: "1000000",
+  maxPerDay: "2000000",
+  allowedEntrypoints: ["play", "claim"],
+  expiresAt: Date.now() + DAY,
+};
+
+const call = (entrypoint: string, amount = 0, fee = 1000) => ({
+  kind: "transaction",
+  to: CONTRACT,
+  amount,
+  mutez: true,
+  fee,
+  parameter: { entrypoint, value: { prim: "Unit" } },
+});
+
+const estimate = (suggestedFeeMutez: number, burnFeeMutez = 0) =>
+  ({ suggestedFeeMutez, burnFeeMutez } as any);
+
+const operation = (spent: string, approvedAt = Date.now()) => ({
+  opHash: `oo${approvedAt}`,
+  sourcePkh: PKH,
+  entrypoints: ["play"],
+  spent,
+  approvedAt,
+});
+
+describe("DApp auto-approve tests", () => {
+  afterEach(async () => {
+    await browser.storage.local.clear();
+  });
+
+  it("validates policy", () => {
+    expect(isAutoApprovePolicyValid(policy)).toBeTruthy();
+    expect(
+      isAutoApprovePolicyValid({ ...policy, maxPerOperation: "1.5" })
+    ).toBeFalsy();
+    expect(
+      isAutoApprovePolicyValid({ ...policy, allowedEntrypoints: [] })
+    ).toBeFalsy();
+    expect(
+      isAutoApprovePolicyValid({ ...policy, allowedEntrypoints: ["a b"] })
+    ).toBeFalsy();
+    expect(isAutoApprovePolicyValid({ ...policy, expiresAt: NaN })).toBeFalsy();
+  });
+
+  it("requires threshold scope and not expired policy", () => {
+    const session: TempleDAppSession = {
+      network: "mainnet",
+      appMeta: { name: "Game" },
+      pkh: PKH,
+      publicKey: "edpk",
+      scopes: [TempleDAppScope.Operation, TempleDAppScope.Threshold],
+      autoApprove: policy,
+    };
+    expect(getActiveAutoApprovePolicy(session)).toBe(policy);
+    expect(
+      getActiveAutoApprovePolicy(session, policy.expiresAt)
+    ).toBeUndefined();
+    expect(
+      getActiveAutoApprovePolicy({
+        ...session,
+        scopes: [TempleDAppScope.Operation],
+      })
+    ).toBeUndefined();
+  });
+
+  it("approves allowed entrypoints within budget", () => {
+    expect(
+      checkAutoApprove(
+        policy,
+        PKH,
+        [call("play", 500_000), call("claim")],
+        [estimate(1000, 250), estimate(1000)],
+        "0"
+      )
+    ).toEqual({ spent: "502250", entrypoints: ["play", "claim"] });
+
+    // Reveal fee is counted too
+    expect(
+      checkAutoApprove(
+        policy,
+        PKH,
+        [call("play")],
+        [estimate(1420), estimate(1000)],
+        "0"
+      )
+    ).toEqual({ spent: "2420", entrypoints: ["play"] });
+  });
+
+  it("rejects operations outside of policy", () => {
+    const estimates = [estimate(1000)];
+    expect(
+      checkAutoApprove(policy, PKH, [call("transfer")], estimates, "0")
+    ).toBeNull();
+    expect(
+      checkAutoApprove(
+        policy,
+        PKH,
+        [{ kind: "delegation", delegate: PKH }],
+        estimates,
+        "0"
+      )
+    ).toBeNull();
+    expect(
+      checkAutoApprove(policy, PKH, [call("play", 1_000_000)], estimates, "0")
+    ).toBeNull();
+    expect(
+      checkAutoApprove(
+        policy,
+        PKH,
+        [call("play", 500_000)],
+        estimates,
+        "1600000"
+      )
+    ).toBeNull();
+    // Plain transfers go to default entrypoint
+    expect(
+      checkAutoApprove(
+        { ...policy, allowedEntrypoints: ["default"] },
+        PKH,
+        [{ kind: "transaction", to: PKH, amount: 1, mutez: true }],
+        estimates,
+        "0"
+      )
+    ).toEqual({ spent: "1", entrypoints: ["default"] });
+  });
+
+  it("counts amounts without mutez flag in tez", () => {
+    const tezCall = { ...call("play"), amount: 1, mutez: undefined };
+    expect(
+      checkAutoApprove(policy, PKH, [tezCall], [estimate(1000)], "0")
+    ).toBeNull();
+    expect(
+      checkAutoApprove(
+        { ...policy, maxPerOperation: "2000000" },
+        PKH,
+        [{ ...tezCall, amount: "0.5" }],
+        [estimate(1000)],
+        "0"
+      )
+    ).toEqual({ spent: "501000", entrypoints: ["play"] });
+  });
+
+  it("rejects operations with tokens", () => {
+    const tokenPolicy = {
+      ...policy,
+      allowedEntrypoints: ["transfer", "update_operators", "play"],
+    };
+    const estimates = [estimate(1000)];
+    const fa12Transfer = {
+      ...call("transfer"),
+      parameter: {
+        entrypoint: "transfer",
+        value: {
+          prim: "Pair",
+          args: [
+            { string: PKH },
+            { prim: "Pair", args: [{ string: CONTRACT }, { int: "100" }] },
+          ],
+        },
+      },
+    };
+    expect(
+      checkAutoApprove(tokenPolicy, PKH, [fa12Transfer], estimates, "0")
+    ).toBeNull();
+    expect(
+      checkAutoApprove(
+        tokenPolicy,
+        PKH,
+        [call("play"), call("update_operators")],
+        [estimate(1000), estimate(1000)],
+        "0"
+      )
+    ).toBeNull();
+  });
+
+  it("counts spendings of today only", () => {
+    const now = new Date();
+    expect(
+      getSpentToday(
+        [
+          operation("1000", now.getTime()),
+          operation("2500", now.getTime()),
+          operation("700000", now.getTime() - 2 * DAY),
+        ],
+        now
+      )
+    ).toBe("3500");
+  });
+
+  it("stores auto-approved operations per origin", async () => {
+    const now = Date.now();
+    const old = Array.from({ length: 120 }, (_, i) =>
+      operation("1", now - 2 * DAY - i)
+    );
+    for (const op of old.reverse()) {
+      await addAutoApprovedOperation(ORIGIN, op);
+    }
+    await addAutoApprovedOperation(ORIGIN, operation("10", now));
+    await addAutoApprovedOperation("https://other.example.com", operation("5"));
+
+    const operations = await getAutoApprovedOperations(ORIGIN);
+    expect(operations).toHaveLength(100);
+    expect(operations[0].spent).toBe("10");
+
+    await removeAutoApprovedOperations(ORIGIN);
+    expect(await getAutoApprovedOperations(ORIGIN)).toEqual([]);
+    expect(
+      await getAutoApprovedOperations("https://other.example.com")
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,151 @@
+import { Estimate } from "@taquito/taquito/dist/types/contract/estimate";
+import BigNumber from "bignumber.js";
+import { browser } from "webextension-polyfill-ts";
+
+import {
+  getSpendingsDay,
+  toMutezOpParams,
+} from "lib/temple/back/account-policy";
+import { tryParseExpensesPure } from "lib/temple/front/expenses";
+import {
+  TempleDAppAutoApprovedOperation,
+  TempleDAppAutoApprovePolicy,
+  TempleDAppScope,
+  TempleDAppSession,
+} from "lib/temple/types";
+
+/**
+ * Auto-approve (threshold) policy lets trusted dApps send operations
+ * without confirmation, while they are inside of the budget
+ */
+
+const STORAGE_KEY = "dapp_auto_approved_operations";
+const MAX_STORED_OPERATIONS = 100;
+const ENTRYPOINT_PATTERN = /^[a-zA-Z0-9_]{1,31}$/;
+const DEFAULT_ENTRYPOINT = "default";
+const MUTEZ_PATTERN = /^\d+$/;
+// Their parameters may be not recognized as token expenses
+const TOKEN_ENTRYPOINTS = ["transfer", "approve", "update_operators"];
+
+export function isAutoApprovePolicyValid(policy: TempleDAppAutoApprovePolicy) {
+  return [
+    MUTEZ_PATTERN.test(policy?.maxPerOperation),
+    MUTEZ_PATTERN.test(policy?.maxPerDay),
+    Array.isArray(policy?.allowedEntrypoints) &&
+      policy.allowedEntrypoints.length > 0 &&
+      policy.allowedEntrypoints.every((e) => ENTRYPOINT_PATTERN.test(e)),
+    Number.isSafeInteger(policy?.expiresAt),
+  ].every(Boolean);
+}
+
+export function getActiveAutoApprovePolicy(
+  session: TempleDAppSession,
+  now = Date.now()
+) {
+  const policy = session.autoApprove;
+  return policy &&
+    policy.expiresAt > now &&
+    session.scopes?.includes(TempleDAppScope.Threshold)
+    ? policy
+    : undefined;
+}
+
+/**
+ * Checks dry-run operations against auto-approve policy.
+ * Returns amount of mutez they would spend, or null if
+ * they have to be confirmed by user. Budget is in tez only,
+ * so operations with tokens are never auto-approved.
+ */
+export function checkAutoApprove(
+  policy: TempleDAppAutoApprovePolicy,
+  sourcePkh: string,
+  opParams: any[],
+  estimates: Estimate[],
+  spentToday: string
+) {
+  const movesTokens = tryParseExpensesPure(opParams, sourcePkh).some(
+    ({ type, expenses }) =>
+      TOKEN_ENTRYPOINTS.includes(type) ||
+      expenses.some(({ tokenAddress }) => tokenAddress)
+  );
+  if (movesTokens) return null;
+
+  const entrypoints: string[] = [];
+  let spent = new BigNumber(0);
+
+  // Amounts without mutez flag are sent in tez
+  for (const op of toMutezOpParams(opParams)) {
+    if (op.kind !== "transaction") return null;
+
+    const entrypoint = op.parameter?.entrypoint ?? DEFAULT_ENTRYPOINT;
+    if (!policy.allowedEntrypoints.includes(entrypoint)) return null;
+    entrypoints.push(entrypoint);
+
+    spent = spent.plus(op.amount ?? 0).plus(op.fee ?? 0);
+  }
+
+  // Reveal is estimated as the first operation
+  const withReveal = estimates.length === opParams.length + 1;
+  if (withReveal) {
+    spent = spent.plus(estimates[0].suggestedFeeMutez);
+  }
+  for (const { burnFeeMutez } of estimates) {
+    spent = spent.plus(burnFeeMutez ?? 0);
+  }
+
+  if (
+    !spent.isFinite() ||
+    spent.isGreaterThan(policy.maxPerOperation) ||
+    spent.plus(spentToday).isGreaterThan(policy.maxPerDay)
+  ) {
+    return null;
+  }
+
+  return { spent: spent.toFixed(), entrypoints };
+}
+
+export function getSpentToday(
+  operations: TempleDAppAutoApprovedOperation[],
+  now = new Date()
+) {
+  const today = getSpendingsDay(now);
+  return operations
+    .filter(({ approvedAt }) => getSpendingsDay(new Date(approvedAt)) === today)
+    .reduce((sum, { spent }) => sum.plus(spent), new BigNumber(0))
+    .toFixed();
+}
+
+export async function getAutoApprovedOperations(
+  origin: string
+): Promise<TempleDAppAutoApprovedOperation[]> {
+  return (await getAllAutoApprovedOperations())[origin] ?? [];
+}
+
+export async function addAutoApprovedOperation(
+  origin: string,
+  operation: TempleDAppAutoApprovedOperation
+) {
+  const all = await getAllAutoApprovedOperations();
+  const today = getSpendingsDay();
+  // Today's operations are kept to count them towards daily limit
+  const operations = [operation, ...(all[origin] ?? [])].filter(
+    ({ approvedAt }, i) =>
+      i < MAX_STORED_OPERATIONS ||
+      getSpendingsDay(new Date(approvedAt)) === today
+  );
+  await browser.storage.local.set({
+    [STORAGE_KEY]: { ...all, [origin]: operations },
+  });
+}
+
+export async function removeAutoApprovedOperations(origin: string) {
+  const { [origin]: removed, ...rest } = await getAllAutoApprovedOperations();
+  await browser.storage.local.set({ [STORAGE_KEY]: rest });
+}
+
+async function getAllAutoApprovedOperations(): Promise<
+  Record<string, TempleDAppAutoApprovedOperation[]>
+> {
+  const items = await browser.storage.local.get([STORAGE_KEY]);
+  return items[STORAGE_KEY] ?? {};
+}
@@ -0,0 +1,403 @@
+import {
+  TempleDAppErrorType,
+  TempleDAppOperationRequest,
+  TempleDAppSignRequest,
+} from "@temple-wallet/dapp/dist/types";
+import { browser } from "webextension-polyfill-ts";
+
+import * as Helpers from "../helpers";
+import {
+  TempleChainId,
+  TempleDAppMessageType,
+  TempleDAppScope,
+  TempleDAppSession,
+} from "../types";
+import {
+  declineAllConfirmations,
+  getPendingConfirmations,
+} from "./confirmations";
+import {
+  enqueueDAppRequest,
+  getAllDApps,
+  getCurrentPermission,
+  getDApp,
+  requestBroadcast,
+  requestOperation,
+  requestPermission,
+  requestPermit,
+  requestSign,
+  setDApp,
+  setDAppAutoApprovePolicy,
+  setDAppScopes,
+} from "./dapp";
+
+const ORIGIN = "https://game.example.com";
+const PKH = "tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb";
+const OTHER_PKH = "tz1aSkwEot3L2kmUvcoxzjMomb9mvBNuzFK6";
+const LOCAL_NETWORK = { name: "local", rpc: "http://localhost:8732" };
+
+const session = (rest: Partial<TempleDAppSession> = {}): TempleDAppSession => ({
+  network: "mainnet",
+  appMeta: { name: "Game" },
+  pkh: PKH,
+  publicKey: "edpk",
+  ...rest,
+});
+
+const operationReq = (sourcePkh = PKH): TempleDAppOperationRequest => ({
+  type: TempleDAppMessageType.OperationRequest,
+  sourcePkh,
+  opParams: [{ kind: "transaction", to: OTHER_PKH, amount: 1 }],
+});
+
+const signReq = (sourcePkh = PKH): TempleDAppSignRequest => ({
+  type: TempleDAppMessageType.SignRequest,
+  sourcePkh,
+  payload: "05010000000474657374",
+});
+
+const permitReq = (submit = false) => ({
+  type: TempleDAppMessageType.PermitRequest,
+  sourcePkh: PKH,
+  contractAddress: "KT1RxKJyi48W3bZR8HErRiisXZQw19HwLGWj",
+  entrypoint: "transfer",
+  params: { int: "1" },
+  submit,
+});
+
+describe("DApp scopes tests", () => {
+  afterEach(async () => {
+    await browser.storage.local.clear();
+  });
+
+  it("rejects requests outside of granted scopes", async () => {
+    await setDApp(ORIGIN, session({ scopes: [TempleDAppScope.Operation] }));
+    await expect(requestSign(ORIGIN, signReq())).rejects.toThrow(
+      TempleDAppErrorType.NotGranted
+    );
+
+    await setDApp(ORIGIN, session({ scopes: [TempleDAppScope.Sign] }));
+    await expect(requestOperation(ORIGIN, operationReq())).rejects.toThrow(
+      TempleDAppErrorType.NotGranted
+    );
+    await expect(
+      requestBroadcast(ORIGIN, {
+        type: TempleDAppMessageType.BroadcastRequest,
+        signedOpBytes: "00",
+      })
+    ).rejects.toThrow(TempleDAppErrorType.NotGranted);
+  });
+
+  it("requires operation scope to submit permits", async () => {
+    await setDApp(ORIGIN, session({ scopes: [TempleDAppScope.Sign] }));
+    await expect(requestPermit(ORIGIN, permitReq(true))).rejects.toThrow(
+      TempleDAppErrorType.NotGranted
+    );
+    await expect(
+      requestPermit(ORIGIN, { ...permitReq(), contractAddress: PKH })
+    ).rejects.toThrow(TempleDAppErrorType.InvalidParams);
+  });
+
+  it("rejects requests from accounts not connected to session", async () => {
+    await setDApp(ORIGIN, session());
+    await expect(requestSign(ORIGIN, signReq(OTHER_PKH))).rejects.toThrow(
+      TempleDAppErrorType.NotFound
+    );
+
+    await setDApp(
+      ORIGIN,
+      session({ scopes: [TempleDAppScope.Threshold], accounts: [] })
+    );
+    await expect(requestOperation(ORIGIN, operationReq(PKH))).rejects.toThrow(
+      TempleDAppErrorType.NotGranted
+    );
+  });
+
+  it("returns granted scopes for existing session", async () => {
+    await setDApp(ORIGIN, session({ scopes: [TempleDAppScope.Operation] }));
+    const res = await requestPermission(ORIGIN, {
+      type: TempleDAppMessageType.PermissionRequest,
+      network: "mainnet",
+      appMeta: { name: "Game" },
+    });
+    expect(res.scopes).toEqual([TempleDAppScope.Operation]);
+  });
+
+  it("treats sessions without scopes as granted operations and signing", async () => {
+    await setDApp(ORIGIN, session());
+    const res = await requestPermission(ORIGIN, {
+      type: TempleDAppMessageType.PermissionRequest,
+      network: "mainnet",
+      appMeta: { name: "Game" },
+    });
+    expect(res.scopes).toEqual([
+      TempleDAppScope.Operation,
+      TempleDAppScope.Sign,
+    ]);
+  });
+
+  it("updates session scopes", async () => {
+    await setDApp(ORIGIN, session());
+    await setDAppScopes(ORIGIN, [TempleDAppScope.Sign]);
+    expect((await getDApp(ORIGIN))?.scopes).toEqual([TempleDAppScope.Sign]);
+
+    await expect(setDAppScopes(ORIGIN, [])).rejects.toThrow();
+    await expect(
+      setDAppScopes(ORIGIN, ["unknown" as TempleDAppScope])
+    ).rejects.toThrow();
+  });
+
+  it("grants threshold scope with auto-approve policy", async () => {
+    const policy = {
+      maxPerOperation: "1000000",
+      maxPerDay: "5000000",
+      allowedEntrypoints: ["play"],
+      expiresAt: Date.now() + 60_000,
+    };
+    await setDApp(ORIGIN, session({ scopes: [TempleDAppScope.Operation] }));
+    await setDAppAutoApprovePolicy(ORIGIN, policy);
+    expect(await getDApp(ORIGIN)).toMatchObject({
+      scopes: [TempleDAppScope.Operation, TempleDAppScope.Threshold],
+      autoApprove: policy,
+    });
+
+    await expect(
+      setDAppAutoApprovePolicy(ORIGIN, { ...policy, maxPerDay: "-1" })
+    ).rejects.toThrow();
+    await expect(
+      setDAppAutoApprovePolicy("https://unknown.example.com", policy)
+    ).rejects.toThrow();
+
+    await setDAppAutoApprovePolicy(ORIGIN, null);
+    expect((await getDApp(ORIGIN))?.autoApprove).toBeUndefined();
+  });
+
+  it("rejects permission requests with unknown scopes", async () => {
+    await expect(
+      requestPermission(ORIGIN, {
+        type: TempleDAppMessageType.PermissionRequest,
+        network: "mainnet",
+        appMeta: { name: "Game" },
+        scopes: ["encrypt" as TempleDAppScope],
+      })
+    ).rejects.toThrow(TempleDAppErrorType.InvalidParams);
+  });
+});
+
+describe("DApp sessions expiry tests", () => {
+  afterEach(async () => {
+    await browser.storage.local.clear();
+  });
+
+  it("drops expired sessions", async () => {
+    await setDApp(ORIGIN, session({ expiresAt: Date.now() - 1 }));
+    expect(await getDApp(ORIGIN)).toBeUndefined();
+    expect(await getAllDApps()).toEqual({});
+    await expect(requestSign(ORIGIN, signReq())).rejects.toThrow(
+      TempleDAppErrorType.NotGranted
+    );
+
+    await setDApp(ORIGIN, session({ expiresAt: Date.now() + 60_000 }));
+    expect(await getDApp(ORIGIN)).toBeDefined();
+  });
+
+  it("updates last used time", async () => {
+    await setDApp(ORIGIN, session());
+    const before = Date.now();
+    await requestPermission(ORIGIN, {
+      type: TempleDAppMessageType.PermissionRequest,
+      network: "mainnet",
+      appMeta: { name: "Game" },
+    });
+    expect((await getDApp(ORIGIN))?.lastUsedAt).toBeGreaterThanOrEqual(before);
+  });
+});
+
+describe("DApp network tests", () => {
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await browser.storage.local.clear();
+  });
+
+  it("refuses operations when network chain changes", async () => {
+    const fetchChainId = jest
+      .spyOn(Helpers, "fetchChainId")
+      .mockResolvedValue(TempleChainId.Granadanet);
+    await setDApp(
+      ORIGIN,
+      session({ network: LOCAL_NETWORK, chainId: TempleChainId.Mainnet })
+    );
+
+    await expect(requestOperation(ORIGIN, operationReq())).rejects.toThrow(
+      TempleDAppErrorType.NotGranted
+    );
+    expect(fetchChainId).toHaveBeenCalledWith(LOCAL_NETWORK.rpc);
+  });
+
+  it("binds session without known chain on first request", async () => {
+    jest
+      .spyOn(Helpers, "fetchChainId")
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockResolvedValue(TempleChainId.Mainnet);
+    await setDApp(ORIGIN, session({ network: LOCAL_NETWORK }));
+    const broadcast = () =>
+      requestBroadcast(ORIGIN, {
+        type: TempleDAppMessageType.BroadcastRequest,
+        signedOpBytes: "00",
+      });
+
+    await expect(broadcast()).rejects.toThrow(TempleDAppErrorType.NotGranted);
+    expect((await getDApp(ORIGIN))?.chainId).toBeUndefined();
+
+    await expect(broadcast()).rejects.toThrow();
+    expect((await getDApp(ORIGIN))?.chainId).toBe(TempleChainId.Mainnet);
+  });
+
+  it("uses RPC of network, the dApp one is mapped onto", async () => {
+    const rpc = "https://mainnet.example.com";
+    await setDApp(ORIGIN, session({ network: LOCAL_NETWORK, rpc }));
+    expect((await getCurrentPermission(ORIGIN)).permission?.rpc).toBe(rpc);
+  });
+});
+
+describe("DApp requests limiting tests", () => {
+  const chrome = (global as any).chrome;
+  const respond =
+    (getResult: (...args: any[]) => any) =>
+    (...args: any[]) => {
+      const cb = args[args.length - 1];
+      const result = getResult(...args);
+      return typeof cb === "function" ? cb(result) : Promise.resolve(result);
+    };
+
+  let lastWinId = 0;
+  let winRemovedListeners: ((winId: number) => void)[] = [];
+
+  beforeAll(() => {
+    chrome.runtime.getPlatformInfo = jest.fn(respond(() => ({ os: "mac" })));
+    chrome.windows = {
+      create: jest.fn(respond(() => ({ id: ++lastWinId }))),
+      getLastFocused: jest.fn(
+        respond(() => ({ top: 0, left: 0, width: 1200, height: 800 }))
+      ),
+      update: jest.fn(respond(() => ({}))),
+      get: jest.fn(respond((id: number) => ({ id }))),
+      remove: jest.fn(respond(() => undefined)),
+      onRemoved: {
+        addListener: jest.fn((listener) => {
+          winRemovedListeners.push(listener);
+        }),
+        removeListener: jest.fn((listener) => {
+          winRemovedListeners = winRemovedListeners.filter(
+            (l) => l !== listener
+          );
+        }),
+        hasListener: jest.fn(),
+      },
+    };
+  });
+
+  beforeEach(() => {
+    Object.values(chrome.windows).forEach((fn: any) => fn.mockClear?.());
+  });
+
+  afterAll(async () => {
+    delete chrome.windows;
+    delete chrome.runtime.getPlatformInfo;
+    await browser.storage.local.clear();
+  });
+
+  it("coalesces identical and rejects flooding confirmation requests", async () => {
+    const origin = "https://flood.example.com";
+    await setDApp(origin, session({ network: LOCAL_NETWORK }));
+
+    const sign = (payload: string) => {
+      const req = { ...signReq(), payload };
+      return enqueueDAppRequest(origin, req, () => requestSign(origin, req));
+    };
+
+    const requests = [sign("00"), sign("00"), sign("01"), sign("02")];
+    const results = Promise.all(
+      requests.map((req) => req.catch((err) => err.message))
+    );
+    expect(requests[0]).toBe(requests[1]);
+    await expect(sign("03")).rejects.toThrow(TempleDAppErrorType.NotGranted);
+
+    // All requests are shown in single window, closing it declines them
+    await waitFor(() => getPendingConfirmations().length === 3);
+    expect(chrome.windows.create).toHaveBeenCalledTimes(1);
+    const winId = lastWinId;
+    winRemovedListeners.forEach((listener) => listener(winId));
+
+    expect(await results).toEqual(
+      Array(4).fill(TempleDAppErrorType.NotGranted)
+    );
+    expect(getPendingConfirmations()).toEqual([]);
+  });
+
+  it("queues requests of different origins in single window", async () => {
+    const origins = ["https://a.example.com", "https://b.example.com"];
+    for (const origin of origins) {
+      await setDApp(origin, session({ network: LOCAL_NETWORK }));
+    }
+    const requests = origins.map((origin) => {
+      const req = signReq();
+      return enqueueDAppRequest(origin, req, () =>
+        requestSign(origin, req)
+      ).catch((err) => err.message);
+    });
+
+    await waitFor(() => getPendingConfirmations().length === 2);
+    expect(chrome.windows.create).toHaveBeenCalledTimes(1);
+    expect(chrome.windows.update).toHaveBeenCalledWith(
+      lastWinId,
+      { focused: true },
+      expect.any(Function)
+    );
+
+    const pending = getPendingConfirmations();
+    expect(pending.map((c) => c.kind === "dapp" && c.payload.origin)).toEqual(
+      origins
+    );
+    pending.forEach(({ requestedAt, expiresAt }) =>
+      expect(expiresAt).toBeGreaterThan(requestedAt)
+    );
+
+    declineAllConfirmations();
+    expect(await Promise.all(requests)).toEqual(
+      Array(2).fill(TempleDAppErrorType.NotGranted)
+    );
+    await waitFor(() => chrome.windows.remove.mock.calls.length === 1);
+    expect(getPendingConfirmations()).toEqual([]);
+  });
+
+  it("rejects too frequent requests", async () => {
+    const origin = "https://spam.example.com";
+    const factory = jest.fn(async () => "ok");
+    const request = (i: number) => enqueueDAppRequest(origin, { i }, factory);
+
+    for (let i = 0; i < 10; i++) {
+      await expect(request(i)).resolves.toBe("ok");
+    }
+    await expect(request(10)).rejects.toThrow(TempleDAppErrorType.NotGranted);
+    expect(factory).toHaveBeenCalledTimes(10);
+
+    const now = Date.now();
+    const dateNowSpy = jest.spyOn(Date, "now").mockReturnValue(now + 60_000);
+    try {
+      await expect(request(10)).resolves.toBe("ok");
+    } finally {
+      dateNowSpy.mockRestore();
+    }
+  });
+});
+
+async function waitFor(fn: () => boolean, timeout = 5000) {
+  const startedAt = Date.now();
+  while (!fn()) {
+    if (Date.now() - startedAt > timeout) {
+      throw new Error("Timed out");
+    }
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
@@ -1,11 +1,7 @@
 import { localForger } from "@taquito/local-forging";
-import { valueDecoder } from "@taquito/local-forging/dist/lib/michelson/codec";
-import { Uint8ArrayConsumer } from "@taquito/local-forging/dist/lib/uint8array-consumer";
-import { emitMicheline } from "@taquito/michel-codec";
-import { RpcClient } from "@taquito/rpc";
+import { MichelsonV1Expression, RpcClient } from "@taquito/rpc";
 import { TezosOperationError } from "@taquito/taquito";
 import {
-  TempleDAppMessageType,
   TempleDAppErrorType,
   TempleDAppGetCurrentPermissionResponse,
   TempleDAppPermissionRequest,
@@ -21,28 +17,84 @@ import {
 import { nanoid } from "nanoid";
 import { browser, Runtime } from "webextension-polyfill-ts";
 
+import { createQueue } from "lib/queue";
 import { addLocalOperation } from "lib/temple/activity";
+import {
+  enqueueUnderPolicy,
+  sendOperationsUnderPolicy,
+  signUnderPolicy,
+} from "lib/temple/back/account-policy";
+import {
+  addPendingConfirmation,
+  closeConfirmWindowIfIdle,
+  openConfirmWindow,
+  removePendingConfirmation,
+} from "lib/temple/back/confirmations";
+import {
+  addAutoApprovedOperation,
+  checkAutoApprove,
+  getActiveAutoApprovePolicy,
+  getAutoApprovedOperations,
+  getSpentToday,
+  isAutoApprovePolicyValid,
+  removeAutoApprovedOperations,
+} from "lib/temple/back/dapp-auto-approve";
 import { intercom } from "lib/temple/back/defaults";
 import { buildFinalOpParmas, dryRunOpParams } from "lib/temple/back/dryrun";
+import { getOriginReputation } from "lib/temple/back/origin-reputation";
+import { addPendingOperation } from "lib/temple/back/pending-ops";
 import { withUnlocked } from "lib/temple/back/store";
 import * as Beacon from "lib/temple/beacon";
-import { loadChainId, isAddressValid } from "lib/temple/helpers";
+import {
+  loadChainId,
+  fetchChainId,
+  isAddressValid,
+  DEFAULT_DAPP_SCOPES,
+  getDAppSessionAccounts,
+  getDAppSessionScopes,
+  isDAppSessionExpired,
+} from "lib/temple/helpers";
 import { NETWORKS } from "lib/temple/networks";
+import { loadPermitData, PermitData, toPermitParams } from "lib/temple/permit";
+import { decodeSignPayload, toMichelineTree } from "lib/temple/sign-payload";
 import {
   TempleMessageType,
   TempleRequest,
+  TempleDAppAutoApprovePolicy,
   TempleDAppPayload,
+  TempleDAppScope,
   TempleDAppSession,
+  TempleDAppMessageType,
+  TempleDAppPermitRequest,
+  TempleDAppPermitResponse,
+  TempleDAppSessionAccount,
   TempleDAppSessions,
 } from "lib/temple/types";
 
-const CONFIRM_WINDOW_WIDTH = 380;
-const CONFIRM_WINDOW_HEIGHT = 632;
 const AUTODECLINE_AFTER = 120_000;
 const STORAGE_KEY = "dapp_sessions";
 const HEX_PATTERN = /^[0-9a-fA-F]+$/;
-const TEZ_MSG_SIGN_PATTERN =
-  /^0501[a-f0-9]{8}54657a6f73205369676e6564204d6573736167653a20[a-f0-9]*$/;
+const KNOWN_SCOPES = Object.values(TempleDAppScope);
+const MAX_PENDING_REQUESTS_PER_ORIGIN = 3;
+const REQUESTS_RATE_PERIOD = 60_000;
+const MAX_REQUESTS_PER_PERIOD = 10;
+
+// Auto-approvals are serialized to count each of them towards daily limit
+const enqueueAutoApprove = createQueue();
+const pendingRequests = new Map<string, Map<string, Promise<any>>>();
+const requestTimestamps = new Map<string, number[]>();
+
+/**
+ * Temple DApp protocol has no scopes, Beacon requests may have them
+ */
+export type TempleDAppScopedPermissionRequest = TempleDAppPermissionRequest & {
+  scopes?: TempleDAppScope[];
+};
+
+export type TempleDAppScopedPermissionResponse =
+  TempleDAppPermissionResponse & {
+    scopes: TempleDAppScope[];
+  };
 
 export async function getCurrentPermission(
   origin: string
@@ -50,7 +102,7 @@ export async function getCurrentPermission(
   const dApp = await getDApp(origin);
   const permission = dApp
     ? {
-        rpc: await getNetworkRPC(dApp.network),
+        rpc: await getSessionRPC(dApp),
         pkh: dApp.pkh,
         publicKey: dApp.publicKey,
       }
@@ -63,17 +115,23 @@ export async function getCurrentPermission(
 
 export async function requestPermission(
   origin: string,
-  req: TempleDAppPermissionRequest
-): Promise<TempleDAppPermissionResponse> {
+  req: TempleDAppScopedPermissionRequest
+): Promise<TempleDAppScopedPermissionResponse> {
   if (
     ![
       isAllowedNetwork(req?.network),
       typeof req?.appMeta?.name === "string",
+      req?.scopes === undefined ||
+        (Array.isArray(req.scopes) &&
+          req.scopes.length > 0 &&
+          req.scopes.every((scope) => KNOWN_SCOPES.includes(scope))),
     ].every(Boolean)
   ) {
     throw new Error(TempleDAppErrorType.InvalidParams);
   }
 
+  const requestedScopes = req.scopes ?? DEFAULT_DAPP_SCOPES;
+
   const networkRpc = await getNetworkRPC(req.network);
   const dApp = await getDApp(origin);
 
@@ -83,14 +141,23 @@ export async function requestPermission(
     isNetworkEquals(req.network, dApp.network) &&
     req.appMeta.name === dApp.appMeta.name
   ) {
+    await touchDApp(origin);
     return {
       type: TempleDAppMessageType.PermissionResponse,
-      rpc: networkRpc,
+      rpc: await getSessionRPC(dApp),
       pkh: dApp.pkh,
       publicKey: dApp.publicKey,
+      scopes: getDAppSessionScopes(dApp),
     };
   }
 
+  const reputation = await getOriginReputation(origin);
+
+  let chainId: string | null = null;
+  try {
+    chainId = await fetchChainId(networkRpc);
+  } catch {}
+
   return new Promise(async (resolve, reject) => {
     const id = nanoid();
 
@@ -101,6 +168,11 @@ export async function requestPermission(
         origin,
         networkRpc,
         appMeta: req.appMeta,
+        scopes: requestedScopes,
+        reputation,
+        networkName:
+          typeof req.network === "string" ? undefined : req.network.name,
+        chainId,
       },
       onDecline: () => {
         reject(new Error(TempleDAppErrorType.NotGranted));
@@ -110,20 +182,71 @@ export async function requestPermission(
           confirmReq?.type === TempleMessageType.DAppPermConfirmationRequest &&
           confirmReq?.id === id
         ) {
-          const { confirmed, accountPublicKeyHash, accountPublicKey } =
-            confirmReq;
-          if (confirmed && accountPublicKeyHash && accountPublicKey) {
+          const {
+            confirmed,
+            accountPublicKeyHash,
+            accountPublicKey,
+            sessionTtl,
+          } = confirmReq;
+          // User may grant only a part of requested scopes
+          const scopes = requestedScopes.filter(
+            (scope) => !confirmReq.scopes || confirmReq.scopes.includes(scope)
+          );
+          if (
+            confirmed &&
+            accountPublicKeyHash &&
+            accountPublicKey &&
+            scopes.length > 0 &&
+            // Blocked origins have to be added to exceptions first
+            (await getOriginReputation(origin)).status !== "blocked"
+          ) {
+            // User may map dApp network onto own one with the same chain
+            const mappedRpc =
+              confirmReq.networkRpc && confirmReq.networkRpc !== networkRpc
+                ? confirmReq.networkRpc
+                : undefined;
+            if (mappedRpc && !(await isSameChainNetwork(mappedRpc, chainId))) {
+              reject(new Error(TempleDAppErrorType.InvalidParams));
+              return {
+                type: TempleMessageType.DAppPermConfirmationResponse,
+              };
+            }
+
+            // Only own accounts may be connected in addition to the main one
+            const vaultAccounts = await withUnlocked(({ vault }) =>
+              vault.fetchAccounts()
+            );
+            const accounts: TempleDAppSessionAccount[] = [
+              { pkh: accountPublicKeyHash, publicKey: accountPublicKey },
+              ...(confirmReq.accounts ?? []).filter(
+                ({ pkh, publicKey }) =>
+                  pkh !== accountPublicKeyHash &&
+                  isAddressValid(pkh) &&
+                  publicKey &&
+                  vaultAccounts.some((acc) => acc.publicKeyHash === pkh)
+              ),
+            ];
             await setDApp(origin, {
               network: req.network,
+              chainId: chainId ?? undefined,
+              rpc: mappedRpc,
               appMeta: req.appMeta,
               pkh: accountPublicKeyHash,
               publicKey: accountPublicKey,
+              accounts,
+              scopes,
+              expiresAt:
+                sessionTtl && sessionTtl > 0
+                  ? Date.now() + sessionTtl
+                  : undefined,
+              lastUsedAt: Date.now(),
             });
             resolve({
               type: TempleDAppMessageType.PermissionResponse,
               pkh: accountPublicKeyHash,
               publicKey: accountPublicKey,
-              rpc: networkRpc,
+              rpc: mappedRpc ?? networkRpc,
+              scopes,
             });
           } else {
             decline();
@@ -155,17 +278,30 @@ export async function requestOperation(
 
   const dApp = await getDApp(origin);
 
-  if (!dApp) {
+  if (
+    !dApp ||
+    !getDAppSessionScopes(dApp).includes(TempleDAppScope.Operation)
+  ) {
     throw new Error(TempleDAppErrorType.NotGranted);
   }
 
-  if (req.sourcePkh !== dApp.pkh) {
-    throw new Error(TempleDAppErrorType.NotFound);
+  const account = findSessionAccount(dApp, req.sourcePkh);
+  const networkRpc = await getSessionRPC(dApp);
+  await assertSessionChainId(origin, dApp, networkRpc);
+  await touchDApp(origin);
+
+  const autoApprovedOpHash = await enqueueAutoApprove(() =>
+    tryAutoApproveOperation(origin, dApp, account, networkRpc, req.opParams)
+  );
+  if (autoApprovedOpHash) {
+    return {
+      type: TempleDAppMessageType.OperationResponse,
+      opHash: autoApprovedOpHash,
+    };
   }
 
   return new Promise(async (resolve, reject) => {
     const id = nanoid();
-    const networkRpc = await getNetworkRPC(dApp.network);
 
     await requestConfirm({
       id,
@@ -174,8 +310,8 @@ export async function requestOperation(
         origin,
         networkRpc,
         appMeta: dApp.appMeta,
-        sourcePkh: req.sourcePkh,
-        sourcePublicKey: dApp.publicKey,
+        sourcePkh: account.pkh,
+        sourcePublicKey: account.publicKey,
         opParams: req.opParams,
       },
       onDecline: () => {
@@ -189,8 +325,9 @@ export async function requestOperation(
           if (confirmReq.confirmed) {
             try {
               const op = await withUnlocked(({ vault }) =>
-                vault.sendOperations(
-                  dApp.pkh,
+                sendOperationsUnderPolicy(
+                  vault,
+                  account.pkh,
                   networkRpc,
                   buildFinalOpParmas(
                     req.opParams,
@@ -203,6 +340,13 @@ export async function requestOperation(
               try {
                 const chainId = await loadChainId(networkRpc);
                 await addLocalOperation(chainId, op.hash, op.results);
+                await addPendingOperation(
+                  networkRpc,
+                  chainId,
+                  account.pkh,
+                  op.hash,
+                  op.results
+                );
               } catch {}
 
               resolve({
@@ -231,6 +375,80 @@ export async function requestOperation(
   });
 }
 
+/**
+ * Sends operations without confirmation, if dApp has active
+ * auto-approve policy and dry-run shows they are inside of its budget.
+ * Returns null, when operations have to be confirmed by user.
+ */
+async function tryAutoApproveOperation(
+  origin: string,
+  dApp: TempleDAppSession,
+  account: TempleDAppSessionAccount,
+  networkRpc: string,
+  opParams: any[]
+) {
+  const policy = getActiveAutoApprovePolicy(dApp);
+  if (!policy) return null;
+
+  const dryRunResult = await dryRunOpParams({
+    opParams,
+    networkRpc,
+    sourcePkh: account.pkh,
+    sourcePublicKey: account.publicKey,
+  });
+  if (!dryRunResult) return null;
+
+  const approval = checkAutoApprove(
+    policy,
+    account.pkh,
+    dryRunResult.opParams,
+    dryRunResult.estimates,
+    getSpentToday(await getAutoApprovedOperations(origin))
+  );
+  if (!approval) return null;
+
+  let op;
+  try {
+    op = await withUnlocked(({ vault }) =>
+      sendOperationsUnderPolicy(
+        vault,
+        account.pkh,
+        networkRpc,
+        dryRunResult.opParams
+      )
+    );
+  } catch (err) {
+    if (err instanceof TezosOperationError) {
+      err.message = TempleDAppErrorType.TezosOperation;
+      throw err;
+    }
+    // Locked wallet or account policy violation are resolved by user
+    return null;
+  }
+
+  try {
+    const chainId = await loadChainId(networkRpc);
+    await addLocalOperation(chainId, op.hash, op.results);
+    await addPendingOperation(
+      networkRpc,
+      chainId,
+      account.pkh,
+      op.hash,
+      op.results
+    );
+  } catch {}
+
+  await addAutoApprovedOperation(origin, {
+    opHash: op.hash,
+    sourcePkh: account.pkh,
+    entrypoints: approval.entrypoints,
+    spent: approval.spent,
+    approvedAt: Date.now(),
+  });
+
+  return op.hash;
+}
+
 export async function requestSign(
   origin: string,
   req: TempleDAppSignRequest
@@ -249,33 +467,32 @@ export async function requestSign(
 
   const dApp = await getDApp(origin);
 
-  if (!dApp) {
+  if (!dApp || !getDAppSessionScopes(dApp).includes(TempleDAppScope.Sign)) {
     throw new Error(TempleDAppErrorType.NotGranted);
   }
 
-  if (req.sourcePkh !== dApp.pkh) {
-    throw new Error(TempleDAppErrorType.NotFound);
-  }
+  const account = findSessionAccount(dApp, req.sourcePkh);
+  await touchDApp(origin);
 
   return new Promise(async (resolve, reject) => {
     const id = nanoid();
-    const networkRpc = await getNetworkRPC(dApp.network);
+    const networkRpc = await getSessionRPC(dApp);
 
-    let preview: any;
-    try {
-      if (req.payload.match(TEZ_MSG_SIGN_PATTERN)) {
-        preview = emitMicheline(
-          valueDecoder(Uint8ArrayConsumer.fromHexString(req.payload.slice(2))),
-          { indent: "  ", newline: "\n" }
-        ).slice(1, -1);
-      } else {
-        const parsed = await localForger.parse(req.payload);
+    let decoded = decodeSignPayload(req.payload);
+    let preview: any = null;
+    if (decoded.type === "operation" || decoded.type === "unknown") {
+      try {
+        const parsed = await localForger.parse(
+          decoded.type === "operation" ? req.payload.slice(2) : req.payload
+        );
         if (parsed.contents.length > 0) {
           preview = parsed;
+          // Operation forged without watermark
+          if (decoded.type === "unknown") {
+            decoded = { type: "operation", watermark: null };
+          }
         }
-      }
-    } catch {
-      preview = null;
+      } catch {}
     }
 
     await requestConfirm({
@@ -285,9 +502,10 @@ export async function requestSign(
         origin,
         networkRpc,
         appMeta: dApp.appMeta,
-        sourcePkh: req.sourcePkh,
+        sourcePkh: account.pkh,
         payload: req.payload,
         preview,
+        decoded,
       },
       onDecline: () => {
         reject(new Error(TempleDAppErrorType.NotGranted));
@@ -299,7 +517,7 @@ export async function requestSign(
         ) {
           if (confirmReq.confirmed) {
             const { prefixSig: signature } = await withUnlocked(({ vault }) =>
-              vault.sign(dApp.pkh, req.payload)
+              signUnderPolicy(vault, account.pkh, req.payload)
             );
             resolve({
               type: TempleDAppMessageType.SignResponse,
@@ -319,6 +537,168 @@ export async function requestSign(
   });
 }
 
+export async function requestPermit(
+  origin: string,
+  req: TempleDAppPermitRequest
+): Promise<TempleDAppPermitResponse> {
+  if (
+    ![
+      isAddressValid(req?.sourcePkh),
+      isAddressValid(req?.contractAddress) &&
+        req.contractAddress.startsWith("KT"),
+      typeof req?.entrypoint === "string",
+      req?.params && typeof req.params === "object",
+    ].every(Boolean)
+  ) {
+    throw new Error(TempleDAppErrorType.InvalidParams);
+  }
+
+  const dApp = await getDApp(origin);
+  const requiredScopes = req.submit
+    ? [TempleDAppScope.Sign, TempleDAppScope.Operation]
+    : [TempleDAppScope.Sign];
+
+  if (
+    !dApp ||
+    !requiredScopes.every((scope) => getDAppSessionScopes(dApp).includes(scope))
+  ) {
+    throw new Error(TempleDAppErrorType.NotGranted);
+  }
+
+  const account = findSessionAccount(dApp, req.sourcePkh);
+  const networkRpc = await getSessionRPC(dApp);
+  await assertSessionChainId(origin, dApp, networkRpc);
+  await touchDApp(origin);
+
+  let permit: PermitData;
+  try {
+    permit = await loadPermitData(
+      new RpcClient(networkRpc),
+      req.contractAddress,
+      req.entrypoint,
+      req.params
+    );
+  } catch (err) {
+    if (process.env.NODE_ENV === "development") {
+      console.error(err);
+    }
+
+    throw new Error(TempleDAppErrorType.InvalidParams);
+  }
+
+  return new Promise(async (resolve, reject) => {
+    const id = nanoid();
+
+    await requestConfirm({
+      id,
+      payload: {
+        type: "permit",
+        origin,
+        networkRpc,
+        appMeta: dApp.appMeta,
+        sourcePkh: account.pkh,
+        contractAddress: permit.contractAddress,
+        entrypoint: permit.entrypoint,
+        params: toMichelineTree(req.params),
+        counter: permit.counter,
+        paramsHash: permit.paramsHash,
+        payload: permit.bytes,
+        submit: Boolean(req.submit),
+      },
+      onDecline: () => {
+        reject(new Error(TempleDAppErrorType.NotGranted));
+      },
+      handleIntercomRequest: async (confirmReq, decline) => {
+        if (
+          confirmReq?.type === TempleMessageType.DAppSignConfirmationRequest &&
+          confirmReq?.id === id
+        ) {
+          if (confirmReq.confirmed) {
+            const { prefixSig: signature } = await withUnlocked(({ vault }) =>
+              enqueueUnderPolicy(account.pkh, async () => {
+                // Permitted call is checked, as if it was sent by account
+                const spendings = await vault.checkAccountPolicy(account.pkh, [
+                  {
+                    kind: "transaction",
+                    to: permit.contractAddress,
+                    amount: 0,
+                    mutez: true,
+                    parameter: {
+                      entrypoint: permit.entrypoint,
+                      value: req.params,
+                    },
+                  },
+                ]);
+                const signed = await vault.sign(account.pkh, permit.bytes);
+
+                try {
+                  await vault.addAccountSpendings(account.pkh, spendings);
+                } catch {}
+
+                return signed;
+              })
+            );
+            const res: TempleDAppPermitResponse = {
+              type: TempleDAppMessageType.PermitResponse,
+              publicKey: account.publicKey,
+              signature,
+              paramsHash: permit.paramsHash,
+            };
+
+            if (!req.submit) {
+              resolve(res);
+            } else {
+              try {
+                const op = await withUnlocked(({ vault }) =>
+                  sendOperationsUnderPolicy(vault, account.pkh, networkRpc, [
+                    {
+                      kind: "transaction",
+                      to: permit.contractAddress,
+                      amount: 0,
+                      parameter: toPermitParams(
+                        permit,
+                        account.publicKey,
+                        signature
+                      ),
+                    },
+                  ])
+                );
+
+                try {
+                  await addLocalOperation(permit.chainId, op.hash, op.results);
+                  await addPendingOperation(
+                    networkRpc,
+                    permit.chainId,
+                    account.pkh,
+                    op.hash,
+                    op.results
+                  );
+                } catch {}
+
+                resolve({ ...res, opHash: op.hash });
+              } catch (err) {
+                if (err instanceof TezosOperationError) {
+                  err.message = TempleDAppErrorType.TezosOperation;
+                  reject(err);
+                } else {
+                  throw err;
+                }
+              }
+            }
+          } else {
+            decline();
+          }
+
+          return {
+            type: TempleMessageType.DAppSignConfirmationResponse,
+          };
+        }
+        return;
+      },
+    });
+  });
+}
+
 export async function requestBroadcast(
   origin: string,
   req: TempleDAppBroadcastRequest
@@ -329,12 +709,19 @@ export async function requestBroadcast(
 
   const dApp = await getDApp(origin);
 
-  if (!dApp) {
+  if (
+    !dApp ||
+    !getDAppSessionScopes(dApp).includes(TempleDAppScope.Operation)
+  ) {
     throw new Error(TempleDAppErrorType.NotGranted);
   }
 
+  const networkRpc = await getSessionRPC(dApp);
+  await assertSessionChainId(origin, dApp, networkRpc);
+  await touchDApp(origin);
+
   try {
-    const rpc = new RpcClient(await getNetworkRPC(dApp.network));
+    const rpc = new RpcClient(networkRpc);
     const opHash = await rpc.injectOperation(req.signedOpBytes);
     return {
       type: TempleDAppMessageType.BroadcastResponse,
@@ -350,10 +737,18 @@ export async function requestBroadcast(
   }
 }
 
+/**
+ * Expired sessions are omitted, and dropped from storage on next update
+ */
 export async function getAllDApps() {
   const dAppsSessions: TempleDAppSessions =
     (await browser.storage.local.get([STORAGE_KEY]))[STORAGE_KEY] || {};
-  return dAppsSessions;
+  const now = Date.now();
+  return Object.fromEntries(
+    Object.entries(dAppsSessions).filter(
+      ([, session]) => !isDAppSessionExpired(session, now)
+    )
+  );
 }
 
 export async function getDApp(
@@ -369,10 +764,59 @@ export async function setDApp(origin: string, permissions: TempleDAppSession) {
   return newDApps;
 }
 
+export async function setDAppScopes(origin: string, scopes: TempleDAppScope[]) {
+  if (
+    scopes.length === 0 ||
+    !scopes.every((scope) => KNOWN_SCOPES.includes(scope))
+  ) {
+    throw new Error("Invalid scopes");
+  }
+
+  const dApp = await getDApp(origin);
+  if (!dApp) {
+    throw new Error("DApp not found");
+  }
+
+  return setDApp(origin, { ...dApp, scopes });
+}
+
+async function touchDApp(origin: string) {
+  const dApp = await getDApp(origin);
+  if (dApp) {
+    await setDApp(origin, { ...dApp, lastUsedAt: Date.now() });
+  }
+}
+
+export async function setDAppAutoApprovePolicy(
+  origin: string,
+  policy: TempleDAppAutoApprovePolicy | null
+) {
+  if (policy && !isAutoApprovePolicyValid(policy)) {
+    throw new Error("Invalid auto-approve policy");
+  }
+
+  const dApp = await getDApp(origin);
+  if (!dApp) {
+    throw new Error("DApp not found");
+  }
+
+  // Policy is applied under threshold scope
+  const scopes = getDAppSessionScopes(dApp);
+  return setDApp(origin, {
+    ...dApp,
+    autoApprove: policy ?? undefined,
+    scopes:
+      policy && !scopes.includes(TempleDAppScope.Threshold)
+        ? [...scopes, TempleDAppScope.Threshold]
+        : scopes,
+  });
+}
+
 export async function removeDApp(origin: string) {
   const { [origin]: permissionsToRemove, ...restDApps } = await getAllDApps();
   await setDApps(restDApps);
   await Beacon.removeDAppPublicKey(origin);
+  await removeAutoApprovedOperations(origin);
   return restDApps;
 }
 
@@ -384,6 +828,59 @@ function setDApps(newDApps: TempleDAppSessions) {
   return browser.storage.local.set({ [STORAGE_KEY]: newDApps });
 }
 
+/**
+ * Each origin may have only a few requests waiting for confirmation:
+ * identical ones are coalesced, flooding ones are rejected
+ * without bothering the user.
+ */
+export function enqueueDAppRequest<T>(
+  origin: string,
+  req: object,
+  factory: () => Promise<T>
+): Promise<T> {
+  const key = JSON.stringify(req);
+  const pending = pendingRequests.get(origin) ?? new Map<string, Promise<T>>();
+
+  const coalesced = pending.get(key);
+  if (coalesced) {
+    return coalesced;
+  }
+
+  const now = Date.now();
+  pruneRequestTimestamps(now);
+  const timestamps = requestTimestamps.get(origin) ?? [];
+  if (
+    pending.size >= MAX_PENDING_REQUESTS_PER_ORIGIN ||
+    timestamps.length >= MAX_REQUESTS_PER_PERIOD
+  ) {
+    return Promise.reject(new Error(TempleDAppErrorType.NotGranted));
+  }
+  requestTimestamps.set(origin, [...timestamps, now]);
+
+  const promise = factory().finally(() => {
+    pending.delete(key);
+    if (pending.size === 0 && pendingRequests.get(origin) === pending) {
+      pendingRequests.delete(origin);
+    }
+  });
+  pending.set(key, promise);
+  pendingRequests.set(origin, pending);
+
+  return promise;
+}
+
+// Origins with no requests in current period are forgotten
+function pruneRequestTimestamps(now: number) {
+  for (const [origin, timestamps] of Array.from(requestTimestamps)) {
+    const recent = timestamps.filter((ts) => now - ts < REQUESTS_RATE_PERIOD);
+    if (recent.length > 0) {
+      requestTimestamps.set(origin, recent);
+    } else {
+      requestTimestamps.delete(origin);
+    }
+  }
+}
+
 type RequestConfirmParams = {
   id: string;
   payload: TempleDAppPayload;
@@ -408,9 +905,9 @@ async function requestConfirm({
     try {
       stopTimeout();
       stopRequestListening();
-      stopWinRemovedListening();
+      removePendingConfirmation(id);
 
-      await closeWindow();
+      await closeConfirmWindowIfIdle();
     } catch (_err) {}
   };
 
@@ -441,6 +938,15 @@ async function requestConfirm({
               ...dryrunResult,
             };
           }
+
+          const { sourcePkh, opParams } = payload;
+          try {
+            await withUnlocked(({ vault }) =>
+              vault.checkAccountPolicy(sourcePkh, opParams)
+            );
+          } catch (err) {
+            payload = { ...payload, policyViolation: err.message };
+          }
         }
 
         return {
@@ -459,68 +965,27 @@ async function requestConfirm({
     }
   );
 
-  const isWin = (await browser.runtime.getPlatformInfo()).os === "win";
-
-  let left = 0;
-  let top = 0;
-  try {
-    const lastFocused = await browser.windows.getLastFocused();
-    // Position window in top right corner of lastFocused window.
-
-    top = Math.round(
-      lastFocused.top! + lastFocused.height! / 2 - CONFIRM_WINDOW_HEIGHT / 2
-    );
-    left = Math.round(
-      lastFocused.left! + lastFocused.width! / 2 - CONFIRM_WINDOW_WIDTH / 2
-    );
-  } catch {
-    // The following properties are more than likely 0, due to being
-    // opened from the background chrome process for the extension that
-    // has no physical dimensions
-    const { screenX, screenY, outerWidth, outerHeight } = window;
-    top = Math.round(screenY + outerHeight / 2 - CONFIRM_WINDOW_HEIGHT / 2);
-    left = Math.round(screenX + outerWidth / 2 - CONFIRM_WINDOW_WIDTH / 2);
-  }
-
-  const confirmWin = await browser.windows.create({
-    type: "popup",
-    url: browser.runtime.getURL(`confirm.html#?id=${id}`),
-    width: isWin ? CONFIRM_WINDOW_WIDTH + 16 : CONFIRM_WINDOW_WIDTH,
-    height: isWin ? CONFIRM_WINDOW_HEIGHT + 17 : CONFIRM_WINDOW_HEIGHT,
-    top: Math.max(top, 20),
-    left: Math.max(left, 20),
-  });
-
-  // Firefox currently ignores left/top for create, but it works for update
-  if (
-    confirmWin.id &&
-    confirmWin.left !== left &&
-    confirmWin.state !== "fullscreen"
-  ) {
-    await browser.windows.update(confirmWin.id, { left, top });
-  }
-
-  const closeWindow = async () => {
-    if (confirmWin.id) {
-      const win = await browser.windows.get(confirmWin.id);
-      if (win.id) {
-        await browser.windows.remove(win.id);
-      }
-    }
-  };
-
-  const handleWinRemoved = (winId: number) => {
-    if (winId === confirmWin?.id) {
-      declineAndClose();
-    }
-  };
-  browser.windows.onRemoved.addListener(handleWinRemoved);
-  const stopWinRemovedListening = () =>
-    browser.windows.onRemoved.removeListener(handleWinRemoved);
+  const requestedAt = Date.now();
+  addPendingConfirmation(
+    {
+      kind: "dapp",
+      id,
+      payload,
+      requestedAt,
+      expiresAt: requestedAt + AUTODECLINE_AFTER,
+    },
+    declineAndClose
+  );
 
   // Decline after timeout
   const t = setTimeout(declineAndClose, AUTODECLINE_AFTER);
   const stopTimeout = () => clearTimeout(t);
+
+  try {
+    await openConfirmWindow(id);
+  } catch {
+    declineAndClose();
+  }
 }
 
 export async function getNetworkRPC(net: TempleDAppNetwork) {
@@ -546,20 +1011,75 @@ export async function getNetworkRPC(net: TempleDAppNetwork) {
   }
 }
 
+/**
+ * Custom dApp network may be mapped onto user's network with the same chain
+ */
+async function getSessionRPC(dApp: TempleDAppSession) {
+  return dApp.rpc ?? getNetworkRPC(dApp.network);
+}
+
+/**
+ * Refuses to use session, which network chain has changed since it was granted.
+ * Sessions granted before chain ids were stored are not checked.
+ */
+/**
+ * Network chain is fetched on every request to notice its change.
+ * Session, connected while chain was unknown, is bound to it on first request
+ */
+async function assertSessionChainId(
+  origin: string,
+  dApp: TempleDAppSession,
+  rpc: string
+) {
+  let chainId: string;
+  try {
+    chainId = await fetchChainId(rpc);
+  } catch {
+    throw new Error(TempleDAppErrorType.NotGranted);
+  }
+
+  if (!dApp.chainId) {
+    await setDApp(origin, { ...dApp, chainId });
+  } else if (chainId !== dApp.chainId) {
+    throw new Error(TempleDAppErrorType.NotGranted);
+  }
+}
+
+async function isSameChainNetwork(rpc: string, chainId: string | null) {
+  const networks = await getAllTempleNetworks();
+  if (!chainId || !networks.some((n) => n.rpcBaseURL === rpc)) {
+    return false;
+  }
+
+  try {
+    return (await fetchChainId(rpc)) === chainId;
+  } catch {
+    return false;
+  }
+}
+
 async function getCurrentTempleNetwork() {
-  const {
-    network_id: networkId,
-    custom_networks_snapshot: customNetworksSnapshot,
-  } = await browser.storage.local.get([
-    "network_id",
-    "custom_networks_snapshot",
-  ]);
-
-  return (
-    [...NETWORKS, ...(customNetworksSnapshot ?? [])].find(
-      (n) => n.id === networkId
-    ) ?? NETWORKS[0]
+  const { network_id: networkId } = await browser.storage.local.get(
+    "network_id"
   );
+  const networks = await getAllTempleNetworks();
+
+  return networks.find((n) => n.id === networkId) ?? NETWORKS[0];
+}
+
+async function getAllTempleNetworks() {
+  const { custom_networks_snapshot: customNetworksSnapshot } =
+    await browser.storage.local.get("custom_networks_snapshot");
+
+  return [...NETWORKS, ...(customNetworksSnapshot ?? [])];
+}
+
+function findSessionAccount(dApp: TempleDAppSession, pkh: string) {
+  const account = getDAppSessionAccounts(dApp).find((acc) => acc.pkh === pkh);
+  if (!account) {
+    throw new Error(TempleDAppErrorType.NotFound);
+  }
+  return account;
 }
 
 function isAllowedNetwork(net: TempleDAppNetwork) {
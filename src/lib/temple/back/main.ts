@@ -1,7 +1,10 @@
 import { Runtime } from "webextension-polyfill-ts";
 
 import * as Actions from "lib/temple/back/actions";
+import * as AutoLock from "lib/temple/back/auto-lock";
+import * as BeaconP2P from "lib/temple/back/beacon-p2p";
 import { intercom } from "lib/temple/back/defaults";
+import * as PendingOps from "lib/temple/back/pending-ops";
 import { store, toFront } from "lib/temple/back/store";
 import {
   TempleMessageType,
@@ -14,6 +17,9 @@ const frontStore = store.map(toFront);
 export async function start() {
   intercom.onRequest(processRequest);
   await Actions.init();
+  AutoLock.start();
+  PendingOps.start();
+  BeaconP2P.start(processBeaconP2PMessage);
   frontStore.watch(() => {
     intercom.broadcast({ type: TempleMessageType.StateUpdated });
   });
@@ -31,6 +37,12 @@ async function processRequest(
         state,
       };
 
+    // Only interaction with wallet pages counts as user activity,
+    // background polling like state requests doesn't
+    case TempleMessageType.ActivityRequest:
+      AutoLock.touch();
+      return { type: TempleMessageType.ActivityResponse };
+
     case TempleMessageType.NewWalletRequest:
       await Actions.registerNewWallet(req.password, req.mnemonic);
       return { type: TempleMessageType.NewWalletResponse };
@@ -43,8 +55,12 @@ async function processRequest(
       await Actions.lock();
       return { type: TempleMessageType.LockResponse };
 
+    case TempleMessageType.ChangePasswordRequest:
+      await Actions.changePassword(req.password, req.newPassword);
+      return { type: TempleMessageType.ChangePasswordResponse };
+
     case TempleMessageType.CreateAccountRequest:
-      await Actions.createHDAccount(req.name);
+      await Actions.createHDAccount(req.name, req.derivationType);
       return { type: TempleMessageType.CreateAccountResponse };
 
     case TempleMessageType.RevealPublicKeyRequest:
@@ -71,6 +87,20 @@ async function processRequest(
         mnemonic,
       };
 
+    case TempleMessageType.CreateBackupRequest:
+      const backup = await Actions.createBackup(
+        req.password,
+        req.backupPassword
+      );
+      return {
+        type: TempleMessageType.CreateBackupResponse,
+        backup,
+      };
+
+    case TempleMessageType.RestoreBackupRequest:
+      await Actions.restoreBackup(req.password, req.backup, req.backupPassword);
+      return { type: TempleMessageType.RestoreBackupResponse };
+
     case TempleMessageType.RemoveAccountRequest:
       await Actions.removeAccount(req.accountPublicKeyHash, req.password);
       return {
@@ -83,6 +113,30 @@ async function processRequest(
         type: TempleMessageType.EditAccountResponse,
       };
 
+    case TempleMessageType.ReorderAccountsRequest:
+      await Actions.reorderAccounts(req.accountPublicKeyHashes);
+      return {
+        type: TempleMessageType.ReorderAccountsResponse,
+      };
+
+    case TempleMessageType.SetAccountGroupRequest:
+      await Actions.setAccountGroup(req.accountPublicKeyHash, req.groupName);
+      return {
+        type: TempleMessageType.SetAccountGroupResponse,
+      };
+
+    case TempleMessageType.SetAccountHiddenRequest:
+      await Actions.setAccountHidden(req.accountPublicKeyHash, req.hidden);
+      return {
+        type: TempleMessageType.SetAccountHiddenResponse,
+      };
+
+    case TempleMessageType.SetAccountPolicyRequest:
+      await Actions.setAccountPolicy(req.accountPublicKeyHash, req.policy);
+      return {
+        type: TempleMessageType.SetAccountPolicyResponse,
+      };
+
     case TempleMessageType.ImportAccountRequest:
       await Actions.importAccount(req.privateKey, req.encPassword);
       return {
@@ -93,12 +147,38 @@ async function processRequest(
       await Actions.importMnemonicAccount(
         req.mnemonic,
         req.password,
-        req.derivationPath
+        req.derivationPath,
+        req.derivationType
       );
       return {
         type: TempleMessageType.ImportMnemonicAccountResponse,
       };
 
+    case TempleMessageType.DiscoverAccountsRequest:
+      const discoveredAccounts = await Actions.discoverAccounts(
+        req.rpcUrl,
+        req.derivationType,
+        req.gapLimit,
+        req.mnemonic,
+        req.password,
+        req.derivationPath
+      );
+      return {
+        type: TempleMessageType.DiscoverAccountsResponse,
+        accounts: discoveredAccounts,
+      };
+
+    case TempleMessageType.ImportDiscoveredAccountsRequest:
+      await Actions.importDiscoveredAccounts(
+        req.accounts,
+        req.derivationType,
+        req.mnemonic,
+        req.password
+      );
+      return {
+        type: TempleMessageType.ImportDiscoveredAccountsResponse,
+      };
+
     case TempleMessageType.ImportFundraiserAccountRequest:
       await Actions.importFundraiserAccount(
         req.email,
@@ -115,6 +195,12 @@ async function processRequest(
         type: TempleMessageType.ImportManagedKTAccountResponse,
       };
 
+    case TempleMessageType.ImportMultisigAccountRequest:
+      await Actions.importMultisigAccount(req.address, req.networkRpc);
+      return {
+        type: TempleMessageType.ImportMultisigAccountResponse,
+      };
+
     case TempleMessageType.ImportWatchOnlyAccountRequest:
       await Actions.importWatchOnlyAccount(req.address, req.chainId);
       return {
@@ -131,6 +217,23 @@ async function processRequest(
         type: TempleMessageType.CreateLedgerAccountResponse,
       };
 
+    case TempleMessageType.DiscoverLedgerAccountsRequest:
+      const ledgerAccounts = await Actions.discoverLedgerAccounts(
+        req.derivationTypes,
+        req.fromIndex,
+        req.count
+      );
+      return {
+        type: TempleMessageType.DiscoverLedgerAccountsResponse,
+        accounts: ledgerAccounts,
+      };
+
+    case TempleMessageType.CreateLedgerAccountsRequest:
+      await Actions.createLedgerAccounts(req.accounts);
+      return {
+        type: TempleMessageType.CreateLedgerAccountsResponse,
+      };
+
     case TempleMessageType.UpdateSettingsRequest:
       await Actions.updateSettings(req.settings);
       return {
@@ -177,6 +280,95 @@ async function processRequest(
         sessions,
       };
 
+    case TempleMessageType.DAppSetSessionScopesRequest:
+      const updatedSessions = await Actions.setDAppSessionScopes(
+        req.origin,
+        req.scopes
+      );
+      return {
+        type: TempleMessageType.DAppSetSessionScopesResponse,
+        sessions: updatedSessions,
+      };
+
+    case TempleMessageType.DAppSetAutoApprovePolicyRequest:
+      const sessionsWithPolicy = await Actions.setDAppSessionAutoApprovePolicy(
+        req.origin,
+        req.policy
+      );
+      return {
+        type: TempleMessageType.DAppSetAutoApprovePolicyResponse,
+        sessions: sessionsWithPolicy,
+      };
+
+    case TempleMessageType.DAppGetAutoApprovedOperationsRequest:
+      const autoApprovedOperations =
+        await Actions.getDAppAutoApprovedOperations(req.origin);
+      return {
+        type: TempleMessageType.DAppGetAutoApprovedOperationsResponse,
+        operations: autoApprovedOperations,
+      };
+
+    case TempleMessageType.GetOriginExceptionsRequest:
+      const originExceptions = await Actions.getOriginExceptions();
+      return {
+        type: TempleMessageType.GetOriginExceptionsResponse,
+        exceptions: originExceptions,
+      };
+
+    case TempleMessageType.SetOriginExceptionsRequest:
+      const updatedOriginExceptions = await Actions.setOriginExceptions(
+        req.exceptions
+      );
+      return {
+        type: TempleMessageType.SetOriginExceptionsResponse,
+        exceptions: updatedOriginExceptions,
+      };
+
+    case TempleMessageType.BeaconP2PPairRequest:
+      const pairing = await Actions.pairBeaconP2P(req.pairingCode);
+      return {
+        type: TempleMessageType.BeaconP2PPairResponse,
+        pairing,
+      };
+
+    case TempleMessageType.BeaconP2PGetPairingsRequest:
+      const allPairings = await Actions.getBeaconP2PPairings();
+      return {
+        type: TempleMessageType.BeaconP2PGetPairingsResponse,
+        pairings: allPairings,
+      };
+
+    case TempleMessageType.BeaconP2PRemovePairingRequest:
+      const pairings = await Actions.removeBeaconP2PPairing(req.id);
+      return {
+        type: TempleMessageType.BeaconP2PRemovePairingResponse,
+        pairings,
+      };
+
+    case TempleMessageType.GetPendingConfirmationsRequest:
+      return {
+        type: TempleMessageType.GetPendingConfirmationsResponse,
+        confirmations: Actions.getPendingConfirmations(),
+      };
+
+    case TempleMessageType.DeclineAllConfirmationsRequest:
+      Actions.declineAllConfirmations();
+      return {
+        type: TempleMessageType.DeclineAllConfirmationsResponse,
+      };
+
+    case TempleMessageType.ReplacePendingOperationRequest:
+      const { opHash: replacedOpHash } = await Actions.replacePendingOperation(
+        port,
+        req.id,
+        req.opHash,
+        req.mode
+      );
+      return {
+        type: TempleMessageType.ReplacePendingOperationResponse,
+        opHash: replacedOpHash,
+      };
+
     case TempleMessageType.PageRequest:
       const dAppEnabled = await Actions.isDAppEnabled();
       if (dAppEnabled) {
@@ -214,3 +406,8 @@ async function processRequest(
       break;
   }
 }
+
+async function processBeaconP2PMessage(origin: string, msg: string) {
+  const dAppEnabled = await Actions.isDAppEnabled();
+  return dAppEnabled ? Actions.processBeacon(origin, msg) : undefined;
+}
@@ -0,0 +1,110 @@
+import axios, { AxiosInstance } from "axios";
+
+/**
+ * Minimal client for Matrix Client-Server API (r0),
+ * covering only what Beacon P2P transport needs
+ * https://spec.matrix.org/v1.1/client-server-api/
+ */
+
+export interface MatrixLoginResponse {
+  user_id: string;
+  access_token: string;
+  device_id?: string;
+}
+
+export interface MatrixEvent {
+  type: string;
+  sender: string;
+  event_id?: string;
+  content: any;
+}
+
+export interface MatrixSyncResponse {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, { timeline?: { events?: MatrixEvent[] } }>;
+    invite?: Record<string, { invite_state?: { events?: MatrixEvent[] } }>;
+  };
+}
+
+const API_PATH = "/_matrix/client/r0";
+
+export class MatrixClient {
+  static async login(
+    relayServer: string,
+    user: string,
+    password: string,
+    deviceId: string
+  ) {
+    const { data } = await axios.post<MatrixLoginResponse>(
+      `${toBaseUrl(relayServer)}${API_PATH}/login`,
+      {
+        type: "m.login.password",
+        identifier: { type: "m.id.user", user },
+        password,
+        device_id: deviceId,
+      }
+    );
+
+    return new MatrixClient(relayServer, data.access_token, data.user_id);
+  }
+
+  private api: AxiosInstance;
+  private txnCounter = 0;
+
+  constructor(
+    public relayServer: string,
+    accessToken: string,
+    public userId: string
+  ) {
+    this.api = axios.create({
+      baseURL: `${toBaseUrl(relayServer)}${API_PATH}`,
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+  }
+
+  async createTrustedPrivateRoom(...invite: string[]) {
+    const { data } = await this.api.post<{ room_id: string }>("/createRoom", {
+      room_version: "5",
+      invite,
+      preset: "trusted_private_chat",
+      is_direct: true,
+    });
+    return data.room_id;
+  }
+
+  async joinRoom(roomId: string) {
+    await this.api.post(`/rooms/${encodeURIComponent(roomId)}/join`, {});
+  }
+
+  async sendTextMessage(roomId: string, body: string) {
+    const txnId = `m${Date.now()}.${this.txnCounter++}`;
+    await this.api.put(
+      `/rooms/${encodeURIComponent(
+        roomId
+      )}/send/m.room.message/${encodeURIComponent(txnId)}`,
+      { msgtype: "m.text", body }
+    );
+  }
+
+  async sync(since?: string, timeout = 30000) {
+    const { data } = await this.api.get<MatrixSyncResponse>("/sync", {
+      params: { since, timeout: since ? timeout : 0 },
+      timeout: timeout + 10000,
+    });
+    return data;
+  }
+}
+
+/**
+ * Relay servers are shared as a host name in pairing requests
+ */
+export function toBaseUrl(relayServer: string) {
+  return /^https?:\/\//.test(relayServer)
+    ? relayServer.replace(/\/+$/, "")
+    : `https://${relayServer}`;
+}
+
+export function getRelayServerHost(relayServer: string) {
+  return relayServer.replace(/^https?:\/\//, "").replace(/\/+$/, "");
+}
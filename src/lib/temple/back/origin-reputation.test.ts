@@ -0,0 +1,102 @@
+import { browser } from "webextension-polyfill-ts";
+
+import { getDApps } from "lib/custom-dapps-api";
+
+import {
+  checkOriginReputation,
+  getOriginExceptions,
+  getOriginReputation,
+  setOriginExceptions,
+} from "./origin-reputation";
+
+jest.mock("lib/custom-dapps-api", () => ({ getDApps: jest.fn() }));
+
+const LISTS = {
+  denylist: ["phishing.example"],
+  allowlist: ["quipuswap.com", "objkt.com", "tzkt.io"],
+};
+
+const check = (origin: string, exceptions: string[] = []) =>
+  checkOriginReputation(origin, LISTS, exceptions);
+
+describe("Origin reputation tests", () => {
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await browser.storage.local.clear();
+  });
+
+  it("trusts allowed domains and their subdomains", () => {
+    expect(check("https://quipuswap.com").status).toBe("trusted");
+    expect(check("https://www.objkt.com").status).toBe("trusted");
+    expect(check("https://api.tzkt.io").status).toBe("trusted");
+  });
+
+  it("blocks denied domains", () => {
+    expect(check("https://phishing.example")).toEqual({
+      status: "blocked",
+      reason: "denylist",
+    });
+    expect(check("https://app.phishing.example").status).toBe("blocked");
+  });
+
+  it("blocks domains imitating known ones", () => {
+    const imitations = [
+      // Cyrillic "і" encoded with punycode
+      new URL("https://quіpuswap.com").origin,
+      "https://app.quipuswap.com.claim.io",
+      "https://objkt.com.example",
+      // Cyrillic "о" and "к"
+      new URL("https://оbjкt.com").origin,
+    ];
+    for (const origin of imitations) {
+      expect(check(origin)).toMatchObject({
+        status: "blocked",
+        reason: "lookalike",
+      });
+    }
+    expect(check(imitations[3]).similarTo).toBe("objkt.com");
+  });
+
+  it("warns about domains with typo", () => {
+    const lookalikes = [
+      "https://0bjkt.com",
+      "https://quipuswapp.com",
+      "https://objkt.co",
+    ];
+    for (const origin of lookalikes) {
+      expect(check(origin)).toMatchObject({
+        status: "suspicious",
+        reason: "lookalike",
+      });
+    }
+    expect(check("https://quipuswapp.com").similarTo).toBe("quipuswap.com");
+  });
+
+  it("does not flag unrelated domains", () => {
+    expect(check("https://example.com").status).toBe("unknown");
+    expect(check("https://tezos.com").status).toBe("unknown");
+    expect(check("http://localhost:3000").status).toBe("unknown");
+    expect(check("beacon_p2p:edpk").status).toBe("unknown");
+  });
+
+  it("respects user exceptions", () => {
+    const origin = "https://quipuswapp.com";
+    expect(check(origin, [origin]).status).toBe("excepted");
+  });
+
+  it("stores exceptions", async () => {
+    await setOriginExceptions(["https://a.example", "https://a.example"]);
+    expect(await getOriginExceptions()).toEqual(["https://a.example"]);
+    await expect(setOriginExceptions(["a.example"])).rejects.toThrow();
+  });
+
+  it("does not retry failed lists update until next interval", async () => {
+    (getDApps as jest.Mock).mockRejectedValue(new Error("Network error"));
+
+    expect((await getOriginReputation("https://quipuswap.com")).status).toBe(
+      "trusted"
+    );
+    await getOriginReputation("https://example.com");
+    expect(getDApps).toBeCalledTimes(1);
+  });
+});
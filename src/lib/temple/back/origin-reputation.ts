@@ -0,0 +1,289 @@
+import axios from "axios";
+import { toUnicode } from "punycode/";
+import { browser } from "webextension-polyfill-ts";
+
+import { getDApps } from "lib/custom-dapps-api";
+import { TempleOriginReputation } from "lib/temple/types";
+
+import bundledLists from "./origin-lists.json";
+
+/**
+ * Origin reputation checks for dApp connections.
+ * Origins are matched against bundled and periodically updated
+ * deny/allow lists, and compared with known dApps to block
+ * lookalike (punycode / homoglyph) domains and warn about typo ones.
+ */
+
+const LISTS_STORAGE_KEY = "origin_reputation_lists";
+const EXCEPTIONS_STORAGE_KEY = "origin_reputation_exceptions";
+const LISTS_UPDATE_INTERVAL = 24 * 60 * 60 * 1000;
+const LISTS_UPDATE_TIMEOUT = 5_000;
+// Remote deny/allow lists are used only if configured
+const LISTS_URL = process.env.TEMPLE_WALLET_ORIGIN_LISTS_URL;
+
+// Characters rendered (nearly) the same as latin ones
+const CONFUSABLES: Record<string, string> = {
+  а: "a",
+  ɑ: "a",
+  α: "a",
+  ь: "b",
+  с: "c",
+  ϲ: "c",
+  ԁ: "d",
+  е: "e",
+  ё: "e",
+  ε: "e",
+  ɡ: "g",
+  һ: "h",
+  і: "i",
+  ı: "i",
+  ι: "i",
+  ј: "j",
+  κ: "k",
+  к: "k",
+  ӏ: "l",
+  ǀ: "l",
+  м: "m",
+  ո: "n",
+  п: "n",
+  о: "o",
+  ο: "o",
+  օ: "o",
+  р: "p",
+  ρ: "p",
+  ԛ: "q",
+  г: "r",
+  ѕ: "s",
+  т: "t",
+  τ: "t",
+  υ: "u",
+  ս: "u",
+  ν: "v",
+  ѵ: "v",
+  ԝ: "w",
+  ѡ: "w",
+  х: "x",
+  χ: "x",
+  у: "y",
+  ү: "y",
+  ᴢ: "z",
+};
+
+export type OriginLists = {
+  denylist: string[];
+  allowlist: string[];
+};
+
+type StoredOriginLists = OriginLists & {
+  updatedAt: number;
+};
+
+export async function getOriginReputation(origin: string) {
+  const [lists, exceptions] = await Promise.all([
+    getOriginLists(),
+    getOriginExceptions(),
+  ]);
+  return checkOriginReputation(origin, lists, exceptions);
+}
+
+export function checkOriginReputation(
+  origin: string,
+  { denylist, allowlist }: OriginLists,
+  exceptions: string[]
+): TempleOriginReputation {
+  const hostname = getHostname(origin);
+  if (!hostname) {
+    return { status: "unknown" };
+  }
+
+  if (exceptions.includes(origin)) {
+    return { status: "excepted" };
+  }
+
+  if (denylist.some((domain) => isDomainOrSubdomain(hostname, domain))) {
+    return { status: "blocked", reason: "denylist" };
+  }
+
+  if (allowlist.some((domain) => isDomainOrSubdomain(hostname, domain))) {
+    return { status: "trusted" };
+  }
+
+  const imitated = allowlist.find((domain) => isImitation(hostname, domain));
+  if (imitated) {
+    return { status: "blocked", reason: "lookalike", similarTo: imitated };
+  }
+
+  // Domains with a typo may be legitimate, so they are only warned about
+  const similarTo = allowlist.find((domain) => isTypo(hostname, domain));
+  if (similarTo) {
+    return { status: "suspicious", reason: "lookalike", similarTo };
+  }
+
+  return { status: "unknown" };
+}
+
+export async function getOriginExceptions(): Promise<string[]> {
+  const items = await browser.storage.local.get([EXCEPTIONS_STORAGE_KEY]);
+  return items[EXCEPTIONS_STORAGE_KEY] ?? [];
+}
+
+export async function setOriginExceptions(exceptions: string[]) {
+  if (
+    !Array.isArray(exceptions) ||
+    !exceptions.every((origin) => getHostname(origin))
+  ) {
+    throw new Error("Invalid origin");
+  }
+
+  const uniqueExceptions = unique(exceptions);
+  await browser.storage.local.set({
+    [EXCEPTIONS_STORAGE_KEY]: uniqueExceptions,
+  });
+  return uniqueExceptions;
+}
+
+async function getOriginLists(): Promise<OriginLists> {
+  const items = await browser.storage.local.get([LISTS_STORAGE_KEY]);
+  let stored: StoredOriginLists | undefined = items[LISTS_STORAGE_KEY];
+
+  if (!stored || Date.now() - stored.updatedAt > LISTS_UPDATE_INTERVAL) {
+    try {
+      stored = await updateOriginLists();
+    } catch (err) {
+      if (process.env.NODE_ENV === "development") {
+        console.error(err);
+      }
+
+      // Failed update is not retried until the next interval
+      stored = {
+        denylist: stored?.denylist ?? [],
+        allowlist: stored?.allowlist ?? [],
+        updatedAt: Date.now(),
+      };
+      await browser.storage.local.set({ [LISTS_STORAGE_KEY]: stored });
+    }
+  }
+
+  return {
+    denylist: unique([...bundledLists.denylist, ...(stored?.denylist ?? [])]),
+    allowlist: unique([
+      ...bundledLists.allowlist,
+      ...(stored?.allowlist ?? []),
+    ]),
+  };
+}
+
+async function updateOriginLists() {
+  const [{ dApps }, remote] = await withTimeout(
+    Promise.all([
+      getDApps(),
+      LISTS_URL
+        ? axios.get<Partial<OriginLists>>(LISTS_URL).then((res) => res.data)
+        : ({} as Partial<OriginLists>),
+    ]),
+    LISTS_UPDATE_TIMEOUT
+  );
+
+  const lists: StoredOriginLists = {
+    denylist: toDomains(remote.denylist),
+    allowlist: [
+      ...toDomains(remote.allowlist),
+      ...dApps
+        .filter((dApp) => !dApp.errorOccurred)
+        .map(({ website }) => getHostname(website))
+        .filter((hostname): hostname is string => Boolean(hostname)),
+    ],
+    updatedAt: Date.now(),
+  };
+  await browser.storage.local.set({ [LISTS_STORAGE_KEY]: lists });
+  return lists;
+}
+
+/**
+ * Known domain used as subdomain, e.g. quipuswap.com.example.io,
+ * or rendered the same with punycode / homoglyphs
+ */
+function isImitation(hostname: string, domain: string) {
+  if (`.${hostname}`.includes(`.${domain}.`)) return true;
+
+  return getSkeleton(getTail(hostname, domain)) === getSkeleton(domain);
+}
+
+function isTypo(hostname: string, domain: string) {
+  return (
+    domain.length >= 6 &&
+    isOneEditAway(getSkeleton(getTail(hostname, domain)), getSkeleton(domain))
+  );
+}
+
+// Trailing labels of hostname, as many as the domain has
+function getTail(hostname: string, domain: string) {
+  const labelsCount = domain.split(".").length;
+  return hostname.split(".").slice(-labelsCount).join(".");
+}
+
+/**
+ * Decodes punycode and replaces confusable characters with latin ones
+ */
+function getSkeleton(hostname: string) {
+  return Array.from(toUnicode(hostname).normalize("NFKC").toLowerCase())
+    .map((char) => CONFUSABLES[char] ?? char)
+    .join("")
+    .replace(/rn/g, "m")
+    .replace(/vv/g, "w");
+}
+
+function isOneEditAway(a: string, b: string) {
+  if (Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  let j = 0;
+  while (
+    j < a.length - i &&
+    j < b.length - i &&
+    a[a.length - 1 - j] === b[b.length - 1 - j]
+  ) {
+    j++;
+  }
+
+  // Single substitution, insertion or deletion
+  return Math.max(a.length, b.length) - i - j === 1;
+}
+
+function isDomainOrSubdomain(hostname: string, domain: string) {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+function getHostname(origin: string) {
+  try {
+    const url = new URL(origin);
+    return url.protocol === "https:" || url.protocol === "http:"
+      ? url.hostname.replace(/^www\./, "")
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function toDomains(list?: unknown) {
+  return Array.isArray(list)
+    ? list
+        .filter((item): item is string => typeof item === "string")
+        .map((item) => item.trim().toLowerCase())
+        .filter(Boolean)
+    : [];
+}
+
+function unique(list: string[]) {
+  return Array.from(new Set(list));
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number) {
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error("Timed out")), timeout)
+    ),
+  ]);
+}
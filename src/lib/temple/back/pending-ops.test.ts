@@ -0,0 +1,244 @@
+import { OperationContents, OpKind } from "@taquito/rpc";
+
+import { IPendingOperation } from "lib/temple/repo";
+
+import {
+  buildCancelContents,
+  buildSpeedUpContents,
+  CANCEL_MIN_FEE,
+  DROP_AFTER_MISSED_CHECKS,
+  getPendingOperationUpdate,
+  getTotalFee,
+  parseMempoolStatus,
+  STUCK_AFTER,
+} from "./pending-ops";
+
+const PKH = "tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb";
+const OTHER_PKH = "tz1V8T96EJMiMFVyFkt3UakBegftGf5HfEuG";
+const OP_HASH = "onjWPMGLcFc27T9bGeNHj3Q7aW5un8ummhRAfS5B4y7c91bqcUP";
+
+const REVEAL: OperationContents = {
+  kind: OpKind.REVEAL,
+  source: PKH,
+  fee: "374",
+  counter: "100",
+  gas_limit: "1100",
+  storage_limit: "0",
+  public_key: "edpkuBknW28nW72KG6RoHtYW7p12T6GKc7nAbwYX5m8Wd9sDVC9yav",
+};
+
+const TRANSFER: OperationContents = {
+  kind: OpKind.TRANSACTION,
+  source: PKH,
+  fee: "445",
+  counter: "101",
+  gas_limit: "1527",
+  storage_limit: "257",
+  amount: "55000000",
+  destination: OTHER_PKH,
+};
+
+function pendingOperation(
+  overrides: Partial<IPendingOperation> = {}
+): IPendingOperation {
+  return {
+    hash: OP_HASH,
+    chainId: "NetXdQprcVkpaWU",
+    rpcBaseURL: "http://localhost:8732",
+    sourcePkh: PKH,
+    contents: [TRANSFER],
+    status: "mempool",
+    checkedLevel: 99,
+    missedChecks: 0,
+    addedAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe("Pending operations tests", () => {
+  it("parses mempool status", () => {
+    expect(
+      parseMempoolStatus(
+        { applied: [{ hash: OP_HASH }], refused: [], branch_delayed: [] },
+        OP_HASH
+      )
+    ).toBe("pending");
+    expect(
+      parseMempoolStatus({ applied: [], refused: [[OP_HASH, {}]] }, OP_HASH)
+    ).toBe("refused");
+    expect(
+      parseMempoolStatus(
+        { applied: [], outdated: [{ hash: OP_HASH }] },
+        OP_HASH
+      )
+    ).toBe("refused");
+    expect(parseMempoolStatus({ applied: [{ hash: "oOther" }] }, OP_HASH)).toBe(
+      null
+    );
+  });
+
+  it("follows operation from mempool to confirmation", () => {
+    const op = pendingOperation();
+
+    expect(
+      getPendingOperationUpdate(
+        op,
+        {
+          headLevel: 100,
+          scannedLevel: 100,
+          mempool: "pending",
+          inclusion: null,
+        },
+        1000
+      )
+    ).toEqual({ checkedLevel: 100, missedChecks: 0 });
+
+    const included = getPendingOperationUpdate(
+      op,
+      {
+        headLevel: 101,
+        scannedLevel: 101,
+        mempool: null,
+        inclusion: { level: 101, blockHash: "BlockA", resultStatus: "applied" },
+      },
+      1000
+    );
+    expect(included).toEqual({
+      status: "included",
+      resultStatus: "applied",
+      includedLevel: 101,
+      includedBlockHash: "BlockA",
+      checkedLevel: 101,
+      missedChecks: 0,
+    });
+
+    const includedOp = pendingOperation(included!);
+    const check = (headLevel: number, includedBlockHash: string) =>
+      getPendingOperationUpdate(includedOp, {
+        headLevel,
+        scannedLevel: 101,
+        mempool: null,
+        inclusion: null,
+        includedBlockHash,
+      });
+
+    expect(check(102, "BlockA")).toBe(null);
+    expect(check(103, "BlockA")).toEqual({ status: "confirmed" });
+    // Reorganization
+    expect(check(103, "BlockB")).toMatchObject({
+      status: "mempool",
+      includedLevel: undefined,
+      checkedLevel: 100,
+    });
+  });
+
+  it("detects failed operation", () => {
+    expect(
+      getPendingOperationUpdate(pendingOperation(), {
+        headLevel: 101,
+        scannedLevel: 101,
+        mempool: null,
+        inclusion: {
+          level: 101,
+          blockHash: "BlockA",
+          resultStatus: "backtracked",
+        },
+      })
+    ).toMatchObject({ status: "backtracked", resultStatus: "backtracked" });
+  });
+
+  it("detects dropped and stuck operation", () => {
+    expect(
+      getPendingOperationUpdate(pendingOperation(), {
+        headLevel: 100,
+        scannedLevel: 100,
+        mempool: "refused",
+        inclusion: null,
+      })
+    ).toMatchObject({ status: "dropped" });
+
+    const missing = {
+      headLevel: 100,
+      scannedLevel: 100,
+      mempool: null,
+      inclusion: null,
+    };
+    expect(
+      getPendingOperationUpdate(
+        pendingOperation({ missedChecks: 1 }),
+        missing,
+        0
+      )
+    ).toEqual({ checkedLevel: 100, missedChecks: 2 });
+    expect(
+      getPendingOperationUpdate(
+        pendingOperation({ missedChecks: DROP_AFTER_MISSED_CHECKS - 1 }),
+        missing
+      )
+    ).toMatchObject({ status: "dropped" });
+    // Still scanning blocks after a pause
+    expect(
+      getPendingOperationUpdate(
+        pendingOperation({ missedChecks: DROP_AFTER_MISSED_CHECKS - 1 }),
+        { ...missing, headLevel: 200 },
+        0
+      )
+    ).toEqual({ checkedLevel: 100, missedChecks: 0 });
+
+    expect(
+      getPendingOperationUpdate(
+        pendingOperation(),
+        { ...missing, mempool: "pending" },
+        STUCK_AFTER
+      )
+    ).toEqual({ checkedLevel: 100, missedChecks: 0, stuckNotified: true });
+    expect(
+      getPendingOperationUpdate(
+        pendingOperation({ stuckNotified: true }),
+        { ...missing, mempool: "pending" },
+        STUCK_AFTER
+      )
+    ).toEqual({ checkedLevel: 100, missedChecks: 0 });
+  });
+
+  it("builds speed up contents", () => {
+    expect(buildSpeedUpContents([REVEAL, TRANSFER])).toEqual([
+      { ...REVEAL, fee: "561" },
+      { ...TRANSFER, fee: "668" },
+    ]);
+  });
+
+  it("builds cancel contents", () => {
+    expect(buildCancelContents([TRANSFER], PKH)).toEqual([
+      {
+        kind: OpKind.TRANSACTION,
+        source: PKH,
+        fee: String(CANCEL_MIN_FEE),
+        counter: "101",
+        gas_limit: "1520",
+        storage_limit: "0",
+        amount: "0",
+        destination: PKH,
+      },
+    ]);
+
+    const [reveal, transfer] = buildCancelContents(
+      [REVEAL, { ...TRANSFER, fee: "1000" }, { ...TRANSFER, fee: "500" }],
+      PKH
+    );
+    expect(reveal).toEqual({ ...REVEAL, fee: "561" });
+    expect(transfer).toMatchObject({ counter: "101", fee: "2250" });
+
+    expect(() => buildCancelContents([REVEAL], PKH)).toThrow(
+      "Nothing to cancel"
+    );
+  });
+
+  it("counts total fee", () => {
+    expect(getTotalFee([REVEAL, TRANSFER]).toFixed()).toBe("819");
+    expect(
+      getTotalFee(buildSpeedUpContents([REVEAL, TRANSFER])).toFixed()
+    ).toBe("1229");
+  });
+});
@@ -0,0 +1,471 @@
+import { HttpBackend, HttpResponseError } from "@taquito/http-utils";
+import { localForger } from "@taquito/local-forging";
+import {
+  OperationContents,
+  OperationContentsAndResult,
+  OperationContentsTransaction,
+  OpKind,
+  RpcClient,
+} from "@taquito/rpc";
+import BigNumber from "bignumber.js";
+import { browser } from "webextension-polyfill-ts";
+
+import { getMessage } from "lib/i18n";
+import { addLocalOperation, removeLocalOperation } from "lib/temple/activity";
+import { toPolicyOpParams } from "lib/temple/back/account-policy";
+import { PublicError } from "lib/temple/back/defaults";
+import { Vault } from "lib/temple/back/vault";
+import { transformHttpResponseError } from "lib/temple/helpers";
+import * as Repo from "lib/temple/repo";
+import { TempleAccountType } from "lib/temple/types";
+
+export const CHECK_INTERVAL = 10_000;
+// Blocks on top of the including one, to consider operation final
+export const CONFIRMATION_DEPTH = 2;
+// Checks in a row, when operation is found neither in mempool nor in blocks
+export const DROP_AFTER_MISSED_CHECKS = 6;
+export const STUCK_AFTER = 2 * 60_000;
+export const MAX_SCAN_BLOCKS = 20;
+export const SPEED_UP_FEE_MULTIPLIER = 1.5;
+export const CANCEL_GAS_LIMIT = 1520;
+export const CANCEL_MIN_FEE = 1000;
+const KEEP_FINISHED_FOR = 7 * 24 * 60 * 60_000;
+const ACTIVE_STATUSES: Repo.PendingOperationStatus[] = ["mempool", "included"];
+const REFUSED_MEMPOOL_GROUPS = ["refused", "outdated"];
+const GENERIC_OPERATION_WATERMARK = "03";
+
+export type MempoolStatus = "pending" | "refused";
+
+export type ReplaceMode = "speed-up" | "cancel";
+
+export interface PendingCheckResult {
+  headLevel: number;
+  // Highest block level, that was scanned for operation
+  scannedLevel: number;
+  mempool: MempoolStatus | null;
+  inclusion: {
+    level: number;
+    blockHash: string;
+    resultStatus?: string;
+  } | null;
+  // Current hash of the block at level, operation was included at
+  includedBlockHash?: string;
+}
+
+const httpBackend = new HttpBackend();
+
+export async function addPendingOperation(
+  rpcBaseURL: string,
+  chainId: string,
+  sourcePkh: string,
+  hash: string,
+  results: OperationContentsAndResult[]
+) {
+  const { level } = await new RpcClient(rpcBaseURL).getBlockHeader();
+  const now = Date.now();
+
+  await Repo.pendingOperations.put({
+    hash,
+    chainId,
+    rpcBaseURL,
+    sourcePkh,
+    contents: results.map(omitResult),
+    status: "mempool",
+    // Head could be changed while operation was injected
+    checkedLevel: level - 1,
+    missedChecks: 0,
+    addedAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function check() {
+  const activeOperations = await Repo.pendingOperations
+    .where("status")
+    .anyOf(ACTIVE_STATUSES)
+    .toArray();
+
+  for (const op of activeOperations) {
+    try {
+      const result = await checkOperation(op);
+      const update = getPendingOperationUpdate(op, result);
+      if (!update) continue;
+
+      await Repo.pendingOperations.update(op.hash, {
+        ...update,
+        updatedAt: Date.now(),
+      });
+      await handleTransition(op, { ...op, ...update });
+    } catch (err) {
+      if (process.env.NODE_ENV === "development") {
+        console.error(err);
+      }
+    }
+  }
+
+  await Repo.pendingOperations
+    .where("updatedAt")
+    .below(Date.now() - KEEP_FINISHED_FOR)
+    .filter((op) => !ACTIVE_STATUSES.includes(op.status))
+    .delete();
+}
+
+export function start() {
+  let checking = false;
+  const interval = setInterval(async () => {
+    if (checking) return;
+    checking = true;
+    try {
+      await check();
+    } finally {
+      checking = false;
+    }
+  }, CHECK_INTERVAL);
+
+  return () => clearInterval(interval);
+}
+
+/**
+ * Builds contents, that re-use counter of the pending operation,
+ * so only one of them can be applied. "speed-up" keeps contents
+ * and raises fees, "cancel" replaces them with an empty self transfer,
+ * paying more than the original.
+ */
+export async function prepareReplacement(
+  vault: Vault,
+  hash: string,
+  mode: ReplaceMode
+) {
+  const op = await Repo.pendingOperations.get(hash);
+  if (!op || op.status !== "mempool") {
+    throw new PublicError("Operation is not pending anymore");
+  }
+
+  // Operations of managed contracts are signed by their owners
+  const accounts = await vault.fetchAccounts();
+  const account = accounts.find((acc) => acc.publicKeyHash === op.sourcePkh);
+  if (!account || account.type === TempleAccountType.ManagedKT) {
+    throw new PublicError("Operation can't be replaced from this account");
+  }
+
+  const contents =
+    mode === "speed-up"
+      ? buildSpeedUpContents(op.contents)
+      : buildCancelContents(op.contents, op.sourcePkh);
+
+  return { op, contents };
+}
+
+/**
+ * Replaced operation was counted towards daily limits already,
+ * and only one of them can be applied
+ */
+export function checkReplacementPolicy(
+  vault: Vault,
+  op: Repo.IPendingOperation,
+  contents: OperationContents[]
+) {
+  return vault.checkAccountPolicy(
+    op.sourcePkh,
+    toPolicyOpParams(contents),
+    toPolicyOpParams(op.contents)
+  );
+}
+
+export async function replacePendingOperation(
+  vault: Vault,
+  hash: string,
+  contents: OperationContents[]
+) {
+  const op = await Repo.pendingOperations.get(hash);
+  if (!op || op.status !== "mempool") {
+    throw new PublicError("Operation is not pending anymore");
+  }
+
+  await checkReplacementPolicy(vault, op, contents);
+
+  let newHash: string;
+  try {
+    const rpc = new RpcClient(op.rpcBaseURL);
+    const { hash: branch } = await rpc.getBlockHeader();
+    const bytes = await localForger.forge({ branch, contents });
+    const { sbytes } = await vault.sign(
+      op.sourcePkh,
+      bytes,
+      GENERIC_OPERATION_WATERMARK
+    );
+    newHash = await rpc.injectOperation(sbytes);
+  } catch (err) {
+    if (process.env.NODE_ENV === "development") {
+      console.error(err);
+    }
+
+    throw err instanceof HttpResponseError
+      ? transformHttpResponseError(err)
+      : err;
+  }
+
+  const now = Date.now();
+  await Repo.pendingOperations.update(op.hash, {
+    status: "replaced",
+    replacedBy: newHash,
+    updatedAt: now,
+  });
+  await Repo.pendingOperations.put({
+    ...op,
+    hash: newHash,
+    contents,
+    missedChecks: 0,
+    stuckNotified: false,
+    addedAt: now,
+    updatedAt: now,
+  });
+
+  try {
+    await removeLocalOperation(op.hash);
+    await addLocalOperation(op.chainId, newHash, contents);
+  } catch {}
+
+  return newHash;
+}
+
+export function getPendingOperationUpdate(
+  op: Repo.IPendingOperation,
+  {
+    headLevel,
+    scannedLevel,
+    mempool,
+    inclusion,
+    includedBlockHash,
+  }: PendingCheckResult,
+  now = Date.now()
+): Partial<Repo.IPendingOperation> | null {
+  if (op.status === "included") {
+    if (includedBlockHash !== op.includedBlockHash) {
+      // Block was reorganized out of the main chain
+      return {
+        status: "mempool",
+        resultStatus: undefined,
+        includedLevel: undefined,
+        includedBlockHash: undefined,
+        checkedLevel: op.includedLevel! - 1,
+        missedChecks: 0,
+      };
+    }
+
+    return headLevel - op.includedLevel! >= CONFIRMATION_DEPTH
+      ? { status: "confirmed" }
+      : null;
+  }
+
+  if (op.status !== "mempool") {
+    return null;
+  }
+
+  if (inclusion) {
+    return {
+      status: inclusion.resultStatus === "applied" ? "included" : "backtracked",
+      resultStatus: inclusion.resultStatus,
+      includedLevel: inclusion.level,
+      includedBlockHash: inclusion.blockHash,
+      checkedLevel: scannedLevel,
+      missedChecks: 0,
+    };
+  }
+
+  if (mempool === "refused") {
+    return { status: "dropped", checkedLevel: scannedLevel };
+  }
+
+  // Blocks are still being scanned after a long pause
+  const caughtUp = scannedLevel >= headLevel;
+  const missedChecks =
+    mempool === "pending" || !caughtUp ? 0 : op.missedChecks + 1;
+  if (missedChecks >= DROP_AFTER_MISSED_CHECKS) {
+    return { status: "dropped", checkedLevel: scannedLevel, missedChecks };
+  }
+
+  return {
+    checkedLevel: scannedLevel,
+    missedChecks,
+    ...(!op.stuckNotified && now - op.addedAt >= STUCK_AFTER
+      ? { stuckNotified: true }
+      : {}),
+  };
+}
+
+export function parseMempoolStatus(
+  pendingOperations: Record<string, any>,
+  hash: string
+): MempoolStatus | null {
+  for (const [group, items] of Object.entries(pendingOperations)) {
+    if (!Array.isArray(items)) continue;
+
+    // Older nodes return [hash, operation] pairs for some groups
+    const found = items.some(
+      (item) => (Array.isArray(item) ? item[0] : item?.hash) === hash
+    );
+    if (found) {
+      return REFUSED_MEMPOOL_GROUPS.includes(group) ? "refused" : "pending";
+    }
+  }
+
+  return null;
+}
+
+export function buildSpeedUpContents(contents: OperationContents[]) {
+  return contents.map((content) =>
+    "fee" in content
+      ? { ...content, fee: raiseFee(content.fee).toFixed() }
+      : content
+  );
+}
+
+export function buildCancelContents(
+  contents: OperationContents[],
+  sourcePkh: string
+): OperationContents[] {
+  // Account may be not revealed yet
+  const reveals = contents.filter((c) => c.kind === OpKind.REVEAL);
+  const rest = contents.filter(
+    (c) => c.kind !== OpKind.REVEAL && "counter" in c
+  ) as OperationContentsTransaction[];
+  if (rest.length === 0) {
+    throw new PublicError("Nothing to cancel");
+  }
+
+  return [
+    ...buildSpeedUpContents(reveals),
+    {
+      kind: OpKind.TRANSACTION,
+      source: sourcePkh,
+      fee: BigNumber.max(raiseFee(getTotalFee(rest)), CANCEL_MIN_FEE).toFixed(),
+      counter: rest[0].counter,
+      gas_limit: String(CANCEL_GAS_LIMIT),
+      storage_limit: "0",
+      amount: "0",
+      destination: sourcePkh,
+    },
+  ];
+}
+
+async function checkOperation(
+  op: Repo.IPendingOperation
+): Promise<PendingCheckResult> {
+  const rpc = new RpcClient(op.rpcBaseURL);
+
+  if (op.status === "included") {
+    const [head, includedBlock] = await Promise.all([
+      rpc.getBlockHeader(),
+      rpc.getBlockHeader({ block: String(op.includedLevel) }),
+    ]);
+
+    return {
+      headLevel: head.level,
+      scannedLevel: op.checkedLevel,
+      mempool: null,
+      inclusion: null,
+      includedBlockHash: includedBlock.hash,
+    };
+  }
+
+  // Mempool goes first, so operation that left it is found in blocks
+  const mempool = parseMempoolStatus(
+    await httpBackend.createRequest({
+      url: `${op.rpcBaseURL}/chains/main/mempool/pending_operations`,
+      method: "GET",
+    }),
+    op.hash
+  );
+  const head = await rpc.getBlockHeader();
+  const scannedLevel = Math.min(head.level, op.checkedLevel + MAX_SCAN_BLOCKS);
+
+  for (let level = op.checkedLevel + 1; level <= scannedLevel; level++) {
+    const block = await rpc.getBlock({ block: String(level) });
+    const found = block.operations.flat().find(({ hash }) => hash === op.hash);
+
+    if (found) {
+      return {
+        headLevel: head.level,
+        scannedLevel,
+        mempool,
+        inclusion: {
+          level,
+          blockHash: block.hash,
+          resultStatus: (found.contents[0] as any)?.metadata?.operation_result
+            ?.status,
+        },
+      };
+    }
+  }
+
+  return { headLevel: head.level, scannedLevel, mempool, inclusion: null };
+}
+
+async function handleTransition(
+  prev: Repo.IPendingOperation,
+  next: Repo.IPendingOperation
+) {
+  const shortHash = `${next.hash.slice(0, 7)}...${next.hash.slice(-4)}`;
+
+  if (next.stuckNotified && !prev.stuckNotified) {
+    notify(next.hash, getMessage("operationStuckNotification", shortHash));
+  }
+  if (next.status === prev.status) return;
+
+  switch (next.status) {
+    case "confirmed":
+      notify(
+        next.hash,
+        getMessage("operationConfirmedNotification", shortHash)
+      );
+      break;
+
+    case "backtracked":
+      notify(
+        next.hash,
+        getMessage("operationBacktrackedNotification", [
+          shortHash,
+          next.resultStatus ?? "",
+        ])
+      );
+      break;
+
+    case "dropped":
+      notify(next.hash, getMessage("operationDroppedNotification", shortHash));
+      try {
+        await removeLocalOperation(next.hash);
+      } catch {}
+      break;
+  }
+}
+
+function notify(id: string, message: string) {
+  // Notifications may be disabled by user or unavailable on platform
+  browser.notifications
+    ?.create(id, {
+      type: "basic",
+      iconUrl: browser.runtime.getURL("misc/icon-128.png"),
+      title: getMessage("appName"),
+      message,
+    })
+    .catch(() => {});
+}
+
+export function getTotalFee(contents: OperationContents[]) {
+  return contents.reduce(
+    (sum, content) => ("fee" in content ? sum.plus(content.fee) : sum),
+    new BigNumber(0)
+  );
+}
+
+function raiseFee(fee: BigNumber.Value) {
+  return new BigNumber(fee)
+    .times(SPEED_UP_FEE_MULTIPLIER)
+    .integerValue(BigNumber.ROUND_UP);
+}
+
+function omitResult(result: OperationContentsAndResult) {
+  const { metadata, ...contents } = result as any;
+  return contents as OperationContents;
+}
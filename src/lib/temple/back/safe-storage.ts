@@ -21,6 +21,22 @@ export async function fetchAndDecryptOne<T>(
   return decrypt<T>(encStorage, passKey);
 }
 
+export async function fetchAndDecryptMany(
+  storageKeys: string[],
+  passKey: CryptoKey
+) {
+  const items = await browser.storage.local.get(storageKeys);
+  return Promise.all(
+    storageKeys.map(async (storageKey) => {
+      if (items[storageKey] === undefined) {
+        throw new Error("Some storage item not found");
+      }
+      const stuff = await decrypt(items[storageKey], passKey);
+      return [storageKey, stuff] as [typeof storageKey, typeof stuff];
+    })
+  );
+}
+
 export async function encryptAndSaveMany(
   items: [string, any][],
   passKey: CryptoKey
@@ -35,6 +51,37 @@ export async function encryptAndSaveMany(
   await saveEncrypted(encItems);
 }
 
+export async function reencryptMany(
+  storageKeys: string[],
+  passKey: CryptoKey,
+  newPassKey: CryptoKey
+) {
+  const items = await browser.storage.local.get(storageKeys);
+  const encItems = await Promise.all(
+    storageKeys.map(async (storageKey) => {
+      if (items[storageKey] === undefined) {
+        throw new Error("Some storage item not found");
+      }
+      const stuff = await decrypt(items[storageKey], passKey);
+      const encStorage = await encrypt(stuff, newPassKey);
+      return [storageKey, encStorage] as [typeof storageKey, typeof encStorage];
+    })
+  );
+
+  try {
+    await saveEncrypted(encItems);
+  } catch (err) {
+    // Rollback: restore all items encrypted with the previous key
+    await saveEncrypted(items);
+    throw err;
+  }
+}
+
+export async function fetchStorageKeys(prefix: string) {
+  const items = await browser.storage.local.get(null);
+  return Object.keys(items).filter((key) => key.startsWith(prefix));
+}
+
 export async function removeMany(keys: string[]) {
   await browser.storage.local.remove(keys);
 }
@@ -1,18 +1,25 @@
 import { browser } from "webextension-polyfill-ts";
 
-import { TempleAccountType, TempleSettings } from "../types";
+import * as Helpers from "../helpers";
+import * as Multisig from "../multisig";
+import { DerivationType, TempleAccountType, TempleSettings } from "../types";
 import { Vault } from "./vault";
 
 const password = "Test123!";
 const mnemonic =
   "street seminar popular skill actress route treat coral ready bar program affair";
 const accountName = "Temple";
+const RPC_URL = "http://localhost:8732";
 
 describe("Vault tests", () => {
   beforeEach(async () => {
     await browser.storage.local.clear();
   });
 
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   it("init test", async () => {
     await Vault.spawn(password, mnemonic);
     const vault = await Vault.setup(password);
@@ -89,6 +96,53 @@ describe("Vault tests", () => {
     );
   });
 
+  it("createHDAccount secp256k1 test", async () => {
+    await Vault.spawn(password, mnemonic);
+    const vault = await Vault.setup(password);
+    await vault.createHDAccount(
+      accountName,
+      undefined,
+      DerivationType.SECP256K1
+    );
+    const accounts = await vault.createHDAccount(
+      undefined,
+      undefined,
+      DerivationType.SECP256K1
+    );
+    expect(accounts[1]).toMatchObject({
+      type: TempleAccountType.HD,
+      publicKeyHash: "tz2JDUmkcEUdTq42hnWsoc2ncMcMF4CGAjBh",
+      hdIndex: 0,
+      derivationType: DerivationType.SECP256K1,
+    });
+    expect(accounts[2]).toMatchObject({
+      publicKeyHash: "tz2QfnPRoeLw2hdAAdEJYPC7VGo27ZEge9EQ",
+      hdIndex: 1,
+    });
+    expect(
+      await Vault.revealPrivateKey(accounts[1].publicKeyHash, password)
+    ).toBe("spsk1Rek8rMegi89B5aFo1xoaewQcoXhXDVXXxM66xJ6pW8HMQKZFw");
+  });
+
+  it("createHDAccount p256 test", async () => {
+    await Vault.spawn(password, mnemonic);
+    const vault = await Vault.setup(password);
+    const accounts = await vault.createHDAccount(
+      accountName,
+      undefined,
+      DerivationType.P256
+    );
+    expect(accounts[1]).toMatchObject({
+      type: TempleAccountType.HD,
+      publicKeyHash: "tz3ZibkCx8cbG53ycL5EVRdHgheSBMQXWqaM",
+      hdIndex: 0,
+      derivationType: DerivationType.P256,
+    });
+    expect(
+      await Vault.revealPrivateKey(accounts[1].publicKeyHash, password)
+    ).toBe("p2sk2x9Lq5aQQoeGqafZdo8ZrDKkVGZCiYzQG49c86fXzJTAFj8eNN");
+  });
+
   it("editAccountName test", async () => {
     const newName = "newName";
     await Vault.spawn(password, mnemonic);
@@ -221,6 +275,149 @@ describe("Vault tests", () => {
     expect(accounts[1].type).toBe(TempleAccountType.Imported);
   });
 
+  it("importMnemonicAccount with curve test", async () => {
+    await Vault.spawn(password);
+    const vault = await Vault.setup(password);
+    let accounts = await vault.importMnemonicAccount(
+      mnemonic,
+      undefined,
+      "m/44'/1729'/1'/0'",
+      DerivationType.SECP256K1
+    );
+    expect(accounts[1].type).toBe(TempleAccountType.Imported);
+    expect(accounts[1].publicKeyHash).toBe(
+      "tz2QfnPRoeLw2hdAAdEJYPC7VGo27ZEge9EQ"
+    );
+    accounts = await vault.importMnemonicAccount(
+      mnemonic,
+      undefined,
+      undefined,
+      DerivationType.P256
+    );
+    expect(accounts[2].publicKeyHash).toBe(
+      "tz3ZibkCx8cbG53ycL5EVRdHgheSBMQXWqaM"
+    );
+  });
+
+  it("discoverHDAccounts test", async () => {
+    await Vault.spawn(password, mnemonic);
+    const vault = await Vault.setup(password);
+    const isUsed = async (pkh: string) =>
+      pkh === "tz2QfnPRoeLw2hdAAdEJYPC7VGo27ZEge9EQ";
+    const accounts = await vault.discoverHDAccounts(
+      isUsed,
+      DerivationType.SECP256K1,
+      2
+    );
+    expect(accounts).toEqual([
+      {
+        index: 1,
+        derivationPath: "m/44'/1729'/1'/0'",
+        publicKeyHash: "tz2QfnPRoeLw2hdAAdEJYPC7VGo27ZEge9EQ",
+      },
+    ]);
+  });
+
+  it("discoverMnemonicAccounts test", async () => {
+    const isUsed = async (pkh: string) =>
+      pkh === "tz3ZibkCx8cbG53ycL5EVRdHgheSBMQXWqaM";
+    const accounts = await Vault.discoverMnemonicAccounts(
+      mnemonic,
+      undefined,
+      "m/44'/1729'/i'/0'",
+      isUsed,
+      DerivationType.P256,
+      1
+    );
+    expect(accounts.map((acc) => acc.publicKeyHash)).toEqual([
+      "tz3ZibkCx8cbG53ycL5EVRdHgheSBMQXWqaM",
+    ]);
+  });
+
+  it("reorderAccounts test", async () => {
+    await Vault.spawn(password, mnemonic);
+    const vault = await Vault.setup(password);
+    const accounts = await vault.createHDAccount(accountName);
+    const [first, second] = accounts.map((acc) => acc.publicKeyHash);
+
+    const reordered = await vault.reorderAccounts([second, first]);
+    expect(reordered.map((acc) => acc.publicKeyHash)).toEqual([second, first]);
+    expect(await vault.fetchAccounts()).toEqual(reordered);
+
+    await expect(vault.reorderAccounts([second])).rejects.toThrow();
+    await expect(vault.reorderAccounts([second, second])).rejects.toThrow();
+  });
+
+  it("setAccountGroup and setAccountHidden test", async () => {
+    await Vault.spawn(password, mnemonic);
+    const vault = await Vault.setup(password);
+    let accounts = await vault.createHDAccount(accountName);
+    expect(accounts.every((acc) => !acc.hidden)).toBeTruthy();
+
+    accounts = await vault.setAccountGroup(accounts[1].publicKeyHash, "Work");
+    expect(accounts[1].groupName).toBe("Work");
+
+    accounts = await vault.setAccountHidden(accounts[0].publicKeyHash, true);
+    expect(accounts[0].hidden).toBeTruthy();
+    await expect(
+      vault.setAccountHidden(accounts[1].publicKeyHash, true)
+    ).rejects.toThrow();
+
+    accounts = await vault.setAccountHidden(accounts[0].publicKeyHash, false);
+    expect(accounts[0].hidden).toBeFalsy();
+  });
+
+  it("visibility migration test", async () => {
+    await Vault.spawn(password, mnemonic);
+    const legacyData = (await Vault.exportData(password)).map(
+      ([storageKey, value]: [string, any]): [string, any] => {
+        if (storageKey.endsWith("_mgrnlvl")) return [storageKey, 3];
+        if (storageKey.endsWith("_accounts")) {
+          return [storageKey, value.map(({ hidden, ...acc }: any) => acc)];
+        }
+        return [storageKey, value];
+      }
+    );
+    await Vault.spawnFromData(password, legacyData);
+
+    const vault = await Vault.setup(password);
+    const accounts = await vault.fetchAccounts();
+    expect(accounts.length).toBe(1);
+    expect(accounts.every((acc) => acc.hidden === false)).toBeTruthy();
+  });
+
+  it("account policy test", async () => {
+    await Vault.spawn(password, mnemonic);
+    const vault = await Vault.setup(password);
+    const [{ publicKeyHash }] = await vault.fetchAccounts();
+    const opParams = [
+      {
+        kind: "transaction",
+        to: "tz1aSkwEot3L2kmUvcoxzjMomb9mvBNuzFK6",
+        amount: 1,
+      },
+    ];
+
+    expect(await vault.checkAccountPolicy(publicKeyHash, opParams)).toEqual({});
+
+    const accounts = await vault.setAccountPolicy(publicKeyHash, {
+      dailyLimits: { tez: "1500000" },
+    });
+    expect(accounts[0].policy).toEqual({ dailyLimits: { tez: "1500000" } });
+
+    const spendings = await vault.checkAccountPolicy(publicKeyHash, opParams);
+    expect(spendings).toEqual({ tez: "1000000" });
+
+    await vault.addAccountSpendings(publicKeyHash, spendings);
+    expect(await vault.fetchAccountSpendings(publicKeyHash)).toEqual(spendings);
+    await expect(
+      vault.checkAccountPolicy(publicKeyHash, opParams)
+    ).rejects.toThrow();
+
+    await vault.setAccountPolicy(publicKeyHash, undefined);
+    expect(await vault.checkAccountPolicy(publicKeyHash, opParams)).toEqual({});
+  });
+
   it("importFundraiserAccount test", async () => {
     await Vault.spawn(password, mnemonic);
     const vault = await Vault.setup(password);
@@ -264,6 +461,38 @@ describe("Vault tests", () => {
     expect(newAccounts[1].type).toBe(TempleAccountType.ManagedKT);
   });
 
+  it("importMultisigAccount test", async () => {
+    const isMultisig = jest
+      .spyOn(Multisig, "isMultisigScript")
+      .mockReturnValue(true);
+    jest
+      .spyOn(Helpers, "loadFastRpcClient")
+      .mockReturnValue({ getScript: async () => ({ code: [] }) } as any);
+    jest.spyOn(Helpers, "loadChainId").mockResolvedValue("NetXdQprcVkpaWU");
+
+    await Vault.spawn(password, mnemonic);
+    const vault = await Vault.setup(password);
+    const accounts = await vault.importMultisigAccount(
+      "KT1RxKJyi48W3bZR8HErRiisXZQw19HwLGWj",
+      RPC_URL
+    );
+    expect(accounts[1].type).toBe(TempleAccountType.Multisig);
+    expect(accounts[1]).toMatchObject({ chainId: "NetXdQprcVkpaWU" });
+    await expect(vault.sign(accounts[1].publicKeyHash, "03")).rejects.toThrow();
+
+    await expect(
+      vault.importMultisigAccount(accounts[0].publicKeyHash, RPC_URL)
+    ).rejects.toThrow();
+    isMultisig.mockReturnValue(false);
+    await expect(
+      vault.importMultisigAccount(
+        "KT19txYWjVo4yLvcGnnyiGc35CuX12Pc4krn",
+        RPC_URL
+      )
+    ).rejects.toThrow();
+    expect(await vault.fetchAccounts()).toHaveLength(2);
+  });
+
   it("importWatchOnlyAccount test", async () => {
     await Vault.spawn(password, mnemonic);
     const vault = await Vault.setup(password);
@@ -292,4 +521,31 @@ describe("Vault tests", () => {
     );
     expect(afterRemoveAccounts.length).toBe(1);
   });
+
+  it("changePassword test", async () => {
+    const newPassword = "NewTest123!";
+    await Vault.spawn(password, mnemonic);
+    const vault = await Vault.setup(password);
+    const accounts = await vault.importAccount(
+      "edskS3DtVSbWbPD1yviMGebjYwWJtruMjDcfAZsH9uba22EzKeYhmQkkraFosFETmEMfFNVcDYQ5QbFerj9ozDKroXZ6mb5oxV"
+    );
+    const { publicKeyHash } = accounts[1];
+    const privateKey = await Vault.revealPrivateKey(publicKeyHash, password);
+
+    const newVault = await Vault.changePassword(password, newPassword);
+    expect(await newVault.fetchAccounts()).toEqual(accounts);
+    expect(await Vault.revealMnemonic(newPassword)).toBe(mnemonic);
+    expect(await Vault.revealPrivateKey(publicKeyHash, newPassword)).toBe(
+      privateKey
+    );
+    await expect(Vault.setup(password)).rejects.toThrow("Invalid password");
+  });
+
+  it("changePassword with invalid password test", async () => {
+    await Vault.spawn(password, mnemonic);
+    await expect(
+      Vault.changePassword("Wrong123!", "NewTest123!")
+    ).rejects.toThrow("Invalid password");
+    expect(await Vault.revealMnemonic(password)).toBe(mnemonic);
+  });
 });
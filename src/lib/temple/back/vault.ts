@@ -18,12 +18,29 @@ import { browser } from "webextension-polyfill-ts";
 
 import { getMessage } from "lib/i18n";
 import { mergeAssets } from "lib/temple/assets";
+import {
+  MAX_LEDGER_DISCOVERY_COUNT,
+  discoverAccounts,
+  toDerivationPathTemplate,
+} from "lib/temple/back/account-discovery";
+import {
+  AccountSpendings,
+  AssetSpendings,
+  addSpendings,
+  assertAccountPolicy,
+  getSpendingsDay,
+  subtractSpendings,
+} from "lib/temple/back/account-policy";
+import * as Bip32 from "lib/temple/back/bip32";
 import { PublicError } from "lib/temple/back/defaults";
 import { TempleLedgerSigner } from "lib/temple/back/ledger-signer";
 import {
   isStored,
   fetchAndDecryptOne,
+  fetchAndDecryptMany,
   encryptAndSaveMany,
+  reencryptMany,
+  fetchStorageKeys,
   removeMany,
 } from "lib/temple/back/safe-storage";
 import {
@@ -32,12 +49,17 @@ import {
   formatOpParamsBeforeSend,
   michelEncoder,
   loadFastRpcClient,
+  isAddressValid,
+  isKTAddress,
 } from "lib/temple/helpers";
+import { isMultisigScript } from "lib/temple/multisig";
 import { NETWORKS } from "lib/temple/networks";
 import * as Passworder from "lib/temple/passworder";
 import {
   TempleAccount,
+  TempleAccountPolicy,
   TempleAccountType,
+  TempleLedgerDiscoveredAccount,
   TempleSettings,
   TempleToken,
 } from "lib/temple/types";
@@ -54,6 +76,7 @@ enum StorageEntity {
   AccPubKey = "accpubkey",
   Accounts = "accounts",
   Settings = "settings",
+  AccSpendings = "accspendings",
 }
 
 const checkStrgKey = createStorageKey(StorageEntity.Check);
@@ -63,6 +86,7 @@ const accPrivKeyStrgKey = createDynamicStorageKey(StorageEntity.AccPrivKey);
 const accPubKeyStrgKey = createDynamicStorageKey(StorageEntity.AccPubKey);
 const accountsStrgKey = createStorageKey(StorageEntity.Accounts);
 const settingsStrgKey = createStorageKey(StorageEntity.Settings);
+const accSpendingsStrgKey = createDynamicStorageKey(StorageEntity.AccSpendings);
 
 export class Vault {
   static isExist() {
@@ -85,7 +109,7 @@ export class Vault {
       const seed = Bip39.mnemonicToSeedSync(mnemonic);
 
       const hdAccIndex = 0;
-      const accPrivateKey = seedToHDPrivateKey(seed, hdAccIndex);
+      const accPrivateKey = await seedToHDPrivateKey(seed, hdAccIndex);
       const [accPublicKey, accPublicKeyHash] = await getPublicKeyAndHash(
         accPrivateKey
       );
@@ -95,6 +119,7 @@ export class Vault {
         name: "Account 1",
         publicKeyHash: accPublicKeyHash,
         hdIndex: hdAccIndex,
+        derivationType: DerivationType.ED25519,
       };
       const newAccounts = [initialAccount];
 
@@ -176,12 +201,141 @@ export class Vault {
       await removeMany([
         accPrivKeyStrgKey(accPublicKeyHash),
         accPubKeyStrgKey(accPublicKeyHash),
+        accSpendingsStrgKey(accPublicKeyHash),
       ]);
 
       return newAllAcounts;
     });
   }
 
+  static async changePassword(password: string, newPassword: string) {
+    const passKey = await Vault.toValidPassKey(password);
+    return withError("Failed to change password", async () => {
+      const newPassKey = await Passworder.generateKey(newPassword);
+      const vaultStrgKeys = await fetchStorageKeys(
+        combineStorageKey(STORAGE_KEY_PREFIX, "")
+      );
+      await reencryptMany(vaultStrgKeys, passKey, newPassKey);
+      return new Vault(newPassKey);
+    });
+  }
+
+  static async discoverMnemonicAccounts(
+    mnemonic: string,
+    password: string | undefined,
+    derivationPath: string,
+    isUsed: (publicKeyHash: string) => Promise<boolean>,
+    derivationType = DerivationType.ED25519,
+    gapLimit?: number
+  ) {
+    return withError("Failed to discover accounts", async () => {
+      let seed: Buffer;
+      try {
+        seed = Bip39.mnemonicToSeedSync(mnemonic, password);
+      } catch (_err) {
+        throw new PublicError("Invalid Mnemonic or Password");
+      }
+
+      return discoverAccounts(
+        toDerivationPathTemplate(derivationPath),
+        (path) => derivePublicKeyHash(seed, path, derivationType),
+        isUsed,
+        gapLimit
+      );
+    });
+  }
+
+  /**
+   * Reads accounts from connected Ledger device for a range of
+   * account indexes. Device is queried without confirmation prompts.
+   */
+  static async discoverLedgerAccounts(
+    derivationTypes: DerivationType[],
+    fromIndex: number,
+    count: number
+  ) {
+    return withError("Failed to discover Ledger accounts", async () => {
+      if (!Number.isInteger(fromIndex) || fromIndex < 0) {
+        throw new PublicError("Account index should be non-negative integer");
+      }
+      if (
+        !Number.isInteger(count) ||
+        count < 1 ||
+        count > MAX_LEDGER_DISCOVERY_COUNT
+      ) {
+        throw new PublicError(
+          `Accounts count should be an integer from 1 to ${MAX_LEDGER_DISCOVERY_COUNT}`
+        );
+      }
+      if (derivationTypes.length === 0) {
+        throw new PublicError("No derivation types selected");
+      }
+
+      const discovered: TempleLedgerDiscoveredAccount[] = [];
+      for (const derivationType of derivationTypes) {
+        for (let index = fromIndex; index < fromIndex + count; index++) {
+          const derivationPath = getMainDerivationPath(index);
+          const { signer, cleanup } = await createLedgerSigner(
+            derivationPath,
+            derivationType,
+            undefined,
+            undefined,
+            false
+          );
+
+          try {
+            discovered.push({
+              index,
+              derivationPath,
+              derivationType,
+              publicKeyHash: await signer.publicKeyHash(),
+            });
+          } finally {
+            cleanup();
+          }
+        }
+      }
+
+      return discovered;
+    });
+  }
+
+  static async exportData(password: string) {
+    const passKey = await Vault.toValidPassKey(password);
+    return withError("Failed to export wallet data", async () => {
+      const vaultStrgKeys = await fetchStorageKeys(
+        combineStorageKey(STORAGE_KEY_PREFIX, "")
+      );
+      return fetchAndDecryptMany(vaultStrgKeys, passKey);
+    });
+  }
+
+  static async spawnFromData(password: string, items: [string, any][]) {
+    return withError("Failed to restore wallet", async (doThrow) => {
+      const vaultStrgKeys = items.map(([storageKey]) => storageKey);
+      const vaultPrefix = combineStorageKey(STORAGE_KEY_PREFIX, "");
+      if (
+        vaultStrgKeys.some(
+          (storageKey) => !storageKey.startsWith(vaultPrefix)
+        ) ||
+        // Without migration level all migrations would be applied again
+        [
+          checkStrgKey,
+          migrationLevelStrgKey,
+          mnemonicStrgKey,
+          accountsStrgKey,
+        ].some((storageKey) => !vaultStrgKeys.includes(storageKey))
+      ) {
+        doThrow();
+      }
+
+      const passKey = await Passworder.generateKey(password);
+
+      await browser.storage.local.clear();
+      await encryptAndSaveMany(items, passKey);
+    });
+  }
+
   private static toValidPassKey(password: string) {
     return withError("Invalid password", async (doThrow) => {
       const passKey = await Passworder.generateKey(password);
@@ -221,7 +375,8 @@ export class Vault {
 
   async createHDAccount(
     name?: string,
-    hdAccIndex?: number
+    hdAccIndex?: number,
+    derivationType = DerivationType.ED25519
   ): Promise<TempleAccount[]> {
     return withError("Failed to create account", async () => {
       const [mnemonic, allAccounts] = await Promise.all([
@@ -231,21 +386,27 @@ export class Vault {
 
       const seed = Bip39.mnemonicToSeedSync(mnemonic);
 
-      if (!hdAccIndex) {
+      if (hdAccIndex === undefined) {
         const allHDAccounts = allAccounts.filter(
-          (a) => a.type === TempleAccountType.HD
+          (a) =>
+            a.type === TempleAccountType.HD &&
+            getHDDerivationType(a) === derivationType
         );
         hdAccIndex = allHDAccounts.length;
       }
 
-      const accPrivateKey = seedToHDPrivateKey(seed, hdAccIndex);
+      const accPrivateKey = await seedToHDPrivateKey(
+        seed,
+        hdAccIndex,
+        derivationType
+      );
       const [accPublicKey, accPublicKeyHash] = await getPublicKeyAndHash(
         accPrivateKey
       );
       const accName = name || getNewAccountName(allAccounts);
 
       if (allAccounts.some((a) => a.publicKeyHash === accPublicKeyHash)) {
-        return this.createHDAccount(accName, hdAccIndex + 1);
+        return this.createHDAccount(accName, hdAccIndex + 1, derivationType);
       }
 
       const newAccount: TempleAccount = {
@@ -253,6 +414,7 @@ export class Vault {
         name: accName,
         publicKeyHash: accPublicKeyHash,
         hdIndex: hdAccIndex,
+        derivationType,
       };
       const newAllAcounts = concatAccount(allAccounts, newAccount);
 
@@ -304,10 +466,32 @@ export class Vault {
     });
   }
 
+  async discoverHDAccounts(
+    isUsed: (publicKeyHash: string) => Promise<boolean>,
+    derivationType = DerivationType.ED25519,
+    gapLimit?: number
+  ) {
+    return withError("Failed to discover accounts", async () => {
+      const mnemonic = await fetchAndDecryptOne<string>(
+        mnemonicStrgKey,
+        this.passKey
+      );
+      const seed = Bip39.mnemonicToSeedSync(mnemonic);
+
+      return discoverAccounts(
+        getMainDerivationPath,
+        (path) => derivePublicKeyHash(seed, path, derivationType),
+        isUsed,
+        gapLimit
+      );
+    });
+  }
+
   async importMnemonicAccount(
     mnemonic: string,
     password?: string,
-    derivationPath?: string
+    derivationPath?: string,
+    derivationType = DerivationType.ED25519
   ) {
     return withError("Failed to import account", async () => {
       let seed;
@@ -317,11 +501,14 @@ export class Vault {
         throw new PublicError("Invalid Mnemonic or Password");
       }
 
-      if (derivationPath) {
-        seed = deriveSeed(seed, derivationPath);
-      }
-
-      const privateKey = seedToPrivateKey(seed);
+      const privateKey =
+        derivationPath || derivationType !== DerivationType.ED25519
+          ? await derivePrivateKey(
+              seed,
+              derivationPath || getMainDerivationPath(0),
+              derivationType
+            )
+          : seedToPrivateKey(seed);
       return this.importAccount(privateKey);
     });
   }
@@ -368,6 +555,41 @@ export class Vault {
     });
   }
 
+  async importMultisigAccount(accPublicKeyHash: string, rpc: string) {
+    return withError("Failed to import Multisig account", async () => {
+      if (!isAddressValid(accPublicKeyHash) || !isKTAddress(accPublicKeyHash)) {
+        throw new PublicError("Invalid contract address");
+      }
+
+      const [{ code }, chainId] = await Promise.all([
+        loadFastRpcClient(rpc).getScript(accPublicKeyHash),
+        loadChainId(rpc),
+      ]);
+      if (!isMultisigScript(code)) {
+        throw new PublicError("Contract is not a multisig");
+      }
+
+      const allAccounts = await this.fetchAccounts();
+      const newAccount: TempleAccount = {
+        type: TempleAccountType.Multisig,
+        name: getNewAccountName(
+          allAccounts.filter(({ type }) => type === TempleAccountType.Multisig),
+          "defaultMultisigAccountName"
+        ),
+        publicKeyHash: accPublicKeyHash,
+        chainId,
+      };
+      const newAllAcounts = concatAccount(allAccounts, newAccount);
+
+      await encryptAndSaveMany(
+        [[accountsStrgKey, newAllAcounts]],
+        this.passKey
+      );
+
+      return newAllAcounts;
+    });
+  }
+
   async importWatchOnlyAccount(accPublicKeyHash: string, chainId?: string) {
     return withError("Failed to import Watch Only account", async () => {
       const allAccounts = await this.fetchAccounts();
@@ -435,6 +657,60 @@ export class Vault {
     });
   }
 
+  /**
+   * Imports several Ledger accounts at once.
+   * Already added ones are skipped.
+   */
+  async createLedgerAccounts(accounts: TempleLedgerDiscoveredAccount[]) {
+    return withError("Failed to connect Ledger accounts", async () => {
+      let allAccounts = await this.fetchAccounts();
+      const publicKeys: [string, string][] = [];
+
+      for (const { derivationPath, derivationType } of accounts) {
+        const { signer, cleanup } = await createLedgerSigner(
+          derivationPath,
+          derivationType,
+          undefined,
+          undefined,
+          false
+        );
+
+        try {
+          const accPublicKey = await signer.publicKey();
+          const accPublicKeyHash = await signer.publicKeyHash();
+          const ledgersCount = allAccounts.filter(
+            (acc) => acc.type === TempleAccountType.Ledger
+          ).length;
+
+          const newAccount: TempleAccount = {
+            type: TempleAccountType.Ledger,
+            name: getMessage("defaultLedgerName", String(ledgersCount + 1)),
+            publicKeyHash: accPublicKeyHash,
+            derivationPath,
+            derivationType,
+          };
+
+          try {
+            allAccounts = concatAccount(allAccounts, newAccount);
+          } catch {
+            // Already added
+            continue;
+          }
+          publicKeys.push([accPubKeyStrgKey(accPublicKeyHash), accPublicKey]);
+        } finally {
+          cleanup();
+        }
+      }
+
+      await encryptAndSaveMany(
+        [...publicKeys, [accountsStrgKey, allAccounts]],
+        this.passKey
+      );
+
+      return allAccounts;
+    });
+  }
+
   async editAccountName(accPublicKeyHash: string, name: string) {
     return withError("Failed to edit account name", async () => {
       const allAccounts = await this.fetchAccounts();
@@ -462,6 +738,128 @@ export class Vault {
     });
   }
 
+  async reorderAccounts(accPublicKeyHashes: string[]) {
+    return withError("Failed to reorder accounts", async () => {
+      const allAccounts = await this.fetchAccounts();
+      const newAllAcounts = accPublicKeyHashes.map((pkh) =>
+        allAccounts.find((acc) => acc.publicKeyHash === pkh)
+      );
+      if (
+        newAllAcounts.length !== allAccounts.length ||
+        new Set(newAllAcounts).size !== newAllAcounts.length ||
+        newAllAcounts.some((acc) => !acc)
+      ) {
+        throw new PublicError("Invalid accounts order");
+      }
+
+      await encryptAndSaveMany(
+        [[accountsStrgKey, newAllAcounts]],
+        this.passKey
+      );
+
+      return newAllAcounts as TempleAccount[];
+    });
+  }
+
+  async setAccountGroup(accPublicKeyHash: string, groupName?: string) {
+    return withError("Failed to set account group", () =>
+      this.updateAccount(accPublicKeyHash, (acc) => ({ ...acc, groupName }))
+    );
+  }
+
+  async setAccountHidden(accPublicKeyHash: string, hidden: boolean) {
+    return withError("Failed to change account visibility", async () => {
+      const allAccounts = await this.fetchAccounts();
+      if (
+        hidden &&
+        allAccounts.every(
+          (acc) =>
+            acc.hidden ||
+            acc.publicKeyHash === accPublicKeyHash ||
+            !isAlwaysRelevantAccount(acc)
+        )
+      ) {
+        throw new PublicError("Cannot hide all accounts");
+      }
+
+      return this.updateAccount(accPublicKeyHash, (acc) => ({
+        ...acc,
+        hidden,
+      }));
+    });
+  }
+
+  async setAccountPolicy(
+    accPublicKeyHash: string,
+    policy?: TempleAccountPolicy
+  ) {
+    return withError("Failed to update account policy", () =>
+      this.updateAccount(accPublicKeyHash, (acc) => ({ ...acc, policy }))
+    );
+  }
+
+  async fetchAccountSpendings(accPublicKeyHash: string) {
+    let saved;
+    try {
+      saved = await fetchAndDecryptOne<AccountSpendings>(
+        accSpendingsStrgKey(accPublicKeyHash),
+        this.passKey
+      );
+    } catch {}
+    return saved?.day === getSpendingsDay() ? saved.spendings : {};
+  }
+
+  /**
+   * Throws `PolicyViolationError` if operations break account policy,
+   * otherwise returns amounts of assets to be spent by them
+   */
+  async checkAccountPolicy(
+    accPublicKeyHash: string,
+    opParams: any[],
+    replacedOpParams?: any[]
+  ) {
+    return withError("Failed to check account policy", async () => {
+      const allAccounts = await this.fetchAccounts();
+      const acc = allAccounts.find((a) => a.publicKeyHash === accPublicKeyHash);
+      if (!acc?.policy) {
+        return {};
+      }
+
+      let spentToday = await this.fetchAccountSpendings(accPublicKeyHash);
+      if (replacedOpParams) {
+        spentToday = subtractSpendings(
+          spentToday,
+          assertAccountPolicy(undefined, replacedOpParams, accPublicKeyHash)
+        );
+      }
+      return assertAccountPolicy(
+        acc.policy,
+        opParams,
+        accPublicKeyHash,
+        spentToday
+      );
+    });
+  }
+
+  async addAccountSpendings(
+    accPublicKeyHash: string,
+    spendings: AssetSpendings
+  ) {
+    if (Object.keys(spendings).length === 0) return;
+
+    return withError("Failed to save account spendings", async () => {
+      const spentToday = await this.fetchAccountSpendings(accPublicKeyHash);
+      const newSpendings: AccountSpendings = {
+        day: getSpendingsDay(),
+        spendings: addSpendings(spentToday, spendings),
+      };
+      await encryptAndSaveMany(
+        [[accSpendingsStrgKey(accPublicKeyHash), newSpendings]],
+        this.passKey
+      );
+    });
+  }
+
   async updateSettings(settings: Partial<TempleSettings>) {
     return withError("Failed to update settings", async () => {
       const current = await this.fetchSettings();
@@ -516,6 +914,23 @@ export class Vault {
     });
   }
 
+  private async updateAccount(
+    accPublicKeyHash: string,
+    update: (acc: TempleAccount) => TempleAccount
+  ) {
+    const allAccounts = await this.fetchAccounts();
+    if (!allAccounts.some((acc) => acc.publicKeyHash === accPublicKeyHash)) {
+      throw new PublicError("Account not found");
+    }
+
+    const newAllAcounts = allAccounts.map((acc) =>
+      acc.publicKeyHash === accPublicKeyHash ? update(acc) : acc
+    );
+    await encryptAndSaveMany([[accountsStrgKey, newAllAcounts]], this.passKey);
+
+    return newAllAcounts;
+  }
+
   private async withSigner<T>(
     accPublicKeyHash: string,
     factory: (signer: Signer) => Promise<T>
@@ -548,6 +963,9 @@ export class Vault {
       case TempleAccountType.WatchOnly:
         throw new PublicError("Cannot sign Watch-only account");
 
+      case TempleAccountType.Multisig:
+        throw new PublicError("Cannot sign Multisig account");
+
       default:
         const privateKey = await fetchAndDecryptOne<string>(
           accPrivKeyStrgKey(accPublicKeyHash),
@@ -585,7 +1003,7 @@ const MIGRATIONS = [
 
     const seed = Bip39.mnemonicToSeedSync(mnemonic);
     const hdAccIndex = 0;
-    const accPrivateKey = seedToHDPrivateKey(seed, hdAccIndex);
+    const accPrivateKey = await seedToHDPrivateKey(seed, hdAccIndex);
     const [accPublicKey, accPublicKeyHash] = await getPublicKeyAndHash(
       accPrivateKey
     );
@@ -674,6 +1092,21 @@ const MIGRATIONS = [
       });
     }
   },
+
+  // [3] Add visibility prop to accounts
+  async (passKey: CryptoKey) => {
+    const accounts = await fetchAndDecryptOne<TempleAccount[]>(
+      accountsStrgKey,
+      passKey
+    );
+
+    const newAccounts = accounts.map((acc) => ({
+      ...acc,
+      hidden: acc.hidden ?? false,
+    }));
+
+    await encryptAndSaveMany([[accountsStrgKey, newAccounts]], passKey);
+  },
 ];
 
 /**
@@ -692,6 +1125,17 @@ function concatAccount(current: TempleAccount[], newOne: TempleAccount) {
   throw new PublicError("Account already exists");
 }
 
+/**
+ * HD, imported and Ledger accounts are available on every network
+ */
+function isAlwaysRelevantAccount(acc: TempleAccount) {
+  return (
+    acc.type !== TempleAccountType.ManagedKT &&
+    acc.type !== TempleAccountType.WatchOnly &&
+    acc.type !== TempleAccountType.Multisig
+  );
+}
+
 function getNewAccountName(
   allAccounts: TempleAccount[],
   templateI18nKey = "defaultAccountName"
@@ -714,7 +1158,8 @@ async function createLedgerSigner(
   derivationPath: string,
   derivationType?: DerivationType,
   publicKey?: string,
-  publicKeyHash?: string
+  publicKeyHash?: string,
+  prompt = true
 ) {
   if (!transport) {
     const bridgeUrl = process.env.TEMPLE_WALLET_LEDGER_BRIDGE_URL;
@@ -739,7 +1184,7 @@ async function createLedgerSigner(
   const signer = new TempleLedgerSigner(
     transport,
     removeMFromDerivationPath(derivationPath),
-    true,
+    prompt,
     derivationType,
     publicKey,
     publicKeyHash
@@ -748,8 +1193,62 @@ async function createLedgerSigner(
   return { signer, cleanup };
 }
 
-function seedToHDPrivateKey(seed: Buffer, hdAccIndex: number) {
-  return seedToPrivateKey(deriveSeed(seed, getMainDerivationPath(hdAccIndex)));
+function seedToHDPrivateKey(
+  seed: Buffer,
+  hdAccIndex: number,
+  derivationType = DerivationType.ED25519
+) {
+  return derivePrivateKey(
+    seed,
+    getMainDerivationPath(hdAccIndex),
+    derivationType
+  );
+}
+
+async function derivePublicKeyHash(
+  seed: Buffer,
+  derivationPath: string,
+  derivationType: DerivationType
+) {
+  const privateKey = await derivePrivateKey(
+    seed,
+    derivationPath,
+    derivationType
+  );
+  const [, publicKeyHash] = await getPublicKeyAndHash(privateKey);
+  return publicKeyHash;
+}
+
+function getHDDerivationType(account: TempleAccount) {
+  return account.derivationType ?? DerivationType.ED25519;
+}
+
+async function derivePrivateKey(
+  seed: Buffer,
+  derivationPath: string,
+  derivationType: DerivationType
+) {
+  if (derivationType === DerivationType.ED25519) {
+    return seedToPrivateKey(deriveSeed(seed, derivationPath));
+  }
+
+  let privateKey: Buffer;
+  try {
+    privateKey = await Bip32.derivePrivateKey(
+      seed,
+      derivationPath,
+      derivationType
+    );
+  } catch (_err) {
+    throw new PublicError("Invalid derivation path");
+  }
+
+  return TaquitoUtils.b58cencode(
+    privateKey,
+    derivationType === DerivationType.SECP256K1
+      ? TaquitoUtils.prefix.spsk
+      : TaquitoUtils.prefix.p2sk
+  );
 }
 
 function getMainDerivationPath(accIndex: number) {
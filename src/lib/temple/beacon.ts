@@ -62,6 +62,8 @@ export enum MessageType {
   // Handshake
   HandshakeRequest = "postmessage-pairing-request",
   HandshakeResponse = "postmessage-pairing-response",
+  P2PPairingRequest = "p2p-pairing-request",
+  P2PPairingResponse = "p2p-pairing-response",
 }
 
 export interface BaseMessage {
@@ -170,6 +172,24 @@ export interface PostMessagePairingResponse extends BaseMessage {
   publicKey: string;
 }
 
+export interface P2PPairingRequest extends BaseMessage {
+  type: MessageType.P2PPairingRequest;
+  name: string;
+  icon?: string;
+  appUrl?: string;
+  publicKey: string;
+  relayServer: string;
+}
+
+export interface P2PPairingResponse extends BaseMessage {
+  type: MessageType.P2PPairingResponse;
+  name: string;
+  icon?: string;
+  appUrl?: string;
+  publicKey: string;
+  relayServer: string;
+}
+
 export function encodeMessage<T = unknown>(msg: T): string {
   return bs58check.encode(Buffer.from(JSON.stringify(msg)));
 }
@@ -178,6 +198,35 @@ export function decodeMessage<T = unknown>(encoded: string): T {
   return JSON.parse(bs58check.decode(encoded).toString());
 }
 
+/**
+ * Accepts pairing code from QR, as a plain encoded message
+ * or as a deep link (e.g. "tezos://?type=tzip10&data=...")
+ */
+export function parsePairingCode(code: string) {
+  code = code.trim();
+  const dataMatch = code.match(/[?&]data=([^&#]+)/);
+  const encoded = dataMatch ? decodeURIComponent(dataMatch[1]) : code;
+
+  let req: P2PPairingRequest;
+  try {
+    req = decodeMessage<P2PPairingRequest>(encoded);
+  } catch {
+    throw new Error("Invalid pairing code");
+  }
+
+  if (
+    req?.type !== MessageType.P2PPairingRequest ||
+    typeof req.publicKey !== "string" ||
+    !/^[0-9a-f]{64}$/i.test(req.publicKey) ||
+    typeof req.relayServer !== "string" ||
+    !req.relayServer
+  ) {
+    throw new Error("Invalid pairing code");
+  }
+
+  return req;
+}
+
 export function formatOpParams(op: any) {
   const { fee, gas_limit, storage_limit, ...rest } = op;
   if (op.kind === "transaction") {
@@ -209,9 +258,13 @@ export const PAIRING_RESPONSE_BASE: Partial<PostMessagePairingResponse> = {
 export const KEYPAIR_SEED_STORAGE_KEY = "beacon_keypair_seed";
 
 export async function getSenderId(): Promise<string> {
-  await sodium.ready;
   const keyPair = await getOrCreateKeyPair();
-  const buffer = Buffer.from(sodium.crypto_generichash(5, keyPair.publicKey));
+  return toSenderId(keyPair.publicKey);
+}
+
+export async function toSenderId(publicKey: Uint8Array): Promise<string> {
+  await sodium.ready;
+  const buffer = Buffer.from(sodium.crypto_generichash(5, publicKey));
   return bs58check.encode(buffer);
 }
 
@@ -383,6 +436,19 @@ export async function removeDAppPublicKey(origin: string) {
   await browser.storage.local.remove([toPubKeyStorageKey(origin)]);
 }
 
+/**
+ * Public key hash, used as a Matrix user name for P2P communication
+ */
+export async function getP2PUserName(publicKey: string | Uint8Array) {
+  await sodium.ready;
+  return toHex(
+    sodium.crypto_generichash(
+      32,
+      typeof publicKey === "string" ? sodium.from_hex(publicKey) : publicKey
+    )
+  );
+}
+
 export function generateNewSeed() {
   const view = new Uint8Array(32);
   crypto.getRandomValues(view);
@@ -0,0 +1,205 @@
+import { formatImgUri } from "lib/image-uri";
+
+export type CollectibleMediaType = "image" | "video" | "model" | "unknown";
+
+export interface CollectibleFormat {
+  uri: string;
+  mimeType?: string;
+  fileName?: string;
+  fileSize?: number;
+}
+
+export interface CollectibleAttribute {
+  name: string;
+  value: string;
+  type?: string;
+}
+
+/**
+ * TZIP-21 rich token metadata
+ */
+export interface CollectibleMetadata {
+  name: string;
+  symbol?: string;
+  description?: string;
+  decimals: number;
+  isBooleanAmount: boolean;
+  artifactUri?: string;
+  displayUri?: string;
+  thumbnailUri?: string;
+  formats: CollectibleFormat[];
+  attributes: CollectibleAttribute[];
+  creators: string[];
+  tags: string[];
+}
+
+/**
+ * Passed to sandboxed viewer page in location hash
+ */
+export interface CollectibleViewerMedia {
+  type: Exclude<CollectibleMediaType, "unknown">;
+  uri: string; // HTTPS
+  poster?: string; // HTTPS
+}
+
+const MEDIA_TYPES_BY_EXTENSION: Record<string, CollectibleMediaType> = {
+  png: "image",
+  jpg: "image",
+  jpeg: "image",
+  gif: "image",
+  webp: "image",
+  svg: "image",
+  bmp: "image",
+  mp4: "video",
+  webm: "video",
+  ogv: "video",
+  mov: "video",
+  glb: "model",
+  gltf: "model",
+};
+
+export function parseTzip21Metadata(raw: any): CollectibleMetadata {
+  const formats = Array.isArray(raw?.formats)
+    ? raw.formats
+        .filter((f: any) => isNonEmptyString(f?.uri))
+        .map((f: any) => ({
+          uri: f.uri,
+          mimeType: isNonEmptyString(f.mimeType) ? f.mimeType : undefined,
+          fileName: isNonEmptyString(f.fileName) ? f.fileName : undefined,
+          fileSize: Number.isFinite(+f.fileSize) ? +f.fileSize : undefined,
+        }))
+    : [];
+
+  const attributes = Array.isArray(raw?.attributes)
+    ? raw.attributes
+        .filter((a: any) => isNonEmptyString(a?.name) && a.value != null)
+        .map((a: any) => ({
+          name: a.name,
+          value: String(a.value),
+          type: isNonEmptyString(a.type) ? a.type : undefined,
+        }))
+    : [];
+
+  const decimals = raw?.decimals ? +raw.decimals : 0;
+
+  return {
+    name: raw?.name || raw?.symbol || "Unknown Collectible",
+    symbol: optionalString(raw?.symbol),
+    description: optionalString(raw?.description),
+    decimals: Number.isFinite(decimals) ? decimals : 0,
+    isBooleanAmount: parseBoolean(raw?.isBooleanAmount),
+    artifactUri: optionalString(raw?.artifactUri),
+    displayUri: optionalString(raw?.displayUri),
+    thumbnailUri: optionalString(raw?.thumbnailUri),
+    formats,
+    attributes,
+    creators: toStringList(raw?.creators),
+    tags: toStringList(raw?.tags),
+  };
+}
+
+/**
+ * Tokens without divisible amount, that carry an artifact to display
+ */
+export function isCollectibleMetadata(raw: any) {
+  if (parseBoolean(raw?.isBooleanAmount)) return true;
+
+  const decimals = raw?.decimals ? +raw.decimals : 0;
+  return (
+    decimals === 0 &&
+    (isNonEmptyString(raw?.artifactUri) || isNonEmptyString(raw?.displayUri))
+  );
+}
+
+export function getCollectibleMediaType(
+  metadata: CollectibleMetadata,
+  uri = metadata.artifactUri
+): CollectibleMediaType {
+  if (!uri) return "unknown";
+
+  const format = metadata.formats.find((f) => f.uri === uri);
+  if (format?.mimeType) {
+    const [type, subtype] = format.mimeType.toLowerCase().split("/");
+    switch (true) {
+      case type === "image":
+        return "image";
+
+      case type === "video":
+        return "video";
+
+      case type === "model" && subtype?.startsWith("gltf"):
+        return "model";
+
+      default:
+        return "unknown";
+    }
+  }
+
+  const extension = (format?.fileName ?? uri)
+    .split(/[?#]/)[0]
+    .split(".")
+    .pop()!
+    .toLowerCase();
+  return MEDIA_TYPES_BY_EXTENSION[extension] ?? "unknown";
+}
+
+/**
+ * Image, that is light enough to be shown in lists
+ */
+export function getCollectiblePreviewUri(metadata: CollectibleMetadata) {
+  return (
+    metadata.thumbnailUri ??
+    metadata.displayUri ??
+    (getCollectibleMediaType(metadata) === "image"
+      ? metadata.artifactUri
+      : undefined)
+  );
+}
+
+/**
+ * Artifact, if it can be rendered, display image otherwise
+ */
+export function getCollectibleViewerMedia(
+  metadata: CollectibleMetadata
+): CollectibleViewerMedia | null {
+  const poster = toCollectibleHttpUri(
+    metadata.displayUri ?? metadata.thumbnailUri
+  );
+
+  const artifactType = getCollectibleMediaType(metadata);
+  const artifactUri = toCollectibleHttpUri(metadata.artifactUri);
+  if (artifactType !== "unknown" && artifactUri) {
+    return {
+      type: artifactType,
+      uri: artifactUri,
+      ...(poster ? { poster } : {}),
+    };
+  }
+
+  return poster ? { type: "image", uri: poster } : null;
+}
+
+/**
+ * Only IPFS and HTTPS sources are loaded, other schemes are ignored
+ */
+export function toCollectibleHttpUri(uri?: string) {
+  if (!uri) return null;
+  if (uri.startsWith("ipfs://")) return formatImgUri(uri);
+  return uri.startsWith("https://") ? uri : null;
+}
+
+function toStringList(value: any): string[] {
+  return Array.isArray(value) ? value.filter(isNonEmptyString) : [];
+}
+
+function optionalString(value: any) {
+  return isNonEmptyString(value) ? value : undefined;
+}
+
+function parseBoolean(value: any) {
+  return value === true || value === "true";
+}
+
+function isNonEmptyString(value: any): value is string {
+  return typeof value === "string" && value.length > 0;
+}
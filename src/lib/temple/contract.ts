@@ -3,6 +3,11 @@ import { tzip12 } from "@taquito/tzip12";
 import { tzip16 } from "@taquito/tzip16";
 import memoize from "micro-memoize";
 
+import {
+  CollectibleMetadata,
+  isCollectibleMetadata,
+  parseTzip21Metadata,
+} from "lib/temple/collectibles";
 import { michelEncoder } from "lib/temple/helpers";
 import { TempleChainId } from "lib/temple/types";
 
@@ -11,6 +16,7 @@ export type TokenMetadata = {
   symbol: string;
   name: string;
   iconUrl: string;
+  fungible: boolean;
 };
 
 const KNOWN_CHAIN_IDS = Object.values(TempleChainId) as string[];
@@ -25,6 +31,44 @@ export async function fetchTokenMetadata(
   contractAddress: string,
   tokenId?: number
 ): Promise<TokenMetadata> {
+  const tokenData = await fetchRawTokenMetadata(
+    tezos,
+    contractAddress,
+    tokenId
+  );
+
+  return {
+    decimals: tokenData.decimals ? +tokenData.decimals : 0,
+    symbol:
+      tokenData.symbol ||
+      (tokenData.name ? tokenData.name.substr(0, 8) : "???"),
+    name: tokenData.name || tokenData.symbol || "Unknown Token",
+    iconUrl:
+      tokenData.thumbnailUri ??
+      tokenData.logo ??
+      tokenData.icon ??
+      tokenData.iconUri ??
+      tokenData.iconUrl ??
+      "",
+    fungible: !isCollectibleMetadata(tokenData),
+  };
+}
+
+export async function fetchCollectibleMetadata(
+  tezos: TezosToolkit,
+  contractAddress: string,
+  tokenId: number
+): Promise<CollectibleMetadata> {
+  return parseTzip21Metadata(
+    await fetchRawTokenMetadata(tezos, contractAddress, tokenId)
+  );
+}
+
+async function fetchRawTokenMetadata(
+  tezos: TezosToolkit,
+  contractAddress: string,
+  tokenId?: number
+): Promise<any> {
   const contract = await tezos.wallet.at(
     contractAddress,
     compose(tzip12, tzip16)
@@ -59,20 +103,7 @@ export async function fetchTokenMetadata(
     throw new MetadataParseError(latestErrMessage ?? "Unknown error");
   }
 
-  return {
-    decimals: tokenData.decimals ? +tokenData.decimals : 0,
-    symbol:
-      tokenData.symbol ||
-      (tokenData.name ? tokenData.name.substr(0, 8) : "???"),
-    name: tokenData.name || tokenData.symbol || "Unknown Token",
-    iconUrl:
-      tokenData.thumbnailUri ??
-      tokenData.logo ??
-      tokenData.icon ??
-      tokenData.iconUri ??
-      tokenData.iconUrl ??
-      "",
-  };
+  return tokenData;
 }
 
 export class MetadataParseError extends Error {}
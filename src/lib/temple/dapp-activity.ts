@@ -0,0 +1,60 @@
+import { toCSV } from "lib/csv";
+import * as Repo from "lib/temple/repo";
+
+const CSV_COLUMNS: (keyof Repo.IDAppActivity)[] = [
+  "requestedAt",
+  "resolvedAt",
+  "origin",
+  "type",
+  "pkh",
+  "summary",
+  "decision",
+  "error",
+  "opHash",
+];
+
+export type FetchDAppActivityParams = {
+  origin: string;
+  offset?: number;
+  limit?: number;
+};
+
+export async function fetchDAppActivity({
+  origin,
+  offset,
+  limit,
+}: FetchDAppActivityParams) {
+  let query = Repo.dAppActivity
+    .where("[origin+requestedAt]")
+    .between([origin, 0], [origin, Infinity])
+    .reverse();
+
+  if (offset) {
+    query = query.offset(offset);
+  }
+  if (limit) {
+    query = query.limit(limit);
+  }
+
+  return query.toArray();
+}
+
+export function clearDAppActivity(origin: string) {
+  return Repo.dAppActivity
+    .where("[origin+requestedAt]")
+    .between([origin, 0], [origin, Infinity])
+    .delete();
+}
+
+export function dAppActivityToCSV(records: Repo.IDAppActivity[]) {
+  const rows = records.map((record) =>
+    CSV_COLUMNS.map((column) => {
+      const value = record[column];
+      return column === "requestedAt" || column === "resolvedAt"
+        ? new Date(value as number).toISOString()
+        : String(value ?? "");
+    })
+  );
+
+  return toCSV([CSV_COLUMNS, ...rows]);
+}
@@ -0,0 +1,49 @@
+import { TempleAccount, TempleAccountType } from "lib/temple/types";
+
+import { getAccountGroupNames, groupAccounts } from "../accounts";
+
+const createAccount = (name: string, groupName?: string): TempleAccount => ({
+  type: TempleAccountType.Imported,
+  name,
+  publicKeyHash: `tz1${name}`,
+  groupName,
+});
+
+describe("Accounts", () => {
+  it("groupAccounts", () => {
+    const accounts = [
+      createAccount("A"),
+      createAccount("B", "Work"),
+      createAccount("C"),
+      createAccount("D", "Savings"),
+      createAccount("E", "Work"),
+      createAccount("F"),
+    ];
+
+    expect(groupAccounts(accounts).map((acc) => acc.name)).toEqual([
+      "A",
+      "B",
+      "E",
+      "C",
+      "D",
+      "F",
+    ]);
+  });
+
+  it("groupAccounts without groups", () => {
+    const accounts = [createAccount("A"), createAccount("B")];
+
+    expect(groupAccounts(accounts)).toEqual(accounts);
+  });
+
+  it("getAccountGroupNames", () => {
+    const accounts = [
+      createAccount("A", "Work"),
+      createAccount("B"),
+      createAccount("C", "Savings"),
+      createAccount("D", "Work"),
+    ];
+
+    expect(getAccountGroupNames(accounts)).toEqual(["Work", "Savings"]);
+  });
+});
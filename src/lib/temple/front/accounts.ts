@@ -0,0 +1,42 @@
+import { TempleAccount } from "lib/temple/types";
+
+/**
+ * Keeps accounts of the same group together.
+ * Groups take the place of their first account,
+ * accounts without a group keep their position
+ */
+export function groupAccounts<T extends TempleAccount>(accounts: T[]) {
+  const groups = new Map<string, T[]>();
+  for (const acc of accounts) {
+    if (acc.groupName) {
+      const group = groups.get(acc.groupName);
+      if (group) {
+        group.push(acc);
+      } else {
+        groups.set(acc.groupName, [acc]);
+      }
+    }
+  }
+
+  const result: T[] = [];
+  for (const acc of accounts) {
+    if (!acc.groupName) {
+      result.push(acc);
+    } else if (groups.has(acc.groupName)) {
+      result.push(...groups.get(acc.groupName)!);
+      groups.delete(acc.groupName);
+    }
+  }
+
+  return result;
+}
+
+export function getAccountGroupNames(accounts: TempleAccount[]) {
+  return Array.from(
+    new Set(
+      accounts
+        .map((acc) => acc.groupName)
+        .filter((name): name is string => Boolean(name))
+    )
+  );
+}
@@ -17,13 +17,18 @@ import { IntercomClient } from "lib/intercom";
 import { useRetryableSWR } from "lib/swr";
 import { useStorage } from "lib/temple/front";
 import {
+  TempleAccountPolicy,
   TempleConfirmationPayload,
+  TempleDAppAutoApprovePolicy,
+  TempleDAppScope,
   TempleMessageType,
   TempleStatus,
   TempleRequest,
   TempleResponse,
   TempleNotification,
   TempleSettings,
+  TempleDiscoveredAccount,
+  TempleLedgerDiscoveredAccount,
   DerivationType,
 } from "lib/temple/types";
 import toBuffer from "typedarray-to-buffer";
@@ -35,6 +40,9 @@ type Confirmation = {
 
 const intercom = new IntercomClient();
 
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "wheel", "touchstart"];
+const ACTIVITY_REPORT_INTERVAL = 30_000;
+
 export const [TempleClientProvider, useTempleClient] = constate(() => {
   /**
    * State
@@ -61,6 +69,10 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     setConfirmation(null);
   }, [setConfirmation]);
 
+  // Time of the last change in background queue of pending confirmations
+  const [pendingConfirmationsUpdatedAt, setPendingConfirmationsUpdatedAt] =
+    useState(0);
+
   useEffect(() => {
     return intercom.subscribe((msg: TempleNotification) => {
       switch (msg?.type) {
@@ -79,6 +91,10 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
             resetConfirmation();
           }
           break;
+
+        case TempleMessageType.PendingConfirmationsUpdated:
+          setPendingConfirmationsUpdatedAt(Date.now());
+          break;
       }
     });
   }, [revalidate, setConfirmation, resetConfirmation]);
@@ -118,6 +134,30 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     [defaultNetworksWithLambdaContracts, customNetworks]
   );
 
+  /**
+   * Report user activity to prevent auto-lock
+   */
+  useEffect(() => {
+    if (!ready) return;
+
+    let lastReportedAt = 0;
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastReportedAt < ACTIVITY_REPORT_INTERVAL) return;
+      lastReportedAt = now;
+      request({ type: TempleMessageType.ActivityRequest }).catch(() => {});
+    };
+
+    for (const evtName of ACTIVITY_EVENTS) {
+      window.addEventListener(evtName, handleActivity, { passive: true });
+    }
+    return () => {
+      for (const evtName of ACTIVITY_EVENTS) {
+        window.removeEventListener(evtName, handleActivity);
+      }
+    };
+  }, [ready]);
+
   /**
    * Backup seed phrase flag
    */
@@ -135,8 +175,11 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
         mnemonic,
       });
       assertResponse(res.type === TempleMessageType.NewWalletResponse);
+      // Resolve only when the new wallet is ready on the front too,
+      // so callers can navigate to ready-only pages right away
+      await revalidate();
     },
-    []
+    [revalidate]
   );
 
   const unlock = useCallback(async (password: string) => {
@@ -154,13 +197,29 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     assertResponse(res.type === TempleMessageType.LockResponse);
   }, []);
 
-  const createAccount = useCallback(async (name?: string) => {
-    const res = await request({
-      type: TempleMessageType.CreateAccountRequest,
-      name,
-    });
-    assertResponse(res.type === TempleMessageType.CreateAccountResponse);
-  }, []);
+  const changePassword = useCallback(
+    async (password: string, newPassword: string) => {
+      const res = await request({
+        type: TempleMessageType.ChangePasswordRequest,
+        password,
+        newPassword,
+      });
+      assertResponse(res.type === TempleMessageType.ChangePasswordResponse);
+    },
+    []
+  );
+
+  const createAccount = useCallback(
+    async (name?: string, derivationType?: DerivationType) => {
+      const res = await request({
+        type: TempleMessageType.CreateAccountRequest,
+        name,
+        derivationType,
+      });
+      assertResponse(res.type === TempleMessageType.CreateAccountResponse);
+    },
+    []
+  );
 
   const revealPrivateKey = useCallback(
     async (accountPublicKeyHash: string, password: string) => {
@@ -184,6 +243,32 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     return res.mnemonic;
   }, []);
 
+  const createBackup = useCallback(
+    async (password: string, backupPassword: string) => {
+      const res = await request({
+        type: TempleMessageType.CreateBackupRequest,
+        password,
+        backupPassword,
+      });
+      assertResponse(res.type === TempleMessageType.CreateBackupResponse);
+      return res.backup;
+    },
+    []
+  );
+
+  const restoreBackup = useCallback(
+    async (password: string, backup: string, backupPassword: string) => {
+      const res = await request({
+        type: TempleMessageType.RestoreBackupRequest,
+        password,
+        backup,
+        backupPassword,
+      });
+      assertResponse(res.type === TempleMessageType.RestoreBackupResponse);
+    },
+    []
+  );
+
   const removeAccount = useCallback(
     async (accountPublicKeyHash: string, password: string) => {
       const res = await request({
@@ -208,6 +293,53 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     []
   );
 
+  const reorderAccounts = useCallback(
+    async (accountPublicKeyHashes: string[]) => {
+      const res = await request({
+        type: TempleMessageType.ReorderAccountsRequest,
+        accountPublicKeyHashes,
+      });
+      assertResponse(res.type === TempleMessageType.ReorderAccountsResponse);
+    },
+    []
+  );
+
+  const setAccountGroup = useCallback(
+    async (accountPublicKeyHash: string, groupName?: string) => {
+      const res = await request({
+        type: TempleMessageType.SetAccountGroupRequest,
+        accountPublicKeyHash,
+        groupName,
+      });
+      assertResponse(res.type === TempleMessageType.SetAccountGroupResponse);
+    },
+    []
+  );
+
+  const setAccountHidden = useCallback(
+    async (accountPublicKeyHash: string, hidden: boolean) => {
+      const res = await request({
+        type: TempleMessageType.SetAccountHiddenRequest,
+        accountPublicKeyHash,
+        hidden,
+      });
+      assertResponse(res.type === TempleMessageType.SetAccountHiddenResponse);
+    },
+    []
+  );
+
+  const setAccountPolicy = useCallback(
+    async (accountPublicKeyHash: string, policy?: TempleAccountPolicy) => {
+      const res = await request({
+        type: TempleMessageType.SetAccountPolicyRequest,
+        accountPublicKeyHash,
+        policy,
+      });
+      assertResponse(res.type === TempleMessageType.SetAccountPolicyResponse);
+    },
+    []
+  );
+
   const importAccount = useCallback(
     async (privateKey: string, encPassword?: string) => {
       const res = await request({
@@ -221,12 +353,18 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
   );
 
   const importMnemonicAccount = useCallback(
-    async (mnemonic: string, password?: string, derivationPath?: string) => {
+    async (
+      mnemonic: string,
+      password?: string,
+      derivationPath?: string,
+      derivationType?: DerivationType
+    ) => {
       const res = await request({
         type: TempleMessageType.ImportMnemonicAccountRequest,
         mnemonic,
         password,
         derivationPath,
+        derivationType,
       });
       assertResponse(
         res.type === TempleMessageType.ImportMnemonicAccountResponse
@@ -235,6 +373,51 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     []
   );
 
+  const discoverAccounts = useCallback(
+    async (
+      rpcUrl: string,
+      derivationType?: DerivationType,
+      gapLimit?: number,
+      mnemonic?: string,
+      password?: string,
+      derivationPath?: string
+    ) => {
+      const res = await request({
+        type: TempleMessageType.DiscoverAccountsRequest,
+        rpcUrl,
+        derivationType,
+        gapLimit,
+        mnemonic,
+        password,
+        derivationPath,
+      });
+      assertResponse(res.type === TempleMessageType.DiscoverAccountsResponse);
+      return res.accounts;
+    },
+    []
+  );
+
+  const importDiscoveredAccounts = useCallback(
+    async (
+      accounts: TempleDiscoveredAccount[],
+      derivationType?: DerivationType,
+      mnemonic?: string,
+      password?: string
+    ) => {
+      const res = await request({
+        type: TempleMessageType.ImportDiscoveredAccountsRequest,
+        accounts,
+        derivationType,
+        mnemonic,
+        password,
+      });
+      assertResponse(
+        res.type === TempleMessageType.ImportDiscoveredAccountsResponse
+      );
+    },
+    []
+  );
+
   const importFundraiserAccount = useCallback(
     async (email: string, password: string, mnemonic: string) => {
       const res = await request({
@@ -265,6 +448,20 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     []
   );
 
+  const importMultisigAccount = useCallback(
+    async (address: string, networkRpc: string) => {
+      const res = await request({
+        type: TempleMessageType.ImportMultisigAccountRequest,
+        address,
+        networkRpc,
+      });
+      assertResponse(
+        res.type === TempleMessageType.ImportMultisigAccountResponse
+      );
+    },
+    []
+  );
+
   const importWatchOnlyAccount = useCallback(
     async (address: string, chainId?: string) => {
       const res = await request({
@@ -298,6 +495,39 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     []
   );
 
+  const discoverLedgerAccounts = useCallback(
+    async (
+      derivationTypes: DerivationType[],
+      fromIndex: number,
+      count: number
+    ) => {
+      const res = await request({
+        type: TempleMessageType.DiscoverLedgerAccountsRequest,
+        derivationTypes,
+        fromIndex,
+        count,
+      });
+      assertResponse(
+        res.type === TempleMessageType.DiscoverLedgerAccountsResponse
+      );
+      return res.accounts;
+    },
+    []
+  );
+
+  const createLedgerAccounts = useCallback(
+    async (accounts: TempleLedgerDiscoveredAccount[]) => {
+      const res = await request({
+        type: TempleMessageType.CreateLedgerAccountsRequest,
+        accounts,
+      });
+      assertResponse(
+        res.type === TempleMessageType.CreateLedgerAccountsResponse
+      );
+    },
+    []
+  );
+
   const updateSettings = useCallback(
     async (settings: Partial<TempleSettings>) => {
       const res = await request({
@@ -328,6 +558,43 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     []
   );
 
+  const getPendingConfirmations = useCallback(async () => {
+    const res = await request({
+      type: TempleMessageType.GetPendingConfirmationsRequest,
+    });
+    assertResponse(
+      res.type === TempleMessageType.GetPendingConfirmationsResponse
+    );
+    return res.confirmations;
+  }, []);
+
+  const declineAllConfirmations = useCallback(async () => {
+    const res = await request({
+      type: TempleMessageType.DeclineAllConfirmationsRequest,
+    });
+    assertResponse(
+      res.type === TempleMessageType.DeclineAllConfirmationsResponse
+    );
+  }, []);
+
+  const replacePendingOperation = useCallback(
+    async (opHash: string, mode: "speed-up" | "cancel") => {
+      const id = nanoid();
+      confirmationIdRef.current = id;
+      const res = await request({
+        type: TempleMessageType.ReplacePendingOperationRequest,
+        id,
+        opHash,
+        mode,
+      });
+      assertResponse(
+        res.type === TempleMessageType.ReplacePendingOperationResponse
+      );
+      return res.opHash;
+    },
+    []
+  );
+
   const getDAppPayload = useCallback(async (id: string) => {
     const res = await request({
       type: TempleMessageType.DAppGetPayloadRequest,
@@ -338,13 +605,32 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
   }, []);
 
   const confirmDAppPermission = useCallback(
-    async (id: string, confirmed: boolean, pkh: string) => {
+    async (
+      id: string,
+      confirmed: boolean,
+      pkh: string,
+      scopes?: TempleDAppScope[],
+      additionalPkhs: string[] = [],
+      sessionTtl?: number,
+      networkRpc?: string
+    ) => {
       const res = await request({
         type: TempleMessageType.DAppPermConfirmationRequest,
         id,
         confirmed,
         accountPublicKeyHash: pkh,
         accountPublicKey: confirmed ? await getPublicKey(pkh) : "",
+        accounts: confirmed
+          ? await Promise.all(
+              additionalPkhs.map(async (additionalPkh) => ({
+                pkh: additionalPkh,
+                publicKey: await getPublicKey(additionalPkh),
+              }))
+            )
+          : undefined,
+        scopes,
+        sessionTtl,
+        networkRpc,
       });
       assertResponse(
         res.type === TempleMessageType.DAppPermConfirmationResponse
@@ -423,6 +709,92 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     return res.sessions;
   }, []);
 
+  const setDAppSessionScopes = useCallback(
+    async (origin: string, scopes: TempleDAppScope[]) => {
+      const res = await request({
+        type: TempleMessageType.DAppSetSessionScopesRequest,
+        origin,
+        scopes,
+      });
+      assertResponse(
+        res.type === TempleMessageType.DAppSetSessionScopesResponse
+      );
+      return res.sessions;
+    },
+    []
+  );
+
+  const setDAppSessionAutoApprovePolicy = useCallback(
+    async (origin: string, policy: TempleDAppAutoApprovePolicy | null) => {
+      const res = await request({
+        type: TempleMessageType.DAppSetAutoApprovePolicyRequest,
+        origin,
+        policy,
+      });
+      assertResponse(
+        res.type === TempleMessageType.DAppSetAutoApprovePolicyResponse
+      );
+      return res.sessions;
+    },
+    []
+  );
+
+  const getDAppAutoApprovedOperations = useCallback(async (origin: string) => {
+    const res = await request({
+      type: TempleMessageType.DAppGetAutoApprovedOperationsRequest,
+      origin,
+    });
+    assertResponse(
+      res.type === TempleMessageType.DAppGetAutoApprovedOperationsResponse
+    );
+    return res.operations;
+  }, []);
+
+  const getOriginExceptions = useCallback(async () => {
+    const res = await request({
+      type: TempleMessageType.GetOriginExceptionsRequest,
+    });
+    assertResponse(res.type === TempleMessageType.GetOriginExceptionsResponse);
+    return res.exceptions;
+  }, []);
+
+  const setOriginExceptions = useCallback(async (exceptions: string[]) => {
+    const res = await request({
+      type: TempleMessageType.SetOriginExceptionsRequest,
+      exceptions,
+    });
+    assertResponse(res.type === TempleMessageType.SetOriginExceptionsResponse);
+    return res.exceptions;
+  }, []);
+
+  const pairBeaconP2P = useCallback(async (pairingCode: string) => {
+    const res = await request({
+      type: TempleMessageType.BeaconP2PPairRequest,
+      pairingCode,
+    });
+    assertResponse(res.type === TempleMessageType.BeaconP2PPairResponse);
+    return res.pairing;
+  }, []);
+
+  const getBeaconP2PPairings = useCallback(async () => {
+    const res = await request({
+      type: TempleMessageType.BeaconP2PGetPairingsRequest,
+    });
+    assertResponse(res.type === TempleMessageType.BeaconP2PGetPairingsResponse);
+    return res.pairings;
+  }, []);
+
+  const removeBeaconP2PPairing = useCallback(async (id: string) => {
+    const res = await request({
+      type: TempleMessageType.BeaconP2PRemovePairingRequest,
+      id,
+    });
+    assertResponse(
+      res.type === TempleMessageType.BeaconP2PRemovePairingResponse
+    );
+    return res.pairings;
+  }, []);
+
   return {
     state,
 
@@ -440,6 +812,7 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     // Misc
     confirmation,
     resetConfirmation,
+    pendingConfirmationsUpdatedAt,
     seedRevealed,
     setSeedRevealed,
 
@@ -447,19 +820,34 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     registerWallet,
     unlock,
     lock,
+    changePassword,
     createAccount,
     revealPrivateKey,
     revealMnemonic,
+    createBackup,
+    restoreBackup,
     removeAccount,
     editAccountName,
+    reorderAccounts,
+    setAccountGroup,
+    setAccountHidden,
+    setAccountPolicy,
     importAccount,
     importMnemonicAccount,
+    discoverAccounts,
+    importDiscoveredAccounts,
     importFundraiserAccount,
     importKTManagedAccount,
     importWatchOnlyAccount,
+    importMultisigAccount,
     createLedgerAccount,
+    discoverLedgerAccounts,
+    createLedgerAccounts,
     updateSettings,
     confirmInternal,
+    getPendingConfirmations,
+    declineAllConfirmations,
+    replacePendingOperation,
     getDAppPayload,
     confirmDAppPermission,
     confirmDAppOperation,
@@ -468,6 +856,14 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     createTaquitoSigner,
     getAllDAppSessions,
     removeDAppSession,
+    setDAppSessionScopes,
+    setDAppSessionAutoApprovePolicy,
+    getDAppAutoApprovedOperations,
+    getOriginExceptions,
+    setOriginExceptions,
+    pairBeaconP2P,
+    getBeaconP2PPairings,
+    removeBeaconP2PPairing,
   };
 });
 
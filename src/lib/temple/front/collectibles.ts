@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { useRetryableSWR } from "lib/swr";
+import {
+  fetchCollectibleMetadata,
+  TempleAsset,
+  TempleAssetType,
+  TempleFA2Asset,
+  toCollectibleHttpUri,
+  useTezos,
+  useTokens,
+} from "lib/temple/front";
+import * as Repo from "lib/temple/repo";
+
+const MAX_THUMBNAIL_SIZE = 2 * 1024 * 1024;
+const MAX_CACHED_THUMBNAILS = 500;
+
+export function isCollectible(asset: TempleAsset): asset is TempleFA2Asset {
+  return asset.type === TempleAssetType.FA2 && !asset.fungible;
+}
+
+export function useCollectibles() {
+  const { displayedTokens } = useTokens();
+
+  return useMemo(
+    () => displayedTokens.filter(isCollectible),
+    [displayedTokens]
+  );
+}
+
+export function useCollectibleMetadata(asset: TempleFA2Asset, suspense = true) {
+  const tezos = useTezos();
+
+  const fetchMetadata = useCallback(
+    () => fetchCollectibleMetadata(tezos, asset.address, asset.id),
+    [tezos, asset.address, asset.id]
+  );
+
+  return useRetryableSWR(
+    ["collectible-metadata", tezos.checksum, asset.address, asset.id],
+    fetchMetadata,
+    {
+      suspense,
+      revalidateOnFocus: false,
+      dedupingInterval: 5 * 60_000,
+    }
+  );
+}
+
+/**
+ * Object URL of collectible preview image.
+ * Images are loaded once and kept in IndexedDB
+ */
+export function useCollectibleThumbnail(uri?: string) {
+  const { data: blob } = useRetryableSWR(
+    uri ? ["collectible-thumbnail", uri] : null,
+    () => loadCollectibleThumbnail(uri!),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      dedupingInterval: 60_000,
+      errorRetryCount: 2,
+    }
+  );
+
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setObjectUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  return objectUrl;
+}
+
+export async function loadCollectibleThumbnail(uri: string) {
+  const cached = await Repo.collectibleThumbnails.get(uri);
+  if (cached) {
+    return cached.blob;
+  }
+
+  const httpUri = toCollectibleHttpUri(uri);
+  if (!httpUri) {
+    return null;
+  }
+
+  const res = await fetch(httpUri);
+  if (!res.ok) {
+    throw new Error(`Failed to load thumbnail: ${res.status}`);
+  }
+
+  const blob = await res.blob();
+  if (!blob.type.startsWith("image/") || blob.size > MAX_THUMBNAIL_SIZE) {
+    return null;
+  }
+
+  await Repo.collectibleThumbnails.put({ uri, blob, cachedAt: Date.now() });
+  await pruneCollectibleThumbnails();
+
+  return blob;
+}
+
+async function pruneCollectibleThumbnails() {
+  const count = await Repo.collectibleThumbnails.count();
+  if (count <= MAX_CACHED_THUMBNAILS) return;
+
+  const oldest = await Repo.collectibleThumbnails
+    .orderBy("cachedAt")
+    .limit(count - MAX_CACHED_THUMBNAILS)
+    .primaryKeys();
+  await Repo.collectibleThumbnails.bulkDelete(oldest);
+}
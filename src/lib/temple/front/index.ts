@@ -2,6 +2,8 @@ export * from "lib/temple/types";
 export * from "lib/temple/helpers";
 export * from "lib/temple/assets";
 export * from "lib/temple/contract";
+export * from "lib/temple/collectibles";
+export * from "lib/temple/multisig";
 export * from "lib/temple/operation";
 export * from "lib/temple/activity";
 export * from "lib/temple/front/tzdns";
@@ -9,6 +11,7 @@ export * from "lib/temple/front/provider";
 export * from "lib/temple/front/storage";
 export * from "lib/temple/front/client";
 export * from "lib/temple/front/ready";
+export * from "lib/temple/front/accounts";
 export * from "lib/temple/front/usdprice";
 export * from "lib/temple/front/chain";
 export * from "lib/temple/front/balance";
@@ -19,3 +22,5 @@ export * from "lib/temple/front/expenses";
 export * from "lib/temple/front/swap";
 export * from "lib/temple/front/blockexplorer";
 export * from "lib/temple/front/address-book";
+export * from "lib/temple/front/pending-ops";
+export * from "lib/temple/front/collectibles";
@@ -0,0 +1,31 @@
+import { useRetryableSWR } from "lib/swr";
+import * as Repo from "lib/temple/repo";
+
+/**
+ * Tracked state of operation, that is monitored by background.
+ * Replacements are followed, so the latest operation is returned
+ */
+export function usePendingOperation(opHash: string) {
+  const { data } = useRetryableSWR(
+    ["pending-operation", opHash],
+    () => fetchLatestPendingOperation(opHash),
+    {
+      revalidateOnMount: true,
+      refreshInterval: 5_000,
+      dedupingInterval: 2_000,
+    }
+  );
+
+  return data ?? null;
+}
+
+export async function fetchLatestPendingOperation(opHash: string) {
+  let op = await Repo.pendingOperations.get(opHash);
+  while (op?.replacedBy) {
+    const replacement = await Repo.pendingOperations.get(op.replacedBy);
+    if (!replacement) break;
+    op = replacement;
+  }
+
+  return op ?? null;
+}
@@ -24,6 +24,7 @@ import {
   loadChainId,
   michelEncoder,
   loadFastRpcClient,
+  groupAccounts,
 } from "lib/temple/front";
 
 export enum ActivationStatus {
@@ -203,20 +204,27 @@ export function useRelevantAccounts(withExtraTypes = true) {
 
   const relevantAccounts = useMemo(
     () =>
-      allAccounts.filter((acc) => {
-        switch (acc.type) {
-          case TempleAccountType.ManagedKT:
-            return withExtraTypes && acc.chainId === lazyChainId;
-
-          case TempleAccountType.WatchOnly:
-            return (
-              withExtraTypes && (!acc.chainId || acc.chainId === lazyChainId)
-            );
-
-          default:
-            return true;
-        }
-      }),
+      groupAccounts(
+        allAccounts.filter((acc) => {
+          if (acc.hidden) {
+            return false;
+          }
+
+          switch (acc.type) {
+            case TempleAccountType.ManagedKT:
+            case TempleAccountType.Multisig:
+              return withExtraTypes && acc.chainId === lazyChainId;
+
+            case TempleAccountType.WatchOnly:
+              return (
+                withExtraTypes && (!acc.chainId || acc.chainId === lazyChainId)
+              );
+
+            default:
+              return true;
+          }
+        })
+      ),
     [allAccounts, lazyChainId, withExtraTypes]
   );
 
@@ -8,6 +8,11 @@ import memoize from "micro-memoize";
 import { getMessage } from "lib/i18n";
 import { IntercomError } from "lib/intercom/helpers";
 import { FastRpcClient } from "lib/taquito-fast-rpc";
+import {
+  TempleDAppScope,
+  TempleDAppSession,
+  TempleDAppSessionAccount,
+} from "lib/temple/types";
 
 export const loadFastRpcClient = memoize(
   (rpc: string) => new FastRpcClient(rpc)
@@ -164,3 +169,31 @@ const KNOWN_TEZ_ERRORS: Record<string, string> = {
   "implicit.empty_implicit_contract": getMessage("emptyImplicitContract"),
   "contract.balance_too_low": getMessage("balanceTooLow"),
 };
+
+/**
+ * Sessions created before scopes support are allowed both
+ * to request operations and to sign
+ */
+export const DEFAULT_DAPP_SCOPES = [
+  TempleDAppScope.Operation,
+  TempleDAppScope.Sign,
+];
+
+export function getDAppSessionScopes(session: TempleDAppSession) {
+  return session.scopes ?? DEFAULT_DAPP_SCOPES;
+}
+
+export function getDAppSessionAccounts(
+  session: TempleDAppSession
+): TempleDAppSessionAccount[] {
+  return (
+    session.accounts ?? [{ pkh: session.pkh, publicKey: session.publicKey }]
+  );
+}
+
+export function isDAppSessionExpired(
+  session: TempleDAppSession,
+  now = Date.now()
+) {
+  return session.expiresAt !== undefined && session.expiresAt <= now;
+}
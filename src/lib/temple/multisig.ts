@@ -0,0 +1,340 @@
+import {
+  MichelsonData,
+  MichelsonType,
+  packDataBytes,
+} from "@taquito/michel-codec";
+import { MichelsonV1Expression } from "@taquito/rpc";
+import { TezosToolkit } from "@taquito/taquito";
+import {
+  b58cdecode,
+  buf2hex,
+  encodeKey,
+  hex2buf,
+  prefix,
+  Prefix,
+} from "@taquito/utils";
+import { ec as EC } from "elliptic";
+import * as sodium from "libsodium-wrappers";
+
+import { isSameType } from "lib/michelson";
+
+/**
+ * Generic multisig contract, as originated by `tezos-client deploy multisig`
+ * https://gitlab.com/tezos/tezos/-/blob/master/src/bin_client/test/contracts/mini_scenarios/generic_multisig.tz
+ */
+
+export type MultisigAction =
+  | { type: "operation"; lambda: MichelsonV1Expression[] }
+  | { type: "change_keys"; threshold: number; keys: string[] };
+
+export interface MultisigStorage {
+  counter: number;
+  threshold: number;
+  keys: string[];
+}
+
+export interface MultisigProposal {
+  contractAddress: string;
+  chainId: string;
+  counter: number;
+  action: MultisigAction;
+  // Signer public key -> signature
+  signatures: Record<string, string>;
+}
+
+const ACTION_TYPE = {
+  prim: "or",
+  args: [
+    {
+      prim: "lambda",
+      args: [{ prim: "unit" }, { prim: "list", args: [{ prim: "operation" }] }],
+    },
+    {
+      prim: "pair",
+      args: [{ prim: "nat" }, { prim: "list", args: [{ prim: "key" }] }],
+    },
+  ],
+};
+
+const PAYLOAD_TYPE = {
+  prim: "pair",
+  args: [
+    { prim: "pair", args: [{ prim: "chain_id" }, { prim: "address" }] },
+    { prim: "pair", args: [{ prim: "nat" }, ACTION_TYPE] },
+  ],
+};
+
+const PARAMETER_TYPE = {
+  prim: "or",
+  args: [
+    { prim: "unit" },
+    {
+      prim: "pair",
+      args: [
+        { prim: "pair", args: [{ prim: "nat" }, ACTION_TYPE] },
+        {
+          prim: "list",
+          args: [{ prim: "option", args: [{ prim: "signature" }] }],
+        },
+      ],
+    },
+  ],
+};
+
+const STORAGE_TYPE = {
+  prim: "pair",
+  args: [
+    { prim: "nat" },
+    {
+      prim: "pair",
+      args: [{ prim: "nat" }, { prim: "list", args: [{ prim: "key" }] }],
+    },
+  ],
+};
+
+export function isMultisigScript(code: MichelsonV1Expression[]) {
+  const findSection = (name: string) =>
+    code.find((expr: any) => expr.prim === name) as any;
+  const parameter = findSection("parameter")?.args?.[0];
+  const storage = findSection("storage")?.args?.[0];
+
+  return (
+    Boolean(parameter && storage) &&
+    isSameType(parameter, PARAMETER_TYPE) &&
+    isSameType(storage, STORAGE_TYPE)
+  );
+}
+
+export async function loadMultisigStorage(
+  tezos: TezosToolkit,
+  contractAddress: string
+) {
+  const storage = await tezos.rpc.getStorage(contractAddress);
+  return parseMultisigStorage(storage);
+}
+
+export function parseMultisigStorage(
+  storage: MichelsonV1Expression
+): MultisigStorage {
+  const [counter, threshold, keys] = flattenPair(storage);
+  if (!counter?.int || !threshold?.int || !Array.isArray(keys)) {
+    throw new Error("Invalid multisig storage");
+  }
+
+  return {
+    counter: +counter.int,
+    threshold: +threshold.int,
+    keys: keys.map(toMultisigKey),
+  };
+}
+
+// Ed25519, secp256k1 and P-256 key lengths by their tag
+const KEY_BYTES_LENGTHS: Record<string, number> = {
+  "00": 32,
+  "01": 33,
+  "02": 33,
+};
+
+/**
+ * Keys are strings in readable storage and bytes in optimized one
+ */
+function toMultisigKey(key: any): string {
+  if (typeof key?.string === "string") {
+    return key.string;
+  }
+
+  if (typeof key?.bytes === "string") {
+    const tag = key.bytes.slice(0, 2);
+    if (KEY_BYTES_LENGTHS[tag] * 2 === key.bytes.length - 2) {
+      return encodeKey(key.bytes);
+    }
+  }
+
+  throw new Error("Invalid multisig storage");
+}
+
+export function createMultisigProposal(
+  contractAddress: string,
+  chainId: string,
+  counter: number,
+  action: MultisigAction
+): MultisigProposal {
+  return { contractAddress, chainId, counter, action, signatures: {} };
+}
+
+/**
+ * Bytes to be signed by each of signers (already prefixed with 0x05)
+ */
+export function getMultisigPayloadBytes(proposal: MultisigProposal) {
+  const data = {
+    prim: "Pair",
+    args: [
+      {
+        prim: "Pair",
+        args: [
+          { string: proposal.chainId },
+          { string: proposal.contractAddress },
+        ],
+      },
+      {
+        prim: "Pair",
+        args: [
+          { int: String(proposal.counter) },
+          toActionData(proposal.action),
+        ],
+      },
+    ],
+  };
+
+  return packDataBytes(data as MichelsonData, PAYLOAD_TYPE as MichelsonType)
+    .bytes;
+}
+
+/**
+ * Merges signatures collected by different signers of the same proposal.
+ * Signatures of keys, that aren't in the contract key list,
+ * and signatures, that don't match the proposal, are dropped
+ */
+export async function mergeMultisigProposals(
+  current: MultisigProposal,
+  other: MultisigProposal,
+  keys: string[]
+): Promise<MultisigProposal> {
+  if (getMultisigPayloadBytes(current) !== getMultisigPayloadBytes(other)) {
+    throw new Error("Proposals don't match");
+  }
+
+  const signatures: Record<string, string> = {};
+  for (const key of keys) {
+    for (const signature of [current.signatures[key], other.signatures[key]]) {
+      if (
+        signature &&
+        (await isValidMultisigSignature(current, key, signature))
+      ) {
+        signatures[key] = signature;
+        break;
+      }
+    }
+  }
+
+  return { ...current, signatures };
+}
+
+const SIGNATURE_PREFIXES = [
+  Prefix.EDSIG,
+  Prefix.SPSIG,
+  Prefix.P2SIG,
+  Prefix.SIG,
+];
+
+/**
+ * Checks that signature of the proposal payload is made with the key
+ */
+export async function isValidMultisigSignature(
+  proposal: MultisigProposal,
+  key: string,
+  signature: string
+) {
+  try {
+    await sodium.ready;
+    const digest = sodium.crypto_generichash(
+      32,
+      hex2buf(getMultisigPayloadBytes(proposal))
+    );
+
+    const sigPrefix = SIGNATURE_PREFIXES.find((p) => signature.startsWith(p));
+    if (!sigPrefix) return false;
+    const sig = b58cdecode(signature, prefix[sigPrefix]);
+
+    const keyPrefix = key.slice(0, 4);
+    switch (keyPrefix) {
+      case Prefix.EDPK:
+        return sodium.crypto_sign_verify_detached(
+          new Uint8Array(sig),
+          digest,
+          new Uint8Array(b58cdecode(key, prefix[keyPrefix]))
+        );
+
+      case Prefix.SPPK:
+      case Prefix.P2PK:
+        const ec = new EC(keyPrefix === Prefix.SPPK ? "secp256k1" : "p256");
+        return ec
+          .keyFromPublic(
+            buf2hex(b58cdecode(key, prefix[keyPrefix]) as Buffer),
+            "hex"
+          )
+          .verify(digest, {
+            r: buf2hex(sig.slice(0, 32) as Buffer),
+            s: buf2hex(sig.slice(32) as Buffer),
+          });
+
+      default:
+        return false;
+    }
+  } catch {
+    return false;
+  }
+}
+
+export function countMultisigSignatures(
+  proposal: MultisigProposal,
+  keys: string[]
+) {
+  return keys.filter((key) => proposal.signatures[key]).length;
+}
+
+export function toMultisigMainParams(
+  proposal: MultisigProposal,
+  keys: string[]
+) {
+  return {
+    entrypoint: "main",
+    value: {
+      prim: "Pair",
+      args: [
+        {
+          prim: "Pair",
+          args: [
+            { int: String(proposal.counter) },
+            toActionData(proposal.action),
+          ],
+        },
+        keys.map((key) =>
+          proposal.signatures[key]
+            ? { prim: "Some", args: [{ string: proposal.signatures[key] }] }
+            : { prim: "None" }
+        ),
+      ],
+    },
+  };
+}
+
+function toActionData(action: MultisigAction) {
+  switch (action.type) {
+    case "operation":
+      return { prim: "Left", args: [action.lambda] };
+
+    case "change_keys":
+      return {
+        prim: "Right",
+        args: [
+          {
+            prim: "Pair",
+            args: [
+              { int: String(action.threshold) },
+              action.keys.map((key) => ({ string: key })),
+            ],
+          },
+        ],
+      };
+  }
+}
+
+function flattenPair(expr: any): any[] {
+  if (expr?.prim !== "Pair") {
+    return [expr];
+  }
+
+  const args = expr.args as any[];
+  return [...args.slice(0, -1), ...flattenPair(args[args.length - 1])];
+}
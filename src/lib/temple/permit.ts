@@ -0,0 +1,201 @@
+import {
+  MichelsonData,
+  MichelsonType,
+  packDataBytes,
+} from "@taquito/michel-codec";
+import { MichelsonV1Expression, RpcClient } from "@taquito/rpc";
+import { b58cdecode, buf2hex, encodeExpr, prefix } from "@taquito/utils";
+
+import { isSameType, unfoldComb } from "lib/michelson";
+
+/**
+ * TZIP-17 permits
+ * https://gitlab.com/tzip/tzip/-/blob/master/proposals/tzip-17/tzip-17.md
+ */
+
+export type PermitEntrypointKind = "single" | "list";
+
+export interface PermitData {
+  chainId: string;
+  contractAddress: string;
+  entrypoint: string;
+  counter: string;
+  paramsHash: string;
+  // Bytes to be signed (already prefixed with 0x05)
+  bytes: string;
+  kind: PermitEntrypointKind;
+}
+
+const PERMIT_ENTRYPOINT = "permit";
+const COUNTER_ANNOTS = ["%counter", "%permit_counter"];
+
+const PERMIT_PARAM_TYPE = {
+  prim: "pair",
+  args: [
+    { prim: "key" },
+    { prim: "pair", args: [{ prim: "signature" }, { prim: "bytes" }] },
+  ],
+};
+
+const PAYLOAD_TYPE = {
+  prim: "pair",
+  args: [
+    { prim: "pair", args: [{ prim: "chain_id" }, { prim: "address" }] },
+    { prim: "pair", args: [{ prim: "nat" }, { prim: "bytes" }] },
+  ],
+};
+
+/**
+ * Loads everything needed to sign a permit for `entrypoint` call
+ * with `value` parameter, from the contract itself
+ */
+export async function loadPermitData(
+  rpc: RpcClient,
+  contractAddress: string,
+  entrypoint: string,
+  value: MichelsonV1Expression
+): Promise<PermitData> {
+  const [{ entrypoints }, script, chainId] = await Promise.all([
+    rpc.getEntrypoints(contractAddress),
+    rpc.getScript(contractAddress),
+    rpc.getChainId(),
+  ]);
+
+  const kind = getPermitEntrypointKind(entrypoints[PERMIT_ENTRYPOINT]);
+  if (!kind) {
+    throw new Error("Contract doesn't support permits");
+  }
+
+  const findSection = (name: string) =>
+    (script.code as any[]).find((expr) => expr.prim === name)?.args?.[0];
+  const entrypointType =
+    entrypoints[entrypoint] ??
+    (entrypoint === "default" ? findSection("parameter") : undefined);
+  if (!entrypointType || entrypoint === PERMIT_ENTRYPOINT) {
+    throw new Error("Invalid entrypoint");
+  }
+
+  const counter = findPermitCounter(findSection("storage"), script.storage);
+  if (counter === null) {
+    throw new Error("Permit counter not found");
+  }
+
+  const paramsHash = getPermitParamsHash(value, entrypointType);
+
+  return {
+    chainId,
+    contractAddress,
+    entrypoint,
+    counter,
+    paramsHash,
+    bytes: getPermitPayloadBytes(chainId, contractAddress, counter, paramsHash),
+    kind,
+  };
+}
+
+/**
+ * Permit entrypoint accepts either single permit or a list of them
+ */
+export function getPermitEntrypointKind(
+  type?: MichelsonV1Expression
+): PermitEntrypointKind | null {
+  const expr = type as any;
+  if (!expr) return null;
+
+  if (isSameType(expr, PERMIT_PARAM_TYPE)) {
+    return "single";
+  }
+
+  if (expr.prim === "list" && isSameType(expr.args[0], PERMIT_PARAM_TYPE)) {
+    return "list";
+  }
+
+  return null;
+}
+
+/**
+ * blake2b hash of entrypoint parameter, packed with its type
+ */
+export function getPermitParamsHash(
+  value: MichelsonV1Expression,
+  type: MichelsonV1Expression
+) {
+  const { bytes } = packDataBytes(
+    value as MichelsonData,
+    type as MichelsonType
+  );
+  return buf2hex(b58cdecode(encodeExpr(bytes), prefix.expr) as Buffer);
+}
+
+export function getPermitPayloadBytes(
+  chainId: string,
+  contractAddress: string,
+  counter: string,
+  paramsHash: string
+) {
+  const data = {
+    prim: "Pair",
+    args: [
+      {
+        prim: "Pair",
+        args: [{ string: chainId }, { string: contractAddress }],
+      },
+      {
+        prim: "Pair",
+        args: [{ int: counter }, { bytes: paramsHash }],
+      },
+    ],
+  };
+
+  return packDataBytes(data as MichelsonData, PAYLOAD_TYPE as MichelsonType)
+    .bytes;
+}
+
+/**
+ * Looks for annotated nat counter among storage pairs
+ */
+export function findPermitCounter(
+  storageType: MichelsonV1Expression,
+  storage: MichelsonV1Expression
+): string | null {
+  const type = storageType as any;
+  const value = storage as any;
+  if (!type || !value) return null;
+
+  if (type.annots?.some((annot: string) => COUNTER_ANNOTS.includes(annot))) {
+    return type.prim === "nat" && value.int !== undefined ? value.int : null;
+  }
+
+  if (type.prim !== "pair") return null;
+
+  const { args: typeArgs } = unfoldComb(type);
+  const { args: valueArgs } = unfoldComb(value);
+  if (valueArgs?.length !== 2) return null;
+
+  return (
+    findPermitCounter(typeArgs[0], valueArgs[0]) ??
+    findPermitCounter(typeArgs[1], valueArgs[1])
+  );
+}
+
+export function toPermitParams(
+  permit: PermitData,
+  publicKey: string,
+  signature: string
+) {
+  const permitValue = {
+    prim: "Pair",
+    args: [
+      { string: publicKey },
+      {
+        prim: "Pair",
+        args: [{ string: signature }, { bytes: permit.paramsHash }],
+      },
+    ],
+  };
+
+  return {
+    entrypoint: PERMIT_ENTRYPOINT,
+    value: permit.kind === "list" ? [permitValue] : permitValue,
+  };
+}
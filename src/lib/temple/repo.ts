@@ -1,4 +1,4 @@
-import { OperationContentsAndResult } from "@taquito/rpc";
+import { OperationContents, OperationContentsAndResult } from "@taquito/rpc";
 import Dexie from "dexie";
 
 import { BcdTokenTransfer } from "lib/better-call-dev";
@@ -7,6 +7,9 @@ import { TzktOperation } from "lib/tzkt";
 export enum Table {
   Operations = "operations",
   SyncTimes = "syncTimes",
+  DAppActivity = "dAppActivity",
+  PendingOperations = "pendingOperations",
+  CollectibleThumbnails = "collectibleThumbnails",
 }
 
 export const db = new Dexie("TempleMain");
@@ -21,11 +24,27 @@ db.version(1).stores({
   ),
   [Table.SyncTimes]: indexes("[service+chainId+address]"),
 });
+db.version(2).stores({
+  [Table.DAppActivity]: indexes("++id", "[origin+requestedAt]"),
+});
+db.version(3).stores({
+  [Table.PendingOperations]: indexes("&hash", "status", "updatedAt"),
+});
+db.version(4).stores({
+  [Table.CollectibleThumbnails]: indexes("&uri", "cachedAt"),
+});
 
 export const waitFor = Dexie.waitFor;
 
 export const operations = db.table<IOperation, string>(Table.Operations);
 export const syncTimes = db.table<ISyncTime, string>(Table.SyncTimes);
+export const dAppActivity = db.table<IDAppActivity, number>(Table.DAppActivity);
+export const pendingOperations = db.table<IPendingOperation, string>(
+  Table.PendingOperations
+);
+export const collectibleThumbnails = db.table<ICollectibleThumbnail, string>(
+  Table.CollectibleThumbnails
+);
 
 export interface IOperation {
   hash: string;
@@ -37,17 +56,69 @@ export interface IOperation {
 }
 
 export type IOperationData = AtLeastOne<{
-  localGroup: OperationContentsAndResult[];
+  // Operations, that replaced pending ones, have no results
+  localGroup: (OperationContentsAndResult | OperationContents)[];
   tzktGroup: TzktOperation[];
   bcdTokenTransfers: BcdTokenTransfer[];
-}>;
+}> & {
+  // Set when local group is taken from an applied block
+  blockLevel?: number;
+};
 
 export interface ISyncTime {
-  service: "tzkt" | "bcd";
+  service: "tzkt" | "bcd" | "rpc";
   chainId: string;
   address: string;
   higherTimestamp: number;
   lowerTimestamp: number;
+  // Scanned block levels, for "rpc" service only
+  higherLevel?: number;
+  lowerLevel?: number;
+}
+
+export interface IDAppActivity {
+  id?: number;
+  origin: string;
+  type: "permission" | "operation" | "sign" | "permit" | "broadcast";
+  pkh?: string;
+  summary: string;
+  decision: "approved" | "declined" | "failed";
+  error?: string;
+  opHash?: string;
+  requestedAt: number; // timestamp
+  resolvedAt: number; // timestamp
+}
+
+export type PendingOperationStatus =
+  | "mempool"
+  | "included"
+  | "confirmed"
+  | "backtracked"
+  | "dropped"
+  | "replaced";
+
+export interface IPendingOperation {
+  hash: string;
+  chainId: string;
+  rpcBaseURL: string;
+  sourcePkh: string;
+  contents: OperationContents[]; // as signed, without results
+  status: PendingOperationStatus;
+  resultStatus?: string;
+  includedLevel?: number;
+  includedBlockHash?: string;
+  checkedLevel: number; // last scanned block level
+  missedChecks: number; // in a row, when operation is not found anywhere
+  stuckNotified?: boolean;
+  replacedBy?: string;
+  addedAt: number; // timestamp
+  updatedAt: number; // timestamp
+}
+
+export interface ICollectibleThumbnail {
+  uri: string; // as in token metadata
+  blob: Blob;
+  cachedAt: number; // timestamp
 }
 
 function indexes(...items: string[]) {
@@ -0,0 +1,232 @@
+import { valueDecoder } from "@taquito/local-forging/dist/lib/michelson/codec";
+import { Uint8ArrayConsumer } from "@taquito/local-forging/dist/lib/uint8array-consumer";
+import {
+  b58cencode,
+  bytes2Char,
+  char2Bytes,
+  encodeKey,
+  encodeKeyHash,
+  encodePubKey,
+  prefix,
+  Prefix,
+  validateAddress,
+  ValidationResult,
+} from "@taquito/utils";
+
+import {
+  TempleDecodedSignPayload,
+  TempleMichelineTreeNode,
+  TemplePermitPreview,
+  TempleSignWatermark,
+} from "lib/temple/types";
+
+const MICHELINE_WATERMARK = "05";
+const OPERATION_WATERMARKS: Record<string, TempleSignWatermark> = {
+  "01": "block",
+  "02": "endorsement",
+  "03": "operation",
+  "11": "block",
+  "12": "preendorsement",
+  "13": "endorsement",
+};
+const SIGNED_MESSAGE_PREFIX = "Tezos Signed Message:";
+const HASH_BYTES_LENGTH = 32;
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const TEXT_CONTROL_CHARS = ["\n", "\r", "\t"];
+
+/**
+ * Detects what kind of data is going to be signed.
+ * Packed Micheline values (05) are decoded into a tree,
+ * watermarked operations are reported without decoding them here.
+ */
+export function decodeSignPayload(payload: string): TempleDecodedSignPayload {
+  const hex = payload.toLowerCase();
+  const watermark = hex.slice(0, 2);
+
+  if (watermark === MICHELINE_WATERMARK) {
+    const micheline = decodePackedValue(hex.slice(2));
+    if (micheline) {
+      const tree = toMichelineTree(micheline);
+      const message =
+        "string" in micheline &&
+        micheline.string.startsWith(SIGNED_MESSAGE_PREFIX)
+          ? micheline.string
+          : undefined;
+      return { type: "micheline", tree, message, permit: toPermit(tree) };
+    }
+  }
+
+  if (watermark in OPERATION_WATERMARKS) {
+    return { type: "operation", watermark: OPERATION_WATERMARKS[watermark] };
+  }
+
+  const text = decodeText(hex);
+  if (text) {
+    return { type: "text", text };
+  }
+
+  if (hex.length === HASH_BYTES_LENGTH * 2) {
+    return { type: "hash", hash: hex };
+  }
+
+  return { type: "unknown" };
+}
+
+function decodePackedValue(hex: string): any {
+  try {
+    const consumer = Uint8ArrayConsumer.fromHexString(hex);
+    const value = valueDecoder(consumer);
+    // Whole payload has to be a single value
+    return consumer.length() === 0 ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function toMichelineTree(value: any): TempleMichelineTreeNode {
+  if (Array.isArray(value)) {
+    const isMap = value.length > 0 && value.every((v) => v?.prim === "Elt");
+    return {
+      type: isMap ? "map" : "list",
+      children: value.map(toMichelineTree),
+    };
+  }
+
+  if ("int" in value) {
+    return { type: "int", value: value.int };
+  }
+
+  if ("string" in value) {
+    return decodeString(value.string);
+  }
+
+  if ("bytes" in value) {
+    return decodeBytes(value.bytes);
+  }
+
+  const children = value.args?.map(toMichelineTree);
+  switch (value.prim) {
+    case "Pair":
+      return { type: "pair", children };
+
+    case "Elt":
+      return { type: "elt", children };
+
+    default:
+      return { type: "prim", label: value.prim, children };
+  }
+}
+
+function decodeString(str: string): TempleMichelineTreeNode {
+  if (TIMESTAMP_PATTERN.test(str) && !isNaN(Date.parse(str))) {
+    return { type: "timestamp", value: str };
+  }
+
+  if (validateAddress(str) === ValidationResult.VALID) {
+    return { type: "address", value: str };
+  }
+
+  return { type: "string", value: str };
+}
+
+function decodeBytes(hex: string): TempleMichelineTreeNode {
+  try {
+    if (hex.length === 44 && /^(000[0-2]|01.{40}00)/.test(hex)) {
+      return { type: "address", value: encodePubKey(hex) };
+    }
+
+    if (hex.length === 42 && /^0[0-2]/.test(hex)) {
+      return { type: "key_hash", value: encodeKeyHash(hex) };
+    }
+
+    if (/^(00.{64}|0[12].{66})$/.test(hex)) {
+      return { type: "key", value: encodeKey(hex) };
+    }
+  } catch {}
+
+  // Packed value or text stored as bytes
+  const packed =
+    hex.startsWith(MICHELINE_WATERMARK) && decodePackedValue(hex.slice(2));
+  if (packed) {
+    return { type: "bytes", value: hex, children: [toMichelineTree(packed)] };
+  }
+
+  const text = decodeText(hex);
+  if (text) {
+    return { type: "text", value: text };
+  }
+
+  return { type: "bytes", value: hex };
+}
+
+function decodeText(hex: string) {
+  if (hex.length === 0 || hex.length % 2 !== 0) return null;
+
+  try {
+    const text = bytes2Char(hex);
+    // Invalid UTF-8 sequences are not encoded back the same way
+    return char2Bytes(text) === hex && isPrintable(text) ? text : null;
+  } catch {
+    return null;
+  }
+}
+
+function isPrintable(text: string) {
+  return Array.from(text).every((char) => {
+    const code = char.charCodeAt(0);
+    return (code >= 0x20 && code !== 0x7f) || TEXT_CONTROL_CHARS.includes(char);
+  });
+}
+
+/**
+ * TZIP-17 permit: Pair (Pair chain_id contract) (Pair counter params_hash)
+ */
+function toPermit(
+  tree: TempleMichelineTreeNode
+): TemplePermitPreview | undefined {
+  if (tree.type !== "pair" || tree.children?.length !== 2) return;
+
+  const [target, data] = tree.children;
+  if (target.type !== "pair" || data.type !== "pair") return;
+
+  const [chainId, contract] = target.children ?? [];
+  const [counter, paramsHash] = data.children ?? [];
+  if (
+    !chainId ||
+    contract?.type !== "address" ||
+    counter?.type !== "int" ||
+    paramsHash?.type !== "bytes" ||
+    paramsHash.value?.length !== HASH_BYTES_LENGTH * 2
+  ) {
+    return;
+  }
+
+  const chainIdValue = toChainId(chainId);
+  if (!chainIdValue) return;
+
+  // Chain id is not recognized as such while decoding generic values
+  target.children![0] = { type: "chain_id", value: chainIdValue };
+
+  return {
+    chainId: chainIdValue,
+    contract: contract.value!,
+    counter: counter.value!,
+    paramsHash: paramsHash.value,
+  };
+}
+
+function toChainId(node: TempleMichelineTreeNode) {
+  if (node.type === "string" && node.value?.startsWith(Prefix.NET)) {
+    return node.value;
+  }
+
+  // 4 bytes long chain ids could also be decoded as text
+  const hex =
+    node.type === "bytes"
+      ? node.value
+      : node.type === "text"
+      ? char2Bytes(node.value!)
+      : undefined;
+  return hex?.length === 8 ? b58cencode(hex, prefix[Prefix.NET]) : undefined;
+}
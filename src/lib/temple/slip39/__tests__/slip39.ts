@@ -0,0 +1,120 @@
+import { Buffer } from "buffer";
+
+import {
+  combineMnemonics,
+  generateMnemonics,
+  parseShares,
+  recoverSeedPhrase,
+  splitSeedPhrase,
+  validateMnemonic,
+} from "..";
+import VECTORS from "../__mocks__/vectors";
+
+const PASSPHRASE = "TREZOR";
+const SEED_PHRASE =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+describe("SLIP-0039 test vectors", () => {
+  for (const [description, mnemonics, secret] of VECTORS) {
+    it(description, async () => {
+      const combining = combineMnemonics(mnemonics, PASSPHRASE);
+
+      if (secret) {
+        const recovered = await combining;
+        expect(Buffer.from(recovered).toString("hex")).toBe(secret);
+      } else {
+        await expect(combining).rejects.toThrow();
+      }
+    });
+  }
+});
+
+describe("SLIP-0039 generating", () => {
+  const masterSecret = new Uint8Array(
+    Buffer.from("bb54aac4b89dc868ba37d9cc21b2cece", "hex")
+  );
+
+  it("1-of-1", async () => {
+    const [[mnemonic]] = await generateMnemonics(
+      masterSecret,
+      1,
+      [[1, 1]],
+      PASSPHRASE
+    );
+    expect(validateMnemonic(mnemonic)).toBeTruthy();
+    const recovered = await combineMnemonics([mnemonic], PASSPHRASE);
+    expect(recovered).toStrictEqual(masterSecret);
+  });
+
+  it("2-of-3 groups", async () => {
+    const groups = await generateMnemonics(
+      masterSecret,
+      2,
+      [
+        [3, 5],
+        [2, 3],
+        [1, 1],
+      ],
+      PASSPHRASE
+    );
+    expect(groups.map((g) => g.length)).toStrictEqual([5, 3, 1]);
+
+    const recovered = await combineMnemonics(
+      [...groups[0].slice(2), ...groups[2]],
+      PASSPHRASE
+    );
+    expect(recovered).toStrictEqual(masterSecret);
+
+    await expect(
+      combineMnemonics(
+        [...groups[0].slice(3), ...groups[1].slice(1)],
+        PASSPHRASE
+      )
+    ).rejects.toThrow("Wrong number of mnemonics");
+  });
+
+  it("Wrong passphrase", async () => {
+    const [mnemonics] = await generateMnemonics(
+      masterSecret,
+      1,
+      [[2, 3]],
+      PASSPHRASE
+    );
+    const recovered = await combineMnemonics(mnemonics.slice(1), "");
+    expect(recovered).not.toStrictEqual(masterSecret);
+  });
+
+  it("Invalid parameters", async () => {
+    await expect(
+      generateMnemonics(masterSecret.slice(2), 1, [[2, 3]])
+    ).rejects.toThrow();
+    await expect(
+      generateMnemonics(masterSecret, 1, [[1, 3]])
+    ).rejects.toThrow();
+    await expect(
+      generateMnemonics(masterSecret, 2, [[2, 3]])
+    ).rejects.toThrow();
+    await expect(
+      generateMnemonics(masterSecret, 1, [[4, 3]])
+    ).rejects.toThrow();
+  });
+});
+
+describe("Seed phrase sharing", () => {
+  it("Split and recover", async () => {
+    const shares = await splitSeedPhrase(SEED_PHRASE, 2, 3);
+    expect(shares.length).toBe(3);
+    expect(shares[0].split(" ").length).toBe(20);
+
+    expect(await recoverSeedPhrase([shares[0], shares[2]])).toBe(SEED_PHRASE);
+    expect(await recoverSeedPhrase([shares[2], shares[1]])).toBe(SEED_PHRASE);
+    await expect(recoverSeedPhrase([shares[1]])).rejects.toThrow();
+  });
+
+  it("Parse shares", () => {
+    expect(parseShares("  Foo   bar\n\n baz qux \n")).toStrictEqual([
+      "foo bar",
+      "baz qux",
+    ]);
+  });
+});
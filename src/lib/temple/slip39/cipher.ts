@@ -0,0 +1,117 @@
+import { Buffer } from "buffer";
+
+import { concatBytes } from "./shamir";
+
+/**
+ * Four-round Feistel network, that encrypts master secret with passphrase
+ */
+
+const BASE_ITERATION_COUNT = 10000;
+const ROUND_COUNT = 4;
+const CUSTOMIZATION_STRING_ORIG = "shamir";
+
+export async function encryptMasterSecret(
+  masterSecret: Uint8Array,
+  passphrase: string,
+  iterationExponent: number,
+  identifier: number,
+  extendable: boolean
+) {
+  const salt = getSalt(identifier, extendable);
+  const rounds = Array.from({ length: ROUND_COUNT }, (_, i) => i);
+  return feistel(masterSecret, passphrase, iterationExponent, salt, rounds);
+}
+
+export async function decryptMasterSecret(
+  encryptedMasterSecret: Uint8Array,
+  passphrase: string,
+  iterationExponent: number,
+  identifier: number,
+  extendable: boolean
+) {
+  const salt = getSalt(identifier, extendable);
+  const rounds = Array.from({ length: ROUND_COUNT }, (_, i) => i).reverse();
+  return feistel(
+    encryptedMasterSecret,
+    passphrase,
+    iterationExponent,
+    salt,
+    rounds
+  );
+}
+
+export function assertPassphrase(passphrase: string) {
+  for (let i = 0; i < passphrase.length; i++) {
+    const code = passphrase.charCodeAt(i);
+    if (code < 32 || code > 126) {
+      throw new Error(
+        "The passphrase must contain only printable ASCII characters"
+      );
+    }
+  }
+}
+
+async function feistel(
+  input: Uint8Array,
+  passphrase: string,
+  iterationExponent: number,
+  salt: Uint8Array,
+  rounds: number[]
+) {
+  if (input.length % 2 !== 0) {
+    throw new Error(
+      "The length of the master secret in bytes must be an even number"
+    );
+  }
+  assertPassphrase(passphrase);
+
+  let l = input.slice(0, input.length / 2);
+  let r = input.slice(input.length / 2);
+  for (const i of rounds) {
+    const f = await roundFunction(i, passphrase, iterationExponent, salt, r);
+    [l, r] = [r, xor(l, f)];
+  }
+  return concatBytes(r, l);
+}
+
+async function roundFunction(
+  i: number,
+  passphrase: string,
+  iterationExponent: number,
+  salt: Uint8Array,
+  r: Uint8Array
+) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    concatBytes(Uint8Array.of(i), Buffer.from(passphrase, "ascii")),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      salt: concatBytes(salt, r),
+      iterations: (BASE_ITERATION_COUNT << iterationExponent) / ROUND_COUNT,
+    },
+    key,
+    r.length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+function getSalt(identifier: number, extendable: boolean) {
+  if (extendable) {
+    return new Uint8Array(0);
+  }
+
+  return concatBytes(
+    Buffer.from(CUSTOMIZATION_STRING_ORIG, "ascii"),
+    Uint8Array.of(identifier >> 8, identifier & 0xff)
+  );
+}
+
+function xor(a: Uint8Array, b: Uint8Array) {
+  return a.map((value, i) => value ^ b[i]);
+}
@@ -0,0 +1,241 @@
+import * as Bip39 from "bip39";
+import { Buffer } from "buffer";
+
+import {
+  assertPassphrase,
+  decryptMasterSecret,
+  encryptMasterSecret,
+} from "./cipher";
+import { RawShare, randomBytes, recoverSecret, splitSecret } from "./shamir";
+import {
+  GROUP_PREFIX_LENGTH_WORDS,
+  ID_LENGTH_BITS,
+  MIN_STRENGTH_BITS,
+  Share,
+  mnemonicToShare,
+  shareToMnemonic,
+  splitMnemonic,
+} from "./share";
+
+/**
+ * SLIP-0039: Shamir's Secret-Sharing for Mnemonic Codes
+ * https://github.com/satoshilabs/slips/blob/master/slip-0039.md
+ */
+
+export { MAX_SHARE_COUNT } from "./shamir";
+
+// [member threshold, member count]
+export type GroupSpec = [number, number];
+
+export async function generateMnemonics(
+  masterSecret: Uint8Array,
+  groupThreshold: number,
+  groups: GroupSpec[],
+  passphrase = "",
+  iterationExponent = 1,
+  extendable = true
+) {
+  if (masterSecret.length * 8 < MIN_STRENGTH_BITS) {
+    throw new Error(
+      "The length of the master secret must be " +
+        `at least ${MIN_STRENGTH_BITS / 8} bytes`
+    );
+  }
+  if (masterSecret.length % 2 !== 0) {
+    throw new Error(
+      "The length of the master secret in bytes must be an even number"
+    );
+  }
+  assertPassphrase(passphrase);
+
+  if (groupThreshold > groups.length) {
+    throw new Error(
+      "The requested group threshold must not exceed the number of groups"
+    );
+  }
+  if (groups.some(([threshold, count]) => threshold === 1 && count > 1)) {
+    throw new Error(
+      "Creating multiple member shares with member threshold 1 " +
+        "is not allowed. Use 1-of-1 member sharing instead"
+    );
+  }
+
+  const [idHigh, idLow] = randomBytes(2);
+  const identifier = ((idHigh << 8) | idLow) & ((1 << ID_LENGTH_BITS) - 1);
+
+  const encryptedMasterSecret = await encryptMasterSecret(
+    masterSecret,
+    passphrase,
+    iterationExponent,
+    identifier,
+    extendable
+  );
+
+  const groupShares = await splitSecret(
+    groupThreshold,
+    groups.length,
+    encryptedMasterSecret
+  );
+
+  return Promise.all(
+    groups.map(async ([memberThreshold, memberCount], groupIndex) => {
+      const memberShares = await splitSecret(
+        memberThreshold,
+        memberCount,
+        groupShares[groupIndex].data
+      );
+
+      return memberShares.map(({ x, data }) =>
+        shareToMnemonic({
+          identifier,
+          extendable,
+          iterationExponent,
+          groupIndex,
+          groupThreshold,
+          groupCount: groups.length,
+          memberIndex: x,
+          memberThreshold,
+          value: data,
+        })
+      );
+    })
+  );
+}
+
+export async function combineMnemonics(mnemonics: string[], passphrase = "") {
+  if (mnemonics.length === 0) {
+    throw new Error("The list of mnemonics is empty");
+  }
+
+  const normalized = Array.from(
+    new Set(mnemonics.map((m) => splitMnemonic(m).join(" ")))
+  );
+  const shares = normalized.map(mnemonicToShare);
+
+  const [first] = shares;
+  const commonParamsMatch = shares.every(
+    (share) =>
+      share.identifier === first.identifier &&
+      share.extendable === first.extendable &&
+      share.iterationExponent === first.iterationExponent &&
+      share.groupThreshold === first.groupThreshold &&
+      share.groupCount === first.groupCount
+  );
+  if (!commonParamsMatch) {
+    throw new Error(
+      "Invalid set of mnemonics. All mnemonics must begin with the same " +
+        "2 words, must have the same group threshold and the same group count"
+    );
+  }
+
+  const groups = new Map<number, Share[]>();
+  for (const share of shares) {
+    const group = groups.get(share.groupIndex) ?? [];
+    if (
+      group.length > 0 &&
+      group[0].memberThreshold !== share.memberThreshold
+    ) {
+      throw new Error(
+        "Invalid set of mnemonics. " +
+          "All mnemonics in a group must have the same member threshold"
+      );
+    }
+    groups.set(share.groupIndex, [...group, share]);
+  }
+
+  if (groups.size < first.groupThreshold) {
+    throw new Error(
+      "Insufficient number of mnemonic groups. " +
+        `The required number of groups is ${first.groupThreshold}`
+    );
+  }
+  if (groups.size !== first.groupThreshold) {
+    throw new Error(
+      `Wrong number of mnemonic groups. Expected ${first.groupThreshold} ` +
+        `groups, but ${groups.size} were provided`
+    );
+  }
+
+  const groupShares: RawShare[] = [];
+  for (const [groupIndex, group] of Array.from(groups.entries())) {
+    const { memberThreshold } = group[0];
+    if (group.length !== memberThreshold) {
+      const prefix = splitMnemonic(shareToMnemonic(group[0]))
+        .slice(0, GROUP_PREFIX_LENGTH_WORDS)
+        .join(" ");
+      throw new Error(
+        `Wrong number of mnemonics. Expected ${memberThreshold} mnemonics ` +
+          `starting with "${prefix} ...", but ${group.length} were provided`
+      );
+    }
+
+    const data = await recoverSecret(
+      memberThreshold,
+      group.map((share) => ({ x: share.memberIndex, data: share.value }))
+    );
+    groupShares.push({ x: groupIndex, data });
+  }
+
+  const encryptedMasterSecret = await recoverSecret(
+    first.groupThreshold,
+    groupShares
+  );
+
+  return decryptMasterSecret(
+    encryptedMasterSecret,
+    passphrase,
+    first.iterationExponent,
+    first.identifier,
+    first.extendable
+  );
+}
+
+export function validateMnemonic(mnemonic: string) {
+  try {
+    mnemonicToShare(mnemonic);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Splits BIP39 seed phrase into single group of M-of-N shares.
+ * BIP39 entropy (not the BIP32 seed) is used as master secret,
+ * so the same seed phrase can be recovered from shares.
+ */
+export async function splitSeedPhrase(
+  seedPhrase: string,
+  threshold: number,
+  shareCount: number,
+  passphrase = ""
+) {
+  const entropy = Buffer.from(Bip39.mnemonicToEntropy(seedPhrase), "hex");
+  const [shares] = await generateMnemonics(
+    new Uint8Array(entropy),
+    1,
+    [[threshold, shareCount]],
+    passphrase
+  );
+  return shares;
+}
+
+export async function recoverSeedPhrase(shares: string[], passphrase = "") {
+  const entropy = await combineMnemonics(shares, passphrase);
+  return Bip39.entropyToMnemonic(Buffer.from(entropy));
+}
+
+/**
+ * One share per line
+ */
+export function parseShares(value: string) {
+  return value
+    .split("\n")
+    .map((line) => splitMnemonic(line).join(" "))
+    .filter(Boolean);
+}
+
+export function validateShares(value: string) {
+  const shares = parseShares(value);
+  return shares.length > 0 && shares.every(validateMnemonic);
+}
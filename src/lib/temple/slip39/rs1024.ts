@@ -0,0 +1,47 @@
+/**
+ * Reed-Solomon code over GF(1024), used for share checksums
+ */
+
+const GEN = [
+  0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009, 0x1c0c2412, 0x38086c24,
+  0x3090fc48, 0x21b1f890, 0x3f3f120,
+];
+
+export const CHECKSUM_LENGTH_WORDS = 3;
+
+export function createChecksum(data: number[], customization: string) {
+  const values = [
+    ...toCharCodes(customization),
+    ...data,
+    ...Array(CHECKSUM_LENGTH_WORDS).fill(0),
+  ];
+  const mod = polymod(values) ^ 1;
+
+  const checksum: number[] = [];
+  for (let i = CHECKSUM_LENGTH_WORDS - 1; i >= 0; i--) {
+    checksum.push((mod >> (10 * i)) & 1023);
+  }
+  return checksum;
+}
+
+export function verifyChecksum(data: number[], customization: string) {
+  return polymod([...toCharCodes(customization), ...data]) === 1;
+}
+
+function polymod(values: number[]) {
+  let chk = 1;
+  for (const v of values) {
+    const b = chk >> 20;
+    chk = ((chk & 0xfffff) << 10) ^ v;
+    for (let i = 0; i < 10; i++) {
+      if ((b >> i) & 1) {
+        chk ^= GEN[i];
+      }
+    }
+  }
+  return chk;
+}
+
+function toCharCodes(str: string) {
+  return Array.from(str, (char) => char.charCodeAt(0));
+}
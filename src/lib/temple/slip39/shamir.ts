@@ -0,0 +1,168 @@
+import { Buffer } from "buffer";
+
+/**
+ * Shamir's secret sharing over GF(256)
+ */
+
+export const MAX_SHARE_COUNT = 16;
+export const DIGEST_LENGTH_BYTES = 4;
+
+const SECRET_INDEX = 255;
+const DIGEST_INDEX = 254;
+
+export interface RawShare {
+  x: number;
+  data: Uint8Array;
+}
+
+const [EXP_TABLE, LOG_TABLE] = precomputeExpLog();
+
+export async function splitSecret(
+  threshold: number,
+  shareCount: number,
+  secret: Uint8Array
+): Promise<RawShare[]> {
+  if (threshold < 1) {
+    throw new Error("The requested threshold must be a positive integer");
+  }
+  if (threshold > shareCount) {
+    throw new Error(
+      "The requested threshold must not exceed the number of shares"
+    );
+  }
+  if (shareCount > MAX_SHARE_COUNT) {
+    throw new Error(
+      `The requested number of shares must not exceed ${MAX_SHARE_COUNT}`
+    );
+  }
+
+  // If the threshold is 1, then the digest of the shared secret is not used
+  if (threshold === 1) {
+    return Array.from({ length: shareCount }, (_, x) => ({ x, data: secret }));
+  }
+
+  const randomShareCount = threshold - 2;
+  const shares: RawShare[] = Array.from(
+    { length: randomShareCount },
+    (_, x) => ({
+      x,
+      data: randomBytes(secret.length),
+    })
+  );
+
+  const randomPart = randomBytes(secret.length - DIGEST_LENGTH_BYTES);
+  const digest = await createDigest(randomPart, secret);
+  const baseShares = [
+    ...shares,
+    { x: DIGEST_INDEX, data: concatBytes(digest, randomPart) },
+    { x: SECRET_INDEX, data: secret },
+  ];
+
+  for (let x = randomShareCount; x < shareCount; x++) {
+    shares.push({ x, data: interpolate(baseShares, x) });
+  }
+  return shares;
+}
+
+export async function recoverSecret(threshold: number, shares: RawShare[]) {
+  // If the threshold is 1, then the digest of the shared secret is not used
+  if (threshold === 1) {
+    return shares[0].data;
+  }
+
+  const secret = interpolate(shares, SECRET_INDEX);
+  const digestShare = interpolate(shares, DIGEST_INDEX);
+  const digest = digestShare.slice(0, DIGEST_LENGTH_BYTES);
+  const randomPart = digestShare.slice(DIGEST_LENGTH_BYTES);
+
+  const expectedDigest = await createDigest(randomPart, secret);
+  if (!Buffer.from(digest).equals(Buffer.from(expectedDigest))) {
+    throw new Error("Invalid digest of the shared secret");
+  }
+  return secret;
+}
+
+export function randomBytes(length: number) {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+export function concatBytes(...parts: Uint8Array[]) {
+  return new Uint8Array(Buffer.concat(parts.map((p) => Buffer.from(p))));
+}
+
+function interpolate(shares: RawShare[], x: number) {
+  const xCoordinates = new Set(shares.map((share) => share.x));
+  if (xCoordinates.size !== shares.length) {
+    throw new Error("Invalid set of shares. Share indices must be unique");
+  }
+
+  const dataLengths = new Set(shares.map((share) => share.data.length));
+  if (dataLengths.size !== 1) {
+    throw new Error(
+      "Invalid set of shares. All share values must have the same length"
+    );
+  }
+
+  const existing = shares.find((share) => share.x === x);
+  if (existing) {
+    return existing.data;
+  }
+
+  // Logarithm of the product of (x_i - x) for i = 1, ... , k
+  const logProd = sum(shares.map((share) => LOG_TABLE[share.x ^ x]));
+
+  const result = new Uint8Array(shares[0].data.length);
+  for (const share of shares) {
+    // The logarithm of the Lagrange basis polynomial evaluated at x
+    const logBasisEval = mod255(
+      logProd -
+        LOG_TABLE[share.x ^ x] -
+        sum(shares.map((other) => LOG_TABLE[share.x ^ other.x]))
+    );
+
+    share.data.forEach((value, i) => {
+      if (value !== 0) {
+        result[i] ^= EXP_TABLE[mod255(LOG_TABLE[value] + logBasisEval)];
+      }
+    });
+  }
+  return result;
+}
+
+async function createDigest(randomPart: Uint8Array, secret: Uint8Array) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    randomPart,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const hmac = await crypto.subtle.sign("HMAC", key, secret);
+  return new Uint8Array(hmac).slice(0, DIGEST_LENGTH_BYTES);
+}
+
+function precomputeExpLog() {
+  const exp: number[] = Array(255).fill(0);
+  const log: number[] = Array(256).fill(0);
+
+  let poly = 1;
+  for (let i = 0; i < 255; i++) {
+    exp[i] = poly;
+    log[poly] = i;
+    // Multiply poly by the polynomial x + 1
+    poly = (poly << 1) ^ poly;
+    // Reduce poly by x^8 + x^4 + x^3 + x + 1
+    if (poly & 0x100) {
+      poly ^= 0x11b;
+    }
+  }
+  return [exp, log];
+}
+
+function sum(values: number[]) {
+  return values.reduce((a, b) => a + b, 0);
+}
+
+function mod255(value: number) {
+  return ((value % 255) + 255) % 255;
+}
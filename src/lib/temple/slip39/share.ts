@@ -0,0 +1,193 @@
+import {
+  CHECKSUM_LENGTH_WORDS,
+  createChecksum,
+  verifyChecksum,
+} from "./rs1024";
+import WORDLIST from "./wordlist";
+
+export const RADIX_BITS = 10;
+export const ID_LENGTH_BITS = 15;
+export const ITERATION_EXP_LENGTH_BITS = 4;
+export const ID_EXP_LENGTH_WORDS = 2;
+export const GROUP_PREFIX_LENGTH_WORDS = ID_EXP_LENGTH_WORDS + 1;
+export const METADATA_LENGTH_WORDS =
+  ID_EXP_LENGTH_WORDS + 2 + CHECKSUM_LENGTH_WORDS;
+export const MIN_STRENGTH_BITS = 128;
+export const MIN_MNEMONIC_LENGTH_WORDS =
+  METADATA_LENGTH_WORDS + Math.ceil(MIN_STRENGTH_BITS / RADIX_BITS);
+
+const CUSTOMIZATION_STRING_ORIG = "shamir";
+const CUSTOMIZATION_STRING_EXTENDABLE = "shamir_extendable";
+
+const WORD_INDEXES = new Map(WORDLIST.map((word, i) => [word, i]));
+
+export interface Share {
+  identifier: number;
+  extendable: boolean;
+  iterationExponent: number;
+  groupIndex: number;
+  groupThreshold: number;
+  groupCount: number;
+  memberIndex: number;
+  memberThreshold: number;
+  value: Uint8Array;
+}
+
+export function shareToMnemonic(share: Share) {
+  const idExp =
+    (share.identifier << (ITERATION_EXP_LENGTH_BITS + 1)) +
+    (Number(share.extendable) << ITERATION_EXP_LENGTH_BITS) +
+    share.iterationExponent;
+
+  // Each value is 4 bits, for 20 bits total
+  const shareParams = [
+    share.groupIndex,
+    share.groupThreshold - 1,
+    share.groupCount - 1,
+    share.memberIndex,
+    share.memberThreshold - 1,
+  ].reduce((acc, value) => (acc << 4) + value, 0);
+
+  const shareData = [
+    ...intToIndices(idExp, ID_EXP_LENGTH_WORDS),
+    ...intToIndices(shareParams, 2),
+    ...bytesToIndices(share.value),
+  ];
+  const checksum = createChecksum(
+    shareData,
+    getCustomizationString(share.extendable)
+  );
+
+  return [...shareData, ...checksum].map((i) => WORDLIST[i]).join(" ");
+}
+
+export function mnemonicToShare(mnemonic: string): Share {
+  const words = splitMnemonic(mnemonic);
+  const data = words.map((word) => {
+    const index = WORD_INDEXES.get(word);
+    if (index === undefined) {
+      throw new Error(`Invalid mnemonic word "${word}"`);
+    }
+    return index;
+  });
+
+  if (data.length < MIN_MNEMONIC_LENGTH_WORDS) {
+    throw new Error(
+      "Invalid mnemonic length. The length of each mnemonic " +
+        `must be at least ${MIN_MNEMONIC_LENGTH_WORDS} words`
+    );
+  }
+
+  const paddingLength =
+    (RADIX_BITS * (data.length - METADATA_LENGTH_WORDS)) % 16;
+  if (paddingLength > 8) {
+    throw new Error("Invalid mnemonic length");
+  }
+
+  const prefix = words.slice(0, ID_EXP_LENGTH_WORDS + 2).join(" ");
+
+  const idExp = indicesToInt(data.slice(0, ID_EXP_LENGTH_WORDS));
+  const identifier = idExp >> (ITERATION_EXP_LENGTH_BITS + 1);
+  const extendable = Boolean((idExp >> ITERATION_EXP_LENGTH_BITS) & 1);
+  const iterationExponent = idExp & ((1 << ITERATION_EXP_LENGTH_BITS) - 1);
+
+  if (!verifyChecksum(data, getCustomizationString(extendable))) {
+    throw new Error(`Invalid mnemonic checksum for "${prefix} ..."`);
+  }
+
+  const shareParams = indicesToInt(
+    data.slice(ID_EXP_LENGTH_WORDS, ID_EXP_LENGTH_WORDS + 2)
+  );
+  const [groupIndex, groupThreshold, groupCount, memberIndex, memberThreshold] =
+    [16, 12, 8, 4, 0].map((shift) => (shareParams >> shift) & 0xf);
+
+  if (groupCount < groupThreshold) {
+    throw new Error(
+      `Invalid mnemonic "${prefix} ...". ` +
+        "Group threshold cannot be greater than group count"
+    );
+  }
+
+  const value = indicesToBytes(
+    data.slice(ID_EXP_LENGTH_WORDS + 2, -CHECKSUM_LENGTH_WORDS),
+    paddingLength
+  );
+  if (!value) {
+    throw new Error(`Invalid mnemonic padding for "${prefix} ..."`);
+  }
+
+  return {
+    identifier,
+    extendable,
+    iterationExponent,
+    groupIndex,
+    groupThreshold: groupThreshold + 1,
+    groupCount: groupCount + 1,
+    memberIndex,
+    memberThreshold: memberThreshold + 1,
+    value,
+  };
+}
+
+export function splitMnemonic(mnemonic: string) {
+  return mnemonic.trim().toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+function getCustomizationString(extendable: boolean) {
+  return extendable
+    ? CUSTOMIZATION_STRING_EXTENDABLE
+    : CUSTOMIZATION_STRING_ORIG;
+}
+
+function intToIndices(value: number, length: number) {
+  const indices: number[] = [];
+  for (let i = length - 1; i >= 0; i--) {
+    indices.push((value >> (i * RADIX_BITS)) & ((1 << RADIX_BITS) - 1));
+  }
+  return indices;
+}
+
+function indicesToInt(indices: number[]) {
+  return indices.reduce((acc, index) => (acc << RADIX_BITS) + index, 0);
+}
+
+/**
+ * Value bytes are encoded as big-endian integer, left-padded with zero bits
+ * to fit whole number of words
+ */
+function bytesToIndices(bytes: Uint8Array) {
+  const wordCount = Math.ceil((bytes.length * 8) / RADIX_BITS);
+  const bits = [
+    ...Array(wordCount * RADIX_BITS - bytes.length * 8).fill(0),
+    ...toBits(Array.from(bytes), 8),
+  ];
+  return fromBits(bits, RADIX_BITS);
+}
+
+function indicesToBytes(indices: number[], paddingLength: number) {
+  const bits = toBits(indices, RADIX_BITS);
+  if (bits.slice(0, paddingLength).some(Boolean)) {
+    return null;
+  }
+  return new Uint8Array(fromBits(bits.slice(paddingLength), 8));
+}
+
+function toBits(values: number[], size: number) {
+  const bits: number[] = [];
+  for (const value of values) {
+    for (let i = size - 1; i >= 0; i--) {
+      bits.push((value >> i) & 1);
+    }
+  }
+  return bits;
+}
+
+function fromBits(bits: number[], size: number) {
+  const values: number[] = [];
+  for (let i = 0; i < bits.length; i += size) {
+    values.push(
+      bits.slice(i, i + size).reduce((acc, bit) => (acc << 1) | bit, 0)
+    );
+  }
+  return values;
+}
@@ -1,5 +1,7 @@
+import { MichelsonV1Expression } from "@taquito/rpc";
 import { Estimate } from "@taquito/taquito/dist/types/contract/estimate";
 import {
+  TempleDAppMessageType as TempleDAppProtocolMessageType,
   TempleDAppMetadata,
   TempleDAppNetwork,
 } from "@temple-wallet/dapp/dist/types";
@@ -15,9 +17,99 @@ export interface ReadyTempleState extends TempleState {
 
 export interface TempleDAppSession {
   network: TempleDAppNetwork;
+  // Chain of the network at the moment session was granted.
+  // Missing in sessions created before chain checks
+  chainId?: string;
+  // User's network with the same chain, dApp network is mapped onto
+  rpc?: string;
   appMeta: TempleDAppMetadata;
+  // Default account
   pkh: string;
   publicKey: string;
+  // All connected accounts, including default one.
+  // Missing in sessions created before multiple accounts support
+  accounts?: TempleDAppSessionAccount[];
+  // Missing in sessions created before scopes support
+  scopes?: TempleDAppScope[];
+  // Timestamps in ms. Session without expiresAt lasts until disconnected
+  expiresAt?: number;
+  lastUsedAt?: number;
+  // Applied only when threshold scope is granted
+  autoApprove?: TempleDAppAutoApprovePolicy;
+}
+
+export interface TempleDAppAutoApprovePolicy {
+  // Amounts in mutez, fees and storage burn are counted
+  maxPerOperation: string;
+  maxPerDay: string;
+  // Plain transfers are calls of "default" entrypoint
+  allowedEntrypoints: string[];
+  expiresAt: number;
+}
+
+export interface TempleDAppAutoApprovedOperation {
+  opHash: string;
+  sourcePkh: string;
+  entrypoints: string[];
+  // Mutez, including fees and storage burn
+  spent: string;
+  approvedAt: number;
+}
+
+export type TempleOriginReputationStatus =
+  | "trusted"
+  | "unknown"
+  | "excepted"
+  | "suspicious"
+  | "blocked";
+
+export interface TempleOriginReputation {
+  status: TempleOriginReputationStatus;
+  reason?: "denylist" | "lookalike";
+  // Known domain the origin imitates
+  similarTo?: string;
+}
+
+export interface TempleDAppSessionAccount {
+  pkh: string;
+  publicKey: string;
+}
+
+export enum TempleDAppScope {
+  Operation = "operation_request",
+  Sign = "sign",
+  Threshold = "threshold",
+}
+
+/**
+ * Temple DApp protocol messages, including TZIP-17 permits
+ * that are not supported by the dApp library yet
+ */
+export const TempleDAppMessageType = {
+  ...TempleDAppProtocolMessageType,
+  PermitRequest: "PERMIT_REQUEST",
+  PermitResponse: "PERMIT_RESPONSE",
+} as const;
+
+export type TempleDAppMessageType =
+  typeof TempleDAppMessageType[keyof typeof TempleDAppMessageType];
+
+export interface TempleDAppPermitRequest {
+  type: typeof TempleDAppMessageType.PermitRequest;
+  sourcePkh: string;
+  contractAddress: string;
+  entrypoint: string;
+  params: MichelsonV1Expression;
+  submit?: boolean;
+}
+
+export interface TempleDAppPermitResponse {
+  type: typeof TempleDAppMessageType.PermitResponse;
+  publicKey: string;
+  signature: string;
+  paramsHash: string;
+  // Present if permit was submitted by the wallet
+  opHash?: string;
 }
 
 export interface TempleState {
@@ -51,7 +143,8 @@ export type TempleAccount =
   | TempleImportedAccount
   | TempleLedgerAccount
   | TempleManagedKTAccount
-  | TempleWatchOnlyAccount;
+  | TempleWatchOnlyAccount
+  | TempleMultisigAccount;
 
 export enum DerivationType {
   ED25519 = 0,
@@ -71,6 +164,8 @@ export interface TempleImportedAccount extends TempleAccountBase {
 export interface TempleHDAccount extends TempleAccountBase {
   type: TempleAccountType.HD;
   hdIndex: number;
+  // Not set for accounts created before other curves were supported (ED25519)
+  derivationType?: DerivationType;
 }
 
 export interface TempleManagedKTAccount extends TempleAccountBase {
@@ -84,21 +179,48 @@ export interface TempleWatchOnlyAccount extends TempleAccountBase {
   chainId?: string;
 }
 
+export interface TempleMultisigAccount extends TempleAccountBase {
+  type: TempleAccountType.Multisig;
+  chainId: string;
+}
+
+export interface TempleDiscoveredAccount {
+  index: number;
+  derivationPath: string;
+  publicKeyHash: string;
+}
+
+export interface TempleLedgerDiscoveredAccount extends TempleDiscoveredAccount {
+  derivationType: DerivationType;
+}
+
 export interface TempleAccountBase {
   type: TempleAccountType;
   name: string;
   publicKeyHash: string;
+  hidden?: boolean;
+  groupName?: string;
+  policy?: TempleAccountPolicy;
   hdIndex?: number;
   derivationPath?: string;
   derivationType?: DerivationType;
 }
 
+export interface TempleAccountPolicy {
+  // Asset slug ("tez" or "<contract>_<tokenId>") -> max amount in atoms per day
+  dailyLimits?: Record<string, string>;
+  // Operations to other destinations are rejected if set
+  allowedDestinations?: string[];
+  blockedEntrypoints?: string[];
+}
+
 export enum TempleAccountType {
   HD,
   Imported,
   Ledger,
   ManagedKT,
   WatchOnly,
+  Multisig,
 }
 
 export interface TempleNetwork {
@@ -110,6 +232,8 @@ export interface TempleNetwork {
   lambdaContract?: string;
   type: TempleNetworkType;
   rpcBaseURL: string;
+  // TzKT-compatible indexer API, used for operations history
+  tzktBaseURL?: string;
   color: string;
   disabled: boolean;
   hidden?: boolean;
@@ -171,6 +295,9 @@ export type TempleNetworkType = "main" | "test";
 export interface TempleSettings {
   customNetworks?: TempleNetwork[];
   lambdaContracts?: Record<string, string>;
+  // In minutes, auto-lock is disabled if not set or 0
+  autoLockTimeout?: number;
+  lockOnSystemIdle?: boolean;
 }
 
 export enum TempleSharedStorageKey {
@@ -180,6 +307,17 @@ export enum TempleSharedStorageKey {
 
 export type TempleDAppSessions = Record<string, TempleDAppSession>;
 
+export interface TempleBeaconP2PPairing {
+  id: string;
+  name: string;
+  icon?: string;
+  appUrl?: string;
+  publicKey: string;
+  relayServer: string;
+  roomId?: string;
+  pairedAt: number;
+}
+
 export interface TempleContact {
   address: string;
   name: string;
@@ -210,11 +348,26 @@ export interface TempleOpsConfirmationPayload
   bytesToSign?: string;
   rawToSign?: any;
   estimates?: Estimate[];
+  policyViolation?: string;
+}
+
+export interface TempleReplaceOpsConfirmationPayload
+  extends TempleConfirmationPayloadBase {
+  type: "replace_operations";
+  networkRpc: string;
+  mode: "speed-up" | "cancel";
+  opHash: string;
+  contents: any[];
+  // Total fees in mutez
+  fee: string;
+  prevFee: string;
+  policyViolation?: string;
 }
 
 export type TempleConfirmationPayload =
   | TempleSignConfirmationPayload
-  | TempleOpsConfirmationPayload;
+  | TempleOpsConfirmationPayload
+  | TempleReplaceOpsConfirmationPayload;
 
 /**
  * DApp confirmation payloads
@@ -229,6 +382,12 @@ export interface TempleDAppPayloadBase {
 
 export interface TempleDAppConnectPayload extends TempleDAppPayloadBase {
   type: "connect";
+  scopes: TempleDAppScope[];
+  reputation?: TempleOriginReputation;
+  // Name of requested custom network
+  networkName?: string;
+  // Chain of the requested network, null if RPC is unreachable
+  chainId?: string | null;
 }
 
 export interface TempleDAppOperationsPayload extends TempleDAppPayloadBase {
@@ -239,6 +398,7 @@ export interface TempleDAppOperationsPayload extends TempleDAppPayloadBase {
   bytesToSign?: string;
   rawToSign?: any;
   estimates?: Estimate[];
+  policyViolation?: string;
 }
 
 export interface TempleDAppSignPayload extends TempleDAppPayloadBase {
@@ -246,12 +406,109 @@ export interface TempleDAppSignPayload extends TempleDAppPayloadBase {
   sourcePkh: string;
   payload: string;
   preview: any;
+  decoded?: TempleDecodedSignPayload;
 }
 
+export interface TempleDAppPermitPayload extends TempleDAppPayloadBase {
+  type: "permit";
+  sourcePkh: string;
+  contractAddress: string;
+  entrypoint: string;
+  // Decoded entrypoint parameter, that is permitted to be called with
+  params: TempleMichelineTreeNode;
+  counter: string;
+  paramsHash: string;
+  // Bytes to be signed
+  payload: string;
+  // Permit will be submitted to the contract right after signing
+  submit: boolean;
+}
+
+/**
+ * Human-readable sign payloads
+ */
+
+export type TempleSignWatermark =
+  | "block"
+  | "endorsement"
+  | "preendorsement"
+  | "operation";
+
+export interface TempleMichelineTreeNode {
+  type:
+    | "pair"
+    | "list"
+    | "map"
+    | "elt"
+    | "prim"
+    | "int"
+    | "string"
+    | "text"
+    | "bytes"
+    | "timestamp"
+    | "address"
+    | "key"
+    | "key_hash"
+    | "chain_id";
+  // Primitive name for "prim" nodes
+  label?: string;
+  value?: string;
+  children?: TempleMichelineTreeNode[];
+}
+
+export interface TemplePermitPreview {
+  chainId: string;
+  contract: string;
+  counter: string;
+  paramsHash: string;
+}
+
+export type TempleDecodedSignPayload =
+  | {
+      type: "micheline";
+      tree: TempleMichelineTreeNode;
+      // Text of "Tezos Signed Message" payloads
+      message?: string;
+      permit?: TemplePermitPreview;
+    }
+  | { type: "operation"; watermark: TempleSignWatermark | null }
+  | { type: "text"; text: string }
+  | { type: "hash"; hash: string }
+  | { type: "unknown" };
+
 export type TempleDAppPayload =
   | TempleDAppConnectPayload
   | TempleDAppOperationsPayload
-  | TempleDAppSignPayload;
+  | TempleDAppSignPayload
+  | TempleDAppPermitPayload;
+
+/**
+ * Confirmations waiting for user decision, both dApp and internal ones
+ */
+
+export interface TemplePendingConfirmationBase {
+  kind: string;
+  id: string;
+  // Timestamps in ms
+  requestedAt: number;
+  expiresAt: number;
+}
+
+export interface TemplePendingDAppConfirmation
+  extends TemplePendingConfirmationBase {
+  kind: "dapp";
+  payload: TempleDAppPayload;
+}
+
+export interface TemplePendingInternalConfirmation
+  extends TemplePendingConfirmationBase {
+  kind: "internal";
+  payload: TempleConfirmationPayload;
+}
+
+export type TemplePendingConfirmation =
+  | TemplePendingDAppConfirmation
+  | TemplePendingInternalConfirmation;
 
 /**
  * Messages
@@ -262,15 +519,20 @@ export enum TempleMessageType {
   StateUpdated = "TEMPLE_STATE_UPDATED",
   ConfirmationRequested = "TEMPLE_CONFIRMATION_REQUESTED",
   ConfirmationExpired = "TEMPLE_CONFIRMATION_EXPIRED",
+  PendingConfirmationsUpdated = "TEMPLE_PENDING_CONFIRMATIONS_UPDATED",
   // Request-Response pairs
   GetStateRequest = "TEMPLE_GET_STATE_REQUEST",
   GetStateResponse = "TEMPLE_GET_STATE_RESPONSE",
+  ActivityRequest = "TEMPLE_ACTIVITY_REQUEST",
+  ActivityResponse = "TEMPLE_ACTIVITY_RESPONSE",
   NewWalletRequest = "TEMPLE_NEW_WALLET_REQUEST",
   NewWalletResponse = "TEMPLE_NEW_WALLET_RESPONSE",
   UnlockRequest = "TEMPLE_UNLOCK_REQUEST",
   UnlockResponse = "TEMPLE_UNLOCK_RESPONSE",
   LockRequest = "TEMPLE_LOCK_REQUEST",
   LockResponse = "TEMPLE_LOCK_RESPONSE",
+  ChangePasswordRequest = "TEMPLE_CHANGE_PASSWORD_REQUEST",
+  ChangePasswordResponse = "TEMPLE_CHANGE_PASSWORD_RESPONSE",
   CreateAccountRequest = "TEMPLE_CREATE_ACCOUNT_REQUEST",
   CreateAccountResponse = "TEMPLE_CREATE_ACCOUNT_RESPONSE",
   RevealPublicKeyRequest = "TEMPLE_REVEAL_PUBLIC_KEY_REQUEST",
@@ -279,22 +541,44 @@ export enum TempleMessageType {
   RevealPrivateKeyResponse = "TEMPLE_REVEAL_PRIVATE_KEY_RESPONSE",
   RevealMnemonicRequest = "TEMPLE_REVEAL_MNEMONIC_REQUEST",
   RevealMnemonicResponse = "TEMPLE_REVEAL_MNEMONIC_RESPONSE",
+  CreateBackupRequest = "TEMPLE_CREATE_BACKUP_REQUEST",
+  CreateBackupResponse = "TEMPLE_CREATE_BACKUP_RESPONSE",
+  RestoreBackupRequest = "TEMPLE_RESTORE_BACKUP_REQUEST",
+  RestoreBackupResponse = "TEMPLE_RESTORE_BACKUP_RESPONSE",
   RemoveAccountRequest = "TEMPLE_REMOVE_ACCOUNT_REQUEST",
   RemoveAccountResponse = "TEMPLE_REMOVE_ACCOUNT_RESPONSE",
   EditAccountRequest = "TEMPLE_EDIT_ACCOUNT_REQUEST",
   EditAccountResponse = "TEMPLE_EDIT_ACCOUNT_RESPONSE",
+  ReorderAccountsRequest = "TEMPLE_REORDER_ACCOUNTS_REQUEST",
+  ReorderAccountsResponse = "TEMPLE_REORDER_ACCOUNTS_RESPONSE",
+  SetAccountGroupRequest = "TEMPLE_SET_ACCOUNT_GROUP_REQUEST",
+  SetAccountGroupResponse = "TEMPLE_SET_ACCOUNT_GROUP_RESPONSE",
+  SetAccountHiddenRequest = "TEMPLE_SET_ACCOUNT_HIDDEN_REQUEST",
+  SetAccountHiddenResponse = "TEMPLE_SET_ACCOUNT_HIDDEN_RESPONSE",
+  SetAccountPolicyRequest = "TEMPLE_SET_ACCOUNT_POLICY_REQUEST",
+  SetAccountPolicyResponse = "TEMPLE_SET_ACCOUNT_POLICY_RESPONSE",
   ImportAccountRequest = "TEMPLE_IMPORT_ACCOUNT_REQUEST",
   ImportAccountResponse = "TEMPLE_IMPORT_ACCOUNT_RESPONSE",
   ImportMnemonicAccountRequest = "TEMPLE_IMPORT_MNEMONIC_ACCOUNT_REQUEST",
   ImportMnemonicAccountResponse = "TEMPLE_IMPORT_MNEMONIC_ACCOUNT_RESPONSE",
+  DiscoverAccountsRequest = "TEMPLE_DISCOVER_ACCOUNTS_REQUEST",
+  DiscoverAccountsResponse = "TEMPLE_DISCOVER_ACCOUNTS_RESPONSE",
+  ImportDiscoveredAccountsRequest = "TEMPLE_IMPORT_DISCOVERED_ACCOUNTS_REQUEST",
+  ImportDiscoveredAccountsResponse = "TEMPLE_IMPORT_DISCOVERED_ACCOUNTS_RESPONSE",
   ImportFundraiserAccountRequest = "TEMPLE_IMPORT_FUNDRAISER_ACCOUNT_REQUEST",
   ImportFundraiserAccountResponse = "TEMPLE_IMPORT_FUNDRAISER_ACCOUNT_RESPONSE",
   ImportManagedKTAccountRequest = "TEMPLE_IMPORT_MANAGED_KT_ACCOUNT_REQUEST",
   ImportManagedKTAccountResponse = "TEMPLE_IMPORT_MANAGED_KT_ACCOUNT_RESPONSE",
   ImportWatchOnlyAccountRequest = "TEMPLE_IMPORT_WATCH_ONLY_ACCOUNT_REQUEST",
   ImportWatchOnlyAccountResponse = "TEMPLE_IMPORT_WATCH_ONLY_ACCOUNT_RESPONSE",
+  ImportMultisigAccountRequest = "TEMPLE_IMPORT_MULTISIG_ACCOUNT_REQUEST",
+  ImportMultisigAccountResponse = "TEMPLE_IMPORT_MULTISIG_ACCOUNT_RESPONSE",
   CreateLedgerAccountRequest = "TEMPLE_CREATE_LEDGER_ACCOUNT_REQUEST",
   CreateLedgerAccountResponse = "TEMPLE_CREATE_LEDGER_ACCOUNT_RESPONSE",
+  DiscoverLedgerAccountsRequest = "TEMPLE_DISCOVER_LEDGER_ACCOUNTS_REQUEST",
+  DiscoverLedgerAccountsResponse = "TEMPLE_DISCOVER_LEDGER_ACCOUNTS_RESPONSE",
+  CreateLedgerAccountsRequest = "TEMPLE_CREATE_LEDGER_ACCOUNTS_REQUEST",
+  CreateLedgerAccountsResponse = "TEMPLE_CREATE_LEDGER_ACCOUNTS_RESPONSE",
   UpdateSettingsRequest = "TEMPLE_UPDATE_SETTINGS_REQUEST",
   UpdateSettingsResponse = "TEMPLE_UPDATE_SETTINGS_RESPONSE",
   OperationsRequest = "TEMPLE_OPERATIONS_REQUEST",
@@ -317,29 +601,65 @@ export enum TempleMessageType {
   DAppGetAllSessionsResponse = "TEMPLE_DAPP_GET_ALL_SESSIONS_RESPONSE",
   DAppRemoveSessionRequest = "TEMPLE_DAPP_REMOVE_SESSION_REQUEST",
   DAppRemoveSessionResponse = "TEMPLE_DAPP_REMOVE_SESSION_RESPONSE",
+  DAppSetSessionScopesRequest = "TEMPLE_DAPP_SET_SESSION_SCOPES_REQUEST",
+  DAppSetSessionScopesResponse = "TEMPLE_DAPP_SET_SESSION_SCOPES_RESPONSE",
+  DAppSetAutoApprovePolicyRequest = "TEMPLE_DAPP_SET_AUTO_APPROVE_POLICY_REQUEST",
+  DAppSetAutoApprovePolicyResponse = "TEMPLE_DAPP_SET_AUTO_APPROVE_POLICY_RESPONSE",
+  DAppGetAutoApprovedOperationsRequest = "TEMPLE_DAPP_GET_AUTO_APPROVED_OPERATIONS_REQUEST",
+  DAppGetAutoApprovedOperationsResponse = "TEMPLE_DAPP_GET_AUTO_APPROVED_OPERATIONS_RESPONSE",
+  GetOriginExceptionsRequest = "TEMPLE_GET_ORIGIN_EXCEPTIONS_REQUEST",
+  GetOriginExceptionsResponse = "TEMPLE_GET_ORIGIN_EXCEPTIONS_RESPONSE",
+  SetOriginExceptionsRequest = "TEMPLE_SET_ORIGIN_EXCEPTIONS_REQUEST",
+  SetOriginExceptionsResponse = "TEMPLE_SET_ORIGIN_EXCEPTIONS_RESPONSE",
+  BeaconP2PPairRequest = "TEMPLE_BEACON_P2P_PAIR_REQUEST",
+  BeaconP2PPairResponse = "TEMPLE_BEACON_P2P_PAIR_RESPONSE",
+  BeaconP2PGetPairingsRequest = "TEMPLE_BEACON_P2P_GET_PAIRINGS_REQUEST",
+  BeaconP2PGetPairingsResponse = "TEMPLE_BEACON_P2P_GET_PAIRINGS_RESPONSE",
+  BeaconP2PRemovePairingRequest = "TEMPLE_BEACON_P2P_REMOVE_PAIRING_REQUEST",
+  BeaconP2PRemovePairingResponse = "TEMPLE_BEACON_P2P_REMOVE_PAIRING_RESPONSE",
+  GetPendingConfirmationsRequest = "TEMPLE_GET_PENDING_CONFIRMATIONS_REQUEST",
+  GetPendingConfirmationsResponse = "TEMPLE_GET_PENDING_CONFIRMATIONS_RESPONSE",
+  DeclineAllConfirmationsRequest = "TEMPLE_DECLINE_ALL_CONFIRMATIONS_REQUEST",
+  DeclineAllConfirmationsResponse = "TEMPLE_DECLINE_ALL_CONFIRMATIONS_RESPONSE",
+  ReplacePendingOperationRequest = "TEMPLE_REPLACE_PENDING_OPERATION_REQUEST",
+  ReplacePendingOperationResponse = "TEMPLE_REPLACE_PENDING_OPERATION_RESPONSE",
 }
 
 export type TempleNotification =
   | TempleStateUpdated
   | TempleConfirmationRequested
-  | TempleConfirmationExpired;
+  | TempleConfirmationExpired
+  | TemplePendingConfirmationsUpdated;
 
 export type TempleRequest =
   | TempleGetStateRequest
+  | TempleActivityRequest
   | TempleNewWalletRequest
   | TempleUnlockRequest
   | TempleLockRequest
+  | TempleChangePasswordRequest
   | TempleCreateAccountRequest
   | TempleRevealPublicKeyRequest
   | TempleRevealPrivateKeyRequest
   | TempleRevealMnemonicRequest
+  | TempleCreateBackupRequest
+  | TempleRestoreBackupRequest
   | TempleEditAccountRequest
+  | TempleReorderAccountsRequest
+  | TempleSetAccountGroupRequest
+  | TempleSetAccountHiddenRequest
+  | TempleSetAccountPolicyRequest
   | TempleImportAccountRequest
   | TempleImportMnemonicAccountRequest
+  | TempleDiscoverAccountsRequest
+  | TempleImportDiscoveredAccountsRequest
   | TempleImportFundraiserAccountRequest
   | TempleImportManagedKTAccountRequest
   | TempleImportWatchOnlyAccountRequest
+  | TempleImportMultisigAccountRequest
   | TempleCreateLedgerAccountRequest
+  | TempleDiscoverLedgerAccountsRequest
+  | TempleCreateLedgerAccountsRequest
   | TempleOperationsRequest
   | TempleSignRequest
   | TempleConfirmationRequest
@@ -351,24 +671,48 @@ export type TempleRequest =
   | TempleDAppSignConfirmationRequest
   | TempleUpdateSettingsRequest
   | TempleGetAllDAppSessionsRequest
-  | TempleRemoveDAppSessionRequest;
+  | TempleRemoveDAppSessionRequest
+  | TempleSetDAppSessionScopesRequest
+  | TempleSetDAppAutoApprovePolicyRequest
+  | TempleGetDAppAutoApprovedOperationsRequest
+  | TempleGetOriginExceptionsRequest
+  | TempleSetOriginExceptionsRequest
+  | TempleBeaconP2PPairRequest
+  | TempleBeaconP2PGetPairingsRequest
+  | TempleBeaconP2PRemovePairingRequest
+  | TempleGetPendingConfirmationsRequest
+  | TempleDeclineAllConfirmationsRequest
+  | TempleReplacePendingOperationRequest;
 
 export type TempleResponse =
   | TempleGetStateResponse
+  | TempleActivityResponse
   | TempleNewWalletResponse
   | TempleUnlockResponse
   | TempleLockResponse
+  | TempleChangePasswordResponse
   | TempleCreateAccountResponse
   | TempleRevealPublicKeyResponse
   | TempleRevealPrivateKeyResponse
   | TempleRevealMnemonicResponse
+  | TempleCreateBackupResponse
+  | TempleRestoreBackupResponse
   | TempleEditAccountResponse
+  | TempleReorderAccountsResponse
+  | TempleSetAccountGroupResponse
+  | TempleSetAccountHiddenResponse
+  | TempleSetAccountPolicyResponse
   | TempleImportAccountResponse
   | TempleImportMnemonicAccountResponse
+  | TempleDiscoverAccountsResponse
+  | TempleImportDiscoveredAccountsResponse
   | TempleImportFundraiserAccountResponse
   | TempleImportManagedKTAccountResponse
   | TempleImportWatchOnlyAccountResponse
+  | TempleImportMultisigAccountResponse
   | TempleCreateLedgerAccountResponse
+  | TempleDiscoverLedgerAccountsResponse
+  | TempleCreateLedgerAccountsResponse
   | TempleOperationsResponse
   | TempleSignResponse
   | TempleConfirmationResponse
@@ -380,7 +724,18 @@ export type TempleResponse =
   | TempleDAppSignConfirmationResponse
   | TempleUpdateSettingsResponse
   | TempleGetAllDAppSessionsResponse
-  | TempleRemoveDAppSessionResponse;
+  | TempleRemoveDAppSessionResponse
+  | TempleSetDAppSessionScopesResponse
+  | TempleSetDAppAutoApprovePolicyResponse
+  | TempleGetDAppAutoApprovedOperationsResponse
+  | TempleGetOriginExceptionsResponse
+  | TempleSetOriginExceptionsResponse
+  | TempleBeaconP2PPairResponse
+  | TempleBeaconP2PGetPairingsResponse
+  | TempleBeaconP2PRemovePairingResponse
+  | TempleGetPendingConfirmationsResponse
+  | TempleDeclineAllConfirmationsResponse
+  | TempleReplacePendingOperationResponse;
 
 export interface TempleMessageBase {
   type: TempleMessageType;
@@ -401,6 +756,10 @@ export interface TempleConfirmationExpired extends TempleMessageBase {
   id: string;
 }
 
+export interface TemplePendingConfirmationsUpdated extends TempleMessageBase {
+  type: TempleMessageType.PendingConfirmationsUpdated;
+}
+
 export interface TempleGetStateRequest extends TempleMessageBase {
   type: TempleMessageType.GetStateRequest;
 }
@@ -410,6 +769,14 @@ export interface TempleGetStateResponse extends TempleMessageBase {
   state: TempleState;
 }
 
+export interface TempleActivityRequest extends TempleMessageBase {
+  type: TempleMessageType.ActivityRequest;
+}
+
+export interface TempleActivityResponse extends TempleMessageBase {
+  type: TempleMessageType.ActivityResponse;
+}
+
 export interface TempleNewWalletRequest extends TempleMessageBase {
   type: TempleMessageType.NewWalletRequest;
   password: string;
@@ -437,9 +804,20 @@ export interface TempleLockResponse extends TempleMessageBase {
   type: TempleMessageType.LockResponse;
 }
 
+export interface TempleChangePasswordRequest extends TempleMessageBase {
+  type: TempleMessageType.ChangePasswordRequest;
+  password: string;
+  newPassword: string;
+}
+
+export interface TempleChangePasswordResponse extends TempleMessageBase {
+  type: TempleMessageType.ChangePasswordResponse;
+}
+
 export interface TempleCreateAccountRequest extends TempleMessageBase {
   type: TempleMessageType.CreateAccountRequest;
   name?: string;
+  derivationType?: DerivationType;
 }
 
 export interface TempleCreateAccountResponse extends TempleMessageBase {
@@ -477,6 +855,28 @@ export interface TempleRevealMnemonicResponse extends TempleMessageBase {
   mnemonic: string;
 }
 
+export interface TempleCreateBackupRequest extends TempleMessageBase {
+  type: TempleMessageType.CreateBackupRequest;
+  password: string;
+  backupPassword: string;
+}
+
+export interface TempleCreateBackupResponse extends TempleMessageBase {
+  type: TempleMessageType.CreateBackupResponse;
+  backup: string;
+}
+
+export interface TempleRestoreBackupRequest extends TempleMessageBase {
+  type: TempleMessageType.RestoreBackupRequest;
+  password: string;
+  backup: string;
+  backupPassword: string;
+}
+
+export interface TempleRestoreBackupResponse extends TempleMessageBase {
+  type: TempleMessageType.RestoreBackupResponse;
+}
+
 export interface TempleRemoveAccountRequest extends TempleMessageBase {
   type: TempleMessageType.RemoveAccountRequest;
   accountPublicKeyHash: string;
@@ -497,6 +897,45 @@ export interface TempleEditAccountResponse extends TempleMessageBase {
   type: TempleMessageType.EditAccountResponse;
 }
 
+export interface TempleReorderAccountsRequest extends TempleMessageBase {
+  type: TempleMessageType.ReorderAccountsRequest;
+  accountPublicKeyHashes: string[];
+}
+
+export interface TempleReorderAccountsResponse extends TempleMessageBase {
+  type: TempleMessageType.ReorderAccountsResponse;
+}
+
+export interface TempleSetAccountGroupRequest extends TempleMessageBase {
+  type: TempleMessageType.SetAccountGroupRequest;
+  accountPublicKeyHash: string;
+  groupName?: string;
+}
+
+export interface TempleSetAccountGroupResponse extends TempleMessageBase {
+  type: TempleMessageType.SetAccountGroupResponse;
+}
+
+export interface TempleSetAccountHiddenRequest extends TempleMessageBase {
+  type: TempleMessageType.SetAccountHiddenRequest;
+  accountPublicKeyHash: string;
+  hidden: boolean;
+}
+
+export interface TempleSetAccountHiddenResponse extends TempleMessageBase {
+  type: TempleMessageType.SetAccountHiddenResponse;
+}
+
+export interface TempleSetAccountPolicyRequest extends TempleMessageBase {
+  type: TempleMessageType.SetAccountPolicyRequest;
+  accountPublicKeyHash: string;
+  policy?: TempleAccountPolicy;
+}
+
+export interface TempleSetAccountPolicyResponse extends TempleMessageBase {
+  type: TempleMessageType.SetAccountPolicyResponse;
+}
+
 export interface TempleImportAccountRequest extends TempleMessageBase {
   type: TempleMessageType.ImportAccountRequest;
   privateKey: string;
@@ -512,12 +951,44 @@ export interface TempleImportMnemonicAccountRequest extends TempleMessageBase {
   mnemonic: string;
   password?: string;
   derivationPath?: string;
+  derivationType?: DerivationType;
 }
 
 export interface TempleImportMnemonicAccountResponse extends TempleMessageBase {
   type: TempleMessageType.ImportMnemonicAccountResponse;
 }
 
+export interface TempleDiscoverAccountsRequest extends TempleMessageBase {
+  type: TempleMessageType.DiscoverAccountsRequest;
+  rpcUrl: string;
+  derivationType?: DerivationType;
+  gapLimit?: number;
+  // Accounts are discovered from the wallet seed phrase if not set
+  mnemonic?: string;
+  password?: string;
+  // Account index is substituted in place of 'i'
+  derivationPath?: string;
+}
+
+export interface TempleDiscoverAccountsResponse extends TempleMessageBase {
+  type: TempleMessageType.DiscoverAccountsResponse;
+  accounts: TempleDiscoveredAccount[];
+}
+
+export interface TempleImportDiscoveredAccountsRequest
+  extends TempleMessageBase {
+  type: TempleMessageType.ImportDiscoveredAccountsRequest;
+  accounts: TempleDiscoveredAccount[];
+  derivationType?: DerivationType;
+  mnemonic?: string;
+  password?: string;
+}
+
+export interface TempleImportDiscoveredAccountsResponse
+  extends TempleMessageBase {
+  type: TempleMessageType.ImportDiscoveredAccountsResponse;
+}
+
 export interface TempleImportFundraiserAccountRequest
   extends TempleMessageBase {
   type: TempleMessageType.ImportFundraiserAccountRequest;
@@ -554,6 +1025,16 @@ export interface TempleImportWatchOnlyAccountResponse
   type: TempleMessageType.ImportWatchOnlyAccountResponse;
 }
 
+export interface TempleImportMultisigAccountRequest extends TempleMessageBase {
+  type: TempleMessageType.ImportMultisigAccountRequest;
+  address: string;
+  networkRpc: string;
+}
+
+export interface TempleImportMultisigAccountResponse extends TempleMessageBase {
+  type: TempleMessageType.ImportMultisigAccountResponse;
+}
+
 export interface TempleCreateLedgerAccountRequest extends TempleMessageBase {
   type: TempleMessageType.CreateLedgerAccountRequest;
   name: string;
@@ -565,6 +1046,28 @@ export interface TempleCreateLedgerAccountResponse extends TempleMessageBase {
   type: TempleMessageType.CreateLedgerAccountResponse;
 }
 
+export interface TempleDiscoverLedgerAccountsRequest extends TempleMessageBase {
+  type: TempleMessageType.DiscoverLedgerAccountsRequest;
+  derivationTypes: DerivationType[];
+  fromIndex: number;
+  count: number;
+}
+
+export interface TempleDiscoverLedgerAccountsResponse
+  extends TempleMessageBase {
+  type: TempleMessageType.DiscoverLedgerAccountsResponse;
+  accounts: TempleLedgerDiscoveredAccount[];
+}
+
+export interface TempleCreateLedgerAccountsRequest extends TempleMessageBase {
+  type: TempleMessageType.CreateLedgerAccountsRequest;
+  accounts: TempleLedgerDiscoveredAccount[];
+}
+
+export interface TempleCreateLedgerAccountsResponse extends TempleMessageBase {
+  type: TempleMessageType.CreateLedgerAccountsResponse;
+}
+
 export interface TempleUpdateSettingsRequest extends TempleMessageBase {
   type: TempleMessageType.UpdateSettingsRequest;
   settings: Partial<TempleSettings>;
@@ -642,6 +1145,12 @@ export interface TempleDAppPermConfirmationRequest extends TempleMessageBase {
   confirmed: boolean;
   accountPublicKey: string;
   accountPublicKeyHash: string;
+  accounts?: TempleDAppSessionAccount[];
+  scopes?: TempleDAppScope[];
+  // Session lifetime in ms
+  sessionTtl?: number;
+  // User's network to map requested one onto
+  networkRpc?: string;
 }
 
 export interface TempleDAppPermConfirmationResponse extends TempleMessageBase {
@@ -689,6 +1198,126 @@ export interface TempleRemoveDAppSessionResponse extends TempleMessageBase {
   sessions: TempleDAppSessions;
 }
 
+export interface TempleSetDAppSessionScopesRequest extends TempleMessageBase {
+  type: TempleMessageType.DAppSetSessionScopesRequest;
+  origin: string;
+  scopes: TempleDAppScope[];
+}
+
+export interface TempleSetDAppSessionScopesResponse extends TempleMessageBase {
+  type: TempleMessageType.DAppSetSessionScopesResponse;
+  sessions: TempleDAppSessions;
+}
+
+export interface TempleSetDAppAutoApprovePolicyRequest
+  extends TempleMessageBase {
+  type: TempleMessageType.DAppSetAutoApprovePolicyRequest;
+  origin: string;
+  policy: TempleDAppAutoApprovePolicy | null;
+}
+
+export interface TempleSetDAppAutoApprovePolicyResponse
+  extends TempleMessageBase {
+  type: TempleMessageType.DAppSetAutoApprovePolicyResponse;
+  sessions: TempleDAppSessions;
+}
+
+export interface TempleGetDAppAutoApprovedOperationsRequest
+  extends TempleMessageBase {
+  type: TempleMessageType.DAppGetAutoApprovedOperationsRequest;
+  origin: string;
+}
+
+export interface TempleGetDAppAutoApprovedOperationsResponse
+  extends TempleMessageBase {
+  type: TempleMessageType.DAppGetAutoApprovedOperationsResponse;
+  operations: TempleDAppAutoApprovedOperation[];
+}
+
+export interface TempleGetOriginExceptionsRequest extends TempleMessageBase {
+  type: TempleMessageType.GetOriginExceptionsRequest;
+}
+
+export interface TempleGetOriginExceptionsResponse extends TempleMessageBase {
+  type: TempleMessageType.GetOriginExceptionsResponse;
+  exceptions: string[];
+}
+
+export interface TempleSetOriginExceptionsRequest extends TempleMessageBase {
+  type: TempleMessageType.SetOriginExceptionsRequest;
+  exceptions: string[];
+}
+
+export interface TempleSetOriginExceptionsResponse extends TempleMessageBase {
+  type: TempleMessageType.SetOriginExceptionsResponse;
+  exceptions: string[];
+}
+
+export interface TempleBeaconP2PPairRequest extends TempleMessageBase {
+  type: TempleMessageType.BeaconP2PPairRequest;
+  pairingCode: string;
+}
+
+export interface TempleBeaconP2PPairResponse extends TempleMessageBase {
+  type: TempleMessageType.BeaconP2PPairResponse;
+  pairing: TempleBeaconP2PPairing;
+}
+
+export interface TempleBeaconP2PGetPairingsRequest extends TempleMessageBase {
+  type: TempleMessageType.BeaconP2PGetPairingsRequest;
+}
+
+export interface TempleBeaconP2PGetPairingsResponse extends TempleMessageBase {
+  type: TempleMessageType.BeaconP2PGetPairingsResponse;
+  pairings: TempleBeaconP2PPairing[];
+}
+
+export interface TempleBeaconP2PRemovePairingRequest extends TempleMessageBase {
+  type: TempleMessageType.BeaconP2PRemovePairingRequest;
+  id: string;
+}
+
+export interface TempleBeaconP2PRemovePairingResponse
+  extends TempleMessageBase {
+  type: TempleMessageType.BeaconP2PRemovePairingResponse;
+  pairings: TempleBeaconP2PPairing[];
+}
+
+export interface TempleGetPendingConfirmationsRequest
+  extends TempleMessageBase {
+  type: TempleMessageType.GetPendingConfirmationsRequest;
+}
+
+export interface TempleGetPendingConfirmationsResponse
+  extends TempleMessageBase {
+  type: TempleMessageType.GetPendingConfirmationsResponse;
+  confirmations: TemplePendingConfirmation[];
+}
+
+export interface TempleDeclineAllConfirmationsRequest
+  extends TempleMessageBase {
+  type: TempleMessageType.DeclineAllConfirmationsRequest;
+}
+
+export interface TempleDeclineAllConfirmationsResponse
+  extends TempleMessageBase {
+  type: TempleMessageType.DeclineAllConfirmationsResponse;
+}
+
+export interface TempleReplacePendingOperationRequest
+  extends TempleMessageBase {
+  type: TempleMessageType.ReplacePendingOperationRequest;
+  id: string;
+  opHash: string;
+  mode: "speed-up" | "cancel";
+}
+
+export interface TempleReplacePendingOperationResponse
+  extends TempleMessageBase {
+  type: TempleMessageType.ReplacePendingOperationResponse;
+  opHash: string;
+}
+
 export type OperationsPreview = any[] | { branch: string; contents: any[] };
 
 export enum ImportAccountFormType {
@@ -698,4 +1327,5 @@ export enum ImportAccountFormType {
   FaucetFile = "ImportAccountFormType.FaucetFile",
   ManagedKT = "ImportAccountFormType.ManagedKT",
   WatchOnly = "ImportAccountFormType.WatchOnly",
+  Multisig = "ImportAccountFormType.Multisig",
 }
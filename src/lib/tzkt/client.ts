@@ -3,6 +3,7 @@ import axios, { AxiosError } from "axios";
 import { TempleChainId } from "lib/temple/types";
 import {
   allInt32ParameterKeys,
+  TzktAccount,
   TzktGetOperationsParams,
   TzktGetRewardsParams,
   TzktGetRewardsResponse,
@@ -23,7 +24,8 @@ api.interceptors.response.use(
   (res) => res,
   (err) => {
     console.error(err);
-    const { message } = (err as AxiosError).response?.data;
+    const message =
+      (err as AxiosError).response?.data?.message ?? (err as Error).message;
     throw new Error(`Failed when querying Tzkt API: ${message}`);
   }
 );
@@ -42,6 +44,15 @@ export const getOperations = makeQuery<
   })
 );
 
+type GetAccountParams = {
+  address: string;
+};
+
+export const getAccount = makeQuery<GetAccountParams, TzktAccount>(
+  ({ address }) => `/accounts/${address}`,
+  () => ({})
+);
+
 type GetUserContractsParams = {
   account: string;
 };
@@ -77,9 +88,13 @@ function makeQuery<P extends Record<string, unknown>, R>(
   url: (params: P) => string,
   searchParams: (params: P) => Record<string, unknown>
 ) {
-  return async (chainId: TempleChainId, params: P) => {
+  return async (
+    chainId: TempleChainId,
+    params: P,
+    baseURL = TZKT_API_BASE_URLS.get(chainId)
+  ) => {
     const { data } = await api.get<R>(url(params), {
-      baseURL: TZKT_API_BASE_URLS.get(chainId),
+      baseURL,
       params: searchParams(params),
     });
 
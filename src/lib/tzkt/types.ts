@@ -63,7 +63,8 @@ export type TzktGetOperationsParams = {
   quote?: TzktQuoteCurrency[];
 };
 
-export type TzktQuote = Partial<Record<TzktQuoteCurrency, number>>;
+// Quote fields are returned in lower case, e.g. `{ usd: 3.5 }`
+export type TzktQuote = Partial<Record<Lowercase<TzktQuoteCurrency>, number>>;
 
 export interface TzktDelegationOperation extends TzktOperationBase {
   type: "delegation";
@@ -103,6 +104,19 @@ export type TzktDelegateInfo = {
   active: boolean;
 };
 
+// "empty" accounts have never been met on chain, including token transfers
+export type TzktAccountType =
+  | "user"
+  | "delegate"
+  | "contract"
+  | "ghost"
+  | "empty";
+
+export type TzktAccount = {
+  type: TzktAccountType;
+  address?: string;
+};
+
 export type TzktRelatedContract = {
   kind: TzktContractType;
   alias?: string;
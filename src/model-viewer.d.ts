@@ -0,0 +1 @@
+declare module "@google/model-viewer";
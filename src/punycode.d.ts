@@ -0,0 +1,4 @@
+// Userland package, not the deprecated Node.js built-in
+declare module "punycode/" {
+  export * from "punycode";
+}
@@ -0,0 +1,108 @@
+import type { CollectibleViewerMedia } from "lib/temple/collectibles";
+
+/**
+ * Collectible artifacts are rendered here, in a page with unique origin,
+ * so they have no access to extension APIs and wallet storage
+ */
+
+let modelViewerLoading: Promise<void> | null = null;
+
+render();
+window.addEventListener("hashchange", render);
+
+function render() {
+  const root = document.getElementById("root")!;
+  root.innerHTML = "";
+
+  const media = parseMedia(window.location.hash.slice(1));
+  if (!media) return;
+
+  switch (media.type) {
+    case "image":
+      root.appendChild(createImage(media.uri));
+      break;
+
+    case "video":
+      root.appendChild(createVideo(media.uri, media.poster));
+      break;
+
+    case "model":
+      loadModelViewer()
+        .then(() => root.appendChild(createModel(media.uri, media.poster)))
+        .catch(() => {
+          // 3D viewer chunk may fail to load, show a poster instead
+          if (media.poster) {
+            root.appendChild(createImage(media.poster));
+          }
+        });
+      break;
+  }
+}
+
+function createImage(uri: string) {
+  const img = document.createElement("img");
+  img.src = uri;
+  img.alt = "";
+  return img;
+}
+
+function createVideo(uri: string, poster?: string) {
+  const video = document.createElement("video");
+  video.src = uri;
+  if (poster) video.poster = poster;
+  video.autoplay = true;
+  video.muted = true;
+  video.loop = true;
+  video.controls = true;
+  video.playsInline = true;
+  return video;
+}
+
+function createModel(uri: string, poster?: string) {
+  const model = document.createElement("model-viewer");
+  model.setAttribute("src", uri);
+  if (poster) model.setAttribute("poster", poster);
+  model.setAttribute("camera-controls", "");
+  model.setAttribute("auto-rotate", "");
+  return model;
+}
+
+function loadModelViewer() {
+  if (!modelViewerLoading) {
+    // Bundled viewer is large, so it is loaded only for 3D artifacts
+    modelViewerLoading = import("@google/model-viewer").then(
+      () => undefined,
+      (err) => {
+        modelViewerLoading = null;
+        throw err;
+      }
+    );
+  }
+
+  return modelViewerLoading;
+}
+
+function parseMedia(hash: string): CollectibleViewerMedia | null {
+  try {
+    const media = JSON.parse(decodeURIComponent(hash));
+    if (
+      !["image", "video", "model"].includes(media?.type) ||
+      !isHttpsUri(media.uri) ||
+      (media.poster !== undefined && !isHttpsUri(media.poster))
+    ) {
+      return null;
+    }
+
+    return media;
+  } catch {
+    return null;
+  }
+}
+
+function isHttpsUri(value: any) {
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
@@ -101,12 +101,17 @@ const HTML_TEMPLATES = [
     path: path.join(PUBLIC_PATH, "options.html"),
     chunks: ["options"],
   },
+  {
+    path: path.join(PUBLIC_PATH, "sandbox.html"),
+    chunks: ["sandbox"],
+  },
 ];
 const ENTRIES = {
   popup: path.join(SOURCE_PATH, "popup.tsx"),
   fullpage: path.join(SOURCE_PATH, "fullpage.tsx"),
   confirm: path.join(SOURCE_PATH, "confirm.tsx"),
   options: path.join(SOURCE_PATH, "options.tsx"),
+  sandbox: path.join(SOURCE_PATH, "sandbox.ts"),
   background: path.join(SOURCE_PATH, "background.ts"),
   contentScript: path.join(SOURCE_PATH, "contentScript.ts"),
 };
@@ -114,9 +119,16 @@ const ENTRIES = {
 const EXTENSION_ENTRIES = {
   contentScript: "contentScript",
   background: "background",
-  extensionPage: ["commons", "popup", "fullpage", "confirm", "options"],
+  extensionPage: [
+    "commons",
+    "popup",
+    "fullpage",
+    "confirm",
+    "options",
+    "sandbox",
+  ],
 };
-const SEPARATED_CHUNKS = new Set(["background", "contentScript"]);
+const SEPARATED_CHUNKS = new Set(["background", "contentScript", "sandbox"]);
 const MANIFEST_PATH = path.join(PUBLIC_PATH, "manifest.json");
 const MODULE_FILE_EXTENSIONS = [".js", ".mjs", ".jsx", ".ts", ".tsx", ".json"];
 const ADDITIONAL_MODULE_PATHS = [
@@ -370,7 +382,9 @@ module.exports = {
         new HtmlWebpackPlugin({
           template: htmlTemplate.path,
           filename: path.basename(htmlTemplate.path),
-          chunks: [...htmlTemplate.chunks, "commons"],
+          chunks: htmlTemplate.chunks.some((c) => SEPARATED_CHUNKS.has(c))
+            ? htmlTemplate.chunks
+            : [...htmlTemplate.chunks, "commons"],
           inject: "body",
           ...(NODE_ENV === "production"
             ? {